@@ -0,0 +1,411 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { useToast } from "../context/ToastContext";
+import { sessionService } from "../services/sessionService";
+import { Session, Speaker } from "../types";
+import { toZonedInput } from "../utils/timeZone";
+import { Button } from "./ui/Button";
+import Modal from "./ui/Modal";
+import FormField from "./ui/FormField";
+import AgendaTimeline from "./ui/AgendaTimeline";
+import { getApiErrorMessage } from "../utils/apiError";
+
+interface AgendaManagerProps {
+  eventId: number;
+  timeZone: string;
+}
+
+const emptySessionForm = {
+  title: "",
+  description: "",
+  startsAt: "",
+  endsAt: "",
+  room: "",
+  capacity: "",
+  speakerIds: [] as number[],
+};
+
+export function AgendaManager({ eventId, timeZone }: AgendaManagerProps) {
+  const { success, error: showError } = useToast();
+
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [speakers, setSpeakers] = useState<Speaker[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // No selected session means the form creates one
+  const [isSessionModalOpen, setIsSessionModalOpen] = useState(false);
+  const [selectedSession, setSelectedSession] = useState<Session | null>(null);
+  const [sessionForm, setSessionForm] = useState(emptySessionForm);
+  const [sessionToDelete, setSessionToDelete] = useState<Session | null>(null);
+  const [speakerForm, setSpeakerForm] = useState({ name: "", headline: "" });
+
+  const loadAgenda = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [sessionResponse, speakerResponse] = await Promise.all([
+        sessionService.getSessions(eventId),
+        sessionService.getSpeakers(eventId),
+      ]);
+      setSessions(sessionResponse.sessions);
+      setSpeakers(speakerResponse.speakers);
+    } catch (error) {
+      console.error("Load agenda error:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    loadAgenda();
+  }, [loadAgenda]);
+
+  const handleCreateSession = () => {
+    setSelectedSession(null);
+    setSessionForm(emptySessionForm);
+    setIsSessionModalOpen(true);
+  };
+
+  const handleEditSession = (session: Session) => {
+    setSelectedSession(session);
+    setSessionForm({
+      title: session.title,
+      description: session.description || "",
+      startsAt: toZonedInput(session.startsAt, timeZone),
+      endsAt: toZonedInput(session.endsAt, timeZone),
+      room: session.room || "",
+      capacity: session.capacity?.toString() || "",
+      speakerIds: (session.speakers || []).map((speaker) => speaker.id),
+    });
+    setIsSessionModalOpen(true);
+  };
+
+  const handleSessionFormChange = (
+    e: React.ChangeEvent<
+      HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement
+    >
+  ) => {
+    const { name, value } = e.target;
+    setSessionForm((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const toggleSpeaker = (speakerId: number) => {
+    setSessionForm((prev) => ({
+      ...prev,
+      speakerIds: prev.speakerIds.includes(speakerId)
+        ? prev.speakerIds.filter((id) => id !== speakerId)
+        : [...prev.speakerIds, speakerId],
+    }));
+  };
+
+  const handleSaveSession = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const sessionData = {
+        title: sessionForm.title,
+        description: sessionForm.description || null,
+        startsAt: sessionForm.startsAt,
+        endsAt: sessionForm.endsAt,
+        room: sessionForm.room || null,
+        capacity: sessionForm.capacity ? Number(sessionForm.capacity) : null,
+        speakerIds: sessionForm.speakerIds,
+      };
+      if (selectedSession) {
+        await sessionService.updateSession(
+          eventId,
+          selectedSession.id,
+          sessionData
+        );
+      } else {
+        await sessionService.createSession(eventId, sessionData);
+      }
+      success(selectedSession ? "Session updated" : "Session added");
+      setIsSessionModalOpen(false);
+      setSelectedSession(null);
+      await loadAgenda();
+    } catch (error: unknown) {
+      showError(getApiErrorMessage(error, "Failed to save session"));
+    }
+  };
+
+  const handleDeleteSession = async () => {
+    if (!sessionToDelete) return;
+
+    try {
+      await sessionService.deleteSession(eventId, sessionToDelete.id);
+      success("Session removed");
+      setSessionToDelete(null);
+      await loadAgenda();
+    } catch (error: unknown) {
+      showError(getApiErrorMessage(error, "Failed to remove session"));
+    }
+  };
+
+  const handleAddSpeaker = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!speakerForm.name.trim()) return;
+
+    try {
+      await sessionService.createSpeaker(eventId, {
+        name: speakerForm.name.trim(),
+        headline: speakerForm.headline.trim() || null,
+      });
+      success("Speaker added");
+      setSpeakerForm({ name: "", headline: "" });
+      await loadAgenda();
+    } catch (error: unknown) {
+      showError(getApiErrorMessage(error, "Failed to add speaker"));
+    }
+  };
+
+  const handleRemoveSpeaker = async (speaker: Speaker) => {
+    try {
+      await sessionService.deleteSpeaker(eventId, speaker.id);
+      success("Speaker removed");
+      await loadAgenda();
+    } catch (error: unknown) {
+      showError(getApiErrorMessage(error, "Failed to remove speaker"));
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow mb-8">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">
+            Agenda ({sessions.length})
+          </h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Sessions run inside the event's time slot. Times are in {timeZone}.
+          </p>
+        </div>
+        <Button size="sm" onClick={handleCreateSession}>
+          Add Session
+        </Button>
+      </div>
+
+      <div className="p-6 grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <div className="lg:col-span-2">
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : sessions.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              No sessions yet. Add talks and workshops to build the agenda.
+            </div>
+          ) : (
+            <AgendaTimeline
+              sessions={sessions}
+              timeZone={timeZone}
+              renderActions={(session) => (
+                <div className="flex gap-3">
+                  <button
+                    type="button"
+                    onClick={() => handleEditSession(session)}
+                    className="text-sm font-medium text-blue-600 hover:text-blue-800"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setSessionToDelete(session)}
+                    className="text-sm font-medium text-red-600 hover:text-red-800"
+                  >
+                    Remove
+                  </button>
+                </div>
+              )}
+            />
+          )}
+        </div>
+
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900 mb-3">
+            Speakers ({speakers.length})
+          </h3>
+          <form onSubmit={handleAddSpeaker} className="space-y-2 mb-4">
+            <input
+              type="text"
+              value={speakerForm.name}
+              onChange={(e) =>
+                setSpeakerForm((prev) => ({ ...prev, name: e.target.value }))
+              }
+              placeholder="Name"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 sm:text-sm"
+            />
+            <input
+              type="text"
+              value={speakerForm.headline}
+              onChange={(e) =>
+                setSpeakerForm((prev) => ({
+                  ...prev,
+                  headline: e.target.value,
+                }))
+              }
+              placeholder="Role and affiliation (optional)"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 sm:text-sm"
+            />
+            <Button
+              type="submit"
+              size="sm"
+              variant="outline"
+              disabled={!speakerForm.name.trim()}
+            >
+              Add Speaker
+            </Button>
+          </form>
+          <ul className="divide-y divide-gray-200">
+            {speakers.map((speaker) => (
+              <li
+                key={speaker.id}
+                className="py-2 flex items-center justify-between gap-3"
+              >
+                <div>
+                  <p className="text-sm font-medium text-gray-900">
+                    {speaker.name}
+                  </p>
+                  {speaker.headline && (
+                    <p className="text-xs text-gray-500">{speaker.headline}</p>
+                  )}
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleRemoveSpeaker(speaker)}
+                  className="text-sm font-medium text-red-600 hover:text-red-800"
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+
+      {/* Create/Edit Session Modal */}
+      <Modal
+        isOpen={isSessionModalOpen}
+        onClose={() => setIsSessionModalOpen(false)}
+        title={selectedSession ? "Edit Session" : "Add Session"}
+      >
+        <form onSubmit={handleSaveSession}>
+          <FormField
+            label="Title"
+            name="title"
+            value={sessionForm.title}
+            onChange={handleSessionFormChange}
+            required
+          />
+          <FormField
+            label="Description"
+            name="description"
+            type="textarea"
+            value={sessionForm.description}
+            onChange={handleSessionFormChange}
+          />
+          <div className="grid grid-cols-2 gap-4">
+            <FormField
+              label="Starts"
+              name="startsAt"
+              type="datetime-local"
+              value={sessionForm.startsAt}
+              onChange={handleSessionFormChange}
+              required
+            />
+            <FormField
+              label="Ends"
+              name="endsAt"
+              type="datetime-local"
+              value={sessionForm.endsAt}
+              onChange={handleSessionFormChange}
+              required
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <FormField
+              label="Room"
+              name="room"
+              value={sessionForm.room}
+              onChange={handleSessionFormChange}
+            />
+            <FormField
+              label="Capacity"
+              name="capacity"
+              type="number"
+              placeholder="Unlimited"
+              value={sessionForm.capacity}
+              onChange={handleSessionFormChange}
+            />
+          </div>
+
+          {speakers.length > 0 && (
+            <div className="mb-4">
+              <p className="block text-sm font-medium text-gray-700 mb-2">
+                Speakers
+              </p>
+              <div className="flex flex-wrap gap-3">
+                {speakers.map((speaker) => (
+                  <label
+                    key={speaker.id}
+                    className="inline-flex items-center gap-2 text-sm text-gray-700"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={sessionForm.speakerIds.includes(speaker.id)}
+                      onChange={() => toggleSpeaker(speaker.id)}
+                      className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                    />
+                    {speaker.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={() => setIsSessionModalOpen(false)}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              {selectedSession ? "Update Session" : "Add Session"}
+            </button>
+          </div>
+        </form>
+      </Modal>
+
+      {/* Delete Session Confirmation Modal */}
+      <Modal
+        isOpen={!!sessionToDelete}
+        onClose={() => setSessionToDelete(null)}
+        title="Remove Session"
+      >
+        <div>
+          <p className="text-sm text-gray-500 mb-4">
+            Are you sure you want to remove "{sessionToDelete?.title}" from the
+            agenda? Everyone registered for it will be notified.
+          </p>
+          <div className="flex justify-end space-x-3">
+            <button
+              onClick={() => setSessionToDelete(null)}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleDeleteSession}
+              className="px-4 py-2 text-sm font-medium text-white bg-red-600 border border-transparent rounded-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              Remove Session
+            </button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+}
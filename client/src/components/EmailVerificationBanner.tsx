@@ -0,0 +1,46 @@
+import { useState } from "react";
+import { useAuth } from "../hooks/useAuth";
+import { useToast } from "../context/ToastContext";
+import { authService } from "../services/authService";
+import { getApiErrorMessage } from "../utils/apiError";
+
+export function EmailVerificationBanner() {
+  const { user } = useAuth();
+  const { success, error: showError } = useToast();
+  const [sending, setSending] = useState(false);
+
+  if (!user || user.emailVerifiedAt) {
+    return null;
+  }
+
+  const handleResend = async () => {
+    setSending(true);
+    try {
+      const response = await authService.resendVerificationEmail();
+      success(response.message);
+    } catch (error: unknown) {
+      showError(getApiErrorMessage(error, "Failed to send verification email"));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="bg-yellow-50 border-b border-yellow-200">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+        <p className="text-sm text-yellow-800">
+          Please verify your email address <strong>{user.email}</strong> to
+          start reserving spots. Check your inbox for the verification link.
+        </p>
+        <button
+          type="button"
+          onClick={handleResend}
+          disabled={sending}
+          className="text-sm font-medium text-yellow-900 underline hover:text-yellow-700 disabled:opacity-50"
+        >
+          {sending ? "Sending..." : "Resend email"}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { useCallback, useEffect, useState } from "react";
+import { useToast } from "../context/ToastContext";
+import { sessionService } from "../services/sessionService";
+import { Session } from "../types";
+import { getApiErrorMessage } from "../utils/apiError";
+import AgendaTimeline from "./ui/AgendaTimeline";
+
+interface EventAgendaProps {
+  eventId: number;
+  timeZone: string;
+  // Attendees with a confirmed reservation can pick sessions
+  canRegister: boolean;
+}
+
+// Agenda of an event for attendees; renders nothing for events without one
+export function EventAgenda({
+  eventId,
+  timeZone,
+  canRegister,
+}: EventAgendaProps) {
+  const { success, error: showError } = useToast();
+
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [registeredIds, setRegisteredIds] = useState<Set<number>>(new Set());
+  const [pendingId, setPendingId] = useState<number | null>(null);
+
+  const loadAgenda = useCallback(async () => {
+    try {
+      const response = await sessionService.getSessions(eventId);
+      setSessions(response.sessions);
+      if (canRegister && response.sessions.length > 0) {
+        const registrations = await sessionService.getMyRegistrations(eventId);
+        setRegisteredIds(new Set(registrations.sessionIds));
+      }
+    } catch (error) {
+      console.error("Load agenda error:", error);
+    }
+  }, [eventId, canRegister]);
+
+  useEffect(() => {
+    loadAgenda();
+  }, [loadAgenda]);
+
+  const handleToggle = async (session: Session) => {
+    setPendingId(session.id);
+    try {
+      if (registeredIds.has(session.id)) {
+        await sessionService.cancelRegistration(eventId, session.id);
+        success(`Left "${session.title}"`);
+      } else {
+        await sessionService.register(eventId, session.id);
+        success(`Registered for "${session.title}"`);
+      }
+      await loadAgenda();
+    } catch (error: unknown) {
+      showError(getApiErrorMessage(error, "Failed to update session"));
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  if (sessions.length === 0) {
+    return null;
+  }
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold text-gray-900 mb-3">Agenda</h3>
+      <AgendaTimeline
+        sessions={sessions}
+        timeZone={timeZone}
+        renderActions={
+          canRegister
+            ? (session) => {
+                const isRegistered = registeredIds.has(session.id);
+                if (new Date(session.startsAt) <= new Date()) {
+                  return isRegistered ? (
+                    <span className="text-xs font-medium text-green-600">
+                      Registered
+                    </span>
+                  ) : null;
+                }
+                return (
+                  <button
+                    type="button"
+                    onClick={() => handleToggle(session)}
+                    disabled={
+                      pendingId === session.id ||
+                      (!isRegistered && session.availableSpots === 0)
+                    }
+                    className={`px-3 py-1 text-xs font-medium rounded-md disabled:opacity-50 ${
+                      isRegistered
+                        ? "text-red-600 bg-red-50 hover:bg-red-100"
+                        : "text-white bg-blue-600 hover:bg-blue-700"
+                    }`}
+                  >
+                    {isRegistered
+                      ? "Leave"
+                      : session.availableSpots === 0
+                      ? "Full"
+                      : "Join"}
+                  </button>
+                );
+              }
+            : undefined
+        }
+      />
+      {!canRegister && (
+        <p className="text-xs text-gray-500 mt-3">
+          Reserve a spot at the event to register for sessions.
+        </p>
+      )}
+    </div>
+  );
+}
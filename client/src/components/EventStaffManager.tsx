@@ -0,0 +1,187 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { useToast } from "../context/ToastContext";
+import { eventService } from "../services/eventService";
+import { EventStaffMember, EventStaffRole } from "../types";
+import { Button } from "./ui/Button";
+import { getApiErrorMessage } from "../utils/apiError";
+
+const STAFF_ROLE_OPTIONS: { value: EventStaffRole; label: string }[] = [
+  { value: "co_organizer", label: "Co-organizer" },
+  { value: "checkin_staff", label: "Check-in staff" },
+];
+
+interface EventStaffManagerProps {
+  eventId: number;
+  // Only the event owner (or an admin) can add, change or remove staff
+  canManageStaff: boolean;
+}
+
+export function EventStaffManager({
+  eventId,
+  canManageStaff,
+}: EventStaffManagerProps) {
+  const { success, error: showError } = useToast();
+
+  const [staff, setStaff] = useState<EventStaffMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<EventStaffRole>("checkin_staff");
+  const [submitting, setSubmitting] = useState(false);
+
+  const loadStaff = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await eventService.getEventStaff(eventId);
+      setStaff(response.staff);
+    } catch (error) {
+      console.error("Load event staff error:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    loadStaff();
+  }, [loadStaff]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+
+    setSubmitting(true);
+    try {
+      await eventService.assignEventStaff(eventId, email.trim(), role);
+      success("Staff member added");
+      setEmail("");
+      await loadStaff();
+    } catch (error: unknown) {
+      showError(getApiErrorMessage(error, "Failed to add staff member"));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRoleChange = async (
+    member: EventStaffMember,
+    newRole: EventStaffRole
+  ) => {
+    try {
+      await eventService.updateEventStaff(eventId, member.id, newRole);
+      success("Staff role updated");
+      await loadStaff();
+    } catch (error: unknown) {
+      showError(getApiErrorMessage(error, "Failed to update staff role"));
+    }
+  };
+
+  const handleRemove = async (member: EventStaffMember) => {
+    try {
+      await eventService.removeEventStaff(eventId, member.id);
+      success("Staff member removed");
+      await loadStaff();
+    } catch (error: unknown) {
+      showError(getApiErrorMessage(error, "Failed to remove staff member"));
+    }
+  };
+
+  const describeMember = (member: EventStaffMember) =>
+    member.user?.firstName
+      ? `${member.user.firstName} ${member.user.lastName || ""}`.trim()
+      : member.user?.email || `User #${member.userId}`;
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mb-8">
+      <h2 className="text-xl font-semibold text-gray-900 mb-1">
+        Event Staff ({staff.length})
+      </h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Co-organizers can edit the event and manage its reservations. Check-in
+        staff can view reservations and check in guests.
+      </p>
+
+      {canManageStaff && (
+        <form onSubmit={handleAdd} className="flex flex-wrap gap-3 mb-6">
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="User email"
+            className="flex-1 min-w-[12rem] px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <select
+            value={role}
+            onChange={(e) => setRole(e.target.value as EventStaffRole)}
+            className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 sm:text-sm"
+          >
+            {STAFF_ROLE_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <Button type="submit" loading={submitting} disabled={!email.trim()}>
+            Add Staff
+          </Button>
+        </form>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : staff.length === 0 ? (
+        <div className="text-center py-6 text-gray-500">
+          No staff assigned to this event.
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {staff.map((member) => (
+            <li
+              key={member.id}
+              className="py-3 flex items-center justify-between gap-4"
+            >
+              <div>
+                <p className="text-sm font-medium text-gray-900">
+                  {describeMember(member)}
+                </p>
+                <p className="text-sm text-gray-500">{member.user?.email}</p>
+              </div>
+              {canManageStaff ? (
+                <div className="flex items-center gap-3">
+                  <select
+                    value={member.role}
+                    onChange={(e) =>
+                      handleRoleChange(member, e.target.value as EventStaffRole)
+                    }
+                    className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {STAFF_ROLE_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => handleRemove(member)}
+                    className="text-sm font-medium text-red-600 hover:text-red-800"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ) : (
+                <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-blue-100 text-blue-800">
+                  {
+                    STAFF_ROLE_OPTIONS.find(
+                      (option) => option.value === member.role
+                    )?.label
+                  }
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1 +1,113 @@
- 
\ No newline at end of file
+import { useState } from "react";
+import { useNotifications } from "../hooks/useNotifications";
+import { Notification } from "../types";
+
+const formatNotificationTime = (dateString: string) => {
+  const date = new Date(dateString);
+  return date.toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+};
+
+export function NotificationBell() {
+  const { notifications, unreadCount, markAsRead, markAllAsRead } =
+    useNotifications();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const handleNotificationClick = (notification: Notification) => {
+    if (!notification.readAt) {
+      markAsRead(notification.id);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative p-2 text-gray-500 hover:text-gray-900 focus:outline-none"
+        title="Notifications"
+      >
+        <svg
+          className="w-6 h-6"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9"
+          />
+        </svg>
+        {unreadCount > 0 && (
+          <span className="absolute top-0 right-0 inline-flex items-center justify-center min-w-[1.25rem] h-5 px-1 text-xs font-bold text-white bg-red-600 rounded-full">
+            {unreadCount > 99 ? "99+" : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <>
+          <div
+            className="fixed inset-0 z-40"
+            onClick={() => setIsOpen(false)}
+          ></div>
+          <div className="absolute right-0 mt-2 w-80 bg-white rounded-md shadow-lg z-50 border border-gray-200">
+            <div className="flex items-center justify-between px-4 py-2 border-b border-gray-100">
+              <span className="text-sm font-semibold text-gray-900">
+                Notifications
+              </span>
+              {unreadCount > 0 && (
+                <button
+                  onClick={markAllAsRead}
+                  className="text-xs text-blue-600 hover:text-blue-800"
+                >
+                  Mark all as read
+                </button>
+              )}
+            </div>
+
+            {notifications.length === 0 ? (
+              <div className="px-4 py-6 text-sm text-center text-gray-500">
+                You're all caught up.
+              </div>
+            ) : (
+              <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+                {notifications.map((notification) => (
+                  <li
+                    key={notification.id}
+                    onClick={() => handleNotificationClick(notification)}
+                    className={`px-4 py-3 cursor-pointer hover:bg-gray-50 ${
+                      notification.readAt ? "" : "bg-blue-50"
+                    }`}
+                  >
+                    <div className="flex items-start justify-between">
+                      <span className="text-sm font-medium text-gray-900">
+                        {notification.title}
+                      </span>
+                      {!notification.readAt && (
+                        <span className="mt-1 ml-2 w-2 h-2 bg-blue-600 rounded-full flex-shrink-0"></span>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-600">
+                      {notification.message}
+                    </p>
+                    <p className="text-xs text-gray-400 mt-1">
+                      {formatNotificationTime(notification.createdAt)}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default NotificationBell;
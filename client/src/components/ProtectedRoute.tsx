@@ -1,11 +1,12 @@
 import React from "react";
 import { Navigate, useLocation } from "react-router-dom";
-import { useAuth } from "../context/AuthContext";
+import { useAuth } from "../hooks/useAuth";
 import { ProtectedRouteProps } from "../types";
 
 export function ProtectedRoute({
   children,
   requireAdmin = false,
+  requireOrganizer = false,
 }: ProtectedRouteProps) {
   const { user, loading } = useAuth();
   const location = useLocation();
@@ -24,8 +25,12 @@ export function ProtectedRoute({
     return <Navigate to="/login" state={{ from: location }} replace />;
   }
 
-  // If admin required but user is not admin, show unauthorized
-  if (requireAdmin && user.role !== "admin") {
+  // If admin (or organizer) required but user lacks the role, show unauthorized
+  const isDenied =
+    (requireAdmin && user.role !== "admin") ||
+    (requireOrganizer && user.role !== "organizer" && user.role !== "admin");
+
+  if (isDenied) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gray-50">
         <div className="text-center">
@@ -0,0 +1,276 @@
+import React, { useState } from "react";
+import { QRCodeSVG } from "qrcode.react";
+import { useAuth } from "../hooks/useAuth";
+import { useToast } from "../context/ToastContext";
+import { authService } from "../services/authService";
+import { TwoFactorSetupResponse } from "../types";
+import FormField from "./ui/FormField";
+import Modal from "./ui/Modal";
+import { Button } from "./ui/Button";
+import { getApiErrorMessage } from "../utils/apiError";
+
+interface TwoFactorSettingsProps {
+  // Shown when an admin was sent here because 2FA is mandatory
+  setupRequired?: boolean;
+}
+
+export function TwoFactorSettings({ setupRequired }: TwoFactorSettingsProps) {
+  const { user, updateUser } = useAuth();
+  const { success, error: showError } = useToast();
+
+  const [enrollment, setEnrollment] = useState<TwoFactorSetupResponse | null>(
+    null
+  );
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const [isDisableModalOpen, setIsDisableModalOpen] = useState(false);
+  const [disableForm, setDisableForm] = useState({ password: "", code: "" });
+
+  if (!user) {
+    return null;
+  }
+
+  const isEnabled = !!user.twoFactorEnabledAt;
+
+  const handleStartSetup = async () => {
+    setSubmitting(true);
+    try {
+      setEnrollment(await authService.setupTwoFactor());
+      setCode("");
+    } catch (error: unknown) {
+      showError(getApiErrorMessage(error, "Failed to start two-factor setup"));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    try {
+      const response = await authService.enableTwoFactor(code.trim());
+      updateUser(response.user);
+      setEnrollment(null);
+      setCode("");
+      setRecoveryCodes(response.recoveryCodes);
+      success(response.message);
+    } catch (error: unknown) {
+      showError(
+        getApiErrorMessage(error, "Failed to enable two-factor authentication")
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRegenerate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    try {
+      const response = await authService.regenerateRecoveryCodes(code.trim());
+      setCode("");
+      setRecoveryCodes(response.recoveryCodes);
+      success(response.message);
+    } catch (error: unknown) {
+      showError(getApiErrorMessage(error, "Failed to generate recovery codes"));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDisable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    try {
+      // Accept either an authenticator code or a recovery code
+      const secondFactor = disableForm.code.trim();
+      const response = await authService.disableTwoFactor(
+        disableForm.password,
+        /^\d{6}$/.test(secondFactor)
+          ? { code: secondFactor }
+          : { recoveryCode: secondFactor }
+      );
+      updateUser(response.user);
+      setIsDisableModalOpen(false);
+      setDisableForm({ password: "", code: "" });
+      setRecoveryCodes(null);
+      success(response.message);
+    } catch (error: unknown) {
+      showError(
+        getApiErrorMessage(error, "Failed to disable two-factor authentication")
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="mt-6 border-t border-gray-200 pt-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h4 className="text-sm font-medium text-gray-900">
+            Two-factor authentication
+          </h4>
+          <p className="text-sm text-gray-600">
+            Require a code from an authenticator app when you sign in.
+          </p>
+        </div>
+        <span
+          className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+            isEnabled
+              ? "bg-green-100 text-green-800"
+              : "bg-gray-100 text-gray-800"
+          }`}
+        >
+          {isEnabled ? "enabled" : "disabled"}
+        </span>
+      </div>
+
+      {setupRequired && !isEnabled && (
+        <div className="mb-4 bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-md text-sm">
+          Two-factor authentication is required for admin accounts. Set it up
+          below to access the admin panel.
+        </div>
+      )}
+
+      {recoveryCodes && (
+        <div className="mb-4 bg-yellow-50 border border-yellow-200 rounded-md p-4">
+          <h5 className="text-sm font-medium text-yellow-800">
+            Save your recovery codes
+          </h5>
+          <p className="mt-1 text-sm text-yellow-700">
+            Each code can be used once if you lose access to your authenticator
+            app. They won't be shown again.
+          </p>
+          <ul className="mt-3 grid grid-cols-2 gap-2 font-mono text-sm text-gray-900">
+            {recoveryCodes.map((recoveryCode) => (
+              <li key={recoveryCode}>{recoveryCode}</li>
+            ))}
+          </ul>
+          <div className="mt-3 flex justify-end">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setRecoveryCodes(null)}
+            >
+              I've saved them
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {!isEnabled && !enrollment && (
+        <Button onClick={handleStartSetup} loading={submitting}>
+          Set up two-factor authentication
+        </Button>
+      )}
+
+      {!isEnabled && enrollment && (
+        <form onSubmit={handleEnable} className="space-y-4">
+          <div className="flex flex-col sm:flex-row gap-6 items-start">
+            <div className="bg-white p-2 border border-gray-200 rounded-md">
+              <QRCodeSVG value={enrollment.otpauthUrl} size={160} />
+            </div>
+            <div className="text-sm text-gray-600 space-y-2">
+              <p>
+                Scan the QR code with your authenticator app, or enter this key
+                manually:
+              </p>
+              <p className="font-mono text-gray-900 break-all">
+                {enrollment.secret}
+              </p>
+            </div>
+          </div>
+          <FormField
+            label="Authentication code"
+            name="code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            required
+            placeholder="123456"
+          />
+          <div className="flex justify-end gap-3">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setEnrollment(null)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" loading={submitting}>
+              Enable
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {isEnabled && (
+        <div className="space-y-4">
+          <form
+            onSubmit={handleRegenerate}
+            className="flex flex-col sm:flex-row sm:items-end gap-3"
+          >
+            <div className="flex-1">
+              <FormField
+                label="Authentication code"
+                name="code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                required
+                placeholder="123456"
+              />
+            </div>
+            <Button type="submit" variant="outline" loading={submitting}>
+              New recovery codes
+            </Button>
+          </form>
+          <Button variant="danger" onClick={() => setIsDisableModalOpen(true)}>
+            Disable two-factor authentication
+          </Button>
+        </div>
+      )}
+
+      <Modal
+        isOpen={isDisableModalOpen}
+        onClose={() => setIsDisableModalOpen(false)}
+        title="Disable two-factor authentication"
+      >
+        <form onSubmit={handleDisable} className="space-y-4">
+          <FormField
+            label="Password"
+            name="password"
+            type="password"
+            value={disableForm.password}
+            onChange={(e) =>
+              setDisableForm((prev) => ({ ...prev, password: e.target.value }))
+            }
+            required
+          />
+          <FormField
+            label="Authentication or recovery code"
+            name="code"
+            value={disableForm.code}
+            onChange={(e) =>
+              setDisableForm((prev) => ({ ...prev, code: e.target.value }))
+            }
+            required
+          />
+          <div className="flex justify-end gap-3">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setIsDisableModalOpen(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" variant="danger" loading={submitting}>
+              Disable
+            </Button>
+          </div>
+        </form>
+      </Modal>
+    </div>
+  );
+}
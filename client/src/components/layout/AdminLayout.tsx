@@ -1,18 +1,37 @@
 import React, { useState } from "react";
 import { Link, useLocation, Outlet } from "react-router-dom";
-import { useAuth } from "../../context/AuthContext";
+import { useAuth } from "../../hooks/useAuth";
+import { NotificationBell } from "../NotificationBell";
 
 const AdminLayout: React.FC = () => {
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const { user, logout } = useAuth();
   const location = useLocation();
 
+  const isAdmin = user?.role === "admin";
+  const panelTitle = isAdmin ? "Admin Panel" : "Organizer Panel";
+
+  // Organizers only manage their own events, so user management is admin-only
   const navigation = [
     { name: "Dashboard", href: "/admin", icon: "📊" },
-    { name: "Users", href: "/admin/users", icon: "👥" },
+    { name: "Users", href: "/admin/users", icon: "👥", adminOnly: true },
     { name: "Events", href: "/admin/events", icon: "🎉" },
     { name: "Reservations", href: "/admin/reservations", icon: "📅" },
-  ];
+    {
+      name: "Categories",
+      href: "/admin/categories",
+      icon: "🏷️",
+      adminOnly: true,
+    },
+    { name: "Venues", href: "/admin/venues", icon: "📍", adminOnly: true },
+    {
+      name: "Audit Log",
+      href: "/admin/audit-log",
+      icon: "📜",
+      adminOnly: true,
+    },
+    { name: "Trash", href: "/admin/trash", icon: "🗑️", adminOnly: true },
+  ].filter((item) => isAdmin || !item.adminOnly);
 
   const isActive = (href: string) => {
     if (href === "/admin") {
@@ -57,7 +76,7 @@ const AdminLayout: React.FC = () => {
           </div>
           <div className="flex-1 h-0 pt-5 pb-4 overflow-y-auto">
             <div className="flex-shrink-0 flex items-center px-4">
-              <h1 className="text-xl font-bold text-gray-900">Admin Panel</h1>
+              <h1 className="text-xl font-bold text-gray-900">{panelTitle}</h1>
             </div>
             <nav className="mt-5 px-2 space-y-1">
               {navigation.map((item) => (
@@ -85,7 +104,9 @@ const AdminLayout: React.FC = () => {
           <div className="flex flex-col h-0 flex-1 border-r border-gray-200 bg-white">
             <div className="flex-1 flex flex-col pt-5 pb-4 overflow-y-auto">
               <div className="flex items-center flex-shrink-0 px-4">
-                <h1 className="text-xl font-bold text-gray-900">Admin Panel</h1>
+                <h1 className="text-xl font-bold text-gray-900">
+                  {panelTitle}
+                </h1>
               </div>
               <nav className="mt-5 flex-1 px-2 bg-white space-y-1">
                 {navigation.map((item) => (
@@ -149,6 +170,7 @@ const AdminLayout: React.FC = () => {
             <div className="ml-4 flex items-center md:ml-6">
               <div className="relative">
                 <div className="flex items-center space-x-4">
+                  <NotificationBell />
                   <span className="text-sm text-gray-700">
                     Welcome, {user?.firstName || user?.email}
                   </span>
@@ -1,7 +1,8 @@
 import React, { useState } from "react";
 import { Link, useNavigate } from "react-router-dom";
-import { useAuth } from "../../context/AuthContext";
+import { useAuth } from "../../hooks/useAuth";
 import { Button } from "../ui/Button";
+import { NotificationBell } from "../NotificationBell";
 
 export function Header() {
   const { user, logout } = useAuth();
@@ -48,12 +49,12 @@ export function Header() {
                 Dashboard
               </Link>
             )}
-            {user?.role === "admin" && (
+            {(user?.role === "admin" || user?.role === "organizer") && (
               <Link
                 to="/admin"
                 className="text-gray-500 hover:text-gray-900 px-3 py-2 rounded-md text-sm font-medium transition-colors"
               >
-                Admin
+                {user.role === "admin" ? "Admin" : "Organizer"}
               </Link>
             )}
           </nav>
@@ -62,6 +63,8 @@ export function Header() {
           <div className="flex items-center space-x-4">
             {user ? (
               <div className="flex items-center space-x-4">
+                <NotificationBell />
+
                 {/* User dropdown menu */}
                 <div className="relative">
                   <button
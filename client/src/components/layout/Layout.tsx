@@ -1,6 +1,7 @@
 import React from "react";
 import { Header } from "./Header";
 import { Footer } from "./Footer";
+import { EmailVerificationBanner } from "../EmailVerificationBanner";
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -10,6 +11,7 @@ export function Layout({ children }: LayoutProps) {
   return (
     <div className="min-h-screen flex flex-col bg-gray-50">
       <Header />
+      <EmailVerificationBanner />
       <main className="flex-1">{children}</main>
       <Footer />
     </div>
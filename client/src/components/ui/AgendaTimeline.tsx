@@ -0,0 +1,103 @@
+import React from "react";
+import { Session } from "../../types";
+
+interface AgendaTimelineProps {
+  sessions: Session[];
+  // IANA zone of the event; slots and days are shown in it
+  timeZone: string;
+  // Buttons or labels shown next to each session
+  renderActions?: (session: Session) => React.ReactNode;
+}
+
+const dayLabel = (date: Date, timeZone: string) =>
+  date.toLocaleDateString("en-US", {
+    timeZone,
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+  });
+
+const timeLabel = (date: Date, timeZone: string) =>
+  date.toLocaleTimeString("en-US", {
+    timeZone,
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+// Sessions grouped by day with their time slot down the left side
+const AgendaTimeline: React.FC<AgendaTimelineProps> = ({
+  sessions,
+  timeZone,
+  renderActions,
+}) => {
+  const days: { label: string; sessions: Session[] }[] = [];
+  for (const session of sessions) {
+    const label = dayLabel(new Date(session.startsAt), timeZone);
+    if (days[days.length - 1]?.label !== label) {
+      days.push({ label, sessions: [] });
+    }
+    days[days.length - 1].sessions.push(session);
+  }
+
+  return (
+    <div className="space-y-6">
+      {days.map((day) => (
+        <div key={day.label}>
+          <h4 className="text-sm font-semibold text-gray-900 mb-3">
+            {day.label}
+          </h4>
+          <ol className="border-l-2 border-blue-200 space-y-4">
+            {day.sessions.map((session) => (
+              <li key={session.id} className="relative pl-4">
+                <span className="absolute -left-[5px] top-1.5 h-2 w-2 rounded-full bg-blue-600"></span>
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <p className="text-xs font-medium text-blue-700">
+                      {timeLabel(new Date(session.startsAt), timeZone)} –{" "}
+                      {timeLabel(new Date(session.endsAt), timeZone)}
+                      {session.room && (
+                        <span className="text-gray-500"> • {session.room}</span>
+                      )}
+                    </p>
+                    <p className="text-sm font-medium text-gray-900">
+                      {session.title}
+                    </p>
+                    {session.speakers && session.speakers.length > 0 && (
+                      <p className="text-sm text-gray-600">
+                        {session.speakers
+                          .map((speaker) =>
+                            speaker.headline
+                              ? `${speaker.name} (${speaker.headline})`
+                              : speaker.name
+                          )
+                          .join(", ")}
+                      </p>
+                    )}
+                    {session.description && (
+                      <p className="text-sm text-gray-500 mt-1">
+                        {session.description}
+                      </p>
+                    )}
+                    {session.capacity != null && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        {session.availableSpots} of {session.capacity} seats
+                        left
+                      </p>
+                    )}
+                  </div>
+                  {renderActions && (
+                    <div className="flex-shrink-0">
+                      {renderActions(session)}
+                    </div>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ol>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default AgendaTimeline;
@@ -0,0 +1,41 @@
+import React from "react";
+import { EventStatus } from "../../types";
+
+const STATUS_STYLES: Record<EventStatus, { label: string; className: string }> =
+  {
+    draft: { label: "Draft", className: "bg-gray-100 text-gray-800" },
+    scheduled: {
+      label: "Scheduled",
+      className: "bg-yellow-100 text-yellow-800",
+    },
+    published: { label: "Published", className: "bg-green-100 text-green-800" },
+    closed: { label: "Closed", className: "bg-red-100 text-red-800" },
+  };
+
+interface EventStatusBadgeProps {
+  status: EventStatus;
+  // Shown for scheduled events
+  publishAt?: string | null;
+}
+
+const EventStatusBadge: React.FC<EventStatusBadgeProps> = ({
+  status,
+  publishAt,
+}) => {
+  const { label, className } = STATUS_STYLES[status] || STATUS_STYLES.draft;
+
+  return (
+    <span
+      className={`inline-flex px-2 py-0.5 text-xs font-medium rounded-full ${className}`}
+      title={
+        status === "scheduled" && publishAt
+          ? `Publishes ${new Date(publishAt).toLocaleString()}`
+          : undefined
+      }
+    >
+      {label}
+    </span>
+  );
+};
+
+export default EventStatusBadge;
@@ -0,0 +1,88 @@
+import React from "react";
+
+interface EventTimeProps {
+  date: string;
+  // When given, shown as a range; the date is left out if it's the same day
+  endDate?: string;
+  // IANA zone the event takes place in; the viewer's own zone when missing
+  timeZone?: string;
+  // Short dates for tables and lists
+  compact?: boolean;
+}
+
+const LONG_FORMAT: Intl.DateTimeFormatOptions = {
+  weekday: "long",
+  year: "numeric",
+  month: "long",
+  day: "numeric",
+  hour: "2-digit",
+  minute: "2-digit",
+};
+
+const COMPACT_FORMAT: Intl.DateTimeFormatOptions = {
+  year: "numeric",
+  month: "short",
+  day: "numeric",
+  hour: "2-digit",
+  minute: "2-digit",
+};
+
+const TIME_FORMAT: Intl.DateTimeFormatOptions = {
+  hour: "2-digit",
+  minute: "2-digit",
+};
+
+const VIEWER_FORMAT: Intl.DateTimeFormatOptions = {
+  weekday: "short",
+  hour: "2-digit",
+  minute: "2-digit",
+};
+
+const format = (
+  date: Date,
+  options: Intl.DateTimeFormatOptions,
+  timeZone?: string,
+  withZoneName = true
+) =>
+  date.toLocaleString("en-US", {
+    ...options,
+    timeZone,
+    timeZoneName: withZoneName ? "short" : undefined,
+  });
+
+// Show an event time where the event happens, followed by the viewer's
+// local time whenever that reads differently
+const EventTime: React.FC<EventTimeProps> = ({
+  date,
+  endDate,
+  timeZone,
+  compact = false,
+}) => {
+  const value = new Date(date);
+  const dateFormat = compact ? COMPACT_FORMAT : LONG_FORMAT;
+  let eventTime = format(value, dateFormat, timeZone, !endDate);
+  if (endDate) {
+    const end = new Date(endDate);
+    const sameDay =
+      value.toLocaleDateString("en-US", { timeZone }) ===
+      end.toLocaleDateString("en-US", { timeZone });
+    eventTime += ` – ${format(
+      end,
+      sameDay ? TIME_FORMAT : dateFormat,
+      timeZone
+    )}`;
+  }
+  const viewerTime = format(value, VIEWER_FORMAT);
+  const showViewerTime = viewerTime !== format(value, VIEWER_FORMAT, timeZone);
+
+  return (
+    <>
+      {eventTime}
+      {showViewerTime && (
+        <span className="text-gray-500"> ({viewerTime} your time)</span>
+      )}
+    </>
+  );
+};
+
+export default EventTime;
@@ -0,0 +1,29 @@
+import React from "react";
+
+interface HighlightProps {
+  // Text from the search API where matches are wrapped in <mark> tags
+  text: string;
+}
+
+// Render search highlights as React nodes instead of raw HTML, so event
+// text can never inject markup
+const Highlight: React.FC<HighlightProps> = ({ text }) => {
+  const parts = text.split(/<mark>|<\/mark>/);
+
+  return (
+    <>
+      {parts.map((part, index) =>
+        // Odd parts sit between an opening and a closing tag
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-yellow-200 rounded-sm">
+            {part}
+          </mark>
+        ) : (
+          <React.Fragment key={index}>{part}</React.Fragment>
+        )
+      )}
+    </>
+  );
+};
+
+export default Highlight;
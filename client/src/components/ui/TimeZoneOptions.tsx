@@ -0,0 +1,20 @@
+import React from "react";
+
+// Every IANA zone the browser knows; some engines leave out plain UTC
+const TIME_ZONES = [
+  "UTC",
+  ...Intl.supportedValuesOf("timeZone").filter((zone) => zone !== "UTC"),
+];
+
+// Options for a time zone select, labelled without the underscores
+const TimeZoneOptions: React.FC = () => (
+  <>
+    {TIME_ZONES.map((zone) => (
+      <option key={zone} value={zone}>
+        {zone.replace(/_/g, " ")}
+      </option>
+    ))}
+  </>
+);
+
+export default TimeZoneOptions;
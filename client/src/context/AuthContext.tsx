@@ -1,11 +1,12 @@
+import { createContext, useReducer, useEffect, ReactNode } from "react";
 import {
-  createContext,
-  useContext,
-  useReducer,
-  useEffect,
-  ReactNode,
-} from "react";
-import { User, AuthContextType, RegisterRequest } from "../types";
+  User,
+  AuthContextType,
+  RegisterRequest,
+  TwoFactorChallengeResponse,
+  TwoFactorCredentials,
+} from "../types";
+import axios from "axios";
 import { authService } from "../services/authService";
 
 // Auth state type
@@ -87,6 +88,25 @@ function authReducer(state: AuthState, action: AuthAction): AuthState {
   }
 }
 
+// Login errors from throttling say how long to wait before retrying
+function describeLoginError(error: unknown, fallback: string): string {
+  if (!axios.isAxiosError<{ error?: string; retryAfter?: number }>(error)) {
+    return fallback;
+  }
+  const data = error.response?.data;
+  const message = data?.error || error.message || fallback;
+
+  if (!data?.retryAfter) {
+    return message;
+  }
+
+  const wait =
+    data.retryAfter < 60
+      ? `${data.retryAfter} second(s)`
+      : `${Math.ceil(data.retryAfter / 60)} minute(s)`;
+  return `${message}. Try again in ${wait}.`;
+}
+
 // Create context
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
@@ -112,7 +132,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
             type: "AUTH_SUCCESS",
             payload: { user: response.user, token },
           });
-        } catch (error) {
+        } catch {
           // Token is invalid, clear storage and set as not authenticated
           authService.logout();
           dispatch({ type: "INIT_COMPLETE" });
@@ -126,12 +146,19 @@ export function AuthProvider({ children }: AuthProviderProps) {
     initializeAuth();
   }, []);
 
-  // Login function
-  const login = async (email: string, password: string): Promise<void> => {
+  // Login function. Resolves with a challenge when a second factor is needed.
+  const login = async (
+    email: string,
+    password: string
+  ): Promise<TwoFactorChallengeResponse | null> => {
     dispatch({ type: "AUTH_START" });
 
     try {
       const response = await authService.login({ email, password });
+      if (!("token" in response)) {
+        dispatch({ type: "INIT_COMPLETE" });
+        return response;
+      }
       dispatch({
         type: "AUTH_SUCCESS",
         payload: {
@@ -139,9 +166,39 @@ export function AuthProvider({ children }: AuthProviderProps) {
           token: response.token,
         },
       });
-    } catch (error: any) {
-      const errorMessage =
-        error.response?.data?.error || error.message || "Login failed";
+      return null;
+    } catch (error: unknown) {
+      const errorMessage = describeLoginError(error, "Login failed");
+      dispatch({
+        type: "AUTH_FAILURE",
+        payload: errorMessage,
+      });
+      // Re-throw the error so the component can handle it
+      throw error;
+    }
+  };
+
+  // Second login step for accounts with two-factor authentication
+  const completeTwoFactorLogin = async (
+    twoFactorToken: string,
+    credentials: TwoFactorCredentials
+  ): Promise<void> => {
+    dispatch({ type: "AUTH_START" });
+
+    try {
+      const response = await authService.verifyTwoFactorLogin(
+        twoFactorToken,
+        credentials
+      );
+      dispatch({
+        type: "AUTH_SUCCESS",
+        payload: {
+          user: response.user,
+          token: response.token,
+        },
+      });
+    } catch (error: unknown) {
+      const errorMessage = describeLoginError(error, "Verification failed");
       dispatch({
         type: "AUTH_FAILURE",
         payload: errorMessage,
@@ -192,6 +249,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
     user: state.user,
     token: state.token,
     login,
+    completeTwoFactorLogin,
     register,
     logout,
     updateUser,
@@ -205,13 +263,4 @@ export function AuthProvider({ children }: AuthProviderProps) {
   );
 }
 
-// Custom hook to use auth context
-export function useAuth(): AuthContextType {
-  const context = useContext(AuthContext);
-  if (context === undefined) {
-    throw new Error("useAuth must be used within an AuthProvider");
-  }
-  return context;
-}
-
 export default AuthContext;
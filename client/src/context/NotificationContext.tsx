@@ -1 +1,153 @@
- 
\ No newline at end of file
+import React, { createContext, useCallback, useEffect, useState } from "react";
+import { io, Socket } from "socket.io-client";
+import { useAuth } from "../hooks/useAuth";
+import { Notification } from "../types";
+import { notificationService } from "../services/notificationService";
+import { apiService } from "../services/api";
+
+const SOCKET_URL =
+  import.meta.env.VITE_SOCKET_URL ||
+  (import.meta.env.VITE_API_BASE_URL || "http://localhost:4000/api").replace(
+    /\/api\/?$/,
+    ""
+  );
+
+export interface NotificationContextType {
+  socket: Socket | null;
+  connected: boolean;
+  notifications: Notification[];
+  unreadCount: number;
+  refreshNotifications: () => Promise<void>;
+  markAsRead: (id: number) => Promise<void>;
+  markAllAsRead: () => Promise<void>;
+}
+
+const NotificationContext = createContext<NotificationContextType | undefined>(
+  undefined
+);
+
+export const NotificationProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const { token } = useAuth();
+  const [socket, setSocket] = useState<Socket | null>(null);
+  const [connected, setConnected] = useState(false);
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const refreshNotifications = useCallback(async () => {
+    try {
+      const response = await notificationService.getNotifications({
+        limit: 10,
+      });
+      setNotifications(response.notifications);
+      setUnreadCount(response.unreadCount);
+    } catch (error) {
+      console.error("Load notifications error:", error);
+    }
+  }, []);
+
+  const markAsRead = useCallback(async (id: number) => {
+    try {
+      const response = await notificationService.markAsRead(id);
+      setNotifications((prev) =>
+        prev.map((notification) =>
+          notification.id === id ? response.notification : notification
+        )
+      );
+      setUnreadCount((prev) => Math.max(0, prev - 1));
+    } catch (error) {
+      console.error("Mark notification read error:", error);
+    }
+  }, []);
+
+  const markAllAsRead = useCallback(async () => {
+    try {
+      await notificationService.markAllAsRead();
+      const readAt = new Date().toISOString();
+      setNotifications((prev) =>
+        prev.map((notification) => ({
+          ...notification,
+          readAt: notification.readAt || readAt,
+        }))
+      );
+      setUnreadCount(0);
+    } catch (error) {
+      console.error("Mark all notifications read error:", error);
+    }
+  }, []);
+
+  // Load the latest notifications for the signed-in user
+  useEffect(() => {
+    if (token) {
+      refreshNotifications();
+    } else {
+      setNotifications([]);
+      setUnreadCount(0);
+    }
+  }, [token, refreshNotifications]);
+
+  // Open an authenticated connection for the current session
+  useEffect(() => {
+    if (!token) {
+      setSocket(null);
+      setConnected(false);
+      return;
+    }
+
+    // Read the token on every (re)connect, it may have been refreshed since
+    const newSocket = io(SOCKET_URL, {
+      auth: (cb) => cb({ token: apiService.getAuthToken() }),
+    });
+
+    let retriedWithFreshToken = false;
+
+    newSocket.on("connect", () => {
+      retriedWithFreshToken = false;
+      setConnected(true);
+    });
+    newSocket.on("disconnect", () => setConnected(false));
+    newSocket.on("connect_error", async (error) => {
+      console.error("Socket connection error:", error.message);
+
+      // A rejected handshake usually means the access token expired
+      if (!newSocket.active && !retriedWithFreshToken) {
+        retriedWithFreshToken = true;
+        try {
+          await apiService.refreshAccessToken();
+          newSocket.connect();
+        } catch (refreshError) {
+          console.error("Socket token refresh failed:", refreshError);
+        }
+      }
+    });
+    newSocket.on("notification:new", (notification: Notification) => {
+      setNotifications((prev) => [notification, ...prev].slice(0, 10));
+      setUnreadCount((prev) => prev + 1);
+    });
+
+    setSocket(newSocket);
+
+    return () => {
+      newSocket.disconnect();
+    };
+  }, [token]);
+
+  return (
+    <NotificationContext.Provider
+      value={{
+        socket,
+        connected,
+        notifications,
+        unreadCount,
+        refreshNotifications,
+        markAsRead,
+        markAllAsRead,
+      }}
+    >
+      {children}
+    </NotificationContext.Provider>
+  );
+};
+
+export default NotificationContext;
@@ -45,9 +45,15 @@ export function useApi<T>(
     setState({ data: null, loading: false, error: null });
   }, []);
 
+  // Patch the loaded data locally, e.g. from a real-time update
+  const setData = useCallback((updater: (data: T | null) => T | null) => {
+    setState((prev) => ({ ...prev, data: updater(prev.data) }));
+  }, []);
+
   return {
     ...state,
     execute,
     reset,
+    setData,
   };
 }
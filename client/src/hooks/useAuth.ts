@@ -0,0 +1,12 @@
+import { useContext } from "react";
+import AuthContext from "../context/AuthContext";
+import { AuthContextType } from "../types";
+
+// Custom hook to use auth context
+export function useAuth(): AuthContextType {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
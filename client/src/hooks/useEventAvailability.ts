@@ -0,0 +1,53 @@
+import { useEffect, useRef } from "react";
+import { Event, EventAvailabilityUpdate } from "../types";
+import { useNotifications } from "./useNotifications";
+
+// Apply a live availability update to a list of events
+export function applyEventAvailability<T extends Event>(
+  events: T[],
+  update: EventAvailabilityUpdate
+): T[] {
+  return events.map((event) =>
+    event.id === update.eventId
+      ? {
+          ...event,
+          availableSpots: update.availableSpots,
+          maxCapacity: update.maxCapacity,
+          spotStatus: update.spotStatus,
+        }
+      : event
+  );
+}
+
+// Subscribe to live seat availability for the given events
+export function useEventAvailability(
+  eventIds: number[],
+  onUpdate: (update: EventAvailabilityUpdate) => void
+) {
+  const { socket, connected } = useNotifications();
+
+  // Keep the latest callback without resubscribing on every render
+  const onUpdateRef = useRef(onUpdate);
+  onUpdateRef.current = onUpdate;
+
+  const eventIdsKey = eventIds.join(",");
+
+  useEffect(() => {
+    const subscribedIds = eventIdsKey ? eventIdsKey.split(",").map(Number) : [];
+    if (!socket || !connected || subscribedIds.length === 0) return;
+
+    subscribedIds.forEach((eventId) => socket.emit("event:join", eventId));
+
+    const handleAvailability = (update: EventAvailabilityUpdate) => {
+      if (subscribedIds.includes(update.eventId)) {
+        onUpdateRef.current(update);
+      }
+    };
+    socket.on("event:availability", handleAvailability);
+
+    return () => {
+      socket.off("event:availability", handleAvailability);
+      subscribedIds.forEach((eventId) => socket.emit("event:leave", eventId));
+    };
+  }, [socket, connected, eventIdsKey]);
+}
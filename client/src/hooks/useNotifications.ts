@@ -0,0 +1,14 @@
+import { useContext } from "react";
+import NotificationContext, {
+  NotificationContextType,
+} from "../context/NotificationContext";
+
+export function useNotifications(): NotificationContextType {
+  const context = useContext(NotificationContext);
+  if (context === undefined) {
+    throw new Error(
+      "useNotifications must be used within a NotificationProvider"
+    );
+  }
+  return context;
+}
@@ -1,11 +1,23 @@
 import React, { useState, useEffect } from "react";
-import { Event, EventFilters } from "../types";
+import { Event, EventFacets, EventFilters, EventSort } from "../types";
 import { eventService } from "../services/eventService";
 import { reservationService } from "../services/reservationService";
-import { useAuth } from "../context/AuthContext";
+import { useAuth } from "../hooks/useAuth";
 import { useToast } from "../context/ToastContext";
 import Modal from "../components/ui/Modal";
+import { EventAgenda } from "../components/EventAgenda";
+import EventTime from "../components/ui/EventTime";
 import Pagination from "../components/ui/Pagination";
+import Highlight from "../components/ui/Highlight";
+import {
+  applyEventAvailability,
+  useEventAvailability,
+} from "../hooks/useEventAvailability";
+import { getApiErrorMessage } from "../utils/apiError";
+
+// Radius choices for the near-me search; the server defaults to 25 km
+const RADIUS_OPTIONS = [5, 10, 25, 50, 100];
+const DEFAULT_RADIUS_KM = 25;
 
 const Events: React.FC = () => {
   const [events, setEvents] = useState<Event[]>([]);
@@ -15,12 +27,19 @@ const Events: React.FC = () => {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isReserving, setIsReserving] = useState(false);
   const [isConfirmModalOpen, setIsConfirmModalOpen] = useState(false);
+  const [partySize, setPartySize] = useState(1);
+  const [selectedTicketTypeId, setSelectedTicketTypeId] = useState<
+    number | undefined
+  >(undefined);
   const [userReservations, setUserReservations] = useState<Set<number>>(
     new Set()
   );
+  const [userWaitlist, setUserWaitlist] = useState<Set<number>>(new Set());
+  const [locating, setLocating] = useState(false);
 
   // Local input state for debounced search
   const [inputFilters, setInputFilters] = useState({
+    q: "",
     name: "",
     location: "",
     date: "",
@@ -36,6 +55,10 @@ const Events: React.FC = () => {
     limit: 12,
     totalPages: 0,
   });
+  const [facets, setFacets] = useState<EventFacets>({
+    categories: [],
+    tags: [],
+  });
 
   const { user } = useAuth();
   const {
@@ -50,6 +73,7 @@ const Events: React.FC = () => {
     const timeoutId = setTimeout(() => {
       setFilters((prev) => ({
         ...prev,
+        q: inputFilters.q || undefined,
         name: inputFilters.name || undefined,
         location: inputFilters.location || undefined,
         date: inputFilters.date || undefined,
@@ -58,18 +82,33 @@ const Events: React.FC = () => {
     }, 500); // 500ms delay
 
     return () => clearTimeout(timeoutId);
-  }, [inputFilters.name, inputFilters.location, inputFilters.date]);
+  }, [
+    inputFilters.q,
+    inputFilters.name,
+    inputFilters.location,
+    inputFilters.date,
+  ]);
 
   useEffect(() => {
     loadEvents();
   }, [filters]);
 
   // Load user reservations when events load
+  const eventIds = events.map((event) => event.id);
+  const eventIdsKey = eventIds.join(",");
   useEffect(() => {
-    if (user && events.length > 0) {
+    if (user && eventIdsKey) {
       loadUserReservations();
     }
-  }, [user, events]);
+  }, [user, eventIdsKey]);
+
+  // Keep seat counts live while the page is open
+  useEventAvailability(eventIds, (update) => {
+    setEvents((prev) => applyEventAvailability(prev, update));
+    setSelectedEvent((event) =>
+      event ? applyEventAvailability([event], update)[0] : event
+    );
+  });
 
   const loadEvents = async () => {
     try {
@@ -77,6 +116,9 @@ const Events: React.FC = () => {
       const response = await eventService.getEvents(filters);
       setEvents(response.events);
       setPagination(response.pagination);
+      if (response.facets) {
+        setFacets(response.facets);
+      }
     } catch (error: any) {
       showError("Failed to load events");
       console.error("Load events error:", error);
@@ -95,6 +137,11 @@ const Events: React.FC = () => {
           .map((r) => r.eventId)
       );
       setUserReservations(reservedEventIds);
+
+      const waitlistResponse = await reservationService.getMyWaitlist();
+      setUserWaitlist(
+        new Set(waitlistResponse.entries.map((entry) => entry.eventId))
+      );
     } catch (error: any) {
       console.error("Failed to load user reservations:", error);
     }
@@ -104,6 +151,57 @@ const Events: React.FC = () => {
     setFilters((prev) => ({ ...prev, page }));
   };
 
+  const handleSearch = (q: string) => {
+    setInputFilters((prev) => ({ ...prev, q }));
+  };
+
+  const handleSortChange = (sort: EventSort) => {
+    setFilters((prev) => ({ ...prev, sort, page: 1 }));
+  };
+
+  // Mirrors the server: relevance needs a search and distance a location
+  const getActiveSort = (): EventSort => {
+    const sort = filters.sort || (filters.near ? "distance" : "date");
+    if (sort === "relevance" && !filters.q) return "date";
+    if (sort === "distance" && !filters.near) return "date";
+    return sort;
+  };
+
+  const handleNearMeToggle = () => {
+    if (filters.near) {
+      setFilters((prev) => ({ ...prev, near: undefined, page: 1 }));
+      return;
+    }
+    if (!navigator.geolocation) {
+      showError("Your browser can't share its location");
+      return;
+    }
+
+    setLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => {
+        setLocating(false);
+        // Rounded to about 100 m so nearby visitors share cached results
+        setFilters((prev) => ({
+          ...prev,
+          near: {
+            latitude: Number(coords.latitude.toFixed(3)),
+            longitude: Number(coords.longitude.toFixed(3)),
+          },
+          page: 1,
+        }));
+      },
+      () => {
+        setLocating(false);
+        showError("Could not get your location");
+      }
+    );
+  };
+
+  const handleRadiusChange = (radiusKm: number) => {
+    setFilters((prev) => ({ ...prev, radiusKm, page: 1 }));
+  };
+
   const handleNameFilter = (name: string) => {
     setInputFilters((prev) => ({ ...prev, name }));
   };
@@ -116,14 +214,62 @@ const Events: React.FC = () => {
     setInputFilters((prev) => ({ ...prev, date }));
   };
 
+  const handleCategoryToggle = (categoryId: number) => {
+    setFilters((prev) => {
+      const categories = prev.categories || [];
+      return {
+        ...prev,
+        categories: categories.includes(categoryId)
+          ? categories.filter((id) => id !== categoryId)
+          : [...categories, categoryId],
+        page: 1,
+      };
+    });
+  };
+
+  const handleTagToggle = (tag: string) => {
+    setFilters((prev) => {
+      const tags = prev.tags || [];
+      return {
+        ...prev,
+        tags: tags.includes(tag)
+          ? tags.filter((selected) => selected !== tag)
+          : [...tags, tag],
+        page: 1,
+      };
+    });
+  };
+
+  const getChipClassName = (selected: boolean) =>
+    `px-3 py-1 text-sm rounded-full border ${
+      selected
+        ? "bg-blue-100 text-blue-800 border-blue-200"
+        : "bg-white text-gray-700 border-gray-300 hover:bg-gray-50"
+    }`;
+
   const handleViewEvent = (event: Event) => {
     setSelectedEvent(event);
     setIsModalOpen(true);
   };
 
-  const handleReserveClick = (event: Event) => {
+  const handleReserveClick = async (event: Event) => {
     setSelectedEvent(event);
+    setPartySize(1);
+    setSelectedTicketTypeId(undefined);
     setIsConfirmModalOpen(true);
+
+    // Ticket tiers are only returned with the event details
+    try {
+      const eventDetails = await eventService.getEventById(event.id);
+      setSelectedEvent(eventDetails);
+      setSelectedTicketTypeId(
+        eventDetails.ticketTypes?.find(
+          (ticketType) => ticketType.salesStatus === "on-sale"
+        )?.id
+      );
+    } catch (error) {
+      console.error("Failed to load ticket types:", error);
+    }
   };
 
   const handleReserveSpot = async () => {
@@ -133,9 +279,17 @@ const Events: React.FC = () => {
     setIsReserving(true);
 
     try {
-      await reservationService.createReservation(selectedEvent.id);
+      await reservationService.createReservation(
+        selectedEvent.id,
+        partySize,
+        selectedTicketTypeId
+      );
       dismiss(loadingToast);
-      success(`Successfully reserved spot for "${selectedEvent.name}"!`);
+      success(
+        partySize > 1
+          ? `Successfully reserved ${partySize} spots for "${selectedEvent.name}"!`
+          : `Successfully reserved spot for "${selectedEvent.name}"!`
+      );
       setIsConfirmModalOpen(false);
       setSelectedEvent(null);
       // Reload events to update available spots and user reservations
@@ -148,35 +302,73 @@ const Events: React.FC = () => {
     }
   };
 
-  const formatEventDate = (dateString: string) => {
-    const date = new Date(dateString);
-    const now = new Date();
-    const isUpcoming = date > now;
-
-    return {
-      formatted: date.toLocaleDateString("en-US", {
-        weekday: "long",
-        year: "numeric",
-        month: "long",
-        day: "numeric",
-        hour: "2-digit",
-        minute: "2-digit",
-      }),
-      isUpcoming,
-    };
+  const handleJoinWaitlist = async (event: Event) => {
+    if (!user) return;
+
+    const loadingToast = showLoading("Joining the waitlist...");
+
+    try {
+      // Tiered events queue for their cheapest tier that has sold out
+      const eventDetails = await eventService.getEventById(event.id);
+      const ticketTypeId = eventDetails.ticketTypes?.find(
+        (ticketType) => ticketType.salesStatus === "sold-out"
+      )?.id;
+
+      const response = await reservationService.joinWaitlist(
+        event.id,
+        1,
+        ticketTypeId
+      );
+      dismiss(loadingToast);
+      success(
+        `You're #${response.position} on the waitlist for "${event.name}"`
+      );
+      setUserWaitlist((prev) => new Set(prev).add(event.id));
+    } catch (error: unknown) {
+      dismiss(loadingToast);
+      showError(getApiErrorMessage(error, "Failed to join the waitlist"));
+    }
   };
 
+  const isUpcomingEvent = (event: Event) =>
+    new Date(event.eventDate) > new Date();
+
+  // Outside its registration window an event can't be booked or waitlisted
+  const isRegistrationOpen = (event: Event) =>
+    event.spotStatus !== "registration-not-open" &&
+    event.spotStatus !== "registration-closed";
+
   const getEventStatus = (event: Event) => {
-    const { isUpcoming } = formatEventDate(event.eventDate);
+    const isUpcoming = isUpcomingEvent(event);
 
     // Check if user has already booked this event
     if (user && userReservations.has(event.id)) {
       return { text: "Booked", color: "text-purple-600" };
     }
 
+    // Check if user is waiting for a spot on this event
+    if (user && userWaitlist.has(event.id)) {
+      return { text: "On Waitlist", color: "text-yellow-600" };
+    }
+
     // Use spotStatus from backend if available, otherwise fallback to local calculation
     if (event.spotStatus) {
       switch (event.spotStatus) {
+        case "cancelled":
+          return { text: "Cancelled", color: "text-red-600" };
+        case "in-progress":
+          return { text: "In Progress", color: "text-blue-600" };
+        case "registration-not-open":
+          return event.registrationOpensAt
+            ? {
+                text: `Registration opens ${new Date(
+                  event.registrationOpensAt
+                ).toLocaleDateString()}`,
+                color: "text-yellow-600",
+              }
+            : { text: "Registration Not Open", color: "text-yellow-600" };
+        case "registration-closed":
+          return { text: "Registration Closed", color: "text-gray-500" };
         case "past-event":
           return { text: "Past Event", color: "text-gray-500" };
         case "fully-booked":
@@ -191,7 +383,10 @@ const Events: React.FC = () => {
     }
 
     // Fallback to local calculation if spotStatus is not available
-    if (!isUpcoming) return { text: "Past Event", color: "text-gray-500" };
+    if (!isUpcoming)
+      return new Date(event.endDate) > new Date()
+        ? { text: "In Progress", color: "text-blue-600" }
+        : { text: "Past Event", color: "text-gray-500" };
     if (event.availableSpots === 0)
       return { text: "Fully Booked", color: "text-red-600" };
     if (event.availableSpots <= 5)
@@ -213,6 +408,70 @@ const Events: React.FC = () => {
 
       {/* Filters */}
       <div className="mb-6 bg-white p-4 rounded-lg shadow">
+        <div className="flex flex-col sm:flex-row gap-4 mb-4">
+          <div className="flex-1">
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Search
+            </label>
+            <input
+              type="search"
+              placeholder="Search names, descriptions, locations and tags..."
+              value={inputFilters.q}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              onChange={(e) => handleSearch(e.target.value)}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Sort by
+            </label>
+            <select
+              value={getActiveSort()}
+              disabled={!filters.q && !filters.near}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+              onChange={(e) => handleSortChange(e.target.value as EventSort)}
+            >
+              <option value="date">Date</option>
+              <option value="relevance" disabled={!filters.q}>
+                Relevance
+              </option>
+              <option value="distance" disabled={!filters.near}>
+                Distance
+              </option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Near me
+            </label>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={handleNearMeToggle}
+                disabled={locating}
+                className={`px-3 py-2 text-sm font-medium rounded-md border whitespace-nowrap disabled:opacity-50 ${
+                  filters.near
+                    ? "bg-blue-100 text-blue-800 border-blue-200"
+                    : "bg-white text-gray-700 border-gray-300 hover:bg-gray-50"
+                }`}
+              >
+                {locating ? "Locating..." : filters.near ? "📍 On" : "📍 Off"}
+              </button>
+              <select
+                value={filters.radiusKm || DEFAULT_RADIUS_KM}
+                disabled={!filters.near}
+                className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+                onChange={(e) => handleRadiusChange(Number(e.target.value))}
+              >
+                {RADIUS_OPTIONS.map((radius) => (
+                  <option key={radius} value={radius}>
+                    {radius} km
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+        </div>
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -250,6 +509,46 @@ const Events: React.FC = () => {
             />
           </div>
         </div>
+
+        {facets.categories.length > 0 && (
+          <div className="mt-4">
+            <span className="block text-sm font-medium text-gray-700 mb-2">
+              Categories
+            </span>
+            <div className="flex flex-wrap gap-2">
+              {facets.categories.map((category) => (
+                <button
+                  key={category.id}
+                  onClick={() => handleCategoryToggle(category.id)}
+                  className={getChipClassName(
+                    !!filters.categories?.includes(category.id)
+                  )}
+                >
+                  {category.name} ({category.count})
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {facets.tags.length > 0 && (
+          <div className="mt-4">
+            <span className="block text-sm font-medium text-gray-700 mb-2">
+              Tags
+            </span>
+            <div className="flex flex-wrap gap-2">
+              {facets.tags.map(({ tag, count }) => (
+                <button
+                  key={tag}
+                  onClick={() => handleTagToggle(tag)}
+                  className={getChipClassName(!!filters.tags?.includes(tag))}
+                >
+                  #{tag} ({count})
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
 
       {/* Search Loading Indicator */}
@@ -286,9 +585,7 @@ const Events: React.FC = () => {
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-8">
           {events.map((event) => {
-            const { formatted: eventDate, isUpcoming } = formatEventDate(
-              event.eventDate
-            );
+            const isUpcoming = isUpcomingEvent(event);
             const status = getEventStatus(event);
 
             return (
@@ -299,7 +596,7 @@ const Events: React.FC = () => {
                 <div className="p-6">
                   <div className="flex items-start justify-between mb-4">
                     <h3 className="text-lg font-semibold text-gray-900 line-clamp-2">
-                      {event.name}
+                      <Highlight text={event.nameHighlight || event.name} />
                     </h3>
                     <span className={`text-sm font-medium ${status.color}`}>
                       {status.text}
@@ -308,10 +605,30 @@ const Events: React.FC = () => {
 
                   {event.description && (
                     <p className="text-gray-600 text-sm mb-4 line-clamp-3">
-                      {event.description}
+                      <Highlight
+                        text={event.descriptionSnippet || event.description}
+                      />
                     </p>
                   )}
 
+                  {(event.category || !!event.tags?.length) && (
+                    <div className="flex flex-wrap gap-1 mb-4">
+                      {event.category && (
+                        <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-blue-100 text-blue-800">
+                          {event.category.name}
+                        </span>
+                      )}
+                      {event.tags?.map((tag) => (
+                        <span
+                          key={tag}
+                          className="px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-700"
+                        >
+                          #{tag}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+
                   <div className="space-y-2 mb-4">
                     <div className="flex items-center text-sm text-gray-600">
                       <span className="mr-2">📅</span>
@@ -320,14 +637,30 @@ const Events: React.FC = () => {
                           isUpcoming ? "text-gray-900" : "text-gray-500"
                         }
                       >
-                        {eventDate}
+                        <EventTime
+                          date={event.eventDate}
+                          endDate={event.endDate}
+                          timeZone={event.timeZone}
+                        />
                       </span>
                     </div>
 
-                    {event.location && (
+                    {(event.venue || event.location) && (
                       <div className="flex items-center text-sm text-gray-600">
                         <span className="mr-2">📍</span>
-                        <span>{event.location}</span>
+                        <span>
+                          {event.venue?.name || event.location}
+                          {event.distanceKm !== undefined &&
+                            ` · ${event.distanceKm.toFixed(1)} km away`}
+                          {event.venue?.wheelchairAccessible && (
+                            <span
+                              className="ml-1"
+                              title="Wheelchair accessible"
+                            >
+                              ♿
+                            </span>
+                          )}
+                        </span>
                       </div>
                     )}
 
@@ -362,6 +695,8 @@ const Events: React.FC = () => {
                     </button>
                     {user &&
                       isUpcoming &&
+                      !event.canceledAt &&
+                      isRegistrationOpen(event) &&
                       event.availableSpots > 0 &&
                       !userReservations.has(event.id) && (
                         <button
@@ -371,6 +706,20 @@ const Events: React.FC = () => {
                           Reserve Spot
                         </button>
                       )}
+                    {user &&
+                      isUpcoming &&
+                      !event.canceledAt &&
+                      isRegistrationOpen(event) &&
+                      event.availableSpots === 0 &&
+                      !userReservations.has(event.id) &&
+                      !userWaitlist.has(event.id) && (
+                        <button
+                          onClick={() => handleJoinWaitlist(event)}
+                          className="flex-1 px-4 py-2 text-sm font-medium text-yellow-700 bg-yellow-50 border border-yellow-200 rounded-md hover:bg-yellow-100 focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                        >
+                          Join Waitlist
+                        </button>
+                      )}
                     {user && userReservations.has(event.id) && (
                       <button
                         disabled
@@ -379,6 +728,14 @@ const Events: React.FC = () => {
                         ✓ Booked
                       </button>
                     )}
+                    {user && userWaitlist.has(event.id) && (
+                      <button
+                        disabled
+                        className="flex-1 px-4 py-2 text-sm font-medium text-yellow-700 bg-yellow-50 border border-yellow-200 rounded-md cursor-not-allowed"
+                      >
+                        ⏳ On Waitlist
+                      </button>
+                    )}
                   </div>
                 </div>
               </div>
@@ -418,9 +775,31 @@ const Events: React.FC = () => {
                 <div className="flex justify-between">
                   <span className="text-gray-600">Date & Time:</span>
                   <span className="font-medium">
-                    {formatEventDate(selectedEvent.eventDate).formatted}
+                    <EventTime
+                      date={selectedEvent.eventDate}
+                      endDate={selectedEvent.endDate}
+                      timeZone={selectedEvent.timeZone}
+                    />
                   </span>
                 </div>
+                {selectedEvent.venue && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Venue:</span>
+                    <span className="font-medium text-right">
+                      {selectedEvent.venue.name}
+                      <br />
+                      <span className="font-normal text-gray-600">
+                        {selectedEvent.venue.address}
+                      </span>
+                    </span>
+                  </div>
+                )}
+                {selectedEvent.venue?.wheelchairAccessible && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Accessibility:</span>
+                    <span className="font-medium">Wheelchair accessible</span>
+                  </div>
+                )}
                 {selectedEvent.location && (
                   <div className="flex justify-between">
                     <span className="text-gray-600">Location:</span>
@@ -464,6 +843,13 @@ const Events: React.FC = () => {
               </div>
             )}
 
+            {/* Agenda */}
+            <EventAgenda
+              eventId={selectedEvent.id}
+              timeZone={selectedEvent.timeZone}
+              canRegister={!!user && userReservations.has(selectedEvent.id)}
+            />
+
             {/* Creator Info */}
             {selectedEvent.creator && (
               <div className="bg-gray-50 p-4 rounded-lg">
@@ -507,7 +893,9 @@ const Events: React.FC = () => {
                 Close
               </button>
               {user &&
-                formatEventDate(selectedEvent.eventDate).isUpcoming &&
+                isUpcomingEvent(selectedEvent) &&
+                !selectedEvent.canceledAt &&
+                isRegistrationOpen(selectedEvent) &&
                 selectedEvent.availableSpots > 0 &&
                 !userReservations.has(selectedEvent.id) && (
                   <button
@@ -544,6 +932,66 @@ const Events: React.FC = () => {
             Are you sure you want to reserve a spot for this event? This action
             cannot be undone.
           </p>
+          {selectedEvent?.ticketTypes &&
+            selectedEvent.ticketTypes.length > 0 && (
+              <div className="text-left">
+                <label
+                  htmlFor="ticketType"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  Ticket type
+                </label>
+                <select
+                  id="ticketType"
+                  value={selectedTicketTypeId ?? ""}
+                  onChange={(e) =>
+                    setSelectedTicketTypeId(
+                      e.target.value ? Number(e.target.value) : undefined
+                    )
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">Select a ticket type</option>
+                  {selectedEvent.ticketTypes.map((ticketType) => (
+                    <option
+                      key={ticketType.id}
+                      value={ticketType.id}
+                      disabled={ticketType.salesStatus !== "on-sale"}
+                    >
+                      {ticketType.name} — ${ticketType.price.toFixed(2)} (
+                      {ticketType.salesStatus === "on-sale"
+                        ? `${ticketType.availableSpots} left`
+                        : ticketType.salesStatus}
+                      )
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+          {selectedEvent && selectedEvent.maxPerBooking > 1 && (
+            <div className="flex items-center justify-center space-x-3">
+              <label
+                htmlFor="partySize"
+                className="text-sm font-medium text-gray-700"
+              >
+                Number of spots
+              </label>
+              <input
+                id="partySize"
+                type="number"
+                min={1}
+                max={Math.min(
+                  selectedEvent.maxPerBooking,
+                  selectedEvent.availableSpots
+                )}
+                value={partySize}
+                onChange={(e) =>
+                  setPartySize(Math.max(1, Number(e.target.value) || 1))
+                }
+                className="w-20 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          )}
           <div className="flex space-x-3">
             <button
               onClick={() => setIsConfirmModalOpen(false)}
@@ -0,0 +1,116 @@
+import React, { useState } from "react";
+import { Link } from "react-router-dom";
+import { authService } from "../services/authService";
+import { Button } from "../components/ui/Button";
+import { Input } from "../components/ui/Input";
+import { getApiErrorMessage } from "../utils/apiError";
+
+export function ForgotPassword() {
+  const [email, setEmail] = useState("");
+  const [emailError, setEmailError] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sentMessage, setSentMessage] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!email) {
+      setEmailError("Email is required");
+      return;
+    } else if (!/\S+@\S+\.\S+/.test(email)) {
+      setEmailError("Email is invalid");
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await authService.forgotPassword(email);
+      setSentMessage(response.message);
+    } catch (error: unknown) {
+      setError(
+        getApiErrorMessage(error, "Failed to send the password reset link")
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+            Forgot your password?
+          </h2>
+          <p className="mt-2 text-center text-sm text-gray-600">
+            Enter your email and we'll send you a link to reset it.
+          </p>
+        </div>
+
+        {sentMessage ? (
+          <div className="space-y-6">
+            <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-md">
+              {sentMessage}
+            </div>
+            <div className="text-center">
+              <Link
+                to="/login"
+                className="text-sm text-primary-600 hover:text-primary-500"
+              >
+                Back to sign in
+              </Link>
+            </div>
+          </div>
+        ) : (
+          <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+            <div className="space-y-4">
+              {error && (
+                <div className="bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-md">
+                  {error}
+                </div>
+              )}
+
+              <Input
+                label="Email address"
+                name="email"
+                type="email"
+                autoComplete="email"
+                required
+                value={email}
+                onChange={(e) => {
+                  setEmail(e.target.value);
+                  setEmailError("");
+                }}
+                error={emailError}
+                placeholder="Enter your email"
+              />
+            </div>
+
+            <div>
+              <Button
+                type="submit"
+                loading={loading}
+                className="w-full"
+                size="lg"
+              >
+                Send reset link
+              </Button>
+            </div>
+
+            <div className="text-center">
+              <Link
+                to="/login"
+                className="text-sm text-primary-600 hover:text-primary-500"
+              >
+                Back to sign in
+              </Link>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
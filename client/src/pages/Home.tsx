@@ -1,11 +1,17 @@
 import React, { useState, useEffect } from "react";
 import { Link } from "react-router-dom";
-import { useAuth } from "../context/AuthContext";
+import { useAuth } from "../hooks/useAuth";
 import { usePopularEvents } from "../hooks/useEvents";
+import {
+  applyEventAvailability,
+  useEventAvailability,
+} from "../hooks/useEventAvailability";
 import { reservationService } from "../services/reservationService";
 import { useToast } from "../context/ToastContext";
 import { Button } from "../components/ui/Button";
 import Modal from "../components/ui/Modal";
+import { EventAgenda } from "../components/EventAgenda";
+import EventTime from "../components/ui/EventTime";
 import { Event } from "../types";
 
 export function Home() {
@@ -15,6 +21,7 @@ export function Home() {
     loading,
     error,
     execute: refreshPopularEvents,
+    setData: setPopularEventsData,
   } = usePopularEvents();
   const {
     success,
@@ -34,6 +41,21 @@ export function Home() {
   // State for view details modal
   const [isModalOpen, setIsModalOpen] = useState(false);
 
+  // Keep seat counts live while the page is open
+  useEventAvailability(
+    popularEventsData?.events.map((event) => event.id) || [],
+    (update) => {
+      setPopularEventsData((data) =>
+        data
+          ? { ...data, events: applyEventAvailability(data.events, update) }
+          : data
+      );
+      setSelectedEvent((event) =>
+        event ? applyEventAvailability([event], update)[0] : event
+      );
+    }
+  );
+
   // Load user reservations when popular events load
   useEffect(() => {
     if (
@@ -96,26 +118,16 @@ export function Home() {
     }
   };
 
-  const formatEventDate = (dateString: string) => {
-    const date = new Date(dateString);
-    const now = new Date();
-    const isUpcoming = date > now;
-
-    return {
-      formatted: date.toLocaleDateString("en-US", {
-        weekday: "long",
-        year: "numeric",
-        month: "long",
-        day: "numeric",
-        hour: "2-digit",
-        minute: "2-digit",
-      }),
-      isUpcoming,
-    };
-  };
+  const isUpcomingEvent = (event: Event) =>
+    new Date(event.eventDate) > new Date();
+
+  // Outside its registration window an event can't be booked or waitlisted
+  const isRegistrationOpen = (event: Event) =>
+    event.spotStatus !== "registration-not-open" &&
+    event.spotStatus !== "registration-closed";
 
   const getEventStatus = (event: Event) => {
-    const { isUpcoming } = formatEventDate(event.eventDate);
+    const isUpcoming = isUpcomingEvent(event);
 
     // Check if user has already booked this event
     if (user && userReservations.has(event.id)) {
@@ -125,6 +137,21 @@ export function Home() {
     // Use spotStatus from backend if available, otherwise fallback to local calculation
     if (event.spotStatus) {
       switch (event.spotStatus) {
+        case "cancelled":
+          return { text: "Cancelled", color: "text-red-600" };
+        case "in-progress":
+          return { text: "In Progress", color: "text-blue-600" };
+        case "registration-not-open":
+          return event.registrationOpensAt
+            ? {
+                text: `Registration opens ${new Date(
+                  event.registrationOpensAt
+                ).toLocaleDateString()}`,
+                color: "text-yellow-600",
+              }
+            : { text: "Registration Not Open", color: "text-yellow-600" };
+        case "registration-closed":
+          return { text: "Registration Closed", color: "text-gray-500" };
         case "past-event":
           return { text: "Past Event", color: "text-gray-500" };
         case "fully-booked":
@@ -139,7 +166,10 @@ export function Home() {
     }
 
     // Fallback to local calculation if spotStatus is not available
-    if (!isUpcoming) return { text: "Past Event", color: "text-gray-500" };
+    if (!isUpcoming)
+      return new Date(event.endDate) > new Date()
+        ? { text: "In Progress", color: "text-blue-600" }
+        : { text: "Past Event", color: "text-gray-500" };
     if (event.availableSpots === 0)
       return { text: "Fully Booked", color: "text-red-600" };
     if (event.availableSpots <= 5)
@@ -311,9 +341,7 @@ export function Home() {
           {popularEventsData && popularEventsData.events.length > 0 && (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
               {popularEventsData.events.map((event) => {
-                const { formatted: eventDate, isUpcoming } = formatEventDate(
-                  event.eventDate
-                );
+                const isUpcoming = isUpcomingEvent(event);
                 const status = getEventStatus(event);
 
                 return (
@@ -349,7 +377,11 @@ export function Home() {
                             d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z"
                           />
                         </svg>
-                        {eventDate}
+                        <EventTime
+                          date={event.eventDate}
+                          endDate={event.endDate}
+                          timeZone={event.timeZone}
+                        />
                       </div>
                       {event.location && (
                         <div className="flex items-center text-sm text-gray-500 mb-4">
@@ -389,6 +421,8 @@ export function Home() {
                           </Button>
                           {user &&
                             isUpcoming &&
+                            !event.canceledAt &&
+                            isRegistrationOpen(event) &&
                             event.availableSpots > 0 &&
                             !userReservations.has(event.id) && (
                               <Button
@@ -480,7 +514,11 @@ export function Home() {
                 <div className="flex justify-between">
                   <span className="text-gray-600">Date & Time:</span>
                   <span className="font-medium">
-                    {formatEventDate(selectedEvent.eventDate).formatted}
+                    <EventTime
+                      date={selectedEvent.eventDate}
+                      endDate={selectedEvent.endDate}
+                      timeZone={selectedEvent.timeZone}
+                    />
                   </span>
                 </div>
                 {selectedEvent.location && (
@@ -526,6 +564,13 @@ export function Home() {
               </div>
             )}
 
+            {/* Agenda */}
+            <EventAgenda
+              eventId={selectedEvent.id}
+              timeZone={selectedEvent.timeZone}
+              canRegister={!!user && userReservations.has(selectedEvent.id)}
+            />
+
             {/* Creator Info */}
             {selectedEvent.creator && (
               <div className="bg-gray-50 p-4 rounded-lg">
@@ -569,7 +614,9 @@ export function Home() {
                 Close
               </button>
               {user &&
-                formatEventDate(selectedEvent.eventDate).isUpcoming &&
+                isUpcomingEvent(selectedEvent) &&
+                !selectedEvent.canceledAt &&
+                isRegistrationOpen(selectedEvent) &&
                 selectedEvent.availableSpots > 0 &&
                 !userReservations.has(selectedEvent.id) && (
                   <button
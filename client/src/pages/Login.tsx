@@ -1,8 +1,9 @@
 import React, { useState } from "react";
 import { Link, useNavigate, useLocation } from "react-router-dom";
-import { useAuth } from "../context/AuthContext";
+import { useAuth } from "../hooks/useAuth";
 import { Button } from "../components/ui/Button";
 import { Input } from "../components/ui/Input";
+import { getApiErrorMessage } from "../utils/apiError";
 
 export function Login() {
   const [formData, setFormData] = useState({
@@ -10,8 +11,13 @@ export function Login() {
     password: "",
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
+  // Set when the password was accepted but a second factor is required
+  const [twoFactorToken, setTwoFactorToken] = useState<string | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
 
-  const { login, loading, error } = useAuth();
+  const { login, completeTwoFactorLogin, loading, error, clearError } =
+    useAuth();
   const navigate = useNavigate();
   const location = useLocation();
 
@@ -57,7 +63,11 @@ export function Login() {
     }
 
     try {
-      await login(formData.email, formData.password);
+      const challenge = await login(formData.email, formData.password);
+      if (challenge) {
+        setTwoFactorToken(challenge.twoFactorToken);
+        return;
+      }
       // Only navigate if login was successful (no error thrown)
       navigate(from, { replace: true });
     } catch (error) {
@@ -67,6 +77,128 @@ export function Login() {
     }
   };
 
+  const handleTwoFactorSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!twoFactorToken) {
+      return;
+    }
+
+    if (!twoFactorCode.trim()) {
+      setErrors({
+        twoFactorCode: useRecoveryCode
+          ? "Recovery code is required"
+          : "Authentication code is required",
+      });
+      return;
+    }
+
+    try {
+      await completeTwoFactorLogin(
+        twoFactorToken,
+        useRecoveryCode
+          ? { recoveryCode: twoFactorCode.trim() }
+          : { code: twoFactorCode.trim() }
+      );
+      navigate(from, { replace: true });
+    } catch (error: unknown) {
+      // An expired challenge means starting over with the password
+      if (getApiErrorMessage(error, "").includes("expired")) {
+        setTwoFactorToken(null);
+      }
+      setTwoFactorCode("");
+      console.error("Two-factor verification failed:", error);
+    }
+  };
+
+  const toggleRecoveryCode = () => {
+    setUseRecoveryCode((prev) => !prev);
+    setTwoFactorCode("");
+    setErrors({});
+    clearError();
+  };
+
+  if (twoFactorToken) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-md w-full space-y-8">
+          <div>
+            <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+              Two-factor authentication
+            </h2>
+            <p className="mt-2 text-center text-sm text-gray-600">
+              {useRecoveryCode
+                ? "Enter one of your recovery codes."
+                : "Enter the 6-digit code from your authenticator app."}
+            </p>
+          </div>
+
+          <form className="mt-8 space-y-6" onSubmit={handleTwoFactorSubmit}>
+            <div className="space-y-4">
+              {error && (
+                <div className="bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-md">
+                  {error}
+                </div>
+              )}
+
+              <Input
+                label={
+                  useRecoveryCode ? "Recovery code" : "Authentication code"
+                }
+                name="twoFactorCode"
+                type="text"
+                inputMode={useRecoveryCode ? "text" : "numeric"}
+                autoComplete="one-time-code"
+                required
+                value={twoFactorCode}
+                onChange={(e) => {
+                  setTwoFactorCode(e.target.value);
+                  setErrors({});
+                }}
+                error={errors.twoFactorCode}
+                placeholder={useRecoveryCode ? "xxxxx-xxxxx" : "123456"}
+              />
+            </div>
+
+            <div>
+              <Button
+                type="submit"
+                loading={loading}
+                className="w-full"
+                size="lg"
+              >
+                Verify
+              </Button>
+            </div>
+
+            <div className="flex justify-between">
+              <button
+                type="button"
+                onClick={toggleRecoveryCode}
+                className="text-sm text-primary-600 hover:text-primary-500"
+              >
+                {useRecoveryCode
+                  ? "Use authenticator app"
+                  : "Use a recovery code"}
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  setTwoFactorToken(null);
+                  setTwoFactorCode("");
+                  clearError();
+                }}
+                className="text-sm text-gray-600 hover:text-gray-500"
+              >
+                Back to sign in
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-md w-full space-y-8">
@@ -0,0 +1,111 @@
+import { useEffect, useRef, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { useAuth } from "../hooks/useAuth";
+import { useToast } from "../context/ToastContext";
+import { authService } from "../services/authService";
+import { Button } from "../components/ui/Button";
+import { getApiErrorMessage } from "../utils/apiError";
+
+export function VerifyEmail() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token");
+  const { user, updateUser } = useAuth();
+  const { success, error: showError } = useToast();
+  const [resending, setResending] = useState(false);
+  const [status, setStatus] = useState<"verifying" | "verified" | "failed">(
+    token ? "verifying" : "failed"
+  );
+  const [error, setError] = useState<string | null>(
+    token ? null : "This verification link is missing its token."
+  );
+  const requestedToken = useRef<string | null>(null);
+
+  useEffect(() => {
+    // Only redeem each token once, even if the effect runs again
+    if (!token || requestedToken.current === token) {
+      return;
+    }
+    requestedToken.current = token;
+
+    authService
+      .verifyEmail(token)
+      .then((response) => {
+        if (user?.id === response.user.id) {
+          updateUser(response.user);
+        }
+        setStatus("verified");
+      })
+      .catch((error: unknown) => {
+        setError(getApiErrorMessage(error, "Failed to verify email address"));
+        setStatus("failed");
+      });
+  }, [token, user, updateUser]);
+
+  const handleResend = async () => {
+    setResending(true);
+    try {
+      const response = await authService.resendVerificationEmail();
+      success(response.message);
+    } catch (error: unknown) {
+      showError(getApiErrorMessage(error, "Failed to send verification email"));
+    } finally {
+      setResending(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        <div>
+          <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+            Email verification
+          </h2>
+        </div>
+
+        {status === "verifying" && (
+          <div className="flex justify-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+          </div>
+        )}
+
+        {status === "verified" && (
+          <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-md">
+            Your email address has been verified. You can now reserve spots.
+          </div>
+        )}
+
+        {status === "failed" && (
+          <div className="space-y-4">
+            <div className="bg-red-50 border border-red-200 text-red-600 px-4 py-3 rounded-md">
+              {error}{" "}
+              {user && !user.emailVerifiedAt
+                ? "You can request a new link below."
+                : !user && "Sign in to request a new link."}
+            </div>
+            {user && !user.emailVerifiedAt && (
+              <Button
+                onClick={handleResend}
+                loading={resending}
+                className="w-full"
+                size="lg"
+              >
+                Send a new link
+              </Button>
+            )}
+          </div>
+        )}
+
+        {status !== "verifying" && (
+          <div className="text-center">
+            <Link
+              to={user ? "/events" : "/login"}
+              className="text-sm text-primary-600 hover:text-primary-500"
+            >
+              {user ? "Browse events" : "Go to sign in"}
+            </Link>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
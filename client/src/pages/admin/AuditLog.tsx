@@ -0,0 +1,289 @@
+import React, { useState, useEffect, useCallback } from "react";
+import { AuditLogEntry, AuditLogFilters } from "../../types";
+import { auditLogService } from "../../services/auditLogService";
+import { useToast } from "../../context/ToastContext";
+import Pagination from "../../components/ui/Pagination";
+
+const ENTITY_TYPE_OPTIONS = [
+  { value: "", label: "All entities" },
+  { value: "event", label: "Events" },
+  { value: "ticket_type", label: "Ticket types" },
+  { value: "reservation", label: "Reservations" },
+  { value: "user", label: "Users" },
+  { value: "role", label: "Roles" },
+  { value: "event_staff", label: "Event staff" },
+];
+
+const ACTION_BADGE_CLASSES: Record<string, string> = {
+  create: "bg-green-100 text-green-800",
+  assign: "bg-green-100 text-green-800",
+  delete: "bg-red-100 text-red-800",
+  remove: "bg-red-100 text-red-800",
+  cancel: "bg-red-100 text-red-800",
+  cancel_on_behalf: "bg-red-100 text-red-800",
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined) return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+const describeActor = (entry: AuditLogEntry) => {
+  if (!entry.actor) {
+    return entry.actorId ? `User #${entry.actorId}` : "System";
+  }
+  const name = `${entry.actor.firstName || ""} ${
+    entry.actor.lastName || ""
+  }`.trim();
+  return name || entry.actor.email;
+};
+
+const AuditLog: React.FC = () => {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [pagination, setPagination] = useState({
+    total: 0,
+    page: 1,
+    limit: 20,
+    totalPages: 0,
+  });
+  const [filters, setFilters] = useState<AuditLogFilters>({
+    page: 1,
+    limit: 20,
+  });
+  const [actionInput, setActionInput] = useState("");
+
+  const { error: showError } = useToast();
+
+  const loadEntries = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await auditLogService.getAuditLogs(filters);
+      setEntries(response.auditLogs);
+      setPagination(response.pagination);
+    } catch (error) {
+      showError("Failed to load audit log");
+      console.error("Load audit log error:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [filters, showError]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  const updateFilter = (changes: Partial<AuditLogFilters>) => {
+    setFilters((prev) => ({ ...prev, ...changes, page: 1 }));
+  };
+
+  const handleActionSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateFilter({ action: actionInput.trim() || undefined });
+  };
+
+  const handleDateChange = (field: "from" | "to", value: string) => {
+    if (!value) {
+      updateFilter({ [field]: undefined });
+      return;
+    }
+    // Make the "to" day inclusive
+    const date = new Date(
+      `${value}T${field === "to" ? "23:59:59" : "00:00:00"}`
+    );
+    updateFilter({ [field]: date.toISOString() });
+  };
+
+  const handlePageChange = (page: number) => {
+    setFilters((prev) => ({ ...prev, page }));
+  };
+
+  const renderChanges = (entry: AuditLogEntry) => {
+    const fields = Array.from(
+      new Set([
+        ...Object.keys(entry.before || {}),
+        ...Object.keys(entry.after || {}),
+      ])
+    );
+    if (fields.length === 0) return null;
+
+    return (
+      <table className="mt-3 w-full text-xs border border-gray-200 rounded">
+        <thead className="bg-gray-50 text-gray-500">
+          <tr>
+            <th className="px-3 py-1 text-left font-medium">Field</th>
+            {entry.before && (
+              <th className="px-3 py-1 text-left font-medium">Before</th>
+            )}
+            {entry.after && (
+              <th className="px-3 py-1 text-left font-medium">After</th>
+            )}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200">
+          {fields.map((field) => (
+            <tr key={field}>
+              <td className="px-3 py-1 font-medium text-gray-700">{field}</td>
+              {entry.before && (
+                <td className="px-3 py-1 text-red-700 break-all">
+                  {formatValue(entry.before[field])}
+                </td>
+              )}
+              {entry.after && (
+                <td className="px-3 py-1 text-green-700 break-all">
+                  {formatValue(entry.after[field])}
+                </td>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    );
+  };
+
+  return (
+    <div>
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-gray-900">Audit Log</h1>
+        <p className="mt-1 text-sm text-gray-600">
+          A read-only record of administrative and reservation actions.
+        </p>
+      </div>
+
+      {/* Filters */}
+      <div className="mb-6 bg-white p-4 rounded-lg shadow">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Entity
+            </label>
+            <select
+              value={filters.entityType || ""}
+              onChange={(e) =>
+                updateFilter({ entityType: e.target.value || undefined })
+              }
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 sm:text-sm"
+            >
+              {ENTITY_TYPE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <form onSubmit={handleActionSubmit}>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Action
+            </label>
+            <input
+              type="text"
+              value={actionInput}
+              onChange={(e) => setActionInput(e.target.value)}
+              onBlur={handleActionSubmit}
+              placeholder="e.g. reservation.cancel"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 sm:text-sm"
+            />
+          </form>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              From
+            </label>
+            <input
+              type="date"
+              onChange={(e) => handleDateChange("from", e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 sm:text-sm"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              To
+            </label>
+            <input
+              type="date"
+              onChange={(e) => handleDateChange("to", e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 sm:text-sm"
+            />
+          </div>
+        </div>
+        {filters.actorId && (
+          <button
+            type="button"
+            onClick={() => updateFilter({ actorId: undefined })}
+            className="mt-3 text-sm text-blue-600 hover:text-blue-800"
+          >
+            Showing actions by user #{filters.actorId} — clear
+          </button>
+        )}
+      </div>
+
+      {/* Timeline */}
+      <div className="bg-white rounded-lg shadow p-6">
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            No audit entries match these filters.
+          </div>
+        ) : (
+          <ol className="relative border-l border-gray-200 ml-3">
+            {entries.map((entry) => {
+              const verb = entry.action.split(".").pop() || entry.action;
+              return (
+                <li key={entry.id} className="mb-8 ml-6">
+                  <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-blue-500"></span>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span
+                      className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                        ACTION_BADGE_CLASSES[verb] ||
+                        "bg-blue-100 text-blue-800"
+                      }`}
+                    >
+                      {entry.action}
+                    </span>
+                    <span className="text-sm text-gray-900">
+                      {entry.entityType}
+                      {entry.entityId ? ` #${entry.entityId}` : ""}
+                    </span>
+                  </div>
+                  <p className="mt-1 text-sm text-gray-600">
+                    by{" "}
+                    <button
+                      type="button"
+                      onClick={() =>
+                        entry.actorId &&
+                        updateFilter({ actorId: entry.actorId })
+                      }
+                      className="font-medium text-blue-600 hover:text-blue-800"
+                    >
+                      {describeActor(entry)}
+                    </button>
+                    {entry.ipAddress && ` from ${entry.ipAddress}`}
+                  </p>
+                  <time className="block text-xs text-gray-400">
+                    {new Date(entry.createdAt).toLocaleString()}
+                  </time>
+                  {renderChanges(entry)}
+                </li>
+              );
+            })}
+          </ol>
+        )}
+
+        {pagination.totalPages > 1 && (
+          <Pagination
+            currentPage={pagination.page}
+            totalPages={pagination.totalPages}
+            onPageChange={handlePageChange}
+            totalItems={pagination.total}
+            itemsPerPage={pagination.limit}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AuditLog;
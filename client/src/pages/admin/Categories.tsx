@@ -0,0 +1,254 @@
+import React, { useState, useEffect, useCallback } from "react";
+import { Category, TableColumn } from "../../types";
+import { categoryService } from "../../services/categoryService";
+import { useToast } from "../../context/ToastContext";
+import Table from "../../components/ui/Table";
+import Modal from "../../components/ui/Modal";
+import FormField from "../../components/ui/FormField";
+import { getApiErrorMessage } from "../../utils/apiError";
+
+const emptyForm = { name: "", description: "" };
+
+const Categories: React.FC = () => {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Modal states; no selected category means the form creates one
+  const [isFormModalOpen, setIsFormModalOpen] = useState(false);
+  const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
+  const [selectedCategory, setSelectedCategory] = useState<Category | null>(
+    null
+  );
+  const [formData, setFormData] = useState(emptyForm);
+
+  const {
+    success,
+    error: showError,
+    loading: showLoading,
+    dismiss,
+  } = useToast();
+
+  const loadCategories = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await categoryService.getCategories();
+      setCategories(response.categories);
+    } catch (error) {
+      showError("Failed to load categories");
+      console.error("Load categories error:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    loadCategories();
+  }, [loadCategories]);
+
+  const handleCreate = () => {
+    setSelectedCategory(null);
+    setFormData(emptyForm);
+    setIsFormModalOpen(true);
+  };
+
+  const handleEdit = (category: Category) => {
+    setSelectedCategory(category);
+    setFormData({
+      name: category.name,
+      description: category.description || "",
+    });
+    setIsFormModalOpen(true);
+  };
+
+  const handleDelete = (category: Category) => {
+    setSelectedCategory(category);
+    setIsDeleteModalOpen(true);
+  };
+
+  const handleFormChange = (
+    e: React.ChangeEvent<
+      HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement
+    >
+  ) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const handleSaveCategory = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const loadingToast = showLoading(
+      selectedCategory ? "Updating category..." : "Creating category..."
+    );
+
+    try {
+      const categoryData = {
+        name: formData.name,
+        description: formData.description || null,
+      };
+      if (selectedCategory) {
+        await categoryService.updateCategory(selectedCategory.id, categoryData);
+      } else {
+        await categoryService.createCategory(categoryData);
+      }
+      dismiss(loadingToast);
+      success(
+        selectedCategory
+          ? "Category updated successfully"
+          : "Category created successfully"
+      );
+      setIsFormModalOpen(false);
+      setSelectedCategory(null);
+      loadCategories();
+    } catch (error: unknown) {
+      dismiss(loadingToast);
+      showError(getApiErrorMessage(error, "Failed to save category"));
+    }
+  };
+
+  const handleDeleteCategory = async () => {
+    if (!selectedCategory) return;
+
+    const loadingToast = showLoading("Deleting category...");
+
+    try {
+      await categoryService.deleteCategory(selectedCategory.id);
+      dismiss(loadingToast);
+      success("Category deleted successfully");
+      setIsDeleteModalOpen(false);
+      setSelectedCategory(null);
+      loadCategories();
+    } catch (error: unknown) {
+      dismiss(loadingToast);
+      showError(getApiErrorMessage(error, "Failed to delete category"));
+    }
+  };
+
+  const columns: TableColumn<Category>[] = [
+    {
+      key: "name",
+      label: "Name",
+      render: (value) => (
+        <span className="font-medium text-gray-900">{value}</span>
+      ),
+    },
+    {
+      key: "description",
+      label: "Description",
+      render: (value) => value || "-",
+    },
+    {
+      key: "createdAt",
+      label: "Created At",
+      render: (value) => new Date(value).toLocaleDateString(),
+    },
+  ];
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Categories</h1>
+          <p className="mt-1 text-sm text-gray-600">
+            Categories group events and appear as filters on the events page.
+          </p>
+        </div>
+        <button
+          onClick={handleCreate}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+        >
+          Create Category
+        </button>
+      </div>
+
+      <div className="bg-white shadow rounded-lg">
+        <Table
+          data={categories}
+          columns={columns}
+          loading={loading}
+          onEdit={handleEdit}
+          onDelete={handleDelete}
+        />
+      </div>
+
+      {/* Create/Edit Category Modal */}
+      <Modal
+        isOpen={isFormModalOpen}
+        onClose={() => setIsFormModalOpen(false)}
+        title={selectedCategory ? "Edit Category" : "Create Category"}
+      >
+        <form onSubmit={handleSaveCategory}>
+          <FormField
+            label="Name"
+            name="name"
+            value={formData.name}
+            onChange={handleFormChange}
+            required
+          />
+
+          <FormField
+            label="Description"
+            name="description"
+            value={formData.description}
+            onChange={handleFormChange}
+          />
+
+          <div className="flex justify-end space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={() => setIsFormModalOpen(false)}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              {selectedCategory ? "Update Category" : "Create Category"}
+            </button>
+          </div>
+        </form>
+      </Modal>
+
+      {/* Delete Confirmation Modal */}
+      <Modal
+        isOpen={isDeleteModalOpen}
+        onClose={() => setIsDeleteModalOpen(false)}
+        title="Delete Category"
+      >
+        <div>
+          <p className="text-sm text-gray-500 mb-4">
+            Are you sure you want to delete this category? Its events are kept
+            but will no longer have a category.
+          </p>
+
+          {selectedCategory && (
+            <div className="bg-gray-50 p-3 rounded-md mb-4">
+              <p>
+                <strong>Category:</strong> {selectedCategory.name}
+              </p>
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3">
+            <button
+              onClick={() => setIsDeleteModalOpen(false)}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleDeleteCategory}
+              className="px-4 py-2 text-sm font-medium text-white bg-red-600 border border-transparent rounded-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              Delete Category
+            </button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+};
+
+export default Categories;
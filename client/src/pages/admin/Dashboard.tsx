@@ -21,6 +21,7 @@ import { eventService } from "../../services/eventService";
 import { reservationService } from "../../services/reservationService";
 import { Event, CreateEventRequest } from "../../types";
 import { useToast } from "../../context/ToastContext";
+import { useAuth } from "../../hooks/useAuth";
 import Modal from "../../components/ui/Modal";
 import FormField from "../../components/ui/FormField";
 
@@ -77,6 +78,8 @@ const Dashboard: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
   const isLoadingRef = useRef(false);
+  const { user } = useAuth();
+  const isAdmin = user?.role === "admin";
 
   // Form state for create event
   const [formData, setFormData] = useState<CreateEventRequest>({
@@ -116,16 +119,17 @@ const Dashboard: React.FC = () => {
         todayEventsData,
         recentEventsData,
       ] = await Promise.all([
-        userService.getAllUsers({ limit: 1 }),
-        eventService.getEvents({ limit: 1 }),
+        // Organizers can't list users, and only see their own events
+        isAdmin ? userService.getAllUsers({ limit: 1 }) : null,
+        eventService.getEventsForAdmin({ limit: 1 }),
         reservationService.getAllReservations({ limit: 1 }),
         eventService.getDashboardStats(),
-        eventService.getEvents({ limit: 10 }), // For today's events
-        eventService.getEvents({ limit: 5 }), // For recent events
+        eventService.getEventsForAdmin({ limit: 10 }), // For today's events
+        eventService.getEventsForAdmin({ limit: 5 }), // For recent events
       ]);
 
       setStats({
-        totalUsers: usersResponse.pagination.total,
+        totalUsers: usersResponse?.pagination.total ?? 0,
         totalEvents: eventsResponse.pagination.total,
         totalReservations: reservationsResponse.pagination.total,
         activeEvents: dashboardStats.activeEvents,
@@ -191,7 +195,7 @@ const Dashboard: React.FC = () => {
     { name: "Events", value: stats.totalEvents },
     { name: "Reservations", value: stats.totalReservations },
     { name: "Active Events", value: stats.activeEvents },
-  ];
+  ].filter((item) => isAdmin || item.name !== "Users");
 
   const barChartData = recentEvents.map((event) => ({
     name: event.name,
@@ -238,7 +242,7 @@ const Dashboard: React.FC = () => {
       change: "+23%",
       changeType: "positive",
     },
-  ];
+  ].filter((card) => isAdmin || card.link !== "/admin/users");
 
   if (loading) {
     return (
@@ -4,17 +4,32 @@ import { Formik, Form, Field, ErrorMessage } from "formik";
 import * as Yup from "yup";
 import {
   Event,
+  EventStatus,
   Reservation,
   CreateEventRequest,
   UpdateEventRequest,
+  TicketType,
+  CreateTicketTypeRequest,
 } from "../../types";
 import { eventService } from "../../services/eventService";
 import { reservationService } from "../../services/reservationService";
 import { useToast } from "../../context/ToastContext";
+import { useAuth } from "../../hooks/useAuth";
 import { Button } from "../../components/ui/Button";
 import Table from "../../components/ui/Table";
 import Modal from "../../components/ui/Modal";
+import EventTime from "../../components/ui/EventTime";
+import TimeZoneOptions from "../../components/ui/TimeZoneOptions";
+import EventStatusBadge from "../../components/ui/EventStatusBadge";
+import { toZonedInput } from "../../utils/timeZone";
 import { TableColumn } from "../../types";
+import { EventStaffManager } from "../../components/EventStaffManager";
+import { AgendaManager } from "../../components/AgendaManager";
+import {
+  applyEventAvailability,
+  useEventAvailability,
+} from "../../hooks/useEventAvailability";
+import { getApiErrorMessage } from "../../utils/apiError";
 
 // Validation schema for update event form
 const eventSchema = Yup.object().shape({
@@ -29,6 +44,11 @@ const eventSchema = Yup.object().shape({
   eventDate: Yup.date()
     .min(new Date(), "Event date must be in the future")
     .required("Event date is required"),
+  endDate: Yup.date().when("eventDate", {
+    is: (value: Date | undefined) => !!value,
+    then: (schema) =>
+      schema.min(Yup.ref("eventDate"), "Event must end after it starts"),
+  }),
   location: Yup.string()
     .min(1, "Location is required")
     .max(255, "Location must be less than 255 characters")
@@ -42,6 +62,52 @@ const eventSchema = Yup.object().shape({
     .min(1, "Max capacity must be at least 1")
     .max(10000, "Max capacity must be less than 10000")
     .required("Max capacity is required"),
+  registrationOpensAt: Yup.date().when("eventDate", {
+    is: (value: Date | undefined) => !!value,
+    then: (schema) =>
+      schema.max(
+        Yup.ref("eventDate"),
+        "Registration must open before the event starts"
+      ),
+  }),
+  registrationClosesAt: Yup.date()
+    .when("registrationOpensAt", {
+      is: (value: Date | undefined) => !!value,
+      then: (schema) =>
+        schema.min(
+          Yup.ref("registrationOpensAt"),
+          "Registration must close after it opens"
+        ),
+    })
+    .when("eventDate", {
+      is: (value: Date | undefined) => !!value,
+      then: (schema) =>
+        schema.max(
+          Yup.ref("eventDate"),
+          "Registration must close by the time the event starts"
+        ),
+    }),
+});
+
+// Validation schema for create ticket type form
+const ticketTypeSchema = Yup.object().shape({
+  name: Yup.string()
+    .max(100, "Name must be less than 100 characters")
+    .required("Name is required"),
+  description: Yup.string().max(
+    500,
+    "Description must be less than 500 characters"
+  ),
+  price: Yup.number().min(0, "Price cannot be negative"),
+  capacity: Yup.number()
+    .min(1, "Capacity must be at least 1")
+    .required("Capacity is required"),
+  salesStartAt: Yup.date(),
+  salesEndAt: Yup.date().when("salesStartAt", {
+    is: (value: Date | undefined) => !!value,
+    then: (schema) =>
+      schema.min(Yup.ref("salesStartAt"), "Sales must end after they start"),
+  }),
 });
 
 const EventDetails: React.FC = () => {
@@ -54,6 +120,16 @@ const EventDetails: React.FC = () => {
 
   // Edit modal state
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
+  const [isTicketTypeModalOpen, setIsTicketTypeModalOpen] = useState(false);
+  const [ticketTypeToDelete, setTicketTypeToDelete] =
+    useState<TicketType | null>(null);
+  const [ticketToken, setTicketToken] = useState("");
+  const [isCancelModalOpen, setIsCancelModalOpen] = useState(false);
+  const [cancellationReason, setCancellationReason] = useState("");
+  const [isCanceling, setIsCanceling] = useState(false);
+  const [isScheduleModalOpen, setIsScheduleModalOpen] = useState(false);
+  const [publishAt, setPublishAt] = useState("");
+  const { user } = useAuth();
 
   const {
     success,
@@ -69,12 +145,20 @@ const EventDetails: React.FC = () => {
     }
   }, [id]);
 
+  // Seat changes mean reservations changed too, so refresh the list
+  useEventAvailability(event ? [event.id] : [], (update) => {
+    setEvent((current) =>
+      current ? applyEventAvailability([current], update)[0] : current
+    );
+    loadEventReservations();
+  });
+
   const loadEventDetails = async () => {
     try {
       setLoading(true);
       const eventData = await eventService.getEventById(parseInt(id!));
       setEvent(eventData);
-    } catch (error: any) {
+    } catch (error) {
       showError("Failed to load event details");
       console.error("Load event error:", error);
     } finally {
@@ -89,7 +173,7 @@ const EventDetails: React.FC = () => {
         parseInt(id!)
       );
       setReservations(response.reservations);
-    } catch (error: any) {
+    } catch (error) {
       showError("Failed to load event reservations");
       console.error("Load reservations error:", error);
     } finally {
@@ -97,18 +181,6 @@ const EventDetails: React.FC = () => {
     }
   };
 
-  const formatEventDate = (dateString: string) => {
-    const date = new Date(dateString);
-    return date.toLocaleDateString("en-US", {
-      weekday: "long",
-      year: "numeric",
-      month: "long",
-      day: "numeric",
-      hour: "2-digit",
-      minute: "2-digit",
-    });
-  };
-
   const formatReservationDate = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleDateString("en-US", {
@@ -126,6 +198,10 @@ const EventDetails: React.FC = () => {
         return "text-green-600 bg-green-50";
       case "canceled":
         return "text-red-600 bg-red-50";
+      case "checked_in":
+        return "text-blue-600 bg-blue-50";
+      case "no_show":
+        return "text-gray-600 bg-gray-100";
       case "pending":
         return "text-yellow-600 bg-yellow-50";
       default:
@@ -144,26 +220,145 @@ const EventDetails: React.FC = () => {
 
       // Reload event details
       await loadEventDetails();
-    } catch (error: any) {
+    } catch (error) {
       showError("Failed to update event");
       console.error("Update event error:", error);
     }
   };
 
+  const handleCreateTicketType = async (values: CreateTicketTypeRequest) => {
+    try {
+      if (!event) return;
+
+      showLoading("Creating ticket type...");
+      await eventService.createTicketType(event.id, {
+        ...values,
+        salesStartAt: values.salesStartAt || undefined,
+        salesEndAt: values.salesEndAt || undefined,
+      });
+      dismiss();
+      success("Ticket type created successfully");
+      setIsTicketTypeModalOpen(false);
+
+      await loadEventDetails();
+    } catch (error: unknown) {
+      dismiss();
+      showError(getApiErrorMessage(error, "Failed to create ticket type"));
+      console.error("Create ticket type error:", error);
+    }
+  };
+
+  const handleDeleteTicketType = async () => {
+    if (!event || !ticketTypeToDelete) return;
+
+    try {
+      await eventService.deleteTicketType(event.id, ticketTypeToDelete.id);
+      success("Ticket type deleted successfully");
+      setTicketTypeToDelete(null);
+      await loadEventDetails();
+    } catch (error: unknown) {
+      showError(getApiErrorMessage(error, "Failed to delete ticket type"));
+      console.error("Delete ticket type error:", error);
+    }
+  };
+
+  const handleCancelEvent = async () => {
+    if (!event || !cancellationReason.trim()) return;
+
+    setIsCanceling(true);
+    try {
+      const response = await eventService.cancelEvent(
+        event.id,
+        cancellationReason.trim()
+      );
+      success(
+        `Event canceled; ${response.canceledReservations} reservation(s) canceled`
+      );
+      setIsCancelModalOpen(false);
+      setCancellationReason("");
+      await loadEventDetails();
+      await loadEventReservations();
+    } catch (error: unknown) {
+      showError(getApiErrorMessage(error, "Failed to cancel event"));
+      console.error("Cancel event error:", error);
+    } finally {
+      setIsCanceling(false);
+    }
+  };
+
+  const handleStatusChange = async (
+    status: EventStatus,
+    publishAt?: string
+  ) => {
+    if (!event) return;
+
+    try {
+      await eventService.updateEventStatus(event.id, { status, publishAt });
+      success(
+        status === "scheduled"
+          ? "Event scheduled for publishing"
+          : "Event status updated"
+      );
+      setIsScheduleModalOpen(false);
+      setPublishAt("");
+      await loadEventDetails();
+    } catch (error: unknown) {
+      showError(getApiErrorMessage(error, "Failed to update event status"));
+      console.error("Update event status error:", error);
+    }
+  };
+
+  const handleCheckIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!event || !ticketToken.trim()) return;
+
+    try {
+      const response = await reservationService.checkIn(
+        event.id,
+        ticketToken.trim()
+      );
+      const attendee = response.reservation.user;
+      success(
+        `Checked in ${
+          attendee?.firstName
+            ? `${attendee.firstName} ${attendee.lastName || ""}`.trim()
+            : attendee?.email || `reservation #${response.reservation.id}`
+        }`
+      );
+      await loadEventReservations();
+    } catch (error: unknown) {
+      showError(getApiErrorMessage(error, "Failed to check in ticket"));
+      console.error("Check-in error:", error);
+    } finally {
+      // Clear the field so the scanner is ready for the next ticket
+      setTicketToken("");
+    }
+  };
+
   const handleUpdateSubmit = (
     values: CreateEventRequest | UpdateEventRequest
   ) => {
-    handleUpdateEvent(values as UpdateEventRequest);
+    const { registrationOpensAt, registrationClosesAt, ...formValues } = values;
+    const scope = "scope" in formValues ? formValues.scope : undefined;
+    handleUpdateEvent({
+      ...formValues,
+      endDate: values.endDate || undefined,
+      // Windows are fixed times, so they're only edited per occurrence
+      ...((scope || "this") === "this" && {
+        registrationOpensAt: registrationOpensAt || null,
+        registrationClosesAt: registrationClosesAt || null,
+      }),
+    } as UpdateEventRequest);
   };
 
   const EventForm = React.memo(
     ({
       onSubmit,
-      isEdit = false,
+      isSeriesOccurrence = false,
       initialValues,
     }: {
       onSubmit: (values: CreateEventRequest | UpdateEventRequest) => void;
-      isEdit?: boolean;
+      isSeriesOccurrence?: boolean;
       initialValues: CreateEventRequest | UpdateEventRequest;
     }) => {
       return (
@@ -172,7 +367,7 @@ const EventDetails: React.FC = () => {
           validationSchema={eventSchema}
           onSubmit={onSubmit}
         >
-          {({ isSubmitting, errors, touched }) => (
+          {({ isSubmitting, errors, touched, values }) => (
             <Form>
               <div className="space-y-4">
                 <div>
@@ -254,6 +449,46 @@ const EventDetails: React.FC = () => {
                   />
                 </div>
 
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    End Date & Time
+                  </label>
+                  <Field
+                    type="datetime-local"
+                    name="endDate"
+                    className={`mt-1 block w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm ${
+                      errors.endDate && touched.endDate
+                        ? "border-red-300"
+                        : "border-gray-300"
+                    }`}
+                  />
+                  <p className="mt-1 text-xs text-gray-500">
+                    Leave empty for a 2-hour event. Multi-day events end on a
+                    later date.
+                  </p>
+                  <ErrorMessage
+                    name="endDate"
+                    component="p"
+                    className="mt-1 text-sm text-red-600"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Time Zone
+                  </label>
+                  <Field
+                    as="select"
+                    name="timeZone"
+                    className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                  >
+                    <TimeZoneOptions />
+                  </Field>
+                  <p className="mt-1 text-xs text-gray-500">
+                    The date and time above are local to this zone.
+                  </p>
+                </div>
+
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
                     Location *
@@ -318,6 +553,71 @@ const EventDetails: React.FC = () => {
                   />
                 </div>
 
+                {(!("scope" in values) ||
+                  (values.scope || "this") === "this") && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Registration Opens
+                      </label>
+                      <Field
+                        type="datetime-local"
+                        name="registrationOpensAt"
+                        className={`mt-1 block w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm ${
+                          errors.registrationOpensAt &&
+                          touched.registrationOpensAt
+                            ? "border-red-300"
+                            : "border-gray-300"
+                        }`}
+                      />
+                      <ErrorMessage
+                        name="registrationOpensAt"
+                        component="p"
+                        className="mt-1 text-sm text-red-600"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Registration Closes
+                      </label>
+                      <Field
+                        type="datetime-local"
+                        name="registrationClosesAt"
+                        className={`mt-1 block w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm ${
+                          errors.registrationClosesAt &&
+                          touched.registrationClosesAt
+                            ? "border-red-300"
+                            : "border-gray-300"
+                        }`}
+                      />
+                      <ErrorMessage
+                        name="registrationClosesAt"
+                        component="p"
+                        className="mt-1 text-sm text-red-600"
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {isSeriesOccurrence && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Apply Changes To
+                    </label>
+                    <Field
+                      as="select"
+                      name="scope"
+                      className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                    >
+                      <option value="this">This occurrence</option>
+                      <option value="following">
+                        This and following occurrences
+                      </option>
+                      <option value="all">All upcoming occurrences</option>
+                    </Field>
+                  </div>
+                )}
+
                 <div className="flex justify-end space-x-3 pt-4">
                   <Button
                     type="button"
@@ -338,6 +638,60 @@ const EventDetails: React.FC = () => {
     }
   );
 
+  const ticketTypeColumns: TableColumn<TicketType>[] = [
+    {
+      key: "name",
+      label: "Name",
+      render: (value, ticketType) => (
+        <div>
+          <div className="font-medium">{value}</div>
+          {ticketType.description && (
+            <div className="text-sm text-gray-500">
+              {ticketType.description}
+            </div>
+          )}
+        </div>
+      ),
+    },
+    {
+      key: "price",
+      label: "Price",
+      render: (value) => (value > 0 ? `$${Number(value).toFixed(2)}` : "Free"),
+    },
+    {
+      key: "availableSpots",
+      label: "Availability",
+      render: (value, ticketType) => `${value} of ${ticketType.capacity}`,
+    },
+    {
+      key: "salesStartAt",
+      label: "Sales Window",
+      render: (value, ticketType) =>
+        value || ticketType.salesEndAt
+          ? `${value ? formatReservationDate(value) : "Now"} – ${
+              ticketType.salesEndAt
+                ? formatReservationDate(ticketType.salesEndAt)
+                : "Event start"
+            }`
+          : "Always",
+    },
+    {
+      key: "salesStatus",
+      label: "Status",
+      render: (value) => (
+        <span
+          className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${
+            value === "on-sale"
+              ? "bg-green-100 text-green-800"
+              : "bg-gray-100 text-gray-800"
+          }`}
+        >
+          {value}
+        </span>
+      ),
+    },
+  ];
+
   const reservationColumns: TableColumn<Reservation>[] = [
     {
       key: "id",
@@ -347,7 +701,7 @@ const EventDetails: React.FC = () => {
     {
       key: "user",
       label: "User",
-      render: (value, reservation) => {
+      render: (_value, reservation) => {
         const user = reservation.user;
         if (!user) {
           return <div className="text-gray-500">User not found</div>;
@@ -364,6 +718,10 @@ const EventDetails: React.FC = () => {
         );
       },
     },
+    {
+      key: "quantity",
+      label: "Spots",
+    },
     {
       key: "status",
       label: "Status",
@@ -373,7 +731,7 @@ const EventDetails: React.FC = () => {
             value
           )}`}
         >
-          {value.charAt(0).toUpperCase() + value.slice(1)}
+          {value.charAt(0).toUpperCase() + value.slice(1).replace("_", " ")}
         </span>
       ),
     },
@@ -408,6 +766,11 @@ const EventDetails: React.FC = () => {
     );
   }
 
+  // Only the event owner (or an admin) can cancel it or manage its staff
+  const isEventOwner = user?.role === "admin" || user?.id === event.creatorId;
+  const canCancelEvent =
+    isEventOwner && !event.canceledAt && new Date(event.eventDate) > new Date();
+
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
       {/* Header */}
@@ -438,14 +801,74 @@ const EventDetails: React.FC = () => {
               Event ID: #{event.id} • Created by{" "}
               {event.creator?.firstName || "Unknown"}{" "}
               {event.creator?.lastName || ""}
+              {event.seriesId && " • Part of a recurring series"}
             </p>
           </div>
           <div className="flex space-x-3">
+            {!event.canceledAt &&
+              (event.status === "draft" || event.status === "scheduled") && (
+                <>
+                  <Button onClick={() => handleStatusChange("published")}>
+                    Publish Now
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => setIsScheduleModalOpen(true)}
+                  >
+                    {event.status === "scheduled" ? "Reschedule" : "Schedule"}
+                  </Button>
+                </>
+              )}
+            {!event.canceledAt && event.status === "published" && (
+              <>
+                <Button
+                  variant="outline"
+                  onClick={() => handleStatusChange("closed")}
+                >
+                  Close Registration
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => handleStatusChange("draft")}
+                >
+                  Unpublish
+                </Button>
+              </>
+            )}
+            {!event.canceledAt && event.status === "closed" && (
+              <Button
+                variant="outline"
+                onClick={() => handleStatusChange("published")}
+              >
+                Reopen Registration
+              </Button>
+            )}
             <Button variant="outline" onClick={() => setIsEditModalOpen(true)}>
               Edit Event
             </Button>
+            {canCancelEvent && (
+              <Button
+                variant="danger"
+                onClick={() => setIsCancelModalOpen(true)}
+              >
+                Cancel Event
+              </Button>
+            )}
           </div>
         </div>
+        {event.canceledAt && (
+          <div className="mt-4 rounded-md bg-red-50 border border-red-200 p-4">
+            <p className="text-sm font-medium text-red-800">
+              This event was canceled on{" "}
+              {new Date(event.canceledAt).toLocaleString()}
+            </p>
+            {event.cancellationReason && (
+              <p className="text-sm text-red-700 mt-1">
+                Reason: {event.cancellationReason}
+              </p>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Event Details */}
@@ -462,7 +885,11 @@ const EventDetails: React.FC = () => {
                   Date & Time
                 </label>
                 <p className="text-gray-900">
-                  {formatEventDate(event.eventDate)}
+                  <EventTime
+                    date={event.eventDate}
+                    endDate={event.endDate}
+                    timeZone={event.timeZone}
+                  />
                 </p>
               </div>
               <div>
@@ -473,6 +900,59 @@ const EventDetails: React.FC = () => {
                   {event.location || "Online Event"}
                 </p>
               </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Status
+                </label>
+                <p className="text-gray-900">
+                  <EventStatusBadge
+                    status={event.status}
+                    publishAt={event.publishAt}
+                  />
+                  {event.status === "scheduled" && event.publishAt && (
+                    <span className="ml-2 text-sm text-gray-600">
+                      Publishes{" "}
+                      <EventTime
+                        date={event.publishAt}
+                        timeZone={event.timeZone}
+                        compact
+                      />
+                    </span>
+                  )}
+                </p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Registration
+                </label>
+                <p className="text-gray-900">
+                  {event.registrationOpensAt || event.registrationClosesAt ? (
+                    <>
+                      {event.registrationOpensAt ? (
+                        <EventTime
+                          date={event.registrationOpensAt}
+                          timeZone={event.timeZone}
+                          compact
+                        />
+                      ) : (
+                        "On publishing"
+                      )}
+                      {" – "}
+                      {event.registrationClosesAt ? (
+                        <EventTime
+                          date={event.registrationClosesAt}
+                          timeZone={event.timeZone}
+                          compact
+                        />
+                      ) : (
+                        "event start"
+                      )}
+                    </>
+                  ) : (
+                    "Open until the event starts"
+                  )}
+                </p>
+              </div>
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Capacity
@@ -533,6 +1013,18 @@ const EventDetails: React.FC = () => {
                   {reservations.filter((r) => r.status === "confirmed").length}
                 </span>
               </div>
+              <div className="flex justify-between items-center">
+                <span className="text-gray-600">Checked In</span>
+                <span className="font-semibold text-blue-600">
+                  {reservations.filter((r) => r.status === "checked_in").length}
+                </span>
+              </div>
+              <div className="flex justify-between items-center">
+                <span className="text-gray-600">No-shows</span>
+                <span className="font-semibold text-gray-600">
+                  {reservations.filter((r) => r.status === "no_show").length}
+                </span>
+              </div>
               <div className="flex justify-between items-center">
                 <span className="text-gray-600">Cancelled</span>
                 <span className="font-semibold text-red-600">
@@ -561,6 +1053,64 @@ const EventDetails: React.FC = () => {
         </div>
       </div>
 
+      {/* Ticket Types */}
+      <div className="bg-white rounded-lg shadow mb-8">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">
+              Ticket Types ({event.ticketTypes?.length || 0})
+            </h2>
+            <p className="text-sm text-gray-600 mt-1">
+              Pricing tiers share the event capacity
+            </p>
+          </div>
+          <Button size="sm" onClick={() => setIsTicketTypeModalOpen(true)}>
+            Add Ticket Type
+          </Button>
+        </div>
+        <div className="p-6">
+          {!event.ticketTypes || event.ticketTypes.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              No ticket types. Attendees book directly from the event capacity.
+            </div>
+          ) : (
+            <Table
+              data={event.ticketTypes}
+              columns={ticketTypeColumns}
+              loading={false}
+              onDelete={setTicketTypeToDelete}
+            />
+          )}
+        </div>
+      </div>
+
+      {/* Agenda */}
+      <AgendaManager eventId={event.id} timeZone={event.timeZone} />
+
+      {/* Event Staff */}
+      <EventStaffManager eventId={event.id} canManageStaff={isEventOwner} />
+
+      {/* Check-in */}
+      <div className="bg-white rounded-lg shadow p-6 mb-8">
+        <h2 className="text-xl font-semibold text-gray-900 mb-1">Check-in</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          Scan an attendee's QR ticket or paste its code.
+        </p>
+        <form onSubmit={handleCheckIn} className="flex space-x-3">
+          <input
+            type="text"
+            value={ticketToken}
+            onChange={(e) => setTicketToken(e.target.value)}
+            placeholder="Ticket code"
+            autoComplete="off"
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <Button type="submit" disabled={!ticketToken.trim()}>
+            Check In
+          </Button>
+        </form>
+      </div>
+
       {/* Reservations Table */}
       <div className="bg-white rounded-lg shadow">
         <div className="px-6 py-4 border-b border-gray-200">
@@ -590,6 +1140,185 @@ const EventDetails: React.FC = () => {
         </div>
       </div>
 
+      {/* Create Ticket Type Modal */}
+      <Modal
+        isOpen={isTicketTypeModalOpen}
+        onClose={() => setIsTicketTypeModalOpen(false)}
+        title="Add Ticket Type"
+      >
+        <Formik
+          initialValues={{
+            name: "",
+            description: "",
+            price: 0,
+            capacity: 1,
+            salesStartAt: "",
+            salesEndAt: "",
+          }}
+          validationSchema={ticketTypeSchema}
+          onSubmit={handleCreateTicketType}
+        >
+          {({ isSubmitting }) => (
+            <Form className="space-y-4">
+              {[
+                { name: "name", label: "Name", type: "text" },
+                { name: "description", label: "Description", type: "text" },
+                { name: "price", label: "Price", type: "number" },
+                { name: "capacity", label: "Capacity", type: "number" },
+                {
+                  name: "salesStartAt",
+                  label: "Sales Start",
+                  type: "datetime-local",
+                },
+                {
+                  name: "salesEndAt",
+                  label: "Sales End",
+                  type: "datetime-local",
+                },
+              ].map((field) => (
+                <div key={field.name}>
+                  <label
+                    htmlFor={field.name}
+                    className="block text-sm font-medium text-gray-700 mb-1"
+                  >
+                    {field.label}
+                  </label>
+                  <Field
+                    id={field.name}
+                    name={field.name}
+                    type={field.type}
+                    step={field.name === "price" ? "0.01" : undefined}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <ErrorMessage
+                    name={field.name}
+                    component="div"
+                    className="text-red-500 text-sm mt-1"
+                  />
+                </div>
+              ))}
+              <div className="flex justify-end space-x-3 pt-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setIsTicketTypeModalOpen(false)}
+                >
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={isSubmitting}>
+                  Create
+                </Button>
+              </div>
+            </Form>
+          )}
+        </Formik>
+      </Modal>
+
+      {/* Delete Ticket Type Modal */}
+      <Modal
+        isOpen={!!ticketTypeToDelete}
+        onClose={() => setTicketTypeToDelete(null)}
+        title="Delete Ticket Type"
+      >
+        <div>
+          <p className="text-sm text-gray-500 mb-4">
+            Are you sure you want to delete the{" "}
+            <strong>{ticketTypeToDelete?.name}</strong> ticket type? Tiers with
+            active reservations cannot be deleted.
+          </p>
+          <div className="flex justify-end space-x-3">
+            <Button
+              variant="outline"
+              onClick={() => setTicketTypeToDelete(null)}
+            >
+              Cancel
+            </Button>
+            <Button variant="danger" onClick={handleDeleteTicketType}>
+              Delete Ticket Type
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      {/* Cancel Event Modal */}
+      <Modal
+        isOpen={isCancelModalOpen}
+        onClose={() => setIsCancelModalOpen(false)}
+        title="Cancel Event"
+      >
+        <div>
+          <p className="text-sm text-gray-500 mb-4">
+            All confirmed reservations for <strong>{event.name}</strong> will be
+            canceled and attendees notified with the reason below. The event
+            stays listed as cancelled.
+          </p>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Reason
+          </label>
+          <textarea
+            value={cancellationReason}
+            onChange={(e) => setCancellationReason(e.target.value)}
+            rows={3}
+            maxLength={500}
+            placeholder="e.g. The venue is unavailable"
+            className="mb-4 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+          />
+          <div className="flex justify-end space-x-3">
+            <Button
+              variant="outline"
+              onClick={() => setIsCancelModalOpen(false)}
+            >
+              Keep Event
+            </Button>
+            <Button
+              variant="danger"
+              onClick={handleCancelEvent}
+              loading={isCanceling}
+              disabled={!cancellationReason.trim()}
+            >
+              Cancel Event
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      {/* Schedule Publishing Modal */}
+      <Modal
+        isOpen={isScheduleModalOpen}
+        onClose={() => setIsScheduleModalOpen(false)}
+        title="Schedule Publishing"
+      >
+        <div>
+          <p className="text-sm text-gray-500 mb-4">
+            <strong>{event.name}</strong> stays hidden from attendees until this
+            time ({event.timeZone}).
+          </p>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Publish At
+          </label>
+          <input
+            type="datetime-local"
+            value={publishAt}
+            onChange={(e) => setPublishAt(e.target.value)}
+            className="mb-4 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+          />
+          <div className="flex justify-end space-x-3">
+            <Button
+              variant="outline"
+              onClick={() => setIsScheduleModalOpen(false)}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={() => handleStatusChange("scheduled", publishAt)}
+              disabled={!publishAt}
+            >
+              Schedule
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
       {/* Edit Event Modal */}
       <Modal
         isOpen={isEditModalOpen}
@@ -598,18 +1327,26 @@ const EventDetails: React.FC = () => {
       >
         <EventForm
           onSubmit={handleUpdateSubmit}
-          isEdit
+          isSeriesOccurrence={!!event?.seriesId}
           initialValues={
             event
               ? {
                   name: event.name,
                   description: event.description || "",
-                  eventDate: new Date(event.eventDate)
-                    .toISOString()
-                    .slice(0, 16),
+                  // Wall-clock time in the event's zone
+                  eventDate: (event.times?.startLocal || "").slice(0, 16),
+                  endDate: (event.times?.endLocal || "").slice(0, 16),
+                  timeZone: event.timeZone,
                   location: event.location || "",
                   onlineLink: event.onlineLink || "",
                   maxCapacity: event.maxCapacity,
+                  registrationOpensAt: event.registrationOpensAt
+                    ? toZonedInput(event.registrationOpensAt, event.timeZone)
+                    : "",
+                  registrationClosesAt: event.registrationClosesAt
+                    ? toZonedInput(event.registrationClosesAt, event.timeZone)
+                    : "",
+                  ...(event.seriesId && { scope: "this" as const }),
                 }
               : {
                   name: "",
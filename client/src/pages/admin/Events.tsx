@@ -3,18 +3,90 @@ import { useNavigate } from "react-router-dom";
 import { Formik, Form, Field, ErrorMessage } from "formik";
 import * as Yup from "yup";
 import {
+  Category,
   Event,
   EventFilters,
   CreateEventRequest,
+  CreateEventSeriesRequest,
+  EventEditScope,
+  EventStatus,
   UpdateEventRequest,
   TableColumn,
+  Venue,
 } from "../../types";
 import { eventService } from "../../services/eventService";
+import { categoryService } from "../../services/categoryService";
+import { venueService } from "../../services/venueService";
 import { useToast } from "../../context/ToastContext";
 import Table from "../../components/ui/Table";
 import Modal from "../../components/ui/Modal";
-import FormField from "../../components/ui/FormField";
 import Pagination from "../../components/ui/Pagination";
+import EventTime from "../../components/ui/EventTime";
+import TimeZoneOptions from "../../components/ui/TimeZoneOptions";
+import EventStatusBadge from "../../components/ui/EventStatusBadge";
+import { toZonedInput } from "../../utils/timeZone";
+import { getApiErrorMessage } from "../../utils/apiError";
+
+// "" creates a one-off event; anything else creates a series
+type RepeatFrequency = "" | "DAILY" | "WEEKLY" | "MONTHLY";
+
+// How a new event goes public
+type PublishMode = "draft" | "published" | "scheduled";
+
+const STATUS_TABS: { status?: EventStatus; label: string }[] = [
+  { label: "All" },
+  { status: "draft", label: "Drafts" },
+  { status: "scheduled", label: "Scheduled" },
+  { status: "published", label: "Published" },
+  { status: "closed", label: "Closed" },
+];
+
+type EventFormValues = Omit<
+  CreateEventRequest | UpdateEventRequest,
+  | "categoryId"
+  | "tags"
+  | "venueId"
+  | "status"
+  | "publishAt"
+  | "registrationOpensAt"
+  | "registrationClosesAt"
+> & {
+  // Select values; "" leaves the event uncategorized or without a venue
+  categoryId?: string;
+  venueId?: string;
+  // Comma-separated tags
+  tagList?: string;
+  repeat?: RepeatFrequency;
+  repeatCount?: number;
+  // Comma-separated dates (YYYY-MM-DD) the series skips
+  skipDates?: string;
+  scope?: EventEditScope;
+  publishMode?: PublishMode;
+  publishAt?: string;
+  // Wall-clock times in the event's zone; "" leaves that end open
+  registrationOpensAt?: string;
+  registrationClosesAt?: string;
+};
+
+const parseList = (value?: string) =>
+  (value || "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+// Convert the form fields back into the API's ids and tag list
+const toEventData = ({
+  categoryId,
+  venueId,
+  tagList,
+  ...values
+}: EventFormValues) => ({
+  ...values,
+  endDate: values.endDate || undefined,
+  categoryId: categoryId ? Number(categoryId) : null,
+  venueId: venueId ? Number(venueId) : null,
+  tags: [...new Set(parseList(tagList).map((tag) => tag.toLowerCase()))],
+});
 
 // Validation schema for create/update event form
 const eventSchema = Yup.object().shape({
@@ -29,6 +101,11 @@ const eventSchema = Yup.object().shape({
   eventDate: Yup.date()
     .min(new Date(), "Event date must be in the future")
     .required("Event date is required"),
+  endDate: Yup.date().when("eventDate", {
+    is: (value: Date | undefined) => !!value,
+    then: (schema) =>
+      schema.min(Yup.ref("eventDate"), "Event must end after it starts"),
+  }),
   location: Yup.string()
     .min(1, "Location is required")
     .max(255, "Location must be less than 255 characters")
@@ -42,6 +119,64 @@ const eventSchema = Yup.object().shape({
     .min(1, "Max capacity must be at least 1")
     .max(10000, "Max capacity must be less than 10000")
     .required("Max capacity is required"),
+  maxPerBooking: Yup.number()
+    .min(1, "Max per booking must be at least 1")
+    .max(
+      Yup.ref("maxCapacity"),
+      "Max per booking cannot exceed the max capacity"
+    ),
+  repeatCount: Yup.number().when("repeat", {
+    is: (value: RepeatFrequency | undefined) => !!value,
+    then: (schema) =>
+      schema
+        .min(2, "A series needs at least 2 occurrences")
+        .max(100, "A series can have at most 100 occurrences")
+        .required("Number of occurrences is required"),
+  }),
+  tagList: Yup.string().test(
+    "tags",
+    "Use at most 10 tags of up to 50 characters each",
+    (value) => {
+      const tags = parseList(value);
+      return tags.length <= 10 && tags.every((tag) => tag.length <= 50);
+    }
+  ),
+  skipDates: Yup.string().matches(
+    /^\s*(\d{4}-\d{2}-\d{2}\s*(,\s*\d{4}-\d{2}-\d{2}\s*)*)?$/,
+    "List dates like 2026-01-31, separated by commas"
+  ),
+  publishAt: Yup.date().when("publishMode", {
+    is: "scheduled",
+    then: (schema) =>
+      schema
+        .min(new Date(), "Publish time must be in the future")
+        .required("Publish time is required"),
+  }),
+  registrationOpensAt: Yup.date().when("eventDate", {
+    is: (value: Date | undefined) => !!value,
+    then: (schema) =>
+      schema.max(
+        Yup.ref("eventDate"),
+        "Registration must open before the event starts"
+      ),
+  }),
+  registrationClosesAt: Yup.date()
+    .when("registrationOpensAt", {
+      is: (value: Date | undefined) => !!value,
+      then: (schema) =>
+        schema.min(
+          Yup.ref("registrationOpensAt"),
+          "Registration must close after it opens"
+        ),
+    })
+    .when("eventDate", {
+      is: (value: Date | undefined) => !!value,
+      then: (schema) =>
+        schema.max(
+          Yup.ref("eventDate"),
+          "Registration must close by the time the event starts"
+        ),
+    }),
 });
 
 const Events: React.FC = () => {
@@ -57,9 +192,13 @@ const Events: React.FC = () => {
   const [filters, setFilters] = useState<EventFilters>({
     name: undefined,
     location: undefined,
+    status: undefined,
     page: 1,
     limit: 10,
   });
+  const [statusCounts, setStatusCounts] = useState<
+    Partial<Record<EventStatus, number>>
+  >({});
 
   // Local input state for debounced search
   const [inputFilters, setInputFilters] = useState<EventFilters>({
@@ -74,18 +213,8 @@ const Events: React.FC = () => {
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
   const [selectedEvent, setSelectedEvent] = useState<Event | null>(null);
-
-  // Form state
-  const [formData, setFormData] = useState<
-    CreateEventRequest | UpdateEventRequest
-  >({
-    name: "",
-    description: "",
-    eventDate: "",
-    location: "",
-    onlineLink: "",
-    maxCapacity: 50,
-  });
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [venues, setVenues] = useState<Venue[]>([]);
 
   const {
     success,
@@ -97,16 +226,23 @@ const Events: React.FC = () => {
   // Memoize filters to prevent unnecessary re-renders
   const memoizedFilters = useMemo(
     () => filters,
-    [filters.name, filters.location, filters.page, filters.limit]
+    [
+      filters.name,
+      filters.location,
+      filters.status,
+      filters.page,
+      filters.limit,
+    ]
   );
 
   const loadEvents = useCallback(async () => {
     try {
       setLoading(true);
-      const response = await eventService.getEvents(memoizedFilters);
+      const response = await eventService.getEventsForAdmin(memoizedFilters);
       setEvents(response.events);
       setPagination(response.pagination);
-    } catch (error: any) {
+      setStatusCounts(response.statusCounts || {});
+    } catch (error) {
       showError("Failed to load events");
       console.error("Load events error:", error);
     } finally {
@@ -114,6 +250,29 @@ const Events: React.FC = () => {
     }
   }, [memoizedFilters, showError]);
 
+  useEffect(() => {
+    const loadCategories = async () => {
+      try {
+        const response = await categoryService.getCategories();
+        setCategories(response.categories);
+      } catch (error) {
+        console.error("Load categories error:", error);
+      }
+    };
+
+    const loadVenues = async () => {
+      try {
+        const response = await venueService.getVenues();
+        setVenues(response.venues);
+      } catch (error) {
+        console.error("Load venues error:", error);
+      }
+    };
+
+    loadCategories();
+    loadVenues();
+  }, []);
+
   // Combined effect for initial load and filter changes
   useEffect(() => {
     loadEvents();
@@ -137,6 +296,10 @@ const Events: React.FC = () => {
     setFilters((prev) => ({ ...prev, page }));
   };
 
+  const handleStatusChange = (status?: EventStatus) => {
+    setFilters((prev) => ({ ...prev, status, page: 1 }));
+  };
+
   const handleCreate = () => {
     setIsCreateModalOpen(true);
   };
@@ -164,9 +327,24 @@ const Events: React.FC = () => {
       success("Event created successfully");
       setIsCreateModalOpen(false);
       loadEvents();
-    } catch (error: any) {
+    } catch (error: unknown) {
       dismiss(loadingToast);
-      showError(error.response?.data?.error || "Failed to create event");
+      showError(getApiErrorMessage(error, "Failed to create event"));
+    }
+  };
+
+  const handleCreateSeries = async (values: CreateEventSeriesRequest) => {
+    const loadingToast = showLoading("Creating event series...");
+
+    try {
+      const response = await eventService.createEventSeries(values);
+      dismiss(loadingToast);
+      success(response.message);
+      setIsCreateModalOpen(false);
+      loadEvents();
+    } catch (error: unknown) {
+      dismiss(loadingToast);
+      showError(getApiErrorMessage(error, "Failed to create event series"));
     }
   };
 
@@ -182,23 +360,58 @@ const Events: React.FC = () => {
       setIsEditModalOpen(false);
       setSelectedEvent(null);
       loadEvents();
-    } catch (error: any) {
+    } catch (error: unknown) {
       dismiss(loadingToast);
-      showError(error.response?.data?.error || "Failed to update event");
+      showError(getApiErrorMessage(error, "Failed to update event"));
     }
   };
 
   // Wrapper functions for EventForm compatibility
-  const handleCreateSubmit = (
-    values: CreateEventRequest | UpdateEventRequest
-  ) => {
-    handleCreateEvent(values as CreateEventRequest);
+  const handleCreateSubmit = (values: EventFormValues) => {
+    const {
+      repeat,
+      repeatCount,
+      skipDates,
+      publishMode,
+      publishAt,
+      registrationOpensAt,
+      registrationClosesAt,
+      ...formValues
+    } = values;
+    const eventData = {
+      ...toEventData(formValues),
+      status: publishMode === "published" ? "published" : "draft",
+      publishAt: publishMode === "scheduled" ? publishAt : undefined,
+    } as CreateEventRequest;
+    if (!repeat) {
+      handleCreateEvent({
+        ...eventData,
+        registrationOpensAt: registrationOpensAt || undefined,
+        registrationClosesAt: registrationClosesAt || undefined,
+      });
+      return;
+    }
+
+    // Series occurrences get their registration windows one by one
+    handleCreateSeries({
+      ...eventData,
+      recurrence: {
+        rrule: `FREQ=${repeat};COUNT=${repeatCount}`,
+        exceptions: parseList(skipDates),
+      },
+    });
   };
 
-  const handleUpdateSubmit = (
-    values: CreateEventRequest | UpdateEventRequest
-  ) => {
-    handleUpdateEvent(values as UpdateEventRequest);
+  const handleUpdateSubmit = (values: EventFormValues) => {
+    const { registrationOpensAt, registrationClosesAt, ...formValues } = values;
+    handleUpdateEvent({
+      ...toEventData(formValues),
+      // Windows are fixed times, so they're only edited per occurrence
+      ...((formValues.scope || "this") === "this" && {
+        registrationOpensAt: registrationOpensAt || null,
+        registrationClosesAt: registrationClosesAt || null,
+      }),
+    } as UpdateEventRequest);
   };
 
   const handleDeleteEvent = async () => {
@@ -213,9 +426,9 @@ const Events: React.FC = () => {
       setIsDeleteModalOpen(false);
       setSelectedEvent(null);
       loadEvents();
-    } catch (error: any) {
+    } catch (error: unknown) {
       dismiss(loadingToast);
-      showError(error.response?.data?.error || "Failed to delete event");
+      showError(getApiErrorMessage(error, "Failed to delete event"));
     }
   };
 
@@ -229,7 +442,14 @@ const Events: React.FC = () => {
       label: "Event Name",
       render: (value, event) => (
         <div>
-          <div className="font-medium text-gray-900">{value}</div>
+          <div className="font-medium text-gray-900">
+            {value}
+            {event.seriesId && (
+              <span className="ml-2 inline-flex px-2 py-0.5 text-xs font-medium rounded-full bg-purple-100 text-purple-800">
+                Recurring
+              </span>
+            )}
+          </div>
           {event.description && (
             <div className="text-sm text-gray-500 truncate max-w-xs">
               {event.description}
@@ -238,24 +458,31 @@ const Events: React.FC = () => {
         </div>
       ),
     },
+    {
+      key: "status",
+      label: "Status",
+      render: (value, event) => (
+        <EventStatusBadge status={value} publishAt={event.publishAt} />
+      ),
+    },
     {
       key: "eventDate",
       label: "Date & Time",
-      render: (value) => (
-        <div>
-          <div className="text-sm text-gray-900">
-            {new Date(value).toLocaleDateString()}
-          </div>
-          <div className="text-sm text-gray-500">
-            {new Date(value).toLocaleTimeString()}
-          </div>
+      render: (value, event) => (
+        <div className="text-sm text-gray-900">
+          <EventTime date={value} timeZone={event.timeZone} compact />
         </div>
       ),
     },
     {
       key: "location",
       label: "Location",
-      render: (value) => value || "-",
+      render: (value, event) => event.venue?.name || value || "-",
+    },
+    {
+      key: "category",
+      label: "Category",
+      render: (_, event) => event.category?.name || "-",
     },
     {
       key: "maxCapacity",
@@ -280,9 +507,9 @@ const Events: React.FC = () => {
       isEdit = false,
       initialValues,
     }: {
-      onSubmit: (values: CreateEventRequest | UpdateEventRequest) => void;
+      onSubmit: (values: EventFormValues) => void;
       isEdit?: boolean;
-      initialValues: CreateEventRequest | UpdateEventRequest;
+      initialValues: EventFormValues;
     }) => {
       return (
         <Formik
@@ -290,7 +517,7 @@ const Events: React.FC = () => {
           validationSchema={eventSchema}
           onSubmit={onSubmit}
         >
-          {({ isSubmitting, errors, touched }) => (
+          {({ isSubmitting, errors, touched, values }) => (
             <Form>
               <div className="space-y-4">
                 <div>
@@ -372,6 +599,46 @@ const Events: React.FC = () => {
                   />
                 </div>
 
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    End Date & Time
+                  </label>
+                  <Field
+                    type="datetime-local"
+                    name="endDate"
+                    className={`mt-1 block w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm ${
+                      errors.endDate && touched.endDate
+                        ? "border-red-300"
+                        : "border-gray-300"
+                    }`}
+                  />
+                  <p className="mt-1 text-xs text-gray-500">
+                    Leave empty for a 2-hour event. Multi-day events end on a
+                    later date.
+                  </p>
+                  <ErrorMessage
+                    name="endDate"
+                    component="p"
+                    className="mt-1 text-sm text-red-600"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Time Zone
+                  </label>
+                  <Field
+                    as="select"
+                    name="timeZone"
+                    className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                  >
+                    <TimeZoneOptions />
+                  </Field>
+                  <p className="mt-1 text-xs text-gray-500">
+                    The date and time above are local to this zone.
+                  </p>
+                </div>
+
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
                     Location *
@@ -434,6 +701,264 @@ const Events: React.FC = () => {
                     className="mt-1 text-sm text-red-600"
                   />
                 </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Max Spots per Booking
+                  </label>
+                  <Field
+                    type="number"
+                    name="maxPerBooking"
+                    placeholder="Enter how many spots one booking can hold"
+                    className={`mt-1 block w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm ${
+                      errors.maxPerBooking && touched.maxPerBooking
+                        ? "border-red-300"
+                        : "border-gray-300"
+                    }`}
+                  />
+                  <ErrorMessage
+                    name="maxPerBooking"
+                    component="p"
+                    className="mt-1 text-sm text-red-600"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Venue
+                  </label>
+                  <Field
+                    as="select"
+                    name="venueId"
+                    className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                  >
+                    <option value="">No venue</option>
+                    {venues.map((venue) => (
+                      <option key={venue.id} value={venue.id}>
+                        {venue.name}
+                        {venue.capacity ? ` (up to ${venue.capacity})` : ""}
+                      </option>
+                    ))}
+                  </Field>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Category
+                  </label>
+                  <Field
+                    as="select"
+                    name="categoryId"
+                    className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                  >
+                    <option value="">No category</option>
+                    {categories.map((category) => (
+                      <option key={category.id} value={category.id}>
+                        {category.name}
+                      </option>
+                    ))}
+                  </Field>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Tags
+                  </label>
+                  <Field
+                    type="text"
+                    name="tagList"
+                    placeholder="workshop, beginner, free"
+                    className={`mt-1 block w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm ${
+                      errors.tagList && touched.tagList
+                        ? "border-red-300"
+                        : "border-gray-300"
+                    }`}
+                  />
+                  <ErrorMessage
+                    name="tagList"
+                    component="p"
+                    className="mt-1 text-sm text-red-600"
+                  />
+                </div>
+
+                {!isEdit && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Publishing
+                    </label>
+                    <Field
+                      as="select"
+                      name="publishMode"
+                      className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                    >
+                      <option value="draft">Save as draft</option>
+                      <option value="published">Publish now</option>
+                      <option value="scheduled">Publish later</option>
+                    </Field>
+                    <p className="mt-1 text-xs text-gray-500">
+                      Drafts and scheduled events are hidden from attendees.
+                    </p>
+                  </div>
+                )}
+
+                {!isEdit && values.publishMode === "scheduled" && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Publish At *
+                    </label>
+                    <Field
+                      type="datetime-local"
+                      name="publishAt"
+                      className={`mt-1 block w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm ${
+                        errors.publishAt && touched.publishAt
+                          ? "border-red-300"
+                          : "border-gray-300"
+                      }`}
+                    />
+                    <ErrorMessage
+                      name="publishAt"
+                      component="p"
+                      className="mt-1 text-sm text-red-600"
+                    />
+                  </div>
+                )}
+
+                {!values.repeat && (values.scope || "this") === "this" && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Registration Opens
+                      </label>
+                      <Field
+                        type="datetime-local"
+                        name="registrationOpensAt"
+                        className={`mt-1 block w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm ${
+                          errors.registrationOpensAt &&
+                          touched.registrationOpensAt
+                            ? "border-red-300"
+                            : "border-gray-300"
+                        }`}
+                      />
+                      <ErrorMessage
+                        name="registrationOpensAt"
+                        component="p"
+                        className="mt-1 text-sm text-red-600"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Registration Closes
+                      </label>
+                      <Field
+                        type="datetime-local"
+                        name="registrationClosesAt"
+                        className={`mt-1 block w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm ${
+                          errors.registrationClosesAt &&
+                          touched.registrationClosesAt
+                            ? "border-red-300"
+                            : "border-gray-300"
+                        }`}
+                      />
+                      <ErrorMessage
+                        name="registrationClosesAt"
+                        component="p"
+                        className="mt-1 text-sm text-red-600"
+                      />
+                    </div>
+                    <p className="md:col-span-2 -mt-3 text-xs text-gray-500">
+                      Leave empty to take reservations from publishing until the
+                      event starts.
+                    </p>
+                  </div>
+                )}
+
+                {isEdit && initialValues.scope && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Apply Changes To
+                    </label>
+                    <Field
+                      as="select"
+                      name="scope"
+                      className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                    >
+                      <option value="this">This occurrence</option>
+                      <option value="following">
+                        This and following occurrences
+                      </option>
+                      <option value="all">All upcoming occurrences</option>
+                    </Field>
+                  </div>
+                )}
+
+                {!isEdit && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Repeat
+                    </label>
+                    <Field
+                      as="select"
+                      name="repeat"
+                      className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                    >
+                      <option value="">Does not repeat</option>
+                      <option value="DAILY">Daily</option>
+                      <option value="WEEKLY">Weekly</option>
+                      <option value="MONTHLY">Monthly</option>
+                    </Field>
+                  </div>
+                )}
+
+                {!isEdit && values.repeat && (
+                  <>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Number of Occurrences *
+                      </label>
+                      <Field
+                        type="number"
+                        name="repeatCount"
+                        min="2"
+                        max="100"
+                        className={`mt-1 block w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm ${
+                          errors.repeatCount && touched.repeatCount
+                            ? "border-red-300"
+                            : "border-gray-300"
+                        }`}
+                      />
+                      <ErrorMessage
+                        name="repeatCount"
+                        component="p"
+                        className="mt-1 text-sm text-red-600"
+                      />
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Skip Dates
+                      </label>
+                      <Field
+                        type="text"
+                        name="skipDates"
+                        placeholder="2026-12-25, 2027-01-01"
+                        className={`mt-1 block w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm ${
+                          errors.skipDates && touched.skipDates
+                            ? "border-red-300"
+                            : "border-gray-300"
+                        }`}
+                      />
+                      <ErrorMessage
+                        name="skipDates"
+                        component="p"
+                        className="mt-1 text-sm text-red-600"
+                      />
+                      <p className="mt-1 text-xs text-gray-500">
+                        Each occurrence is a separate event with its own
+                        capacity and reservations.
+                      </p>
+                    </div>
+                  </>
+                )}
               </div>
 
               <div className="flex justify-end space-x-3 pt-4">
@@ -510,6 +1035,28 @@ const Events: React.FC = () => {
         </div>
       </div>
 
+      {/* Status Tabs */}
+      <div className="mb-4 flex flex-wrap gap-2">
+        {STATUS_TABS.map(({ status, label }) => (
+          <button
+            key={label}
+            onClick={() => handleStatusChange(status)}
+            className={`px-3 py-1 text-sm rounded-full border ${
+              filters.status === status
+                ? "bg-blue-100 text-blue-800 border-blue-200"
+                : "bg-white text-gray-700 border-gray-300 hover:bg-gray-50"
+            }`}
+          >
+            {label}
+            {status && statusCounts[status] !== undefined && (
+              <span className="ml-1 text-gray-500">
+                ({statusCounts[status]})
+              </span>
+            )}
+          </button>
+        ))}
+      </div>
+
       {/* Events Table */}
       <div className="bg-white shadow rounded-lg">
         <Table
@@ -544,9 +1091,23 @@ const Events: React.FC = () => {
             name: "",
             description: "",
             eventDate: "",
+            endDate: "",
+            // The organizer's own zone until they pick another
+            timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
             location: "",
             onlineLink: "",
             maxCapacity: 50,
+            maxPerBooking: 1,
+            categoryId: "",
+            venueId: "",
+            tagList: "",
+            repeat: "",
+            repeatCount: 4,
+            skipDates: "",
+            publishMode: "draft",
+            publishAt: "",
+            registrationOpensAt: "",
+            registrationClosesAt: "",
           }}
         />
       </Modal>
@@ -567,12 +1128,33 @@ const Events: React.FC = () => {
               ? {
                   name: selectedEvent.name,
                   description: selectedEvent.description || "",
-                  eventDate: new Date(selectedEvent.eventDate)
-                    .toISOString()
-                    .slice(0, 16),
+                  // Wall-clock time in the event's zone
+                  eventDate: (selectedEvent.times?.startLocal || "").slice(
+                    0,
+                    16
+                  ),
+                  endDate: (selectedEvent.times?.endLocal || "").slice(0, 16),
+                  timeZone: selectedEvent.timeZone,
                   location: selectedEvent.location || "",
                   onlineLink: selectedEvent.onlineLink || "",
                   maxCapacity: selectedEvent.maxCapacity,
+                  maxPerBooking: selectedEvent.maxPerBooking,
+                  categoryId: selectedEvent.categoryId?.toString() || "",
+                  venueId: selectedEvent.venueId?.toString() || "",
+                  tagList: (selectedEvent.tags || []).join(", "),
+                  registrationOpensAt: selectedEvent.registrationOpensAt
+                    ? toZonedInput(
+                        selectedEvent.registrationOpensAt,
+                        selectedEvent.timeZone
+                      )
+                    : "",
+                  registrationClosesAt: selectedEvent.registrationClosesAt
+                    ? toZonedInput(
+                        selectedEvent.registrationClosesAt,
+                        selectedEvent.timeZone
+                      )
+                    : "",
+                  ...(selectedEvent.seriesId && { scope: "this" as const }),
                 }
               : {
                   name: "",
@@ -581,6 +1163,7 @@ const Events: React.FC = () => {
                   location: "",
                   onlineLink: "",
                   maxCapacity: 50,
+                  maxPerBooking: 1,
                 }
           }
         />
@@ -594,8 +1177,9 @@ const Events: React.FC = () => {
       >
         <div>
           <p className="text-sm text-gray-500 mb-4">
-            Are you sure you want to delete this event? This action cannot be
-            undone and will also cancel all associated reservations.
+            Are you sure you want to delete this event? This will cancel all
+            associated reservations. The event can be restored from the trash
+            until it is purged.
           </p>
 
           {selectedEvent && (
@@ -605,7 +1189,11 @@ const Events: React.FC = () => {
               </p>
               <p>
                 <strong>Date:</strong>{" "}
-                {new Date(selectedEvent.eventDate).toLocaleString()}
+                <EventTime
+                  date={selectedEvent.eventDate}
+                  endDate={selectedEvent.endDate}
+                  timeZone={selectedEvent.timeZone}
+                />
               </p>
               <p>
                 <strong>Location:</strong> {selectedEvent.location || "Online"}
@@ -2,6 +2,7 @@ import React, { useState, useEffect, useCallback, useMemo } from "react";
 import {
   Reservation,
   ReservationFilters,
+  ReservationStatus,
   TableColumn,
   Event,
   User,
@@ -10,14 +11,18 @@ import { reservationService } from "../../services/reservationService";
 import { eventService } from "../../services/eventService";
 import { userService } from "../../services/userService";
 import { useToast } from "../../context/ToastContext";
+import { useAuth } from "../../hooks/useAuth";
 import Table from "../../components/ui/Table";
 import Modal from "../../components/ui/Modal";
+import EventTime from "../../components/ui/EventTime";
 import Pagination from "../../components/ui/Pagination";
 
 const Reservations: React.FC = () => {
   const [reservations, setReservations] = useState<Reservation[]>([]);
   const [events, setEvents] = useState<Event[]>([]);
   const [users, setUsers] = useState<User[]>([]);
+  const { user } = useAuth();
+  const isAdmin = user?.role === "admin";
   const [loading, setLoading] = useState(true);
   const [pagination, setPagination] = useState({
     total: 0,
@@ -81,13 +86,16 @@ const Reservations: React.FC = () => {
   }, []);
 
   const loadUsers = useCallback(async () => {
+    // The user directory is admin-only
+    if (!isAdmin) return;
+
     try {
       const response = await userService.getAllUsers({ limit: 100 });
       setUsers(response.users);
     } catch (error: any) {
       console.error("Load users error:", error);
     }
-  }, []);
+  }, [isAdmin]);
 
   useEffect(() => {
     loadReservations();
@@ -99,7 +107,7 @@ const Reservations: React.FC = () => {
     setFilters((prev) => ({ ...prev, page }));
   };
 
-  const handleStatusFilter = (status: "confirmed" | "canceled" | "") => {
+  const handleStatusFilter = (status: ReservationStatus | "") => {
     setFilters((prev) => ({
       ...prev,
       status: status || undefined,
@@ -206,14 +214,11 @@ const Reservations: React.FC = () => {
                 isUpcoming ? "text-gray-900" : "text-gray-500"
               }`}
             >
-              {eventDate.toLocaleDateString()}
-            </div>
-            <div
-              className={`text-sm ${
-                isUpcoming ? "text-gray-500" : "text-gray-400"
-              }`}
-            >
-              {eventDate.toLocaleTimeString()}
+              <EventTime
+                date={reservation.event.eventDate}
+                timeZone={reservation.event.timeZone}
+                compact
+              />
             </div>
             {!isUpcoming && (
               <div className="text-xs text-orange-600 font-medium">
@@ -224,6 +229,10 @@ const Reservations: React.FC = () => {
         );
       },
     },
+    {
+      key: "quantity",
+      label: "Spots",
+    },
     {
       key: "status",
       label: "Status",
@@ -232,10 +241,14 @@ const Reservations: React.FC = () => {
           className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
             value === "confirmed"
               ? "bg-green-100 text-green-800"
+              : value === "checked_in"
+              ? "bg-blue-100 text-blue-800"
+              : value === "no_show"
+              ? "bg-gray-100 text-gray-800"
               : "bg-red-100 text-red-800"
           }`}
         >
-          {value}
+          {value.replace("_", " ")}
         </span>
       ),
     },
@@ -366,6 +379,26 @@ const Reservations: React.FC = () => {
           >
             Canceled Only
           </button>
+          <button
+            onClick={() => handleStatusFilter("checked_in")}
+            className={`px-3 py-1 text-sm rounded-full border ${
+              filters.status === "checked_in"
+                ? "bg-blue-100 text-blue-800 border-blue-200"
+                : "bg-white text-gray-700 border-gray-300 hover:bg-gray-50"
+            }`}
+          >
+            Checked In Only
+          </button>
+          <button
+            onClick={() => handleStatusFilter("no_show")}
+            className={`px-3 py-1 text-sm rounded-full border ${
+              filters.status === "no_show"
+                ? "bg-gray-100 text-gray-800 border-gray-200"
+                : "bg-white text-gray-700 border-gray-300 hover:bg-gray-50"
+            }`}
+          >
+            No-shows Only
+          </button>
         </div>
       </div>
 
@@ -459,11 +492,14 @@ const Reservations: React.FC = () => {
                 </p>
                 <p>
                   <strong>Date:</strong>{" "}
-                  {selectedReservation.event?.eventDate
-                    ? new Date(
-                        selectedReservation.event.eventDate
-                      ).toLocaleString()
-                    : "Unknown"}
+                  {selectedReservation.event?.eventDate ? (
+                    <EventTime
+                      date={selectedReservation.event.eventDate}
+                      timeZone={selectedReservation.event.timeZone}
+                    />
+                  ) : (
+                    "Unknown"
+                  )}
                 </p>
                 <p>
                   <strong>Location:</strong>{" "}
@@ -535,11 +571,14 @@ const Reservations: React.FC = () => {
               </p>
               <p>
                 <strong>Date:</strong>{" "}
-                {selectedReservation.event?.eventDate
-                  ? new Date(
-                      selectedReservation.event.eventDate
-                    ).toLocaleString()
-                  : "Unknown"}
+                {selectedReservation.event?.eventDate ? (
+                  <EventTime
+                    date={selectedReservation.event.eventDate}
+                    timeZone={selectedReservation.event.timeZone}
+                  />
+                ) : (
+                  "Unknown"
+                )}
               </p>
               <p>
                 <strong>Reserved on:</strong>{" "}
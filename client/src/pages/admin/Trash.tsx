@@ -0,0 +1,222 @@
+import React, { useState, useEffect, useCallback } from "react";
+import { Event, TableColumn, User } from "../../types";
+import { eventService } from "../../services/eventService";
+import { userService } from "../../services/userService";
+import { useToast } from "../../context/ToastContext";
+import Table from "../../components/ui/Table";
+import Pagination from "../../components/ui/Pagination";
+import { getApiErrorMessage } from "../../utils/apiError";
+
+type TrashTab = "events" | "users";
+
+const PAGE_SIZE = 10;
+
+const Trash: React.FC = () => {
+  const [activeTab, setActiveTab] = useState<TrashTab>("events");
+  const [events, setEvents] = useState<Event[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [page, setPage] = useState(1);
+  const [pagination, setPagination] = useState({
+    total: 0,
+    page: 1,
+    limit: PAGE_SIZE,
+    totalPages: 0,
+  });
+
+  const {
+    success,
+    error: showError,
+    loading: showLoading,
+    dismiss,
+  } = useToast();
+
+  const loadTrash = useCallback(async () => {
+    try {
+      setLoading(true);
+      if (activeTab === "events") {
+        const response = await eventService.getDeletedEvents({
+          page,
+          limit: PAGE_SIZE,
+        });
+        setEvents(response.events);
+        setPagination(response.pagination);
+      } else {
+        const response = await userService.getDeletedUsers({
+          page,
+          limit: PAGE_SIZE,
+        });
+        setUsers(response.users);
+        setPagination(response.pagination);
+      }
+    } catch (error) {
+      showError("Failed to load trash");
+      console.error("Load trash error:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [activeTab, page, showError]);
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash]);
+
+  const handleTabChange = (tab: TrashTab) => {
+    setActiveTab(tab);
+    setPage(1);
+  };
+
+  const handleRestoreEvent = async (event: Event) => {
+    const loadingToast = showLoading("Restoring event...");
+
+    try {
+      await eventService.restoreEvent(event.id);
+      dismiss(loadingToast);
+      success("Event restored successfully");
+      loadTrash();
+    } catch (error: unknown) {
+      dismiss(loadingToast);
+      showError(getApiErrorMessage(error, "Failed to restore event"));
+    }
+  };
+
+  const handleRestoreUser = async (user: User) => {
+    const loadingToast = showLoading("Restoring user...");
+
+    try {
+      await userService.restoreUser(user.id);
+      dismiss(loadingToast);
+      success("User restored successfully");
+      loadTrash();
+    } catch (error: unknown) {
+      dismiss(loadingToast);
+      showError(getApiErrorMessage(error, "Failed to restore user"));
+    }
+  };
+
+  const renderRestoreButton = (onClick: () => void) => (
+    <button
+      type="button"
+      onClick={onClick}
+      className="text-sm font-medium text-blue-600 hover:text-blue-800"
+    >
+      Restore
+    </button>
+  );
+
+  const eventColumns: TableColumn<Event>[] = [
+    {
+      key: "name",
+      label: "Event",
+      render: (value, event) => (
+        <div>
+          <div className="font-medium text-gray-900">{value}</div>
+          <div className="text-sm text-gray-500">
+            {new Date(event.eventDate).toLocaleDateString()}
+          </div>
+        </div>
+      ),
+    },
+    {
+      key: "creator",
+      label: "Organizer",
+      render: (_, event) => event.creator?.email || "-",
+    },
+    {
+      key: "deletedAt",
+      label: "Deleted On",
+      render: (value) => (value ? new Date(value).toLocaleString() : "-"),
+    },
+    {
+      key: "id",
+      label: "",
+      render: (_, event) =>
+        renderRestoreButton(() => handleRestoreEvent(event)),
+    },
+  ];
+
+  const userColumns: TableColumn<User>[] = [
+    {
+      key: "email",
+      label: "User",
+      render: (value, user) => (
+        <div>
+          <div className="font-medium text-gray-900">
+            {user.firstName || user.lastName
+              ? `${user.firstName || ""} ${user.lastName || ""}`.trim()
+              : "No name"}
+          </div>
+          <div className="text-sm text-gray-500">{value}</div>
+        </div>
+      ),
+    },
+    {
+      key: "role",
+      label: "Role",
+    },
+    {
+      key: "deletedAt",
+      label: "Deleted On",
+      render: (value) => (value ? new Date(value).toLocaleString() : "-"),
+    },
+    {
+      key: "id",
+      label: "",
+      render: (_, user) => renderRestoreButton(() => handleRestoreUser(user)),
+    },
+  ];
+
+  return (
+    <div>
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-gray-900">Trash</h1>
+        <p className="mt-1 text-sm text-gray-600">
+          Deleted events and users can be restored until they are purged.
+        </p>
+      </div>
+
+      <div className="mb-6 bg-white p-4 rounded-lg shadow">
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => handleTabChange("events")}
+            className={`px-3 py-1 text-sm rounded-full border ${
+              activeTab === "events"
+                ? "bg-blue-100 text-blue-800 border-blue-200"
+                : "bg-white text-gray-700 border-gray-300 hover:bg-gray-50"
+            }`}
+          >
+            Events
+          </button>
+          <button
+            onClick={() => handleTabChange("users")}
+            className={`px-3 py-1 text-sm rounded-full border ${
+              activeTab === "users"
+                ? "bg-blue-100 text-blue-800 border-blue-200"
+                : "bg-white text-gray-700 border-gray-300 hover:bg-gray-50"
+            }`}
+          >
+            Users
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white shadow rounded-lg">
+        {activeTab === "events" ? (
+          <Table data={events} columns={eventColumns} loading={loading} />
+        ) : (
+          <Table data={users} columns={userColumns} loading={loading} />
+        )}
+
+        <Pagination
+          currentPage={pagination.page}
+          totalPages={pagination.totalPages}
+          totalItems={pagination.total}
+          itemsPerPage={pagination.limit}
+          onPageChange={setPage}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default Trash;
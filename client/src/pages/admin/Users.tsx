@@ -1,11 +1,19 @@
 import React, { useState, useEffect, useCallback, useMemo } from "react";
-import { User, UserFilters, UpdateUserRequest, TableColumn } from "../../types";
+import {
+  User,
+  UserFilters,
+  UpdateUserRequest,
+  TableColumn,
+  Role,
+} from "../../types";
 import { userService } from "../../services/userService";
+import { roleService } from "../../services/roleService";
 import { useToast } from "../../context/ToastContext";
 import Table from "../../components/ui/Table";
 import Modal from "../../components/ui/Modal";
 import FormField from "../../components/ui/FormField";
 import Pagination from "../../components/ui/Pagination";
+import { getApiErrorMessage } from "../../utils/apiError";
 
 const Users: React.FC = () => {
   const [users, setUsers] = useState<User[]>([]);
@@ -26,9 +34,12 @@ const Users: React.FC = () => {
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
+  const [roles, setRoles] = useState<Role[]>([]);
 
-  // Form state
-  const [formData, setFormData] = useState<UpdateUserRequest>({
+  // Form state; the role is assigned through its own endpoint
+  const [formData, setFormData] = useState<
+    UpdateUserRequest & { role: string }
+  >({
     email: "",
     firstName: "",
     lastName: "",
@@ -66,6 +77,13 @@ const Users: React.FC = () => {
     loadUsers();
   }, [loadUsers]);
 
+  useEffect(() => {
+    roleService
+      .getRoles()
+      .then((response) => setRoles(response.roles))
+      .catch((error) => console.error("Load roles error:", error));
+  }, []);
+
   const handleSearch = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
     setFilters((prev) => ({
@@ -109,7 +127,11 @@ const Users: React.FC = () => {
     const loadingToast = showLoading("Updating user...");
 
     try {
-      await userService.updateUser(selectedUser.id, formData);
+      const { role, ...userData } = formData;
+      await userService.updateUser(selectedUser.id, userData);
+      if (role !== selectedUser.role) {
+        await userService.assignRole(selectedUser.id, role);
+      }
       dismiss(loadingToast);
       success("User updated successfully");
       setIsEditModalOpen(false);
@@ -139,6 +161,20 @@ const Users: React.FC = () => {
     }
   };
 
+  const handleUnlockUser = async (user: User) => {
+    const loadingToast = showLoading("Unlocking account...");
+
+    try {
+      await userService.unlockUser(user.id);
+      dismiss(loadingToast);
+      success("User account unlocked successfully");
+      loadUsers();
+    } catch (error: unknown) {
+      dismiss(loadingToast);
+      showError(getApiErrorMessage(error, "Failed to unlock account"));
+    }
+  };
+
   const columns: TableColumn<User>[] = [
     {
       key: "id",
@@ -166,6 +202,8 @@ const Users: React.FC = () => {
           className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
             value === "admin"
               ? "bg-red-100 text-red-800"
+              : value === "organizer"
+              ? "bg-blue-100 text-blue-800"
               : "bg-green-100 text-green-800"
           }`}
         >
@@ -173,6 +211,50 @@ const Users: React.FC = () => {
         </span>
       ),
     },
+    {
+      key: "emailVerifiedAt",
+      label: "Email",
+      render: (value) => (
+        <span
+          className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+            value
+              ? "bg-green-100 text-green-800"
+              : "bg-yellow-100 text-yellow-800"
+          }`}
+          title={
+            value ? `Verified ${new Date(value).toLocaleString()}` : undefined
+          }
+        >
+          {value ? "verified" : "unverified"}
+        </span>
+      ),
+    },
+    {
+      key: "lockedUntil",
+      label: "Access",
+      render: (value, user) =>
+        value ? (
+          <div className="flex items-center gap-2">
+            <span
+              className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-red-100 text-red-800"
+              title={`Locked until ${new Date(value).toLocaleString()}`}
+            >
+              locked
+            </span>
+            <button
+              type="button"
+              onClick={() => handleUnlockUser(user)}
+              className="text-xs font-medium text-blue-600 hover:text-blue-800"
+            >
+              Unlock
+            </button>
+          </div>
+        ) : (
+          <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-green-100 text-green-800">
+            active
+          </span>
+        ),
+    },
     {
       key: "createdAt",
       label: "Created At",
@@ -265,8 +347,15 @@ const Users: React.FC = () => {
               required
               className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
             >
-              <option value="user">User</option>
-              <option value="admin">Admin</option>
+              {roles.length === 0 && (
+                <option value={formData.role}>{formData.role}</option>
+              )}
+              {roles.map((role) => (
+                <option key={role.id} value={role.name}>
+                  {role.name}
+                  {role.description ? ` - ${role.description}` : ""}
+                </option>
+              ))}
             </select>
           </div>
 
@@ -296,8 +385,9 @@ const Users: React.FC = () => {
       >
         <div>
           <p className="text-sm text-gray-500 mb-4">
-            Are you sure you want to delete this user? This action cannot be
-            undone.
+            Are you sure you want to delete this user? Their upcoming
+            reservations will be canceled. The account can be restored from the
+            trash until it is purged.
           </p>
 
           {selectedUser && (
@@ -0,0 +1,360 @@
+import React, { useState, useEffect, useCallback } from "react";
+import { Venue, TableColumn } from "../../types";
+import { venueService } from "../../services/venueService";
+import { useToast } from "../../context/ToastContext";
+import Table from "../../components/ui/Table";
+import Modal from "../../components/ui/Modal";
+import FormField from "../../components/ui/FormField";
+import { getApiErrorMessage } from "../../utils/apiError";
+
+const emptyForm = {
+  name: "",
+  address: "",
+  latitude: "",
+  longitude: "",
+  capacity: "",
+  wheelchairAccessible: false,
+  accessibilityNotes: "",
+};
+
+const Venues: React.FC = () => {
+  const [venues, setVenues] = useState<Venue[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Modal states; no selected venue means the form creates one
+  const [isFormModalOpen, setIsFormModalOpen] = useState(false);
+  const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
+  const [selectedVenue, setSelectedVenue] = useState<Venue | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const {
+    success,
+    error: showError,
+    loading: showLoading,
+    dismiss,
+  } = useToast();
+
+  const loadVenues = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await venueService.getVenues();
+      setVenues(response.venues);
+    } catch (error) {
+      showError("Failed to load venues");
+      console.error("Load venues error:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    loadVenues();
+  }, [loadVenues]);
+
+  const handleCreate = () => {
+    setSelectedVenue(null);
+    setFormData(emptyForm);
+    setIsFormModalOpen(true);
+  };
+
+  const handleEdit = (venue: Venue) => {
+    setSelectedVenue(venue);
+    setFormData({
+      name: venue.name,
+      address: venue.address,
+      latitude: String(venue.latitude),
+      longitude: String(venue.longitude),
+      capacity: venue.capacity ? String(venue.capacity) : "",
+      wheelchairAccessible: venue.wheelchairAccessible,
+      accessibilityNotes: venue.accessibilityNotes || "",
+    });
+    setIsFormModalOpen(true);
+  };
+
+  const handleDelete = (venue: Venue) => {
+    setSelectedVenue(venue);
+    setIsDeleteModalOpen(true);
+  };
+
+  const handleFormChange = (
+    e: React.ChangeEvent<
+      HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement
+    >
+  ) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const handleSaveVenue = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const loadingToast = showLoading(
+      selectedVenue ? "Updating venue..." : "Creating venue..."
+    );
+
+    try {
+      const venueData = {
+        name: formData.name,
+        address: formData.address,
+        latitude: Number(formData.latitude),
+        longitude: Number(formData.longitude),
+        capacity: formData.capacity ? Number(formData.capacity) : null,
+        wheelchairAccessible: formData.wheelchairAccessible,
+        accessibilityNotes: formData.accessibilityNotes || null,
+      };
+      if (selectedVenue) {
+        await venueService.updateVenue(selectedVenue.id, venueData);
+      } else {
+        await venueService.createVenue(venueData);
+      }
+      dismiss(loadingToast);
+      success(
+        selectedVenue
+          ? "Venue updated successfully"
+          : "Venue created successfully"
+      );
+      setIsFormModalOpen(false);
+      setSelectedVenue(null);
+      loadVenues();
+    } catch (error: unknown) {
+      dismiss(loadingToast);
+      showError(getApiErrorMessage(error, "Failed to save venue"));
+    }
+  };
+
+  const handleDeleteVenue = async () => {
+    if (!selectedVenue) return;
+
+    const loadingToast = showLoading("Deleting venue...");
+
+    try {
+      await venueService.deleteVenue(selectedVenue.id);
+      dismiss(loadingToast);
+      success("Venue deleted successfully");
+      setIsDeleteModalOpen(false);
+      setSelectedVenue(null);
+      loadVenues();
+    } catch (error: unknown) {
+      dismiss(loadingToast);
+      showError(getApiErrorMessage(error, "Failed to delete venue"));
+    }
+  };
+
+  const columns: TableColumn<Venue>[] = [
+    {
+      key: "name",
+      label: "Name",
+      render: (value, venue) => (
+        <div>
+          <div className="font-medium text-gray-900">{value}</div>
+          <div className="text-sm text-gray-500">{venue.address}</div>
+        </div>
+      ),
+    },
+    {
+      key: "latitude",
+      label: "Coordinates",
+      render: (_, venue) =>
+        `${venue.latitude.toFixed(5)}, ${venue.longitude.toFixed(5)}`,
+    },
+    {
+      key: "capacity",
+      label: "Capacity",
+      render: (value) => value || "-",
+    },
+    {
+      key: "wheelchairAccessible",
+      label: "Accessibility",
+      render: (value, venue) => (
+        <div>
+          <span
+            className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+              value
+                ? "bg-green-100 text-green-800"
+                : "bg-gray-100 text-gray-800"
+            }`}
+          >
+            {value ? "Wheelchair accessible" : "Not step-free"}
+          </span>
+          {venue.accessibilityNotes && (
+            <div className="mt-1 text-sm text-gray-500">
+              {venue.accessibilityNotes}
+            </div>
+          )}
+        </div>
+      ),
+    },
+  ];
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Venues</h1>
+          <p className="mt-1 text-sm text-gray-600">
+            Venues give events a location for the near-me search and cap their
+            capacity.
+          </p>
+        </div>
+        <button
+          onClick={handleCreate}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+        >
+          Create Venue
+        </button>
+      </div>
+
+      <div className="bg-white shadow rounded-lg">
+        <Table
+          data={venues}
+          columns={columns}
+          loading={loading}
+          onEdit={handleEdit}
+          onDelete={handleDelete}
+        />
+      </div>
+
+      {/* Create/Edit Venue Modal */}
+      <Modal
+        isOpen={isFormModalOpen}
+        onClose={() => setIsFormModalOpen(false)}
+        title={selectedVenue ? "Edit Venue" : "Create Venue"}
+      >
+        <form onSubmit={handleSaveVenue}>
+          <FormField
+            label="Name"
+            name="name"
+            value={formData.name}
+            onChange={handleFormChange}
+            required
+          />
+
+          <FormField
+            label="Address"
+            name="address"
+            value={formData.address}
+            onChange={handleFormChange}
+            required
+          />
+
+          <div className="grid grid-cols-2 gap-4">
+            <FormField
+              label="Latitude"
+              name="latitude"
+              type="number"
+              value={formData.latitude}
+              onChange={handleFormChange}
+              required
+            />
+            <FormField
+              label="Longitude"
+              name="longitude"
+              type="number"
+              value={formData.longitude}
+              onChange={handleFormChange}
+              required
+            />
+          </div>
+
+          <FormField
+            label="Capacity"
+            name="capacity"
+            type="number"
+            placeholder="Leave empty for no limit"
+            value={formData.capacity}
+            onChange={handleFormChange}
+          />
+
+          <div className="mb-4 flex items-center">
+            <input
+              type="checkbox"
+              id="wheelchairAccessible"
+              name="wheelchairAccessible"
+              checked={formData.wheelchairAccessible}
+              onChange={(e) =>
+                setFormData((prev) => ({
+                  ...prev,
+                  wheelchairAccessible: e.target.checked,
+                }))
+              }
+              className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+            />
+            <label
+              htmlFor="wheelchairAccessible"
+              className="ml-2 block text-sm font-medium text-gray-700"
+            >
+              Wheelchair accessible
+            </label>
+          </div>
+
+          <FormField
+            label="Accessibility Notes"
+            name="accessibilityNotes"
+            type="textarea"
+            placeholder="Step-free entrance, hearing loop, accessible toilets..."
+            value={formData.accessibilityNotes}
+            onChange={handleFormChange}
+          />
+
+          <div className="flex justify-end space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={() => setIsFormModalOpen(false)}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              {selectedVenue ? "Update Venue" : "Create Venue"}
+            </button>
+          </div>
+        </form>
+      </Modal>
+
+      {/* Delete Confirmation Modal */}
+      <Modal
+        isOpen={isDeleteModalOpen}
+        onClose={() => setIsDeleteModalOpen(false)}
+        title="Delete Venue"
+      >
+        <div>
+          <p className="text-sm text-gray-500 mb-4">
+            Are you sure you want to delete this venue? Its events are kept but
+            will no longer have a venue.
+          </p>
+
+          {selectedVenue && (
+            <div className="bg-gray-50 p-3 rounded-md mb-4">
+              <p>
+                <strong>Venue:</strong> {selectedVenue.name}
+              </p>
+              <p>
+                <strong>Address:</strong> {selectedVenue.address}
+              </p>
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3">
+            <button
+              onClick={() => setIsDeleteModalOpen(false)}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleDeleteVenue}
+              className="px-4 py-2 text-sm font-medium text-white bg-red-600 border border-transparent rounded-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              Delete Venue
+            </button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+};
+
+export default Venues;
@@ -1,10 +1,19 @@
 import React, { useState, useEffect } from "react";
-import { Reservation, ReservationFilters, TableColumn } from "../../types";
+import { QRCodeSVG } from "qrcode.react";
+import {
+  Reservation,
+  ReservationFilters,
+  ReservationStatus,
+  TableColumn,
+  WaitlistEntry,
+} from "../../types";
 import { reservationService } from "../../services/reservationService";
 import { useToast } from "../../context/ToastContext";
 import Table from "../../components/ui/Table";
 import Modal from "../../components/ui/Modal";
+import EventTime from "../../components/ui/EventTime";
 import Pagination from "../../components/ui/Pagination";
+import { getApiErrorMessage } from "../../utils/apiError";
 
 const MyReservations: React.FC = () => {
   const [reservations, setReservations] = useState<Reservation[]>([]);
@@ -20,10 +29,15 @@ const MyReservations: React.FC = () => {
     limit: 10,
   });
 
+  const [waitlist, setWaitlist] = useState<WaitlistEntry[]>([]);
+
   // Modal states
   const [isCancelModalOpen, setIsCancelModalOpen] = useState(false);
   const [selectedReservation, setSelectedReservation] =
     useState<Reservation | null>(null);
+  const [seatsToCancel, setSeatsToCancel] = useState(1);
+  const [ticketReservation, setTicketReservation] =
+    useState<Reservation | null>(null);
 
   const {
     success,
@@ -36,6 +50,10 @@ const MyReservations: React.FC = () => {
     loadReservations();
   }, [filters]);
 
+  useEffect(() => {
+    loadWaitlist();
+  }, []);
+
   const loadReservations = async () => {
     try {
       setLoading(true);
@@ -50,11 +68,34 @@ const MyReservations: React.FC = () => {
     }
   };
 
+  const loadWaitlist = async () => {
+    try {
+      const response = await reservationService.getMyWaitlist();
+      setWaitlist(response.entries);
+    } catch (error) {
+      console.error("Load waitlist error:", error);
+    }
+  };
+
+  const handleLeaveWaitlist = async (entry: WaitlistEntry) => {
+    const loadingToast = showLoading("Leaving the waitlist...");
+
+    try {
+      await reservationService.leaveWaitlist(entry.eventId);
+      dismiss(loadingToast);
+      success("You left the waitlist");
+      loadWaitlist();
+    } catch (error: unknown) {
+      dismiss(loadingToast);
+      showError(getApiErrorMessage(error, "Failed to leave the waitlist"));
+    }
+  };
+
   const handlePageChange = (page: number) => {
     setFilters((prev) => ({ ...prev, page }));
   };
 
-  const handleStatusFilter = (status: "confirmed" | "canceled" | "") => {
+  const handleStatusFilter = (status: ReservationStatus | "") => {
     setFilters((prev) => ({
       ...prev,
       status: status || undefined,
@@ -64,6 +105,7 @@ const MyReservations: React.FC = () => {
 
   const handleCancel = (reservation: Reservation) => {
     setSelectedReservation(reservation);
+    setSeatsToCancel(reservation.quantity);
     setIsCancelModalOpen(true);
   };
 
@@ -73,9 +115,12 @@ const MyReservations: React.FC = () => {
     const loadingToast = showLoading("Canceling reservation...");
 
     try {
-      await reservationService.cancelReservation(selectedReservation.id);
+      const response = await reservationService.cancelReservation(
+        selectedReservation.id,
+        seatsToCancel
+      );
       dismiss(loadingToast);
-      success("Reservation canceled successfully");
+      success(response.message);
       setIsCancelModalOpen(false);
       setSelectedReservation(null);
       loadReservations();
@@ -103,6 +148,13 @@ const MyReservations: React.FC = () => {
               📍 {reservation.event.location}
             </div>
           )}
+          {reservation.event?.canceledAt && (
+            <div className="text-xs text-red-600 font-medium">
+              Event cancelled
+              {reservation.event.cancellationReason &&
+                `: ${reservation.event.cancellationReason}`}
+            </div>
+          )}
         </div>
       ),
     },
@@ -111,19 +163,31 @@ const MyReservations: React.FC = () => {
       label: "Event Date",
       render: (value, reservation) => {
         if (!reservation.event?.eventDate) return "-";
-        const eventDate = new Date(reservation.event.eventDate);
         return (
-          <div>
-            <div className="text-sm text-gray-900">
-              {eventDate.toLocaleDateString()}
-            </div>
-            <div className="text-sm text-gray-500">
-              {eventDate.toLocaleTimeString()}
-            </div>
+          <div className="text-sm text-gray-900">
+            <EventTime
+              date={reservation.event.eventDate}
+              timeZone={reservation.event.timeZone}
+              compact
+            />
           </div>
         );
       },
     },
+    {
+      key: "quantity",
+      label: "Spots",
+      render: (value, reservation) => (
+        <div>
+          <div className="text-sm text-gray-900">{value}</div>
+          {reservation.ticketType && (
+            <div className="text-sm text-gray-500">
+              {reservation.ticketType.name}
+            </div>
+          )}
+        </div>
+      ),
+    },
     {
       key: "status",
       label: "Status",
@@ -132,13 +196,34 @@ const MyReservations: React.FC = () => {
           className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
             value === "confirmed"
               ? "bg-green-100 text-green-800"
+              : value === "checked_in"
+              ? "bg-blue-100 text-blue-800"
+              : value === "no_show"
+              ? "bg-gray-100 text-gray-800"
               : "bg-red-100 text-red-800"
           }`}
         >
-          {value}
+          {value.replace("_", " ")}
         </span>
       ),
     },
+    {
+      key: "ticketToken",
+      label: "Ticket",
+      render: (value, reservation) =>
+        value ? (
+          <button
+            onClick={() => setTicketReservation(reservation)}
+            className="text-sm text-blue-600 hover:text-blue-800"
+          >
+            Show QR
+          </button>
+        ) : reservation.status === "checked_in" ? (
+          <span className="text-sm text-gray-500">Used</span>
+        ) : (
+          "-"
+        ),
+    },
     {
       key: "createdAt",
       label: "Reserved On",
@@ -264,9 +349,72 @@ const MyReservations: React.FC = () => {
           >
             Canceled
           </button>
+          <button
+            onClick={() => handleStatusFilter("checked_in")}
+            className={`px-3 py-1 text-sm rounded-full border ${
+              filters.status === "checked_in"
+                ? "bg-blue-100 text-blue-800 border-blue-200"
+                : "bg-white text-gray-700 border-gray-300 hover:bg-gray-50"
+            }`}
+          >
+            Checked In
+          </button>
+          <button
+            onClick={() => handleStatusFilter("no_show")}
+            className={`px-3 py-1 text-sm rounded-full border ${
+              filters.status === "no_show"
+                ? "bg-gray-100 text-gray-800 border-gray-200"
+                : "bg-white text-gray-700 border-gray-300 hover:bg-gray-50"
+            }`}
+          >
+            No-show
+          </button>
         </div>
       </div>
 
+      {/* Waitlist */}
+      {waitlist.length > 0 && (
+        <div className="mb-6 bg-white shadow rounded-lg p-4">
+          <h2 className="text-lg font-semibold text-gray-900 mb-3">Waitlist</h2>
+          <ul className="divide-y divide-gray-200">
+            {waitlist.map((entry) => (
+              <li
+                key={entry.id}
+                className="py-3 flex items-center justify-between"
+              >
+                <div>
+                  <div className="font-medium text-gray-900">
+                    {entry.event?.name || "Unknown Event"}
+                  </div>
+                  <div className="text-sm text-gray-500">
+                    {entry.event?.eventDate ? (
+                      <EventTime
+                        date={entry.event.eventDate}
+                        timeZone={entry.event.timeZone}
+                        compact
+                      />
+                    ) : (
+                      "-"
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center space-x-4">
+                  <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-yellow-100 text-yellow-800">
+                    #{entry.position} in line
+                  </span>
+                  <button
+                    onClick={() => handleLeaveWaitlist(entry)}
+                    className="text-sm text-red-600 hover:text-red-800"
+                  >
+                    Leave
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Reservations Table */}
       <div className="bg-white shadow rounded-lg">
         <Table
@@ -289,6 +437,33 @@ const MyReservations: React.FC = () => {
         />
       </div>
 
+      {/* Ticket Modal */}
+      <Modal
+        isOpen={!!ticketReservation}
+        onClose={() => setTicketReservation(null)}
+        title="Your Ticket"
+      >
+        {ticketReservation?.ticketToken && (
+          <div className="text-center">
+            <div className="inline-block bg-white p-4 border border-gray-200 rounded-lg mb-4">
+              <QRCodeSVG value={ticketReservation.ticketToken} size={220} />
+            </div>
+            <p className="font-medium text-gray-900">
+              {ticketReservation.event?.name}
+            </p>
+            <p className="text-sm text-gray-500">
+              Reservation #{ticketReservation.id} • {ticketReservation.quantity}{" "}
+              spot(s)
+              {ticketReservation.ticketType &&
+                ` • ${ticketReservation.ticketType.name}`}
+            </p>
+            <p className="text-sm text-gray-500 mt-2">
+              Show this code at the entrance to check in.
+            </p>
+          </div>
+        )}
+      </Modal>
+
       {/* Cancel Confirmation Modal */}
       <Modal
         isOpen={isCancelModalOpen}
@@ -308,11 +483,15 @@ const MyReservations: React.FC = () => {
               </p>
               <p>
                 <strong>Date:</strong>{" "}
-                {selectedReservation.event?.eventDate
-                  ? new Date(
-                      selectedReservation.event.eventDate
-                    ).toLocaleString()
-                  : "Unknown"}
+                {selectedReservation.event?.eventDate ? (
+                  <EventTime
+                    date={selectedReservation.event.eventDate}
+                    endDate={selectedReservation.event.endDate}
+                    timeZone={selectedReservation.event.timeZone}
+                  />
+                ) : (
+                  "Unknown"
+                )}
               </p>
               <p>
                 <strong>Location:</strong>{" "}
@@ -325,6 +504,33 @@ const MyReservations: React.FC = () => {
             </div>
           )}
 
+          {selectedReservation && selectedReservation.quantity > 1 && (
+            <div className="mb-4 flex items-center space-x-3">
+              <label
+                htmlFor="seatsToCancel"
+                className="text-sm font-medium text-gray-700"
+              >
+                Spots to cancel (of {selectedReservation.quantity})
+              </label>
+              <input
+                id="seatsToCancel"
+                type="number"
+                min={1}
+                max={selectedReservation.quantity}
+                value={seatsToCancel}
+                onChange={(e) =>
+                  setSeatsToCancel(
+                    Math.min(
+                      selectedReservation.quantity,
+                      Math.max(1, Number(e.target.value) || 1)
+                    )
+                  )
+                }
+                className="w-20 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          )}
+
           <div className="flex justify-end space-x-3">
             <button
               onClick={() => setIsCancelModalOpen(false)}
@@ -1,12 +1,15 @@
 import React, { useState, useEffect, useRef } from "react";
-import { useAuth } from "../../context/AuthContext";
+import { useSearchParams } from "react-router-dom";
+import { useAuth } from "../../hooks/useAuth";
 import { useToast } from "../../context/ToastContext";
 import { userService } from "../../services/userService";
 import { UpdateProfileRequest } from "../../types";
 import FormField from "../../components/ui/FormField";
+import { TwoFactorSettings } from "../../components/TwoFactorSettings";
 
 const Profile: React.FC = () => {
   const { user, updateUser } = useAuth();
+  const [searchParams] = useSearchParams();
   const {
     success,
     error: showError,
@@ -216,6 +219,10 @@ const Profile: React.FC = () => {
               </div>
             </div>
           </div>
+
+          <TwoFactorSettings
+            setupRequired={searchParams.get("twoFactorSetup") === "required"}
+          />
         </div>
       </div>
     </div>
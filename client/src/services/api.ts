@@ -1,11 +1,19 @@
 import axios from "axios";
-import type { AxiosInstance, AxiosRequestConfig, AxiosResponse } from "axios";
+import type {
+  AxiosInstance,
+  AxiosRequestConfig,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from "axios";
+import type { RefreshTokenResponse } from "../types";
 
 const API_BASE_URL =
   import.meta.env.VITE_API_BASE_URL || "http://localhost:4000/api";
 
 class ApiService {
   private client: AxiosInstance;
+  // Shared so parallel 401s wait on a single refresh request
+  private refreshPromise: Promise<string> | null = null;
 
   constructor() {
     this.client = axios.create({
@@ -39,25 +47,73 @@ class ApiService {
       (response: AxiosResponse) => {
         return response;
       },
-      (error) => {
-        // Only redirect on 401 for authenticated endpoints (not login/register)
-        if (error.response?.status === 401) {
+      async (error) => {
+        const originalRequest = error.config as
+          | (InternalAxiosRequestConfig & { _retry?: boolean })
+          | undefined;
+
+        // Only handle 401 for authenticated endpoints (not login/register/refresh)
+        if (error.response?.status === 401 && originalRequest) {
           const isAuthEndpoint =
-            error.config?.url?.includes("/auth/login") ||
-            error.config?.url?.includes("/auth/register");
+            originalRequest.url?.includes("/auth/login") ||
+            originalRequest.url?.includes("/auth/register") ||
+            originalRequest.url?.includes("/auth/refresh");
 
           if (!isAuthEndpoint) {
-            // Token expired or invalid for authenticated requests
-            localStorage.removeItem("token");
+            // Access token expired: renew it once and replay the request
+            if (!originalRequest._retry && this.getRefreshToken()) {
+              originalRequest._retry = true;
+
+              try {
+                const token = await this.refreshAccessToken();
+                originalRequest.headers.Authorization = `Bearer ${token}`;
+                return this.client(originalRequest);
+              } catch (refreshError) {
+                console.error("Token refresh failed:", refreshError);
+              }
+            }
+
+            // Session can't be renewed, send the user back to login
+            this.removeAuthToken();
+            this.removeRefreshToken();
             localStorage.removeItem("user");
             window.location.href = "/login";
           }
         }
+
+        // Admins must enroll in 2FA before admin features unlock
+        if (
+          error.response?.status === 403 &&
+          error.response.data?.code === "TWO_FACTOR_SETUP_REQUIRED" &&
+          window.location.pathname !== "/profile"
+        ) {
+          window.location.href = "/profile?twoFactorSetup=required";
+        }
         return Promise.reject(error);
       }
     );
   }
 
+  // Exchange the refresh token for a new token pair
+  refreshAccessToken(): Promise<string> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.client
+        .post<RefreshTokenResponse>("/auth/refresh", {
+          refreshToken: this.getRefreshToken(),
+        })
+        .then((response) => {
+          this.setAuthToken(response.data.token);
+          this.setRefreshToken(response.data.refreshToken);
+          return response.data.token;
+        })
+        .finally(() => {
+          this.refreshPromise = null;
+        });
+    }
+
+    return this.refreshPromise;
+  }
+
   // Generic HTTP methods
   async get<T>(url: string, config?: AxiosRequestConfig): Promise<T> {
     const response = await this.client.get<T>(url, config);
@@ -110,6 +166,21 @@ class ApiService {
   getAuthToken(): string | null {
     return localStorage.getItem("token");
   }
+
+  // Set refresh token
+  setRefreshToken(refreshToken: string): void {
+    localStorage.setItem("refreshToken", refreshToken);
+  }
+
+  // Remove refresh token
+  removeRefreshToken(): void {
+    localStorage.removeItem("refreshToken");
+  }
+
+  // Get current refresh token
+  getRefreshToken(): string | null {
+    return localStorage.getItem("refreshToken");
+  }
 }
 
 // Create and export a singleton instance
@@ -0,0 +1,28 @@
+import { apiService } from "./api";
+import { AuditLogFilters, AuditLogListResponse } from "../types";
+
+class AuditLogService {
+  async getAuditLogs(
+    filters: AuditLogFilters = {}
+  ): Promise<AuditLogListResponse> {
+    const params = new URLSearchParams();
+
+    if (filters.actorId) params.append("actorId", filters.actorId.toString());
+    if (filters.action) params.append("action", filters.action);
+    if (filters.entityType) params.append("entityType", filters.entityType);
+    if (filters.entityId)
+      params.append("entityId", filters.entityId.toString());
+    if (filters.from) params.append("from", filters.from);
+    if (filters.to) params.append("to", filters.to);
+    if (filters.page) params.append("page", filters.page.toString());
+    if (filters.limit) params.append("limit", filters.limit.toString());
+
+    const queryString = params.toString();
+    const url = `/audit-logs${queryString ? `?${queryString}` : ""}`;
+
+    return apiService.get<AuditLogListResponse>(url);
+  }
+}
+
+export const auditLogService = new AuditLogService();
+export default auditLogService;
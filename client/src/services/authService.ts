@@ -2,25 +2,45 @@ import { apiService } from "./api";
 import type { LoginRequest } from "../types";
 import type { RegisterRequest } from "../types";
 import type { AuthResponse } from "../types";
+import type { LoginResponse } from "../types";
+import type { TwoFactorCredentials } from "../types";
+import type { TwoFactorSetupResponse } from "../types";
+import type { EnableTwoFactorResponse } from "../types";
+import type { RecoveryCodesResponse } from "../types";
 import type { User } from "../types";
+import type { VerifyEmailResponse } from "../types";
 
 export class AuthService {
-  // Login user
-  async login(credentials: LoginRequest): Promise<AuthResponse> {
-    const response = await apiService.post<AuthResponse>(
+  // Login user. Accounts with 2FA get a challenge instead of tokens.
+  async login(credentials: LoginRequest): Promise<LoginResponse> {
+    const response = await apiService.post<LoginResponse>(
       "/auth/login",
       credentials
     );
 
-    // Store token and user data
-    if (response.token) {
-      apiService.setAuthToken(response.token);
-      localStorage.setItem("user", JSON.stringify(response.user));
+    // Store tokens and user data
+    if ("token" in response) {
+      this.storeSession(response);
     }
 
     return response;
   }
 
+  // Finish a 2FA login with an authenticator or recovery code
+  async verifyTwoFactorLogin(
+    twoFactorToken: string,
+    credentials: TwoFactorCredentials
+  ): Promise<AuthResponse> {
+    const response = await apiService.post<AuthResponse>("/auth/login/2fa", {
+      twoFactorToken,
+      ...credentials,
+    });
+
+    this.storeSession(response);
+
+    return response;
+  }
+
   // Register user
   async register(userData: RegisterRequest): Promise<AuthResponse> {
     const response = await apiService.post<AuthResponse>(
@@ -28,9 +48,10 @@ export class AuthService {
       userData
     );
 
-    // Store token and user data
+    // Store tokens and user data
     if (response.token) {
       apiService.setAuthToken(response.token);
+      apiService.setRefreshToken(response.refreshToken);
       localStorage.setItem("user", JSON.stringify(response.user));
     }
 
@@ -40,17 +61,96 @@ export class AuthService {
   // Logout user
   async logout(): Promise<void> {
     try {
-      await apiService.post("/auth/logout");
+      // Revoke the refresh token so this session can't be renewed
+      await apiService.post("/auth/logout", {
+        refreshToken: apiService.getRefreshToken(),
+      });
     } catch (error) {
       // Even if logout fails on server, clear local data
       console.error("Logout error:", error);
     } finally {
       // Clear local storage
       apiService.removeAuthToken();
+      apiService.removeRefreshToken();
       localStorage.removeItem("user");
     }
   }
 
+  // Request a password reset link by email
+  async forgotPassword(email: string): Promise<{ message: string }> {
+    return apiService.post<{ message: string }>("/auth/forgot-password", {
+      email,
+    });
+  }
+
+  // Choose a new password using a reset link token
+  async resetPassword(
+    token: string,
+    password: string
+  ): Promise<{ message: string }> {
+    return apiService.post<{ message: string }>("/auth/reset-password", {
+      token,
+      password,
+    });
+  }
+
+  // Confirm the email address using a verification link token
+  async verifyEmail(token: string): Promise<VerifyEmailResponse> {
+    const response = await apiService.post<VerifyEmailResponse>(
+      "/auth/verify-email",
+      { token }
+    );
+
+    // Keep the stored user in sync if it's the one that was verified
+    if (this.getCurrentUser()?.id === response.user.id) {
+      localStorage.setItem("user", JSON.stringify(response.user));
+    }
+
+    return response;
+  }
+
+  // Send a fresh verification link to the current user
+  async resendVerificationEmail(): Promise<{ message: string }> {
+    return apiService.post<{ message: string }>("/auth/resend-verification");
+  }
+
+  // Start 2FA enrollment and get the secret for the authenticator app
+  async setupTwoFactor(): Promise<TwoFactorSetupResponse> {
+    return apiService.post<TwoFactorSetupResponse>("/auth/2fa/setup");
+  }
+
+  // Confirm enrollment; other sessions are signed out and this one renewed
+  async enableTwoFactor(code: string): Promise<EnableTwoFactorResponse> {
+    const response = await apiService.post<EnableTwoFactorResponse>(
+      "/auth/2fa/enable",
+      { code }
+    );
+
+    this.storeSession(response);
+
+    return response;
+  }
+
+  async disableTwoFactor(
+    password: string,
+    credentials: TwoFactorCredentials
+  ): Promise<{ message: string; user: User }> {
+    const response = await apiService.post<{ message: string; user: User }>(
+      "/auth/2fa/disable",
+      { password, ...credentials }
+    );
+
+    localStorage.setItem("user", JSON.stringify(response.user));
+
+    return response;
+  }
+
+  async regenerateRecoveryCodes(code: string): Promise<RecoveryCodesResponse> {
+    return apiService.post<RecoveryCodesResponse>("/auth/2fa/recovery-codes", {
+      code,
+    });
+  }
+
   // Get user profile
   async getProfile(): Promise<{ user: User }> {
     return await apiService.get<{ user: User }>("/auth/profile");
@@ -83,6 +183,13 @@ export class AuthService {
     return user?.role === "admin";
   }
 
+  // Store tokens and user data after a successful sign-in
+  private storeSession(response: AuthResponse): void {
+    apiService.setAuthToken(response.token);
+    apiService.setRefreshToken(response.refreshToken);
+    localStorage.setItem("user", JSON.stringify(response.user));
+  }
+
   // Get auth token from apiService
   getAuthToken(): string | null {
     return apiService.getAuthToken();
@@ -0,0 +1,35 @@
+import { apiService } from "./api";
+import { Category } from "../types";
+
+class CategoryService {
+  async getCategories(): Promise<{ categories: Category[] }> {
+    return apiService.get<{ categories: Category[] }>("/categories");
+  }
+
+  async createCategory(categoryData: {
+    name: string;
+    description?: string | null;
+  }): Promise<{ message: string; category: Category }> {
+    return apiService.post<{ message: string; category: Category }>(
+      "/categories",
+      categoryData
+    );
+  }
+
+  async updateCategory(
+    id: number,
+    categoryData: { name?: string; description?: string | null }
+  ): Promise<{ message: string; category: Category }> {
+    return apiService.put<{ message: string; category: Category }>(
+      `/categories/${id}`,
+      categoryData
+    );
+  }
+
+  async deleteCategory(id: number): Promise<{ message: string }> {
+    return apiService.delete<{ message: string }>(`/categories/${id}`);
+  }
+}
+
+export const categoryService = new CategoryService();
+export default categoryService;
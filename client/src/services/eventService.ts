@@ -3,8 +3,16 @@ import {
   Event,
   CreateEventRequest,
   UpdateEventRequest,
+  CreateEventSeriesRequest,
+  EventSeries,
   EventFilters,
   EventListResponse,
+  TicketType,
+  CreateTicketTypeRequest,
+  UpdateTicketTypeRequest,
+  EventStaffMember,
+  EventStaffRole,
+  EventStatusRequest,
 } from "../types";
 
 export class EventService {
@@ -14,6 +22,14 @@ export class EventService {
 
     if (filters) {
       Object.entries(filters).forEach(([key, value]) => {
+        // Lists are sent comma-separated; empty ones mean no filter
+        if (Array.isArray(value) && value.length === 0) {
+          return;
+        }
+        if (key === "near" && value) {
+          params.append(key, `${value.latitude},${value.longitude}`);
+          return;
+        }
         if (value !== undefined && value !== null) {
           params.append(key, value.toString());
         }
@@ -48,6 +64,23 @@ export class EventService {
     return await apiService.post("/events", eventData);
   }
 
+  // Create a recurring event, one event per occurrence (admin only)
+  async createEventSeries(seriesData: CreateEventSeriesRequest): Promise<{
+    message: string;
+    series: EventSeries;
+    events: Event[];
+  }> {
+    return await apiService.post("/events/series", seriesData);
+  }
+
+  // Get a series with its occurrences
+  async getEventSeries(id: number): Promise<EventSeries> {
+    const response = await apiService.get<{ series: EventSeries }>(
+      `/events/series/${id}`
+    );
+    return response.series;
+  }
+
   // Update event (admin only)
   async updateEvent(
     id: number,
@@ -55,6 +88,7 @@ export class EventService {
   ): Promise<{
     message: string;
     event: Event;
+    updatedOccurrences: number;
   }> {
     return await apiService.put(`/events/${id}`, eventData);
   }
@@ -64,7 +98,117 @@ export class EventService {
     return await apiService.delete(`/events/${id}`);
   }
 
-  // Get events for admin dashboard
+  // Cancel an event, canceling all of its confirmed reservations
+  async cancelEvent(
+    id: number,
+    reason: string
+  ): Promise<{ message: string; event: Event; canceledReservations: number }> {
+    return apiService.post(`/events/${id}/cancel`, { reason });
+  }
+
+  // Publish, schedule, unpublish or close an event
+  async updateEventStatus(
+    id: number,
+    statusData: EventStatusRequest
+  ): Promise<{ message: string; event: Event }> {
+    return apiService.put(`/events/${id}/status`, statusData);
+  }
+
+  // Get events in the trash (admin only)
+  async getDeletedEvents(
+    filters: Pick<EventFilters, "name" | "page" | "limit"> = {}
+  ): Promise<EventListResponse> {
+    const params = new URLSearchParams();
+
+    if (filters.name) params.append("name", filters.name);
+    if (filters.page) params.append("page", filters.page.toString());
+    if (filters.limit) params.append("limit", filters.limit.toString());
+
+    const queryString = params.toString();
+    const url = `/events/trash${queryString ? `?${queryString}` : ""}`;
+
+    return apiService.get<EventListResponse>(url);
+  }
+
+  // Restore an event from the trash (admin only)
+  async restoreEvent(id: number): Promise<{ message: string; event: Event }> {
+    return apiService.post(`/events/${id}/restore`);
+  }
+
+  // Get ticket types for an event
+  async getTicketTypes(
+    eventId: number
+  ): Promise<{ ticketTypes: TicketType[] }> {
+    return apiService.get<{ ticketTypes: TicketType[] }>(
+      `/events/${eventId}/ticket-types`
+    );
+  }
+
+  // Create ticket type (admin only)
+  async createTicketType(
+    eventId: number,
+    ticketTypeData: CreateTicketTypeRequest
+  ): Promise<{ message: string; ticketType: TicketType }> {
+    return apiService.post(`/events/${eventId}/ticket-types`, ticketTypeData);
+  }
+
+  // Update ticket type (admin only)
+  async updateTicketType(
+    eventId: number,
+    ticketTypeId: number,
+    ticketTypeData: UpdateTicketTypeRequest
+  ): Promise<{ message: string; ticketType: TicketType }> {
+    return apiService.put(
+      `/events/${eventId}/ticket-types/${ticketTypeId}`,
+      ticketTypeData
+    );
+  }
+
+  // Delete ticket type (admin only)
+  async deleteTicketType(
+    eventId: number,
+    ticketTypeId: number
+  ): Promise<{ message: string }> {
+    return apiService.delete(`/events/${eventId}/ticket-types/${ticketTypeId}`);
+  }
+
+  // Event staff (co-organizers and check-in staff)
+  async getEventStaff(eventId: number): Promise<{ staff: EventStaffMember[] }> {
+    return apiService.get<{ staff: EventStaffMember[] }>(
+      `/events/${eventId}/staff`
+    );
+  }
+
+  async assignEventStaff(
+    eventId: number,
+    email: string,
+    role: EventStaffRole
+  ): Promise<{ message: string; staff: EventStaffMember }> {
+    return apiService.post<{ message: string; staff: EventStaffMember }>(
+      `/events/${eventId}/staff`,
+      { email, role }
+    );
+  }
+
+  async updateEventStaff(
+    eventId: number,
+    staffId: number,
+    role: EventStaffRole
+  ): Promise<{ message: string; staff: EventStaffMember }> {
+    return apiService.put<{ message: string; staff: EventStaffMember }>(
+      `/events/${eventId}/staff/${staffId}`,
+      { role }
+    );
+  }
+
+  async removeEventStaff(
+    eventId: number,
+    staffId: number
+  ): Promise<{ message: string }> {
+    return apiService.delete(`/events/${eventId}/staff/${staffId}`);
+  }
+
+  // Get events the current user manages (every event for admins)
   async getEventsForAdmin(
     filters: EventFilters = {}
   ): Promise<EventListResponse> {
@@ -73,11 +217,15 @@ export class EventService {
     if (filters.name) params.append("name", filters.name);
     if (filters.location) params.append("location", filters.location);
     if (filters.date) params.append("date", filters.date);
+    if (filters.categories?.length)
+      params.append("categories", filters.categories.join(","));
+    if (filters.tags?.length) params.append("tags", filters.tags.join(","));
+    if (filters.status) params.append("status", filters.status);
     if (filters.page) params.append("page", filters.page.toString());
     if (filters.limit) params.append("limit", filters.limit.toString());
 
     const queryString = params.toString();
-    const url = `/events${queryString ? `?${queryString}` : ""}`;
+    const url = `/events/manage${queryString ? `?${queryString}` : ""}`;
 
     return apiService.get<EventListResponse>(url);
   }
@@ -85,10 +233,12 @@ export class EventService {
   async getDashboardStats(): Promise<{
     totalEvents: number;
     activeEvents: number;
+    totalReservations: number;
   }> {
     return apiService.get<{
       totalEvents: number;
       activeEvents: number;
+      totalReservations: number;
     }>("/events/dashboard/stats");
   }
 }
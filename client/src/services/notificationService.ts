@@ -0,0 +1,39 @@
+import { apiService } from "./api";
+import {
+  Notification,
+  NotificationFilters,
+  NotificationListResponse,
+} from "../types";
+
+class NotificationService {
+  async getNotifications(
+    filters: NotificationFilters = {}
+  ): Promise<NotificationListResponse> {
+    const params = new URLSearchParams();
+
+    if (filters.unread) params.append("unread", "true");
+    if (filters.page) params.append("page", filters.page.toString());
+    if (filters.limit) params.append("limit", filters.limit.toString());
+
+    const queryString = params.toString();
+    const url = `/notifications${queryString ? `?${queryString}` : ""}`;
+
+    return apiService.get<NotificationListResponse>(url);
+  }
+
+  async markAsRead(
+    id: number
+  ): Promise<{ message: string; notification: Notification }> {
+    return apiService.patch<{ message: string; notification: Notification }>(
+      `/notifications/${id}/read`
+    );
+  }
+
+  async markAllAsRead(): Promise<{ message: string; updatedCount: number }> {
+    return apiService.patch<{ message: string; updatedCount: number }>(
+      "/notifications/read-all"
+    );
+  }
+}
+
+export const notificationService = new NotificationService();
@@ -3,21 +3,31 @@ import {
   Reservation,
   ReservationListResponse,
   ReservationFilters,
+  WaitlistEntry,
+  WaitlistStatusResponse,
 } from "../types";
 
 class ReservationService {
   // User endpoints
   async createReservation(
-    eventId: number
+    eventId: number,
+    quantity: number = 1,
+    ticketTypeId?: number
   ): Promise<{ message: string; reservation: Reservation }> {
     return apiService.post<{ message: string; reservation: Reservation }>(
-      `/reservations/events/${eventId}/reserve`
+      `/reservations/events/${eventId}/reserve`,
+      { quantity, ticketTypeId }
     );
   }
 
-  async cancelReservation(reservationId: number): Promise<{ message: string }> {
+  // Omitting quantity cancels every seat held by the reservation
+  async cancelReservation(
+    reservationId: number,
+    quantity?: number
+  ): Promise<{ message: string }> {
     return apiService.delete<{ message: string }>(
-      `/reservations/${reservationId}`
+      `/reservations/${reservationId}`,
+      { data: quantity !== undefined ? { quantity } : undefined }
     );
   }
 
@@ -38,6 +48,41 @@ class ReservationService {
     return apiService.get<ReservationListResponse>(url);
   }
 
+  // Waitlist endpoints
+  async joinWaitlist(
+    eventId: number,
+    quantity: number = 1,
+    ticketTypeId?: number
+  ): Promise<{
+    message: string;
+    entry: WaitlistEntry;
+    position: number;
+  }> {
+    return apiService.post<{
+      message: string;
+      entry: WaitlistEntry;
+      position: number;
+    }>(`/reservations/events/${eventId}/waitlist`, { quantity, ticketTypeId });
+  }
+
+  async leaveWaitlist(eventId: number): Promise<{ message: string }> {
+    return apiService.delete<{ message: string }>(
+      `/reservations/events/${eventId}/waitlist`
+    );
+  }
+
+  async getWaitlistStatus(eventId: number): Promise<WaitlistStatusResponse> {
+    return apiService.get<WaitlistStatusResponse>(
+      `/reservations/events/${eventId}/waitlist`
+    );
+  }
+
+  async getMyWaitlist(): Promise<{ entries: WaitlistEntry[] }> {
+    return apiService.get<{ entries: WaitlistEntry[] }>(
+      "/reservations/my-waitlist"
+    );
+  }
+
   // Admin endpoints
   async getEventReservations(
     eventId: number,
@@ -56,6 +101,16 @@ class ReservationService {
     return apiService.get<ReservationListResponse>(url);
   }
 
+  async checkIn(
+    eventId: number,
+    ticketToken: string
+  ): Promise<{ message: string; reservation: Reservation }> {
+    return apiService.post<{ message: string; reservation: Reservation }>(
+      `/reservations/events/${eventId}/check-in`,
+      { ticketToken }
+    );
+  }
+
   async getAllReservations(
     filters: ReservationFilters = {}
   ): Promise<ReservationListResponse> {
@@ -0,0 +1,33 @@
+import { apiService } from "./api";
+import { Permission, Role, RoleListResponse } from "../types";
+
+class RoleService {
+  async getRoles(): Promise<RoleListResponse> {
+    return apiService.get<RoleListResponse>("/roles");
+  }
+
+  async createRole(roleData: {
+    name: string;
+    description?: string;
+    permissions: Permission[];
+  }): Promise<{ message: string; role: Role }> {
+    return apiService.post<{ message: string; role: Role }>("/roles", roleData);
+  }
+
+  async updateRole(
+    id: number,
+    roleData: { description?: string | null; permissions?: Permission[] }
+  ): Promise<{ message: string; role: Role }> {
+    return apiService.put<{ message: string; role: Role }>(
+      `/roles/${id}`,
+      roleData
+    );
+  }
+
+  async deleteRole(id: number): Promise<{ message: string }> {
+    return apiService.delete<{ message: string }>(`/roles/${id}`);
+  }
+}
+
+export const roleService = new RoleService();
+export default roleService;
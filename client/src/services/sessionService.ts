@@ -0,0 +1,93 @@
+import { apiService } from "./api";
+import { Session, SessionRequest, Speaker, SpeakerRequest } from "../types";
+
+class SessionService {
+  async getSessions(eventId: number): Promise<{ sessions: Session[] }> {
+    return apiService.get<{ sessions: Session[] }>(
+      `/events/${eventId}/sessions`
+    );
+  }
+
+  async createSession(
+    eventId: number,
+    sessionData: SessionRequest
+  ): Promise<{ message: string; session: Session }> {
+    return apiService.post<{ message: string; session: Session }>(
+      `/events/${eventId}/sessions`,
+      sessionData
+    );
+  }
+
+  async updateSession(
+    eventId: number,
+    sessionId: number,
+    sessionData: Partial<SessionRequest>
+  ): Promise<{ message: string; session: Session }> {
+    return apiService.put<{ message: string; session: Session }>(
+      `/events/${eventId}/sessions/${sessionId}`,
+      sessionData
+    );
+  }
+
+  async deleteSession(
+    eventId: number,
+    sessionId: number
+  ): Promise<{ message: string }> {
+    return apiService.delete<{ message: string }>(
+      `/events/${eventId}/sessions/${sessionId}`
+    );
+  }
+
+  // Ids of the event's sessions the current user registered for
+  async getMyRegistrations(eventId: number): Promise<{ sessionIds: number[] }> {
+    return apiService.get<{ sessionIds: number[] }>(
+      `/events/${eventId}/sessions/registrations`
+    );
+  }
+
+  async register(
+    eventId: number,
+    sessionId: number
+  ): Promise<{ message: string }> {
+    return apiService.post<{ message: string }>(
+      `/events/${eventId}/sessions/${sessionId}/registration`
+    );
+  }
+
+  async cancelRegistration(
+    eventId: number,
+    sessionId: number
+  ): Promise<{ message: string }> {
+    return apiService.delete<{ message: string }>(
+      `/events/${eventId}/sessions/${sessionId}/registration`
+    );
+  }
+
+  async getSpeakers(eventId: number): Promise<{ speakers: Speaker[] }> {
+    return apiService.get<{ speakers: Speaker[] }>(
+      `/events/${eventId}/speakers`
+    );
+  }
+
+  async createSpeaker(
+    eventId: number,
+    speakerData: SpeakerRequest
+  ): Promise<{ message: string; speaker: Speaker }> {
+    return apiService.post<{ message: string; speaker: Speaker }>(
+      `/events/${eventId}/speakers`,
+      speakerData
+    );
+  }
+
+  async deleteSpeaker(
+    eventId: number,
+    speakerId: number
+  ): Promise<{ message: string }> {
+    return apiService.delete<{ message: string }>(
+      `/events/${eventId}/speakers/${speakerId}`
+    );
+  }
+}
+
+export const sessionService = new SessionService();
+export default sessionService;
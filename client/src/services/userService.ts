@@ -36,10 +36,45 @@ class UserService {
     );
   }
 
+  async assignRole(
+    id: number,
+    role: string
+  ): Promise<{ message: string; user: User }> {
+    return apiService.put<{ message: string; user: User }>(
+      `/users/${id}/role`,
+      { role }
+    );
+  }
+
+  async unlockUser(id: number): Promise<{ message: string; user: User }> {
+    return apiService.post<{ message: string; user: User }>(
+      `/users/${id}/unlock`
+    );
+  }
+
   async deleteUser(id: number): Promise<{ message: string }> {
     return apiService.delete<{ message: string }>(`/users/${id}`);
   }
 
+  async getDeletedUsers(filters: UserFilters = {}): Promise<UserListResponse> {
+    const params = new URLSearchParams();
+
+    if (filters.search) params.append("search", filters.search);
+    if (filters.page) params.append("page", filters.page.toString());
+    if (filters.limit) params.append("limit", filters.limit.toString());
+
+    const queryString = params.toString();
+    const url = `/users/trash${queryString ? `?${queryString}` : ""}`;
+
+    return apiService.get<UserListResponse>(url);
+  }
+
+  async restoreUser(id: number): Promise<{ message: string; user: User }> {
+    return apiService.post<{ message: string; user: User }>(
+      `/users/${id}/restore`
+    );
+  }
+
   // User profile endpoints
   async updateProfile(
     userData: UpdateProfileRequest
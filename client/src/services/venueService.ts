@@ -0,0 +1,34 @@
+import { apiService } from "./api";
+import { Venue, VenueRequest } from "../types";
+
+class VenueService {
+  async getVenues(): Promise<{ venues: Venue[] }> {
+    return apiService.get<{ venues: Venue[] }>("/venues");
+  }
+
+  async createVenue(
+    venueData: VenueRequest
+  ): Promise<{ message: string; venue: Venue }> {
+    return apiService.post<{ message: string; venue: Venue }>(
+      "/venues",
+      venueData
+    );
+  }
+
+  async updateVenue(
+    id: number,
+    venueData: Partial<VenueRequest>
+  ): Promise<{ message: string; venue: Venue }> {
+    return apiService.put<{ message: string; venue: Venue }>(
+      `/venues/${id}`,
+      venueData
+    );
+  }
+
+  async deleteVenue(id: number): Promise<{ message: string }> {
+    return apiService.delete<{ message: string }>(`/venues/${id}`);
+  }
+}
+
+export const venueService = new VenueService();
+export default venueService;
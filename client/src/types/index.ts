@@ -1,12 +1,21 @@
 // User types
+// Built-in roles are "user", "organizer" and "admin"; admins can add more
+export type UserRole = string;
+
 export interface User {
   id: number;
   email: string;
   firstName?: string;
   lastName?: string;
-  role: "user" | "admin";
+  role: UserRole;
+  emailVerifiedAt?: string | null;
+  twoFactorEnabledAt?: string | null;
+  // Set (admin views only) while the account is locked after failed logins
+  lockedUntil?: string | null;
   createdAt: string;
   updatedAt: string;
+  // Set while the account is in the trash
+  deletedAt?: string | null;
 }
 
 // Authentication types
@@ -26,6 +35,48 @@ export interface AuthResponse {
   message: string;
   user: User;
   token: string;
+  refreshToken: string;
+}
+
+// Returned by login instead of tokens when the account has 2FA enabled
+export interface TwoFactorChallengeResponse {
+  message: string;
+  twoFactorRequired: true;
+  twoFactorToken: string;
+}
+
+export type LoginResponse = AuthResponse | TwoFactorChallengeResponse;
+
+// A second factor is either a current TOTP code or an unused recovery code
+export interface TwoFactorCredentials {
+  code?: string;
+  recoveryCode?: string;
+}
+
+export interface TwoFactorSetupResponse {
+  message: string;
+  secret: string;
+  otpauthUrl: string;
+}
+
+export interface EnableTwoFactorResponse extends AuthResponse {
+  recoveryCodes: string[];
+}
+
+export interface RecoveryCodesResponse {
+  message: string;
+  recoveryCodes: string[];
+}
+
+export interface VerifyEmailResponse {
+  message: string;
+  user: User;
+}
+
+export interface RefreshTokenResponse {
+  message: string;
+  token: string;
+  refreshToken: string;
 }
 
 // Event types
@@ -34,51 +85,315 @@ export interface Event {
   name: string;
   description?: string;
   eventDate: string;
+  endDate: string;
+  // IANA zone the event takes place in
+  timeZone: string;
+  times?: EventTimes;
   location?: string;
   onlineLink?: string;
   maxCapacity: number;
   availableSpots: number;
-  spotStatus?: "available" | "limited" | "fully-booked" | "past-event";
+  maxPerBooking: number;
+  spotStatus?: SpotStatus;
+  ticketTypes?: TicketType[];
   creatorId: number;
   createdAt: string;
   updatedAt: string;
+  // Drafts and scheduled events are only visible to their managers
+  status: EventStatus;
+  publishAt?: string | null;
+  // Reservations are only taken inside the window; either end may be open
+  registrationOpensAt?: string | null;
+  registrationClosesAt?: string | null;
+  // Set once the organizer calls the event off
+  canceledAt?: string | null;
+  cancellationReason?: string | null;
+  // Set while the event is in the trash
+  deletedAt?: string | null;
+  // Occurrences of a recurring event share a series
+  seriesId?: number | null;
+  categoryId?: number | null;
+  category?: Pick<Category, "id" | "name"> | null;
+  tags?: string[];
+  venueId?: number | null;
+  venue?: Omit<Venue, "accessibilityNotes" | "createdAt" | "updatedAt"> | null;
+  // Only set on search results; highlights wrap matches in <mark> tags
+  searchRank?: number;
+  nameHighlight?: string;
+  descriptionSnippet?: string;
+  // Only set on radius searches, in kilometers
+  distanceKm?: number;
   creator?: {
     id: number;
     email: string;
     firstName?: string;
     lastName?: string;
-    role: "user" | "admin";
+    role: UserRole;
   };
 }
 
+export type EventStatus = "draft" | "scheduled" | "published" | "closed";
+
+// Start and end in UTC and as ISO strings with the event zone's offset
+export interface EventTimes {
+  timeZone: string;
+  startUtc: string;
+  startLocal: string;
+  endUtc: string;
+  endLocal: string;
+  durationMinutes: number;
+}
+
+export type SpotStatus =
+  | "available"
+  | "limited"
+  | "fully-booked"
+  | "in-progress"
+  | "registration-not-open"
+  | "registration-closed"
+  | "past-event"
+  | "cancelled";
+
+// Live seat availability pushed over the socket connection
+export interface EventAvailabilityUpdate {
+  eventId: number;
+  availableSpots: number;
+  maxCapacity: number;
+  spotStatus: SpotStatus;
+}
+
+// Event staff types
+export type EventStaffRole = "co_organizer" | "checkin_staff";
+
+export interface EventStaffMember {
+  id: number;
+  eventId: number;
+  userId: number;
+  role: EventStaffRole;
+  assignedById?: number | null;
+  createdAt: string;
+  updatedAt: string;
+  user?: Pick<User, "id" | "email" | "firstName" | "lastName">;
+}
+
+// Ticket type types
+export interface TicketType {
+  id: number;
+  eventId: number;
+  name: string;
+  description?: string;
+  price: number;
+  capacity: number;
+  availableSpots: number;
+  salesStartAt?: string | null;
+  salesEndAt?: string | null;
+  salesStatus?: "upcoming" | "on-sale" | "ended" | "sold-out";
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateTicketTypeRequest {
+  name: string;
+  description?: string;
+  price?: number;
+  capacity: number;
+  salesStartAt?: string;
+  salesEndAt?: string;
+}
+
+export interface UpdateTicketTypeRequest {
+  name?: string;
+  description?: string;
+  price?: number;
+  capacity?: number;
+  salesStartAt?: string | null;
+  salesEndAt?: string | null;
+}
+
+export interface Speaker {
+  id: number;
+  eventId: number;
+  name: string;
+  headline?: string | null;
+  bio?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SpeakerRequest {
+  name: string;
+  headline?: string | null;
+  bio?: string | null;
+}
+
+// One slot on an event's agenda
+export interface Session {
+  id: number;
+  eventId: number;
+  title: string;
+  description?: string | null;
+  startsAt: string;
+  endsAt: string;
+  room?: string | null;
+  // Both null when the session is open to every attendee
+  capacity?: number | null;
+  availableSpots?: number | null;
+  speakers?: Pick<Speaker, "id" | "name" | "headline">[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SessionRequest {
+  title: string;
+  description?: string | null;
+  // Wall-clock times in the event's zone, e.g. "2026-03-01T19:00"
+  startsAt: string;
+  endsAt: string;
+  room?: string | null;
+  capacity?: number | null;
+  speakerIds?: number[];
+}
+
 export interface CreateEventRequest {
   name: string;
   description?: string;
+  // Wall-clock time in timeZone, e.g. "2026-03-01T19:00"
   eventDate: string;
+  // Same format as eventDate; the server defaults the length when left out
+  endDate?: string;
+  timeZone?: string;
   location?: string;
   onlineLink?: string;
   maxCapacity: number;
+  maxPerBooking?: number;
+  categoryId?: number | null;
+  tags?: string[];
+  venueId?: number | null;
+  // A future publishAt schedules the event; otherwise it starts as a draft
+  status?: "draft" | "published";
+  publishAt?: string;
+  registrationOpensAt?: string;
+  registrationClosesAt?: string;
 }
 
+// Which occurrences of a recurring event an edit applies to
+export type EventEditScope = "this" | "following" | "all";
+
 export interface UpdateEventRequest {
   name?: string;
   description?: string;
   eventDate?: string;
+  endDate?: string;
+  timeZone?: string;
   location?: string;
   onlineLink?: string;
   maxCapacity?: number;
+  maxPerBooking?: number;
+  categoryId?: number | null;
+  tags?: string[];
+  venueId?: number | null;
+  // Null removes that end of the window
+  registrationOpensAt?: string | null;
+  registrationClosesAt?: string | null;
+  scope?: EventEditScope;
+}
+
+export interface EventStatusRequest {
+  status: EventStatus;
+  // Required for "scheduled"
+  publishAt?: string;
+}
+
+export interface Category {
+  id: number;
+  name: string;
+  description?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Venue {
+  id: number;
+  name: string;
+  address: string;
+  latitude: number;
+  longitude: number;
+  capacity?: number | null;
+  wheelchairAccessible: boolean;
+  accessibilityNotes?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type VenueRequest = Omit<Venue, "id" | "createdAt" | "updatedAt">;
+
+// Event counts per category and tag for the current list filters
+export interface EventFacets {
+  categories: { id: number; name: string; count: number }[];
+  tags: { tag: string; count: number }[];
+}
+
+export interface EventSeries {
+  id: number;
+  creatorId: number;
+  rrule: string;
+  startsAt: string;
+  exceptions: string[];
+  createdAt: string;
+  updatedAt: string;
+  occurrences?: Event[];
+}
+
+export interface CreateEventSeriesRequest extends CreateEventRequest {
+  recurrence: {
+    // RFC 5545 subset, e.g. FREQ=WEEKLY;BYDAY=MO,WE;COUNT=10
+    rrule: string;
+    exceptions?: string[];
+  };
 }
 
 // Reservation types
+export type ReservationStatus =
+  | "confirmed"
+  | "canceled"
+  | "checked_in"
+  | "no_show";
+
 export interface Reservation {
   id: number;
   userId: number;
   eventId: number;
-  status: "confirmed" | "canceled";
+  ticketTypeId?: number | null;
+  quantity: number;
+  status: ReservationStatus;
+  checkedInAt?: string | null;
+  ticketToken?: string | null;
   createdAt: string;
   updatedAt: string;
   user?: User;
   event?: Event;
+  ticketType?: Pick<TicketType, "id" | "name" | "price"> | null;
+}
+
+// Waitlist types
+export interface WaitlistEntry {
+  id: number;
+  userId: number;
+  eventId: number;
+  quantity: number;
+  status: "waiting" | "promoted" | "left";
+  promotedAt?: string | null;
+  position?: number;
+  createdAt: string;
+  updatedAt: string;
+  event?: Event;
+}
+
+export interface WaitlistStatusResponse {
+  onWaitlist: boolean;
+  position: number | null;
+  waitlistSize: number;
+  entry: WaitlistEntry | null;
 }
 
 // API response types
@@ -124,6 +439,9 @@ export interface EventListResponse {
     limit: number;
     totalPages: number;
   };
+  facets?: EventFacets;
+  // Only on managed listings: totals per status for the current filters
+  statusCounts?: Partial<Record<EventStatus, number>>;
 }
 
 export interface ReservationListResponse {
@@ -136,12 +454,112 @@ export interface ReservationListResponse {
   };
 }
 
+// Notification types
+export type NotificationType =
+  | "reservation_confirmed"
+  | "reservation_canceled"
+  | "event_updated"
+  | "event_deleted"
+  | "event_canceled"
+  | "event_staff_assigned";
+
+export interface Notification {
+  id: number;
+  userId: number;
+  eventId?: number | null;
+  type: NotificationType;
+  title: string;
+  message: string;
+  readAt?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  event?: Pick<Event, "id" | "name" | "eventDate"> | null;
+}
+
+export interface NotificationListResponse {
+  notifications: Notification[];
+  unreadCount: number;
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  };
+}
+
+export interface NotificationFilters {
+  unread?: boolean;
+  page?: number;
+  limit?: number;
+}
+
 // Update User Request
 export interface UpdateUserRequest {
   email?: string;
   firstName?: string;
   lastName?: string;
-  role?: "user" | "admin";
+}
+
+export type Permission =
+  | "events:create"
+  | "events:manage"
+  | "events:manage_any"
+  | "reservations:create"
+  | "reservations:view"
+  | "reservations:checkin"
+  | "users:manage"
+  | "roles:manage"
+  | "audit:view"
+  | "categories:manage";
+
+export interface Role {
+  id: number;
+  name: string;
+  description?: string | null;
+  permissions: Permission[];
+  isSystem: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RoleListResponse {
+  roles: Role[];
+  availablePermissions: Permission[];
+}
+
+// Audit log types
+export interface AuditLogEntry {
+  id: number;
+  actorId?: number | null;
+  action: string;
+  entityType: string;
+  entityId?: number | null;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+  ipAddress?: string | null;
+  createdAt: string;
+  actor?: Pick<User, "id" | "email" | "firstName" | "lastName"> | null;
+}
+
+export interface AuditLogListResponse {
+  auditLogs: AuditLogEntry[];
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  };
+}
+
+export interface AuditLogFilters {
+  actorId?: number;
+  action?: string;
+  entityType?: string;
+  entityId?: number;
+  from?: string;
+  to?: string;
+  page?: number;
+  limit?: number;
 }
 
 export interface UpdateProfileRequest {
@@ -154,7 +572,14 @@ export interface UpdateProfileRequest {
 export interface AuthContextType {
   user: User | null;
   token: string | null;
-  login: (email: string, password: string) => Promise<void>;
+  login: (
+    email: string,
+    password: string
+  ) => Promise<TwoFactorChallengeResponse | null>;
+  completeTwoFactorLogin: (
+    twoFactorToken: string,
+    credentials: TwoFactorCredentials
+  ) => Promise<void>;
   register: (userData: RegisterRequest) => Promise<void>;
   logout: () => void;
   updateUser: (user: User) => void;
@@ -167,6 +592,8 @@ export interface AuthContextType {
 export interface ProtectedRouteProps {
   children: React.ReactNode;
   requireAdmin?: boolean;
+  // Lets organizers through as well as admins
+  requireOrganizer?: boolean;
 }
 
 export interface FormFieldProps {
@@ -187,10 +614,25 @@ export interface FormFieldProps {
 }
 
 // Event filters
+export type EventSort = "date" | "relevance" | "distance";
+
 export interface EventFilters {
+  // Full-text search over name, description, location and tags
+  q?: string;
+  // A calendar day, in timeZone or else in each event's own zone
   date?: string;
+  timeZone?: string;
   name?: string;
   location?: string;
+  // Match events in any of the categories or with any of the tags
+  categories?: number[];
+  tags?: string[];
+  // Events at venues within radiusKm of the point
+  near?: { latitude: number; longitude: number };
+  radiusKm?: number;
+  sort?: EventSort;
+  // Only used when listing managed events
+  status?: EventStatus;
   page?: number;
   limit?: number;
 }
@@ -204,7 +646,7 @@ export interface UserFilters {
 
 // Reservation filters
 export interface ReservationFilters {
-  status?: "confirmed" | "canceled";
+  status?: ReservationStatus;
   eventId?: number;
   userId?: number;
   page?: number;
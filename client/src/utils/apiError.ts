@@ -0,0 +1,9 @@
+import axios from "axios";
+
+// Error message sent by the API, or the fallback when there is none
+export function getApiErrorMessage(error: unknown, fallback: string): string {
+  if (axios.isAxiosError<{ error?: string }>(error)) {
+    return error.response?.data?.error || fallback;
+  }
+  return fallback;
+}
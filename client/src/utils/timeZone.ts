@@ -0,0 +1,6 @@
+// Wall-clock time in the zone, as a datetime-local input value
+export const toZonedInput = (date: string, timeZone: string) =>
+  new Date(date)
+    .toLocaleString("sv-SE", { timeZone })
+    .replace(" ", "T")
+    .slice(0, 16);
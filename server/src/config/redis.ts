@@ -91,6 +91,31 @@ export const cacheUtils = {
     }
   },
 
+  // Increment a counter, starting its expiry window on the first hit.
+  // Returns 0 if Redis is unavailable so callers fail open.
+  async increment(key: string, expireSeconds: number): Promise<number> {
+    try {
+      const count = await redis.incr(key);
+      if (count === 1) {
+        await redis.expire(key, expireSeconds);
+      }
+      return count;
+    } catch (error) {
+      console.error("Cache increment error:", error);
+      return 0;
+    }
+  },
+
+  // Get the remaining lifetime of a key in seconds (0 if missing)
+  async ttl(key: string): Promise<number> {
+    try {
+      return Math.max(await redis.ttl(key), 0);
+    } catch (error) {
+      console.error("Cache ttl error:", error);
+      return 0;
+    }
+  },
+
   // Set multiple cache keys
   async mset(
     keyValuePairs: Record<string, any>,
@@ -148,6 +173,17 @@ export const CACHE_KEYS = {
   // User session caching
   USER_SESSION: (userId: number) => `session:${userId}`,
   USER_PROFILE: (userId: number) => `user:${userId}`,
+  EMAIL_VERIFICATION_COOLDOWN: (userId: number) =>
+    `email_verification:${userId}`,
+
+  // Permission lookups
+  ROLE_PERMISSIONS: (role: string) => `role_permissions:${role}`,
+
+  // Login throttling
+  LOGIN_FAILURES_ACCOUNT: (email: string) => `login_failures:account:${email}`,
+  LOGIN_FAILURES_IP: (ip: string) => `login_failures:ip:${ip}`,
+  LOGIN_DELAY: (email: string) => `login_delay:${email}`,
+  ACCOUNT_LOCKOUT: (email: string) => `login_lockout:${email}`,
 
   // General caching
   API_RATE_LIMIT: (ip: string) => `rate_limit:${ip}`,
@@ -160,6 +196,9 @@ export const CACHE_EXPIRY = {
   EVENT_LIST: 300, // 5 minutes
   USER_SESSION: 3600, // 1 hour
   USER_PROFILE: 1800, // 30 minutes
+  EMAIL_VERIFICATION_COOLDOWN: 60, // 1 minute
+  ROLE_PERMISSIONS: 600, // 10 minutes
+  LOGIN_FAILURE_WINDOW: 900, // 15 minutes
   API_RATE_LIMIT: 60, // 1 minute
 };
 
@@ -0,0 +1,83 @@
+import { Server as HttpServer } from "http";
+import { Server, Socket } from "socket.io";
+import { JWTPayload } from "../types/index.js";
+import { verifyToken } from "../utils/jwt.js";
+import { Event } from "../models/index.js";
+import { isEventPublic } from "../utils/eventLifecycle.js";
+import { hasEventAccess } from "../utils/eventAccess.js";
+
+let io: Server | null = null;
+
+// Room that receives live updates for a single event
+export const eventRoom = (eventId: number) => `event:${eventId}`;
+
+// Room shared by all of a user's open connections
+export const userRoom = (userId: number) => `user:${userId}`;
+
+// Create the Socket.IO server on top of the HTTP server
+export const initSocket = (httpServer: HttpServer, origins: string[]) => {
+  io = new Server(httpServer, {
+    cors: {
+      origin: origins,
+      credentials: true,
+    },
+  });
+
+  // Sockets authenticate with the same JWT as the REST API
+  io.use((socket, next) => {
+    const token = socket.handshake.auth?.token;
+    if (!token) {
+      next(new Error("Access token is required"));
+      return;
+    }
+
+    try {
+      socket.data.user = verifyToken(token);
+      next();
+    } catch (error) {
+      next(new Error("Invalid or expired token"));
+    }
+  });
+
+  io.on("connection", (socket: Socket) => {
+    const user = socket.data.user as JWTPayload;
+    console.log(`🔌 Socket connected for user ${user.id}`);
+
+    socket.join(userRoom(user.id));
+
+    // Same visibility as the event page: unpublished and trashed events are
+    // only followed by the people managing them
+    socket.on("event:join", async (eventId: unknown) => {
+      if (!Number.isInteger(eventId) || (eventId as number) <= 0) {
+        return;
+      }
+
+      try {
+        const event = await Event.findByPk(eventId as number, {
+          attributes: ["id", "creatorId", "status", "publishAt"],
+        });
+        if (
+          event &&
+          (isEventPublic(event) ||
+            (await hasEventAccess(user, event, "view_reservations")))
+        ) {
+          socket.join(eventRoom(event.id));
+        }
+      } catch (error) {
+        console.error("Socket event join error:", error);
+      }
+    });
+
+    socket.on("event:leave", (eventId: unknown) => {
+      if (Number.isInteger(eventId) && (eventId as number) > 0) {
+        socket.leave(eventRoom(eventId as number));
+      }
+    });
+  });
+
+  console.log("✅ Socket.IO server initialized");
+  return io;
+};
+
+// Socket server, or null when it hasn't been started (e.g. in scripts)
+export const getIO = (): Server | null => io;
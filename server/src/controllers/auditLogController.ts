@@ -0,0 +1,66 @@
+import { Response } from "express";
+import { Op, WhereOptions } from "sequelize";
+import { AuthenticatedRequest } from "../types/index.js";
+import { AuditLog, User } from "../models/index.js";
+
+export const getAuditLogs = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const {
+      page = 1,
+      limit = 20,
+      actorId,
+      action,
+      entityType,
+      entityId,
+      from,
+      to,
+    } = req.query;
+    const offset = (Number(page) - 1) * Number(limit);
+
+    const whereConditions: WhereOptions = {};
+    if (actorId) whereConditions.actorId = Number(actorId);
+    // "event." matches every event action
+    if (action) whereConditions.action = { [Op.startsWith]: String(action) };
+    if (entityType) whereConditions.entityType = String(entityType);
+    if (entityId) whereConditions.entityId = Number(entityId);
+    if (from || to) {
+      whereConditions.createdAt = {
+        ...(from && { [Op.gte]: new Date(String(from)) }),
+        ...(to && { [Op.lte]: new Date(String(to)) }),
+      };
+    }
+
+    const { count, rows: auditLogs } = await AuditLog.findAndCountAll({
+      where: whereConditions,
+      include: [
+        {
+          model: User,
+          as: "actor",
+          attributes: ["id", "email", "firstName", "lastName"],
+        },
+      ],
+      limit: Number(limit),
+      offset,
+      order: [
+        ["createdAt", "DESC"],
+        ["id", "DESC"],
+      ],
+    });
+
+    res.json({
+      auditLogs,
+      pagination: {
+        total: count,
+        page: Number(page),
+        limit: Number(limit),
+        totalPages: Math.ceil(count / Number(limit)),
+      },
+    });
+  } catch (error) {
+    console.error("Get audit logs error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
@@ -3,11 +3,68 @@ import {
   AuthenticatedRequest,
   CreateUserRequest,
   LoginRequest,
+  RefreshTokenRequest,
+  ForgotPasswordRequest,
+  ResetPasswordRequest,
+  VerifyEmailRequest,
+  TwoFactorLoginRequest,
 } from "../types/index.js";
 import { User } from "../models/index.js";
-import { generateToken } from "../utils/jwt.js";
+import {
+  issueTokenPair,
+  revokeRefreshToken,
+  rotateRefreshToken,
+} from "../services/tokenService.js";
+import {
+  requestPasswordReset,
+  resetPassword as redeemPasswordReset,
+} from "../services/passwordResetService.js";
+import {
+  sendVerificationEmail,
+  verifyEmail as confirmEmailAddress,
+} from "../services/emailVerificationService.js";
+import { verifySecondFactor } from "../services/twoFactorService.js";
+import {
+  LoginThrottle,
+  checkLoginThrottle,
+  clearLoginFailures,
+  recordLoginFailure,
+} from "../services/loginThrottleService.js";
+import {
+  generateTwoFactorChallengeToken,
+  verifyTwoFactorChallengeToken,
+} from "../utils/jwt.js";
 import { cacheUtils, CACHE_KEYS, CACHE_EXPIRY } from "../config/redis.js";
 
+// Generate access token, start a refresh token family and cache the session
+const startSession = async (user: User) => {
+  const tokens = await issueTokenPair(user);
+
+  await cacheUtils.set(
+    CACHE_KEYS.USER_SESSION(user.id),
+    { userId: user.id, email: user.email, role: user.role },
+    CACHE_EXPIRY.USER_SESSION
+  );
+
+  return tokens;
+};
+
+const LOGIN_THROTTLE_MESSAGES: Record<LoginThrottle["code"], string> = {
+  ACCOUNT_LOCKED:
+    "This account is temporarily locked after too many failed login attempts",
+  LOGIN_THROTTLED: "Please wait before trying to log in again",
+  TOO_MANY_ATTEMPTS: "Too many failed login attempts from this address",
+};
+
+const sendLoginThrottled = (res: Response, throttle: LoginThrottle) => {
+  res.set("Retry-After", String(throttle.retryAfterSeconds));
+  res.status(throttle.code === "ACCOUNT_LOCKED" ? 423 : 429).json({
+    error: LOGIN_THROTTLE_MESSAGES[throttle.code],
+    code: throttle.code,
+    retryAfter: throttle.retryAfterSeconds,
+  });
+};
+
 export const register = async (
   req: AuthenticatedRequest,
   res: Response
@@ -17,7 +74,11 @@ export const register = async (
       req.body;
 
     // Check if user already exists
-    const existingUser = await User.findOne({ where: { email } });
+    // Trashed accounts keep their address until they are purged
+    const existingUser = await User.findOne({
+      where: { email },
+      paranoid: false,
+    });
     if (existingUser) {
       res.status(409).json({ error: "User with this email already exists" });
       return;
@@ -32,24 +93,27 @@ export const register = async (
       role: "user",
     });
 
-    // Generate JWT token
-    const token = generateToken({
-      id: user.id,
-      email: user.email,
-      role: user.role,
-    });
+    // A failed delivery shouldn't fail the signup; the user can ask for a
+    // new link later
+    try {
+      await sendVerificationEmail(user);
+      await cacheUtils.set(
+        CACHE_KEYS.EMAIL_VERIFICATION_COOLDOWN(user.id),
+        true,
+        CACHE_EXPIRY.EMAIL_VERIFICATION_COOLDOWN
+      );
+    } catch (mailError) {
+      console.error("Verification email error:", mailError);
+    }
 
-    // Cache user session
-    await cacheUtils.set(
-      CACHE_KEYS.USER_SESSION(user.id),
-      { userId: user.id, email: user.email, role: user.role },
-      CACHE_EXPIRY.USER_SESSION
-    );
+    const { token, refreshToken } = await startSession(user);
 
     res.status(201).json({
-      message: "User registered successfully",
+      message:
+        "User registered successfully, please check your email to verify your address",
       user: user.toJSON(),
       token,
+      refreshToken,
     });
   } catch (error) {
     console.error("Registration error:", error);
@@ -63,10 +127,18 @@ export const login = async (
 ): Promise<void> => {
   try {
     const { email, password }: LoginRequest = req.body;
+    const ip = req.ip || "unknown";
+
+    const throttle = await checkLoginThrottle(email, ip);
+    if (throttle) {
+      sendLoginThrottled(res, throttle);
+      return;
+    }
 
     // Find user by email
     const user = await User.findOne({ where: { email } });
     if (!user) {
+      await recordLoginFailure(email, ip);
       res.status(401).json({ error: "Invalid email or password" });
       return;
     }
@@ -74,28 +146,30 @@ export const login = async (
     // Validate password
     const isValidPassword = await user.validatePassword(password);
     if (!isValidPassword) {
+      await recordLoginFailure(email, ip);
       res.status(401).json({ error: "Invalid email or password" });
       return;
     }
 
-    // Generate JWT token
-    const token = generateToken({
-      id: user.id,
-      email: user.email,
-      role: user.role,
-    });
+    await clearLoginFailures(email);
 
-    // Cache user session
-    await cacheUtils.set(
-      CACHE_KEYS.USER_SESSION(user.id),
-      { userId: user.id, email: user.email, role: user.role },
-      CACHE_EXPIRY.USER_SESSION
-    );
+    // The password alone isn't enough; ask for the second factor
+    if (user.isTwoFactorEnabled()) {
+      res.json({
+        message: "Two-factor authentication required",
+        twoFactorRequired: true,
+        twoFactorToken: generateTwoFactorChallengeToken({ userId: user.id }),
+      });
+      return;
+    }
+
+    const { token, refreshToken } = await startSession(user);
 
     res.json({
       message: "Login successful",
       user: user.toJSON(),
       token,
+      refreshToken,
     });
   } catch (error) {
     console.error("Login error:", error);
@@ -103,11 +177,72 @@ export const login = async (
   }
 };
 
+export const verifyTwoFactorLogin = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { twoFactorToken, code, recoveryCode }: TwoFactorLoginRequest =
+      req.body;
+
+    let userId: number;
+    try {
+      ({ userId } = verifyTwoFactorChallengeToken(twoFactorToken));
+    } catch (error) {
+      res
+        .status(401)
+        .json({ error: "Login session expired, please sign in again" });
+      return;
+    }
+
+    const user = await User.findByPk(userId);
+    if (!user) {
+      res.status(401).json({ error: "Invalid authentication code" });
+      return;
+    }
+
+    // Code guesses count towards the same lockout as password guesses
+    const ip = req.ip || "unknown";
+    const throttle = await checkLoginThrottle(user.email, ip);
+    if (throttle) {
+      sendLoginThrottled(res, throttle);
+      return;
+    }
+
+    if (!(await verifySecondFactor(user, { code, recoveryCode }))) {
+      await recordLoginFailure(user.email, ip);
+      res.status(401).json({ error: "Invalid authentication code" });
+      return;
+    }
+
+    await clearLoginFailures(user.email);
+
+    const { token, refreshToken } = await startSession(user);
+
+    res.json({
+      message: "Login successful",
+      user: user.toJSON(),
+      token,
+      refreshToken,
+    });
+  } catch (error) {
+    console.error("Two-factor login error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
 export const logout = async (
   req: AuthenticatedRequest,
   res: Response
 ): Promise<void> => {
   try {
+    const { refreshToken }: Partial<RefreshTokenRequest> = req.body ?? {};
+
+    // Revoke the session's refresh tokens so it can't be renewed
+    if (refreshToken) {
+      await revokeRefreshToken(refreshToken);
+    }
+
     if (req.user) {
       // Clear user session from cache
       await cacheUtils.del(CACHE_KEYS.USER_SESSION(req.user.id));
@@ -120,6 +255,143 @@ export const logout = async (
   }
 };
 
+export const refresh = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { refreshToken }: RefreshTokenRequest = req.body;
+
+    const result = await rotateRefreshToken(refreshToken);
+    if (!result) {
+      res.status(401).json({ error: "Invalid or expired refresh token" });
+      return;
+    }
+
+    res.json({
+      message: "Token refreshed successfully",
+      token: result.token,
+      refreshToken: result.refreshToken,
+    });
+  } catch (error) {
+    console.error("Refresh token error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const forgotPassword = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { email }: ForgotPasswordRequest = req.body;
+
+    await requestPasswordReset(email);
+
+    // Same answer whether or not the account exists
+    res.json({
+      message:
+        "If an account exists for this email, a password reset link has been sent",
+    });
+  } catch (error) {
+    console.error("Forgot password error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const resetPassword = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { token, password }: ResetPasswordRequest = req.body;
+
+    const wasReset = await redeemPasswordReset(token, password);
+    if (!wasReset) {
+      res
+        .status(400)
+        .json({ error: "This reset link is invalid or has expired" });
+      return;
+    }
+
+    res.json({ message: "Password reset successfully, please log in" });
+  } catch (error) {
+    console.error("Reset password error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const verifyEmail = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { token }: VerifyEmailRequest = req.body;
+
+    const user = await confirmEmailAddress(token);
+    if (!user) {
+      res
+        .status(400)
+        .json({ error: "This verification link is invalid or has expired" });
+      return;
+    }
+
+    await cacheUtils.del(CACHE_KEYS.USER_PROFILE(user.id));
+
+    res.json({
+      message: "Email verified successfully",
+      user: user.toJSON(),
+    });
+  } catch (error) {
+    console.error("Verify email error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const resendVerificationEmail = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: "Authentication required" });
+      return;
+    }
+
+    const user = await User.findByPk(req.user.id);
+    if (!user) {
+      res.status(404).json({ error: "User not found" });
+      return;
+    }
+
+    if (user.isEmailVerified()) {
+      res.status(400).json({ error: "Email is already verified" });
+      return;
+    }
+
+    // Throttle resends so the endpoint can't be used to flood an inbox
+    const cooldownKey = CACHE_KEYS.EMAIL_VERIFICATION_COOLDOWN(user.id);
+    if (await cacheUtils.exists(cooldownKey)) {
+      res.status(429).json({
+        error: "A verification email was sent recently, please wait a minute",
+      });
+      return;
+    }
+
+    await sendVerificationEmail(user);
+    await cacheUtils.set(
+      cooldownKey,
+      true,
+      CACHE_EXPIRY.EMAIL_VERIFICATION_COOLDOWN
+    );
+
+    res.json({ message: "Verification email sent" });
+  } catch (error) {
+    console.error("Resend verification email error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
 export const getProfile = async (
   req: AuthenticatedRequest,
   res: Response
@@ -0,0 +1,156 @@
+import { Response } from "express";
+import { Op, col, fn, where } from "sequelize";
+import { AuthenticatedRequest, CategoryRequest } from "../types/index.js";
+import { Category, Event } from "../models/index.js";
+import { clearEventCaches } from "../utils/cache.js";
+import { recordAudit, snapshot } from "../services/auditService.js";
+
+export const getCategories = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const categories = await Category.findAll({ order: [["name", "ASC"]] });
+
+    res.json({ categories });
+  } catch (error) {
+    console.error("Get categories error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const createCategory = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { name, description }: CategoryRequest = req.body;
+
+    // Names are unique regardless of case
+    const existingCategory = await Category.findOne({
+      where: where(fn("LOWER", col("name")), name.toLowerCase()),
+    });
+    if (existingCategory) {
+      res
+        .status(409)
+        .json({ error: "A category with this name already exists" });
+      return;
+    }
+
+    const category = await Category.create({ name, description });
+
+    await recordAudit(req, {
+      action: "category.create",
+      entityType: "category",
+      entityId: category.id,
+      after: snapshot(category),
+    });
+
+    // Facets list every category
+    await clearEventCaches();
+
+    res.status(201).json({
+      message: "Category created successfully",
+      category,
+    });
+  } catch (error) {
+    console.error("Create category error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const updateCategory = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { name, description }: Partial<CategoryRequest> = req.body;
+
+    const category = await Category.findByPk(id);
+    if (!category) {
+      res.status(404).json({ error: "Category not found" });
+      return;
+    }
+
+    if (name !== undefined) {
+      const existingCategory = await Category.findOne({
+        where: {
+          [Op.and]: [
+            where(fn("LOWER", col("name")), name.toLowerCase()),
+            { id: { [Op.ne]: category.id } },
+          ],
+        },
+      });
+      if (existingCategory) {
+        res
+          .status(409)
+          .json({ error: "A category with this name already exists" });
+        return;
+      }
+    }
+
+    const updateData: Partial<CategoryRequest> = {};
+    if (name !== undefined) updateData.name = name;
+    if (description !== undefined) updateData.description = description;
+
+    const categoryBefore = snapshot(category);
+
+    await category.update(updateData);
+
+    await recordAudit(req, {
+      action: "category.update",
+      entityType: "category",
+      entityId: category.id,
+      before: categoryBefore,
+      after: snapshot(category),
+    });
+
+    await clearEventCaches();
+
+    res.json({
+      message: "Category updated successfully",
+      category,
+    });
+  } catch (error) {
+    console.error("Update category error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const deleteCategory = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const category = await Category.findByPk(id);
+    if (!category) {
+      res.status(404).json({ error: "Category not found" });
+      return;
+    }
+
+    // Events in the category, trashed ones included, become uncategorized
+    const eventCount = await Event.count({
+      where: { categoryId: category.id },
+      paranoid: false,
+    });
+
+    await category.destroy();
+
+    await recordAudit(req, {
+      action: "category.delete",
+      entityType: "category",
+      entityId: category.id,
+      before: { ...snapshot(category), eventCount },
+    });
+
+    await clearEventCaches();
+
+    res.json({ message: "Category deleted successfully" });
+  } catch (error) {
+    console.error("Delete category error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
@@ -3,53 +3,240 @@ import {
   AuthenticatedRequest,
   CreateEventRequest,
   UpdateEventRequest,
+  CancelEventRequest,
   EventFilters,
+  EventStatusRequest,
+  NotificationType,
+  ReservationStatus,
 } from "../types/index.js";
-import { Event, User, Reservation } from "../models/index.js";
-import { Op, literal } from "sequelize";
+import {
+  Event,
+  User,
+  Reservation,
+  TicketType,
+  Category,
+  Venue,
+} from "../models/index.js";
+import { Op, Transaction, col, fn, literal } from "sequelize";
+import sequelize from "../config/database.js";
 import { cacheUtils, CACHE_KEYS, CACHE_EXPIRY } from "../config/redis.js";
+import { promoteFromWaitlist } from "../services/waitlistService.js";
+import { clearEventCaches } from "../utils/cache.js";
+import { calculateSpotStatus } from "../utils/spotStatus.js";
+import {
+  checkEventSchedule,
+  checkRegistrationWindow,
+  getEventEnd,
+} from "../utils/eventSchedule.js";
+import { publishedEventsWhere } from "../utils/eventLifecycle.js";
+import {
+  checkAgendaFits,
+  shiftEventSessions,
+} from "../services/sessionService.js";
+import { broadcastEventAvailability } from "../services/realtimeService.js";
+import { notifyUsers } from "../services/notificationService.js";
+import { recordAudit, snapshot } from "../services/auditService.js";
+import { cancelEventBookings } from "../services/eventCancellationService.js";
+import {
+  buildSearchQuery,
+  eventSearchHeadline,
+  eventSearchMatch,
+  eventSearchRank,
+} from "../services/searchService.js";
+import {
+  checkEventVenue,
+  venueDistanceSql,
+  venueWithinSql,
+} from "../services/venueService.js";
+import {
+  describeInTimeZone,
+  fromZonedWallClock,
+  getZonedDayRange,
+  parseInTimeZone,
+  toZonedWallClock,
+} from "../utils/timeZone.js";
+import {
+  canManageEvent,
+  canViewEvent,
+  hasEventAccess,
+  managedEventsWhere,
+} from "../utils/eventAccess.js";
+
+// Users currently holding a place at the event
+const getReservationHolderIds = async (
+  eventId: number,
+  transaction?: Transaction
+): Promise<number[]> => {
+  const reservations = await Reservation.findAll({
+    attributes: ["userId"],
+    where: { eventId, status: ReservationStatus.CONFIRMED },
+    transaction,
+  });
+  return reservations.map((reservation) => reservation.userId);
+};
 
-// Helper function to calculate spot status
-const calculateSpotStatus = (event: any) => {
-  const now = new Date();
-  const eventDate = new Date(event.eventDate);
+// Most frequent tags returned as facets
+const MAX_TAG_FACETS = 30;
 
-  // Check if event is in the past
-  if (eventDate < now) {
-    return "past-event";
+const categoryInclude = {
+  model: Category,
+  as: "category",
+  attributes: ["id", "name"],
+};
+
+const venueInclude = {
+  model: Venue,
+  as: "venue",
+  attributes: [
+    "id",
+    "name",
+    "address",
+    "latitude",
+    "longitude",
+    "capacity",
+    "wheelchairAccessible",
+  ],
+};
+
+// Radius used for "near" searches that don't give one
+const DEFAULT_RADIUS_KM = 25;
+
+type EventListFilters = Omit<
+  EventFilters,
+  "sort" | "status" | "page" | "limit"
+>;
+
+// Where conditions for the list filters
+const buildEventFilterConditions = ({
+  q,
+  date,
+  timeZone,
+  name,
+  location,
+  categories,
+  tags,
+  near,
+  radiusKm = DEFAULT_RADIUS_KM,
+}: EventListFilters) => {
+  const whereConditions: any = {};
+  const andConditions: any[] = [];
+
+  const searchQuery = q && buildSearchQuery(q);
+  if (searchQuery) {
+    andConditions.push(eventSearchMatch(searchQuery));
   }
 
-  // Check if fully booked
-  if (event.availableSpots === 0) {
-    return "fully-booked";
+  // Venue conditions are subqueries so they work without joining venues
+  if (near) {
+    andConditions.push(
+      literal(
+        `"Event"."venueId" IN (SELECT venues.id FROM venues WHERE ${venueWithinSql(
+          "venues",
+          near,
+          radiusKm
+        )})`
+      )
+    );
   }
 
-  // Check if limited spots (5 or fewer)
-  if (event.availableSpots <= 5) {
-    return "limited";
+  // Events running at any point of the day match, so a conference shows
+  // up on each of its days. The day is read in the requested zone, or else
+  // in each event's own zone so an evening event in Tokyo is listed on its
+  // Tokyo date.
+  if (date && timeZone) {
+    const { start, end } = getZonedDayRange(date, timeZone);
+    whereConditions.eventDate = { [Op.lt]: end };
+    whereConditions.endDate = { [Op.gt]: start };
+  } else if (date) {
+    const day = `${sequelize.escape(date)}::date`;
+    andConditions.push(
+      literal(
+        `("Event"."eventDate" AT TIME ZONE "Event"."timeZone") < ${day} + 1`
+      ),
+      literal(`("Event"."endDate" AT TIME ZONE "Event"."timeZone") > ${day}`)
+    );
   }
 
-  // Otherwise available
-  return "available";
-};
+  if (name) {
+    whereConditions.name = { [Op.iLike]: `%${name}%` };
+  }
 
-// Helper function to clear all event-related caches
-const clearEventCaches = async (eventId: number) => {
-  try {
-    // Clear popular events cache
-    await cacheUtils.del(CACHE_KEYS.POPULAR_EVENTS);
+  // Matches the free-text location as well as the venue name and address
+  if (location) {
+    const pattern = sequelize.escape(`%${location}%`);
+    andConditions.push({
+      [Op.or]: [
+        { location: { [Op.iLike]: `%${location}%` } },
+        literal(
+          `"Event"."venueId" IN (SELECT venues.id FROM venues WHERE venues.name ILIKE ${pattern} OR venues.address ILIKE ${pattern})`
+        ),
+      ],
+    });
+  }
 
-    // Clear specific event details cache
-    await cacheUtils.del(CACHE_KEYS.EVENT_DETAILS(eventId));
+  if (categories && categories.length > 0) {
+    whereConditions.categoryId = { [Op.in]: categories };
+  }
 
-    // Clear all event list caches using pattern matching
-    // This will clear all cache keys that start with "events:page:" regardless of filters
-    await cacheUtils.delPattern("events:page:*");
+  if (tags && tags.length > 0) {
+    whereConditions.tags = { [Op.overlap]: tags };
+  }
 
-    console.log(`🗑️ Cleared event caches for event ${eventId}`);
-  } catch (error) {
-    console.error("Error clearing event caches:", error);
+  if (andConditions.length > 0) {
+    whereConditions[Op.and] = andConditions;
   }
+
+  return whereConditions;
+};
+
+// Public listings only show published events
+const buildPublicEventConditions = (filters: EventListFilters) => ({
+  [Op.and]: [buildEventFilterConditions(filters), publishedEventsWhere()],
+});
+
+// Event counts per category and tag for the current filters. Each facet
+// leaves out its own filter, so picking a category still shows how many
+// events the other categories have.
+const getEventFacets = async (filters: EventListFilters) => {
+  const [categories, categoryCounts, taggedEvents] = await Promise.all([
+    Category.findAll({ attributes: ["id", "name"], order: [["name", "ASC"]] }),
+    Event.findAll({
+      attributes: ["categoryId", [fn("COUNT", col("id")), "count"]],
+      where: buildPublicEventConditions({ ...filters, categories: undefined }),
+      group: ["categoryId"],
+      raw: true,
+    }) as unknown as Promise<{ categoryId: number | null; count: string }[]>,
+    Event.findAll({
+      attributes: ["tags"],
+      where: buildPublicEventConditions({ ...filters, tags: undefined }),
+      raw: true,
+    }),
+  ]);
+
+  const countByCategory = new Map(
+    categoryCounts.map((row) => [row.categoryId, Number(row.count)])
+  );
+
+  const countByTag = new Map<string, number>();
+  taggedEvents.forEach((event) =>
+    event.tags.forEach((tag) =>
+      countByTag.set(tag, (countByTag.get(tag) || 0) + 1)
+    )
+  );
+
+  return {
+    categories: categories.map((category) => ({
+      id: category.id,
+      name: category.name,
+      count: countByCategory.get(category.id) || 0,
+    })),
+    tags: [...countByTag]
+      .sort(([tagA, countA], [tagB, countB]) =>
+        countB !== countA ? countB - countA : tagA.localeCompare(tagB)
+      )
+      .slice(0, MAX_TAG_FACETS)
+      .map(([tag, count]) => ({ tag, count })),
+  };
 };
 
 export const getAllEvents = async (
@@ -58,19 +245,34 @@ export const getAllEvents = async (
 ): Promise<void> => {
   try {
     const {
+      q,
       date,
+      timeZone,
       name,
       location,
+      categories,
+      tags,
+      near,
+      radiusKm = DEFAULT_RADIUS_KM,
+      // Radius searches list the closest events first unless asked otherwise
+      sort = near ? "distance" : "date",
       page = 1,
       limit = 10,
     }: EventFilters = req.query;
     const offset = (Number(page) - 1) * Number(limit);
+    const searchQuery = q ? buildSearchQuery(q) : null;
+    const distance = near && literal(venueDistanceSql('"venue"', near));
 
     // Generate cache key based on query parameters
     const cacheKey =
       CACHE_KEYS.EVENT_LIST(Number(page), Number(limit)) +
-      `:date:${date || "all"}:name:${name || "all"}:location:${
-        location || "all"
+      `:q:${searchQuery || "all"}:sort:${sort}` +
+      `:date:${date || "all"}:tz:${timeZone || "event"}:name:${
+        name || "all"
+      }:location:${location || "all"}:categories:${
+        categories?.length ? [...categories].sort((a, b) => a - b) : "all"
+      }:tags:${tags?.length ? [...tags].sort() : "all"}:near:${
+        near ? `${near.latitude},${near.longitude},${radiusKm}` : "all"
       }`;
 
     // Try to get from cache first
@@ -82,41 +284,57 @@ export const getAllEvents = async (
     }
 
     // Build where conditions
-    const whereConditions: any = {};
-
-    if (date) {
-      // Parse the date and set it to the start of the day in local timezone
-      // This ensures we get all events for the specified date regardless of timezone
-      const searchDate = new Date(date + "T00:00:00");
-      const nextDay = new Date(date + "T00:00:00");
-      nextDay.setDate(nextDay.getDate() + 1);
-
-      whereConditions.eventDate = {
-        [Op.gte]: searchDate,
-        [Op.lt]: nextDay,
-      };
+    const filters = {
+      q,
+      date,
+      timeZone,
+      name,
+      location,
+      categories,
+      tags,
+      near,
+      radiusKm,
+    };
+    const whereConditions = buildPublicEventConditions(filters);
+
+    // Matches come with their rank and highlighted name and description,
+    // radius searches with the distance to the venue
+    const extraAttributes: any[] = [];
+    if (searchQuery) {
+      extraAttributes.push(
+        [eventSearchRank(searchQuery), "searchRank"],
+        [eventSearchHeadline(searchQuery, "name"), "nameHighlight"],
+        [eventSearchHeadline(searchQuery, "description"), "descriptionSnippet"]
+      );
     }
-
-    if (name) {
-      whereConditions.name = { [Op.iLike]: `%${name}%` };
+    if (distance) {
+      extraAttributes.push([distance, "distanceKm"]);
     }
 
-    if (location) {
-      whereConditions.location = { [Op.iLike]: `%${location}%` };
+    let order: any[] = [["eventDate", "ASC"]];
+    if (sort === "relevance" && searchQuery) {
+      order = [[eventSearchRank(searchQuery), "DESC"], ...order];
+    } else if (sort === "distance" && distance) {
+      order = [[distance, "ASC"], ...order];
     }
 
     const { count, rows: events } = await Event.findAndCountAll({
       where: whereConditions,
+      ...(extraAttributes.length > 0 && {
+        attributes: { include: extraAttributes },
+      }),
       include: [
         {
           model: User,
           as: "creator",
           attributes: ["id", "email", "firstName", "lastName"],
         },
+        categoryInclude,
+        venueInclude,
       ],
       limit: Number(limit),
       offset,
-      order: [["eventDate", "ASC"]],
+      order,
     });
 
     // Add spot status to each event
@@ -133,6 +351,7 @@ export const getAllEvents = async (
         limit: Number(limit),
         totalPages: Math.ceil(count / Number(limit)),
       },
+      facets: await getEventFacets(filters),
     };
 
     // Cache the result
@@ -145,6 +364,85 @@ export const getAllEvents = async (
   }
 };
 
+// Events the current user can manage: all of them for admins, their own
+// for organizers. Not cached since the result depends on the user. Counts
+// per status leave out the status filter so every tab shows its total.
+export const getManagedEvents = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const {
+      q,
+      date,
+      timeZone,
+      name,
+      location,
+      categories,
+      tags,
+      status,
+      page = 1,
+      limit = 10,
+    }: EventFilters = req.query;
+    const offset = (Number(page) - 1) * Number(limit);
+
+    const whereConditions = {
+      ...buildEventFilterConditions({
+        q,
+        date,
+        timeZone,
+        name,
+        location,
+        categories,
+        tags,
+      }),
+      ...(await managedEventsWhere(req.user)),
+    };
+
+    const statusCounts = (await Event.findAll({
+      attributes: ["status", [fn("COUNT", col("id")), "count"]],
+      where: whereConditions,
+      group: ["status"],
+      raw: true,
+    })) as unknown as { status: string; count: string }[];
+
+    const { count, rows: events } = await Event.findAndCountAll({
+      where: { ...whereConditions, ...(status && { status }) },
+      include: [
+        {
+          model: User,
+          as: "creator",
+          attributes: ["id", "email", "firstName", "lastName"],
+        },
+        categoryInclude,
+        venueInclude,
+      ],
+      limit: Number(limit),
+      offset,
+      order: [["eventDate", "ASC"]],
+    });
+
+    res.json({
+      events: events.map((event) => ({
+        ...event.toJSON(),
+        spotStatus: calculateSpotStatus(event),
+      })),
+      pagination: {
+        total: count,
+        page: Number(page),
+        limit: Number(limit),
+        totalPages: Math.ceil(count / Number(limit)),
+      },
+      statusCounts: Object.fromEntries(
+        statusCounts.map((row) => [row.status, Number(row.count)])
+      ),
+    });
+  } catch (error) {
+    console.error("Get managed events error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
 export const getEventById = async (
   req: AuthenticatedRequest,
   res: Response
@@ -156,6 +454,10 @@ export const getEventById = async (
     // Try to get from cache first
     const cachedEvent = await cacheUtils.get(cacheKey);
     if (cachedEvent) {
+      if (!(await canViewEvent(req.user, cachedEvent.event))) {
+        res.status(404).json({ error: "Event not found" });
+        return;
+      }
       console.log(`📦 Cache hit for event: ${id}`);
       res.json(cachedEvent);
       return;
@@ -168,17 +470,32 @@ export const getEventById = async (
           as: "creator",
           attributes: ["id", "email", "firstName", "lastName"],
         },
+        categoryInclude,
+        venueInclude,
       ],
     });
 
-    if (!event) {
+    if (!event || !(await canViewEvent(req.user, event))) {
       res.status(404).json({ error: "Event not found" });
       return;
     }
 
+    // Availability per ticket tier, cheapest first
+    const ticketTypes = await TicketType.findAll({
+      where: { eventId: event.id },
+      order: [
+        ["price", "ASC"],
+        ["id", "ASC"],
+      ],
+    });
+
     const eventWithStatus = {
       ...event.toJSON(),
       spotStatus: calculateSpotStatus(event),
+      ticketTypes: ticketTypes.map((ticketType) => ({
+        ...ticketType.toJSON(),
+        salesStatus: ticketType.getSalesStatus(),
+      })),
     };
 
     const result = { event: eventWithStatus };
@@ -221,6 +538,8 @@ export const getPopularEvents = async (
         eventDate: {
           [Op.gte]: new Date(), // Upcoming events
         },
+        canceledAt: null,
+        ...publishedEventsWhere(),
       },
       order: [
         // Order by reservation percentage (descending) - higher percentage = more popular
@@ -271,22 +590,96 @@ export const createEvent = async (
       name,
       description,
       eventDate,
+      endDate,
+      durationMinutes,
+      timeZone,
       location,
       onlineLink,
       maxCapacity,
+      maxPerBooking,
+      categoryId,
+      tags,
+      venueId,
+      status = "draft",
+      publishAt,
+      registrationOpensAt,
+      registrationClosesAt,
     }: CreateEventRequest = req.body;
 
+    const startsAt = new Date(eventDate);
+    const endsAt = getEventEnd(startsAt, {
+      endDate: endDate ? new Date(endDate) : undefined,
+      durationMinutes,
+    });
+    const scheduleError =
+      checkEventSchedule(startsAt, endsAt) ||
+      checkRegistrationWindow(
+        startsAt,
+        registrationOpensAt ? new Date(registrationOpensAt) : null,
+        registrationClosesAt ? new Date(registrationClosesAt) : null
+      );
+    if (scheduleError) {
+      res.status(400).json({ error: scheduleError });
+      return;
+    }
+
+    if (maxPerBooking && maxPerBooking > maxCapacity) {
+      res
+        .status(400)
+        .json({ error: "Max per booking cannot exceed the event capacity" });
+      return;
+    }
+
+    if (categoryId && !(await Category.findByPk(categoryId))) {
+      res.status(400).json({ error: "Category not found" });
+      return;
+    }
+
+    if (venueId) {
+      const venueError = await checkEventVenue(venueId, maxCapacity);
+      if (venueError) {
+        res.status(400).json({ error: venueError });
+        return;
+      }
+    }
+
     const event = await Event.create({
       name,
       description,
-      eventDate: new Date(eventDate),
+      eventDate: startsAt,
+      endDate: endsAt,
+      timeZone,
       location,
       onlineLink,
       maxCapacity,
       availableSpots: maxCapacity,
+      maxPerBooking,
+      categoryId,
+      tags: [...new Set(tags)],
+      venueId,
+      // A publish time schedules the event; publishing now records when
+      status: publishAt ? "scheduled" : status,
+      publishAt: publishAt
+        ? new Date(publishAt)
+        : status === "published"
+        ? new Date()
+        : null,
+      registrationOpensAt: registrationOpensAt
+        ? new Date(registrationOpensAt)
+        : null,
+      registrationClosesAt: registrationClosesAt
+        ? new Date(registrationClosesAt)
+        : null,
       creatorId: req.user.id,
     });
 
+    await recordAudit(req, {
+      action: "event.create",
+      entityType: "event",
+      entityId: event.id,
+      after: snapshot(event),
+    });
+
     // Load the event with creator info
     const createdEvent = await Event.findByPk(event.id, {
       include: [
@@ -295,6 +688,8 @@ export const createEvent = async (
           as: "creator",
           attributes: ["id", "email", "firstName", "lastName"],
         },
+        categoryInclude,
+        venueInclude,
       ],
     });
 
@@ -311,57 +706,400 @@ export const createEvent = async (
   }
 };
 
+// Apply an edit to a single event inside the caller's transaction. Returns
+// an error message when the edit doesn't fit this event, otherwise how many
+// waitlisted users a capacity increase promoted.
+const applyEventUpdate = async (
+  req: AuthenticatedRequest,
+  event: Event,
+  changes: Omit<
+    UpdateEventRequest,
+    | "eventDate"
+    | "endDate"
+    | "durationMinutes"
+    | "registrationOpensAt"
+    | "registrationClosesAt"
+    | "scope"
+  > & {
+    eventDate?: Date;
+    endDate?: Date;
+    registrationOpensAt?: Date | null;
+    registrationClosesAt?: Date | null;
+  },
+  transaction: Transaction
+): Promise<{ error?: string; promotedReservations: number }> => {
+  const {
+    name,
+    description,
+    eventDate,
+    endDate,
+    timeZone,
+    location,
+    onlineLink,
+    maxCapacity,
+    maxPerBooking,
+    categoryId,
+    tags,
+    venueId,
+    registrationOpensAt,
+    registrationClosesAt,
+  } = changes;
+
+  // Build update data
+  const updateData: any = {};
+  if (name) updateData.name = name;
+  if (description !== undefined) updateData.description = description;
+  if (eventDate) updateData.eventDate = eventDate;
+  if (endDate) updateData.endDate = endDate;
+  if (timeZone) updateData.timeZone = timeZone;
+  if (location !== undefined) updateData.location = location;
+  if (onlineLink !== undefined) updateData.onlineLink = onlineLink;
+  if (maxPerBooking) updateData.maxPerBooking = maxPerBooking;
+  if (categoryId !== undefined) updateData.categoryId = categoryId;
+  if (tags !== undefined) updateData.tags = [...new Set(tags)];
+  if (venueId !== undefined) updateData.venueId = venueId;
+  if (registrationOpensAt !== undefined)
+    updateData.registrationOpensAt = registrationOpensAt;
+  if (registrationClosesAt !== undefined)
+    updateData.registrationClosesAt = registrationClosesAt;
+
+  // Shifting a series can move later occurrences, so check every date
+  if (eventDate && eventDate <= new Date()) {
+    return {
+      error: "Event date must be in the future",
+      promotedReservations: 0,
+    };
+  }
+
+  if (eventDate || endDate) {
+    const scheduleError =
+      checkEventSchedule(
+        eventDate ?? event.eventDate,
+        endDate ?? event.endDate
+      ) ||
+      (await checkAgendaFits(
+        event,
+        eventDate ?? event.eventDate,
+        endDate ?? event.endDate,
+        transaction
+      ));
+    if (scheduleError) {
+      return { error: scheduleError, promotedReservations: 0 };
+    }
+  }
+
+  // A moved event can leave its registration window behind, so check that
+  // too whenever either of them changes
+  const windowError = checkRegistrationWindow(
+    eventDate ?? event.eventDate,
+    registrationOpensAt !== undefined
+      ? registrationOpensAt
+      : event.registrationOpensAt,
+    registrationClosesAt !== undefined
+      ? registrationClosesAt
+      : event.registrationClosesAt
+  );
+  if (
+    windowError &&
+    (eventDate ||
+      registrationOpensAt !== undefined ||
+      registrationClosesAt !== undefined)
+  ) {
+    return { error: windowError, promotedReservations: 0 };
+  }
+
+  if (
+    (maxPerBooking ?? event.maxPerBooking) > (maxCapacity ?? event.maxCapacity)
+  ) {
+    return {
+      error: "Max per booking cannot exceed the event capacity",
+      promotedReservations: 0,
+    };
+  }
+
+  // The event has to fit its venue, whichever of the two changed
+  const effectiveVenueId = venueId !== undefined ? venueId : event.venueId;
+  if (effectiveVenueId && (venueId || maxCapacity)) {
+    const venueError = await checkEventVenue(
+      effectiveVenueId,
+      maxCapacity ?? event.maxCapacity,
+      transaction
+    );
+    if (venueError) {
+      return { error: venueError, promotedReservations: 0 };
+    }
+  }
+
+  // Handle maxCapacity change
+  if (maxCapacity && maxCapacity !== event.maxCapacity) {
+    const reservedSpots = event.maxCapacity - event.availableSpots;
+
+    if (maxCapacity < reservedSpots) {
+      return {
+        error: `Cannot reduce capacity below ${reservedSpots} (current reservations)`,
+        promotedReservations: 0,
+      };
+    }
+
+    // Ticket tiers are carved out of the event capacity
+    const allocatedToTiers =
+      Number(
+        await TicketType.sum("capacity", {
+          where: { eventId: event.id },
+          transaction,
+        })
+      ) || 0;
+
+    if (maxCapacity < allocatedToTiers) {
+      return {
+        error: `Cannot reduce capacity below ${allocatedToTiers} (allocated to ticket types)`,
+        promotedReservations: 0,
+      };
+    }
+
+    updateData.maxCapacity = maxCapacity;
+    updateData.availableSpots = maxCapacity - reservedSpots;
+  }
+
+  // Compare before updating so attendees only hear about real changes
+  const previousDate = event.eventDate;
+  const previousEndDate = event.endDate;
+  const previousLocation = event.location;
+  const eventBefore = snapshot(event);
+
+  await event.update(updateData, { transaction });
+
+  // The agenda moves along with the event
+  if (eventDate && eventDate.getTime() !== new Date(previousDate).getTime()) {
+    await shiftEventSessions(
+      event.id,
+      eventDate.getTime() - new Date(previousDate).getTime(),
+      transaction
+    );
+  }
+
+  await recordAudit(
+    req,
+    {
+      action: "event.update",
+      entityType: "event",
+      entityId: event.id,
+      before: eventBefore,
+      after: snapshot(event),
+    },
+    transaction
+  );
+
+  const changeDescriptions: string[] = [];
+  if (
+    updateData.eventDate &&
+    updateData.eventDate.getTime() !== new Date(previousDate).getTime()
+  ) {
+    changeDescriptions.push(
+      `the date is now ${describeInTimeZone(event.eventDate, event.timeZone)}`
+    );
+  }
+  if (
+    updateData.endDate &&
+    updateData.endDate.getTime() !== new Date(previousEndDate).getTime()
+  ) {
+    changeDescriptions.push(
+      `it now ends ${describeInTimeZone(event.endDate, event.timeZone)}`
+    );
+  }
+  if (
+    updateData.location !== undefined &&
+    (updateData.location || null) !== (previousLocation || null)
+  ) {
+    changeDescriptions.push(
+      updateData.location
+        ? `the location is now ${updateData.location}`
+        : "it is now online only"
+    );
+  }
+
+  if (changeDescriptions.length > 0) {
+    await notifyUsers(
+      await getReservationHolderIds(event.id, transaction),
+      {
+        type: NotificationType.EVENT_UPDATED,
+        title: "Event updated",
+        message: `"${event.name}" has changed: ${changeDescriptions.join(
+          " and "
+        )}.`,
+        eventId: event.id,
+      },
+      transaction
+    );
+  }
+
+  // Raising the capacity frees spots for users on the waitlist
+  let promotedReservations = 0;
+  if (updateData.maxCapacity !== undefined) {
+    const promoted = await promoteFromWaitlist(event.id, transaction);
+    promotedReservations = promoted.length;
+  }
+
+  return { promotedReservations };
+};
+
 export const updateEvent = async (
   req: AuthenticatedRequest,
   res: Response
 ): Promise<void> => {
+  const transaction = await sequelize.transaction();
+
   try {
     const { id } = req.params;
     const {
-      name,
-      description,
+      scope = "this",
       eventDate,
-      location,
-      onlineLink,
-      maxCapacity,
+      endDate,
+      durationMinutes,
+      registrationOpensAt,
+      registrationClosesAt,
+      ...changes
     }: UpdateEventRequest = req.body;
 
-    const event = await Event.findByPk(id);
+    const event = await Event.findByPk(id, { transaction });
     if (!event) {
+      await transaction.rollback();
       res.status(404).json({ error: "Event not found" });
       return;
     }
 
-    // Check if user is the creator or admin
-    if (req.user?.role !== "admin" && req.user?.id !== event.creatorId) {
-      res.status(403).json({ error: "You can only update your own events" });
+    // Owners, admins and co-organizers may edit the event
+    if (!(await hasEventAccess(req.user, event, "edit"))) {
+      await transaction.rollback();
+      res
+        .status(403)
+        .json({ error: "You don't have permission to update this event" });
+      return;
+    }
+
+    if (changes.categoryId && !(await Category.findByPk(changes.categoryId))) {
+      await transaction.rollback();
+      res.status(400).json({ error: "Category not found" });
+      return;
+    }
+
+    // Series edits can reach later occurrences, or every upcoming one
+    let targets = [event];
+    if (scope !== "this" && event.seriesId) {
+      targets = await Event.findAll({
+        where: {
+          seriesId: event.seriesId,
+          canceledAt: null,
+          eventDate: {
+            [Op.gte]: scope === "following" ? event.eventDate : new Date(),
+          },
+        },
+        order: [["eventDate", "ASC"]],
+        transaction,
+      });
+      if (!targets.some((target) => target.id === event.id)) {
+        targets.unshift(event);
+      }
+    }
+
+    // Registration windows are fixed times, which can't carry over to
+    // occurrences on other dates
+    if (
+      targets.length > 1 &&
+      (registrationOpensAt !== undefined || registrationClosesAt !== undefined)
+    ) {
+      await transaction.rollback();
+      res.status(400).json({
+        error: "Registration windows can only be set one occurrence at a time",
+      });
       return;
     }
 
-    // Build update data
-    const updateData: any = {};
-    if (name) updateData.name = name;
-    if (description !== undefined) updateData.description = description;
-    if (eventDate) updateData.eventDate = new Date(eventDate);
-    if (location !== undefined) updateData.location = location;
-    if (onlineLink !== undefined) updateData.onlineLink = onlineLink;
+    // Moving one occurrence moves the others in scope by the same amount
+    // of wall-clock time, so a weekly 7 pm event stays at 7 pm across
+    // daylight saving changes. Dates without an offset are read in the
+    // event's new zone when the update changes it.
+    const anchorZone = changes.timeZone || event.timeZone;
+    const dateShift = eventDate
+      ? toZonedWallClock(parseInTimeZone(eventDate, anchorZone), anchorZone) -
+        toZonedWallClock(event.eventDate, event.timeZone)
+      : 0;
+
+    // A new end time or duration sets the length of every event in scope;
+    // otherwise events keep their own length when their start moves
+    const length = endDate
+      ? parseInTimeZone(endDate, anchorZone).getTime() -
+        (eventDate
+          ? parseInTimeZone(eventDate, anchorZone)
+          : event.eventDate
+        ).getTime()
+      : durationMinutes
+      ? durationMinutes * 60 * 1000
+      : undefined;
+
+    const parseWindowTime = (value?: string | null) =>
+      value === undefined || value === null
+        ? value
+        : parseInTimeZone(value, anchorZone);
+
+    let promotedReservations = 0;
+    for (const target of targets) {
+      if (
+        target.id !== event.id &&
+        !(await hasEventAccess(req.user, target, "edit"))
+      ) {
+        await transaction.rollback();
+        res.status(403).json({
+          error: "You don't have permission to update every occurrence",
+        });
+        return;
+      }
 
-    // Handle maxCapacity change
-    if (maxCapacity && maxCapacity !== event.maxCapacity) {
-      const reservedSpots = event.maxCapacity - event.availableSpots;
+      const startsAt = eventDate
+        ? fromZonedWallClock(
+            toZonedWallClock(target.eventDate, target.timeZone) + dateShift,
+            changes.timeZone || target.timeZone
+          )
+        : undefined;
+      const targetLength =
+        length ?? target.endDate.getTime() - target.eventDate.getTime();
+
+      const result = await applyEventUpdate(
+        req,
+        target,
+        {
+          ...changes,
+          registrationOpensAt: parseWindowTime(registrationOpensAt),
+          registrationClosesAt: parseWindowTime(registrationClosesAt),
+          eventDate: startsAt,
+          endDate:
+            startsAt || length !== undefined
+              ? new Date(
+                  (startsAt ?? target.eventDate).getTime() + targetLength
+                )
+              : undefined,
+        },
+        transaction
+      );
 
-      if (maxCapacity < reservedSpots) {
+      if (result.error) {
+        await transaction.rollback();
         res.status(400).json({
-          error: `Cannot reduce capacity below ${reservedSpots} (current reservations)`,
+          error:
+            targets.length > 1
+              ? `${result.error} (occurrence on ${describeInTimeZone(
+                  target.eventDate,
+                  target.timeZone
+                )})`
+              : result.error,
         });
         return;
       }
 
-      updateData.maxCapacity = maxCapacity;
-      updateData.availableSpots = maxCapacity - reservedSpots;
+      promotedReservations += result.promotedReservations;
     }
 
-    await event.update(updateData);
+    await transaction.commit();
 
     // Load updated event with creator info
     const updatedEvent = await Event.findByPk(event.id, {
@@ -371,17 +1109,27 @@ export const updateEvent = async (
           as: "creator",
           attributes: ["id", "email", "firstName", "lastName"],
         },
+        categoryInclude,
+        venueInclude,
       ],
     });
 
-    // Invalidate related caches
-    await clearEventCaches(event.id);
+    for (const target of targets) {
+      // Invalidate related caches
+      await clearEventCaches(target.id);
+
+      // Push the new availability to clients watching this event
+      await broadcastEventAvailability(target.id);
+    }
 
     res.json({
       message: "Event updated successfully",
       event: updatedEvent,
+      updatedOccurrences: targets.length,
+      promotedReservations,
     });
   } catch (error) {
+    await transaction.rollback();
     console.error("Update event error:", error);
     res.status(500).json({ error: "Internal server error" });
   }
@@ -391,33 +1139,339 @@ export const deleteEvent = async (
   req: AuthenticatedRequest,
   res: Response
 ): Promise<void> => {
+  const transaction = await sequelize.transaction();
+
   try {
     const { id } = req.params;
 
-    const event = await Event.findByPk(id);
+    const event = await Event.findByPk(id, { transaction });
     if (!event) {
+      await transaction.rollback();
       res.status(404).json({ error: "Event not found" });
       return;
     }
 
-    // Check if user is the creator or admin
-    if (req.user?.role !== "admin" && req.user?.id !== event.creatorId) {
+    // Organizers may only manage their own events
+    if (!(await canManageEvent(req.user, event))) {
+      await transaction.rollback();
       res.status(403).json({ error: "You can only delete your own events" });
       return;
     }
 
-    await event.destroy();
+    // Tell everyone holding a reservation before the event goes away
+    await notifyUsers(
+      await getReservationHolderIds(event.id, transaction),
+      {
+        type: NotificationType.EVENT_DELETED,
+        title: "Event canceled",
+        message: `"${event.name}" has been removed and your reservation no longer applies.`,
+      },
+      transaction
+    );
+
+    await cancelEventBookings(event.id, transaction);
+
+    // Soft delete; the event stays restorable until the trash is purged
+    await event.destroy({ transaction });
+
+    await recordAudit(
+      req,
+      {
+        action: "event.delete",
+        entityType: "event",
+        entityId: event.id,
+        before: snapshot(event),
+      },
+      transaction
+    );
+
+    await transaction.commit();
 
     // Invalidate related caches
     await clearEventCaches(event.id);
 
     res.json({ message: "Event deleted successfully" });
   } catch (error) {
+    await transaction.rollback();
     console.error("Delete event error:", error);
     res.status(500).json({ error: "Internal server error" });
   }
 };
 
+export const cancelEvent = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  const transaction = await sequelize.transaction();
+
+  try {
+    const { id } = req.params;
+    const { reason }: CancelEventRequest = req.body;
+
+    const event = await Event.findByPk(id, {
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+    if (!event) {
+      await transaction.rollback();
+      res.status(404).json({ error: "Event not found" });
+      return;
+    }
+
+    // Organizers may only manage their own events
+    if (!(await canManageEvent(req.user, event))) {
+      await transaction.rollback();
+      res.status(403).json({ error: "You can only cancel your own events" });
+      return;
+    }
+
+    if (event.isCanceled()) {
+      await transaction.rollback();
+      res.status(400).json({ error: "Event is already canceled" });
+      return;
+    }
+
+    if (event.eventDate <= new Date()) {
+      await transaction.rollback();
+      res.status(400).json({ error: "Past events cannot be canceled" });
+      return;
+    }
+
+    const eventBefore = snapshot(event);
+
+    const { canceledReservations, affectedUserIds } = await cancelEventBookings(
+      event.id,
+      transaction
+    );
+
+    // Pick up the seats handed back before saving the cancellation
+    await event.reload({ transaction });
+    await event.update(
+      { canceledAt: new Date(), cancellationReason: reason },
+      { transaction }
+    );
+
+    await notifyUsers(
+      affectedUserIds,
+      {
+        type: NotificationType.EVENT_CANCELED,
+        title: "Event canceled",
+        message: `"${event.name}" has been canceled: ${reason}`,
+        eventId: event.id,
+      },
+      transaction
+    );
+
+    await recordAudit(
+      req,
+      {
+        action: "event.cancel",
+        entityType: "event",
+        entityId: event.id,
+        before: eventBefore,
+        after: snapshot(event),
+      },
+      transaction
+    );
+
+    await transaction.commit();
+
+    // Invalidate related caches
+    await clearEventCaches(event.id);
+
+    // Push the cancelled status to clients watching this event
+    await broadcastEventAvailability(event.id);
+
+    res.json({
+      message: "Event canceled successfully",
+      event: {
+        ...event.toJSON(),
+        spotStatus: calculateSpotStatus(event),
+      },
+      canceledReservations,
+    });
+  } catch (error) {
+    await transaction.rollback();
+    console.error("Cancel event error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// Move an event through its lifecycle. Events people have booked can be
+// closed but not taken back out of public view.
+export const updateEventStatus = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { status, publishAt }: EventStatusRequest = req.body;
+
+    const event = await Event.findByPk(id);
+    if (!event) {
+      res.status(404).json({ error: "Event not found" });
+      return;
+    }
+
+    if (!(await hasEventAccess(req.user, event, "edit"))) {
+      res
+        .status(403)
+        .json({ error: "You don't have permission to update this event" });
+      return;
+    }
+
+    if (event.isCanceled()) {
+      res
+        .status(400)
+        .json({ error: "Canceled events can't change their status" });
+      return;
+    }
+
+    const now = new Date();
+    const updateData: { status: typeof status; publishAt?: Date | null } = {
+      status,
+    };
+
+    // Validation makes sure scheduling comes with a publish time
+    if (status === "scheduled" && publishAt) {
+      updateData.publishAt = parseInTimeZone(publishAt, event.timeZone);
+      if (updateData.publishAt <= now) {
+        res.status(400).json({ error: "Publish time must be in the future" });
+        return;
+      }
+    } else if (status === "published" && !event.isPublished(now)) {
+      updateData.publishAt = now;
+    } else if (status === "draft") {
+      updateData.publishAt = null;
+    }
+
+    if (
+      (status === "draft" || status === "scheduled") &&
+      (await Reservation.count({
+        where: {
+          eventId: event.id,
+          status: {
+            [Op.in]: [
+              ReservationStatus.CONFIRMED,
+              ReservationStatus.CHECKED_IN,
+            ],
+          },
+        },
+      })) > 0
+    ) {
+      res.status(409).json({
+        error:
+          "This event has reservations and can't be unpublished; close it instead",
+      });
+      return;
+    }
+
+    const eventBefore = snapshot(event);
+
+    await event.update(updateData);
+
+    await recordAudit(req, {
+      action: "event.status",
+      entityType: "event",
+      entityId: event.id,
+      before: eventBefore,
+      after: snapshot(event),
+    });
+
+    await clearEventCaches(event.id);
+
+    // Closing stops bookings for clients watching the event
+    await broadcastEventAvailability(event.id);
+
+    res.json({
+      message: "Event status updated successfully",
+      event: {
+        ...event.toJSON(),
+        spotStatus: calculateSpotStatus(event),
+      },
+    });
+  } catch (error) {
+    console.error("Update event status error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const getDeletedEvents = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { name, page = 1, limit = 10 }: EventFilters = req.query;
+    const offset = (Number(page) - 1) * Number(limit);
+
+    const { count, rows: events } = await Event.findAndCountAll({
+      where: {
+        ...buildEventFilterConditions({ name }),
+        deletedAt: { [Op.ne]: null },
+      },
+      include: [
+        {
+          model: User,
+          as: "creator",
+          attributes: ["id", "email", "firstName", "lastName"],
+          paranoid: false,
+        },
+      ],
+      paranoid: false,
+      limit: Number(limit),
+      offset,
+      order: [["deletedAt", "DESC"]],
+    });
+
+    res.json({
+      events,
+      pagination: {
+        total: count,
+        page: Number(page),
+        limit: Number(limit),
+        totalPages: Math.ceil(count / Number(limit)),
+      },
+    });
+  } catch (error) {
+    console.error("Get deleted events error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const restoreEvent = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const event = await Event.findByPk(id, { paranoid: false });
+    if (!event || !event.deletedAt) {
+      res.status(404).json({ error: "Deleted event not found" });
+      return;
+    }
+
+    await event.restore();
+
+    await recordAudit(req, {
+      action: "event.restore",
+      entityType: "event",
+      entityId: event.id,
+      after: snapshot(event),
+    });
+
+    await clearEventCaches(event.id);
+
+    res.json({
+      message: "Event restored successfully",
+      event,
+    });
+  } catch (error) {
+    console.error("Restore event error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
 export const getAllReservations = async (
   req: AuthenticatedRequest,
   res: Response
@@ -429,7 +1483,10 @@ export const getAllReservations = async (
     const whereConditions: any = {};
 
     // Filter by status if provided
-    if (status && (status === "confirmed" || status === "canceled")) {
+    if (
+      status &&
+      Object.values(ReservationStatus).includes(status as ReservationStatus)
+    ) {
       whereConditions.status = status;
     }
 
@@ -459,6 +1516,8 @@ export const getAllReservations = async (
             "name",
             "description",
             "eventDate",
+            "endDate",
+            "timeZone",
             "location",
             "onlineLink",
             "maxCapacity",
@@ -498,22 +1557,38 @@ export const getDashboardStats = async (
   res: Response
 ): Promise<void> => {
   try {
+    // Organizers only see numbers for the events they manage
+    const eventScope = await managedEventsWhere(req.user);
+
     // Get total events count
-    const totalEvents = await Event.count();
+    const totalEvents = await Event.count({ where: eventScope });
 
-    // Get active events count (events with future dates)
+    // Get active events count (events that haven't ended yet)
     const now = new Date();
     const activeEvents = await Event.count({
       where: {
-        eventDate: {
+        ...eventScope,
+        endDate: {
           [Op.gt]: now,
         },
       },
     });
 
+    const totalReservations = await Reservation.count({
+      include: [
+        {
+          model: Event,
+          as: "event",
+          attributes: [],
+          where: eventScope,
+        },
+      ],
+    });
+
     res.json({
       totalEvents,
       activeEvents,
+      totalReservations,
     });
   } catch (error) {
     console.error("Get dashboard stats error:", error);
@@ -0,0 +1,227 @@
+import { Response } from "express";
+import {
+  AuthenticatedRequest,
+  CreateEventSeriesRequest,
+} from "../types/index.js";
+import { Category, Event, EventSeries, User } from "../models/index.js";
+import sequelize from "../config/database.js";
+import { clearEventCaches } from "../utils/cache.js";
+import { calculateSpotStatus } from "../utils/spotStatus.js";
+import { checkEventSchedule, getEventEnd } from "../utils/eventSchedule.js";
+import { isEventPublic } from "../utils/eventLifecycle.js";
+import { expandRecurrence, parseRecurrenceRule } from "../utils/recurrence.js";
+import { recordAudit, snapshot } from "../services/auditService.js";
+import { checkEventVenue } from "../services/venueService.js";
+
+export const createEventSeries = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  if (!req.user) {
+    res.status(401).json({ error: "Authentication required" });
+    return;
+  }
+
+  const {
+    name,
+    description,
+    eventDate,
+    endDate,
+    durationMinutes,
+    timeZone,
+    location,
+    onlineLink,
+    maxCapacity,
+    maxPerBooking,
+    categoryId,
+    tags,
+    venueId,
+    status = "draft",
+    publishAt,
+    registrationOpensAt,
+    registrationClosesAt,
+    recurrence,
+  }: CreateEventSeriesRequest = req.body;
+
+  // Fixed registration times can't fit occurrences on different dates
+  if (registrationOpensAt || registrationClosesAt) {
+    res.status(400).json({
+      error: "Registration windows are set per occurrence, after creating",
+    });
+    return;
+  }
+
+  if (maxPerBooking && maxPerBooking > maxCapacity) {
+    res
+      .status(400)
+      .json({ error: "Max per booking cannot exceed the event capacity" });
+    return;
+  }
+
+  const { rule, error: ruleError } = parseRecurrenceRule(recurrence.rrule);
+  if (!rule) {
+    res.status(400).json({ error: ruleError });
+    return;
+  }
+
+  // Every occurrence runs as long as the first one
+  const startsAt = new Date(eventDate);
+  const endsAt = getEventEnd(startsAt, {
+    endDate: endDate ? new Date(endDate) : undefined,
+    durationMinutes,
+  });
+  const scheduleError = checkEventSchedule(startsAt, endsAt);
+  if (scheduleError) {
+    res.status(400).json({ error: scheduleError });
+    return;
+  }
+  const length = endsAt.getTime() - startsAt.getTime();
+
+  const exceptions = recurrence.exceptions || [];
+  const { occurrences, error: expandError } = expandRecurrence(
+    rule,
+    startsAt,
+    exceptions,
+    timeZone
+  );
+  if (!occurrences) {
+    res.status(400).json({ error: expandError });
+    return;
+  }
+
+  const transaction = await sequelize.transaction();
+
+  try {
+    if (categoryId && !(await Category.findByPk(categoryId, { transaction }))) {
+      await transaction.rollback();
+      res.status(400).json({ error: "Category not found" });
+      return;
+    }
+
+    if (venueId) {
+      const venueError = await checkEventVenue(
+        venueId,
+        maxCapacity,
+        transaction
+      );
+      if (venueError) {
+        await transaction.rollback();
+        res.status(400).json({ error: venueError });
+        return;
+      }
+    }
+
+    const series = await EventSeries.create(
+      {
+        creatorId: req.user.id,
+        rrule: recurrence.rrule,
+        startsAt,
+        exceptions,
+      },
+      { transaction }
+    );
+
+    // bulkCreate skips the beforeCreate hook, so the spots are set here;
+    // each occurrence keeps its own capacity and reservations
+    const events = await Event.bulkCreate(
+      occurrences.map((occurrence) => ({
+        name,
+        description,
+        eventDate: occurrence,
+        endDate: new Date(occurrence.getTime() + length),
+        timeZone,
+        location,
+        onlineLink,
+        maxCapacity,
+        availableSpots: maxCapacity,
+        maxPerBooking,
+        categoryId,
+        tags: [...new Set(tags)],
+        venueId,
+        // The whole series goes public together
+        status: publishAt ? ("scheduled" as const) : status,
+        publishAt: publishAt
+          ? new Date(publishAt)
+          : status === "published"
+          ? new Date()
+          : null,
+        creatorId: req.user!.id,
+        seriesId: series.id,
+      })),
+      { transaction, returning: true }
+    );
+
+    await recordAudit(
+      req,
+      {
+        action: "event_series.create",
+        entityType: "event_series",
+        entityId: series.id,
+        after: {
+          ...snapshot(series),
+          eventIds: events.map((event) => event.id),
+        },
+      },
+      transaction
+    );
+
+    await transaction.commit();
+
+    // New occurrences have nothing cached yet, only the lists change
+    await clearEventCaches();
+
+    res.status(201).json({
+      message: `Event series created with ${events.length} occurrences`,
+      series,
+      events,
+    });
+  } catch (error) {
+    await transaction.rollback();
+    console.error("Create event series error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const getEventSeries = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const series = await EventSeries.findByPk(id, {
+      include: [
+        {
+          model: User,
+          as: "creator",
+          attributes: ["id", "email", "firstName", "lastName"],
+        },
+        { model: Event, as: "occurrences" },
+      ],
+      order: [[{ model: Event, as: "occurrences" }, "eventDate", "ASC"]],
+    });
+
+    if (!series) {
+      res.status(404).json({ error: "Event series not found" });
+      return;
+    }
+
+    const occurrences = series.occurrences || [];
+
+    res.json({
+      series: {
+        ...series.toJSON(),
+        // Unpublished occurrences stay hidden like on the event pages
+        occurrences: occurrences
+          .filter((event) => isEventPublic(event))
+          .map((event) => ({
+            ...event.toJSON(),
+            spotStatus: calculateSpotStatus(event),
+          })),
+      },
+    });
+  } catch (error) {
+    console.error("Get event series error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
@@ -0,0 +1,229 @@
+import { Response } from "express";
+import {
+  AssignEventStaffRequest,
+  AuthenticatedRequest,
+  EventStaffRole,
+  NotificationType,
+} from "../types/index.js";
+import { Event, EventStaff, User } from "../models/index.js";
+import { canManageEvent, hasEventAccess } from "../utils/eventAccess.js";
+import { notifyUser } from "../services/notificationService.js";
+import { recordAudit, snapshot } from "../services/auditService.js";
+
+const STAFF_ROLE_LABELS: Record<EventStaffRole, string> = {
+  co_organizer: "co-organizer",
+  checkin_staff: "check-in staff",
+};
+
+const staffUserInclude = {
+  model: User,
+  as: "user",
+  attributes: ["id", "email", "firstName", "lastName"],
+};
+
+export const getEventStaff = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id: eventId } = req.params;
+
+    const event = await Event.findByPk(eventId);
+    if (!event) {
+      res.status(404).json({ error: "Event not found" });
+      return;
+    }
+
+    if (!(await hasEventAccess(req.user, event, "edit"))) {
+      res.status(403).json({
+        error: "You don't have permission to view this event's staff",
+      });
+      return;
+    }
+
+    const staff = await EventStaff.findAll({
+      where: { eventId: event.id },
+      include: [staffUserInclude],
+      order: [["createdAt", "ASC"]],
+    });
+
+    res.json({ staff });
+  } catch (error) {
+    console.error("Get event staff error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const assignEventStaff = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id: eventId } = req.params;
+    const { email, role }: AssignEventStaffRequest = req.body;
+
+    const event = await Event.findByPk(eventId);
+    if (!event) {
+      res.status(404).json({ error: "Event not found" });
+      return;
+    }
+
+    // Only the owner (or an admin) decides who helps run the event
+    if (!(await canManageEvent(req.user, event))) {
+      res
+        .status(403)
+        .json({ error: "Only the event owner can manage its staff" });
+      return;
+    }
+
+    const user = await User.findOne({ where: { email } });
+    if (!user) {
+      res.status(404).json({ error: "No user found with that email" });
+      return;
+    }
+
+    if (user.id === event.creatorId) {
+      res
+        .status(400)
+        .json({ error: "The event owner already has full access" });
+      return;
+    }
+
+    const existingAssignment = await EventStaff.findOne({
+      where: { eventId: event.id, userId: user.id },
+    });
+    if (existingAssignment) {
+      res
+        .status(409)
+        .json({ error: "This user is already on the event's staff" });
+      return;
+    }
+
+    const assignment = await EventStaff.create({
+      eventId: event.id,
+      userId: user.id,
+      role,
+      assignedById: req.user?.id,
+    });
+
+    await recordAudit(req, {
+      action: "event_staff.assign",
+      entityType: "event_staff",
+      entityId: assignment.id,
+      after: snapshot(assignment),
+    });
+
+    await notifyUser(user.id, {
+      type: NotificationType.EVENT_STAFF_ASSIGNED,
+      title: "You've been added to an event team",
+      message: `You were added as ${STAFF_ROLE_LABELS[role]} for "${event.name}".`,
+      eventId: event.id,
+    });
+
+    await assignment.reload({ include: [staffUserInclude] });
+
+    res.status(201).json({
+      message: "Staff member added successfully",
+      staff: assignment,
+    });
+  } catch (error) {
+    console.error("Assign event staff error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const updateEventStaff = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id: eventId, staffId } = req.params;
+    const { role }: { role: EventStaffRole } = req.body;
+
+    const event = await Event.findByPk(eventId);
+    if (!event) {
+      res.status(404).json({ error: "Event not found" });
+      return;
+    }
+
+    if (!(await canManageEvent(req.user, event))) {
+      res
+        .status(403)
+        .json({ error: "Only the event owner can manage its staff" });
+      return;
+    }
+
+    const assignment = await EventStaff.findOne({
+      where: { id: staffId, eventId: event.id },
+      include: [staffUserInclude],
+    });
+    if (!assignment) {
+      res.status(404).json({ error: "Staff member not found" });
+      return;
+    }
+
+    const previousRole = assignment.role;
+
+    await assignment.update({ role });
+
+    await recordAudit(req, {
+      action: "event_staff.update",
+      entityType: "event_staff",
+      entityId: assignment.id,
+      before: { role: previousRole },
+      after: { role: assignment.role },
+    });
+
+    res.json({
+      message: "Staff member updated successfully",
+      staff: assignment,
+    });
+  } catch (error) {
+    console.error("Update event staff error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const removeEventStaff = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id: eventId, staffId } = req.params;
+
+    const event = await Event.findByPk(eventId);
+    if (!event) {
+      res.status(404).json({ error: "Event not found" });
+      return;
+    }
+
+    if (!(await canManageEvent(req.user, event))) {
+      res
+        .status(403)
+        .json({ error: "Only the event owner can manage its staff" });
+      return;
+    }
+
+    const assignment = await EventStaff.findOne({
+      where: { id: staffId, eventId: event.id },
+    });
+    if (!assignment) {
+      res.status(404).json({ error: "Staff member not found" });
+      return;
+    }
+
+    await assignment.destroy();
+
+    await recordAudit(req, {
+      action: "event_staff.remove",
+      entityType: "event_staff",
+      entityId: assignment.id,
+      before: snapshot(assignment),
+    });
+
+    res.json({ message: "Staff member removed successfully" });
+  } catch (error) {
+    console.error("Remove event staff error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
@@ -0,0 +1,118 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../types/index.js";
+import { Event, Notification } from "../models/index.js";
+
+export const getMyNotifications = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: "Authentication required" });
+      return;
+    }
+
+    const { page = 1, limit = 10, unread } = req.query;
+    const offset = (Number(page) - 1) * Number(limit);
+
+    const whereConditions: any = { userId: req.user.id };
+    if (unread === "true") {
+      whereConditions.readAt = null;
+    }
+
+    const { count, rows: notifications } = await Notification.findAndCountAll({
+      where: whereConditions,
+      include: [
+        {
+          model: Event,
+          as: "event",
+          attributes: ["id", "name", "eventDate", "endDate", "timeZone"],
+        },
+      ],
+      limit: Number(limit),
+      offset,
+      order: [["createdAt", "DESC"]],
+    });
+
+    const unreadCount = await Notification.count({
+      where: { userId: req.user.id, readAt: null },
+    });
+
+    res.json({
+      notifications,
+      unreadCount,
+      pagination: {
+        total: count,
+        page: Number(page),
+        limit: Number(limit),
+        totalPages: Math.ceil(count / Number(limit)),
+      },
+    });
+  } catch (error) {
+    console.error("Get notifications error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const markNotificationRead = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: "Authentication required" });
+      return;
+    }
+
+    const { id } = req.params;
+
+    // Users can only see and update their own notifications
+    const notification = await Notification.findOne({
+      where: { id: Number(id), userId: req.user.id },
+    });
+
+    if (!notification) {
+      res.status(404).json({ error: "Notification not found" });
+      return;
+    }
+
+    if (!notification.isRead()) {
+      await notification.update({ readAt: new Date() });
+    }
+
+    res.json({
+      message: "Notification marked as read",
+      notification,
+    });
+  } catch (error) {
+    console.error("Mark notification read error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const markAllNotificationsRead = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: "Authentication required" });
+      return;
+    }
+
+    const [updatedCount] = await Notification.update(
+      { readAt: new Date() },
+      {
+        where: { userId: req.user.id, readAt: null },
+      }
+    );
+
+    res.json({
+      message: "All notifications marked as read",
+      updatedCount,
+    });
+  } catch (error) {
+    console.error("Mark all notifications read error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
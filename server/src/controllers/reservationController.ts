@@ -1,28 +1,77 @@
 import { Response } from "express";
-import { AuthenticatedRequest, ReservationStatus } from "../types/index.js";
-import { Event, User, Reservation } from "../models/index.js";
+import { Op } from "sequelize";
+import {
+  AuthenticatedRequest,
+  CancelReservationRequest,
+  CheckInRequest,
+  CreateReservationRequest,
+  NotificationType,
+  ReservationStatus,
+  WaitlistStatus,
+} from "../types/index.js";
+import {
+  Event,
+  User,
+  Reservation,
+  WaitlistEntry,
+  TicketType,
+} from "../models/index.js";
 import sequelize from "../config/database.js";
-import { cacheUtils, CACHE_KEYS } from "../config/redis.js";
+import {
+  getWaitlistPosition,
+  getWaitlistSize,
+  promoteFromWaitlist,
+} from "../services/waitlistService.js";
+import { resolveTicketType } from "../services/ticketTypeService.js";
+import { clearEventCaches } from "../utils/cache.js";
+import { broadcastEventAvailability } from "../services/realtimeService.js";
+import { notifyUser } from "../services/notificationService.js";
+import { generateTicketToken, verifyTicketToken } from "../utils/jwt.js";
+import { hasEventAccess, managedEventsWhere } from "../utils/eventAccess.js";
+import { hasPermission } from "../services/permissionService.js";
+import { recordAudit, snapshot } from "../services/auditService.js";
+import { releaseSessionRegistrations } from "../services/sessionService.js";
+import {
+  describeOverlap,
+  findOverlappingBooking,
+} from "../services/bookingConflictService.js";
+import { describeInTimeZone } from "../utils/timeZone.js";
 
-// Helper function to clear all event-related caches
-const clearEventCaches = async (eventId: number) => {
-  try {
-    // Clear popular events cache
-    await cacheUtils.del(CACHE_KEYS.POPULAR_EVENTS);
-
-    // Clear specific event details cache
-    await cacheUtils.del(CACHE_KEYS.EVENT_DETAILS(eventId));
-
-    // Clear all event list caches using pattern matching
-    // This will clear all cache keys that start with "events:page:" regardless of filters
-    await cacheUtils.delPattern("events:page:*");
+// Statuses that still hold the user's place at the event
+const ACTIVE_RESERVATION_STATUSES = [
+  ReservationStatus.CONFIRMED,
+  ReservationStatus.CHECKED_IN,
+];
 
-    console.log(`🗑️ Cleared event caches for event ${eventId}`);
-  } catch (error) {
-    console.error("Error clearing event caches:", error);
+// Why the event isn't taking bookings, or null while registration is open
+const getRegistrationError = (event: Event): string | null => {
+  switch (event.getRegistrationStatus()) {
+    case "unpublished":
+      return "This event isn't open for registration";
+    case "not-open":
+      return `Registration opens ${describeInTimeZone(
+        event.registrationOpensAt as Date,
+        event.timeZone
+      )}`;
+    case "closed":
+      return "Registration for this event has closed";
+    default:
+      return null;
   }
 };
 
+// Attach the signed ticket that is rendered as a QR code for confirmed bookings
+const withTicketToken = (reservation: Reservation) => ({
+  ...reservation.toJSON(),
+  ticketToken: reservation.isActive()
+    ? generateTicketToken({
+        reservationId: reservation.id,
+        eventId: reservation.eventId,
+        userId: reservation.userId,
+      })
+    : null,
+});
+
 export const createReservation = async (
   req: AuthenticatedRequest,
   res: Response
@@ -36,6 +85,7 @@ export const createReservation = async (
     }
 
     const { id: eventId } = req.params;
+    const { quantity = 1, ticketTypeId }: CreateReservationRequest = req.body;
     const userId = req.user.id;
 
     // Check if event exists
@@ -46,15 +96,41 @@ export const createReservation = async (
       return;
     }
 
-    // Check if event is in the future
+    if (event.isCanceled()) {
+      await transaction.rollback();
+      res.status(400).json({ error: "This event has been canceled" });
+      return;
+    }
+
+    // Bookings close once the event starts
     if (event.eventDate <= new Date()) {
       await transaction.rollback();
-      res.status(400).json({ error: "Cannot reserve spots for past events" });
+      res.status(400).json({
+        error: event.isInProgress()
+          ? "This event has already started"
+          : "Cannot reserve spots for past events",
+      });
+      return;
+    }
+
+    const registrationError = getRegistrationError(event);
+    if (registrationError) {
+      await transaction.rollback();
+      res.status(400).json({ error: registrationError });
+      return;
+    }
+
+    // Check the party size against the event's per-booking limit
+    if (quantity > event.maxPerBooking) {
+      await transaction.rollback();
+      res.status(400).json({
+        error: `You can reserve at most ${event.maxPerBooking} spot(s) per booking for this event`,
+      });
       return;
     }
 
-    // Check if admin is trying to reserve their own event
-    if (req.user.role === "admin" && event.creatorId === userId) {
+    // Organizers can't book seats at their own event
+    if (event.creatorId === userId) {
       await transaction.rollback();
       res
         .status(400)
@@ -62,12 +138,12 @@ export const createReservation = async (
       return;
     }
 
-    // Check if user already has a confirmed reservation for this event
+    // Check if user already has an active reservation for this event
     const existingReservation = await Reservation.findOne({
       where: {
         eventId,
         userId,
-        status: ReservationStatus.CONFIRMED,
+        status: { [Op.in]: ACTIVE_RESERVATION_STATUSES },
       },
       transaction,
     });
@@ -80,10 +156,55 @@ export const createReservation = async (
       return;
     }
 
-    // Check if there are available spots
-    if (event.availableSpots <= 0) {
+    // A user can't be at two events at once
+    const overlapping = await findOverlappingBooking(
+      userId,
+      event,
+      transaction
+    );
+    if (overlapping) {
+      await transaction.rollback();
+      res.status(409).json({ error: describeOverlap(overlapping) });
+      return;
+    }
+
+    // Check if there are enough available spots for the whole party
+    if (event.availableSpots < quantity) {
       await transaction.rollback();
-      res.status(400).json({ error: "No available spots for this event" });
+      res.status(400).json({
+        error:
+          event.availableSpots <= 0
+            ? "No available spots for this event"
+            : `Only ${event.availableSpots} spot(s) left for this event`,
+        canJoinWaitlist: true,
+      });
+      return;
+    }
+
+    // Check the chosen ticket tier, if the event sells tiers
+    const { ticketType, error: ticketTypeError } = await resolveTicketType(
+      event.id,
+      ticketTypeId,
+      transaction
+    );
+
+    if (ticketTypeError) {
+      await transaction.rollback();
+      res
+        .status(ticketTypeError.status)
+        .json({ error: ticketTypeError.message });
+      return;
+    }
+
+    if (ticketType && ticketType.availableSpots < quantity) {
+      await transaction.rollback();
+      res.status(400).json({
+        error:
+          ticketType.availableSpots <= 0
+            ? `"${ticketType.name}" tickets are sold out`
+            : `Only ${ticketType.availableSpots} "${ticketType.name}" ticket(s) left`,
+        canJoinWaitlist: true,
+      });
       return;
     }
 
@@ -92,13 +213,52 @@ export const createReservation = async (
       {
         eventId: Number(eventId),
         userId,
+        ticketTypeId: ticketType?.id ?? null,
+        quantity,
         status: ReservationStatus.CONFIRMED,
       },
       { transaction }
     );
 
+    await recordAudit(
+      req,
+      {
+        action: "reservation.create",
+        entityType: "reservation",
+        entityId: reservation.id,
+        after: snapshot(reservation),
+      },
+      transaction
+    );
+
     // Decrement available spots
-    await event.decrement("availableSpots", { by: 1, transaction });
+    await event.decrement("availableSpots", { by: quantity, transaction });
+    if (ticketType) {
+      await ticketType.decrement("availableSpots", {
+        by: quantity,
+        transaction,
+      });
+    }
+
+    await notifyUser(
+      userId,
+      {
+        type: NotificationType.RESERVATION_CONFIRMED,
+        title: "Reservation confirmed",
+        message: `Your reservation for "${event.name}" is confirmed (${quantity} spot(s)).`,
+        eventId: event.id,
+      },
+      transaction
+    );
+
+    // A direct booking replaces any place the user held in the queue
+    await WaitlistEntry.update(
+      { status: WaitlistStatus.LEFT },
+      {
+        where: { eventId, userId, status: WaitlistStatus.WAITING },
+        transaction,
+      }
+    );
 
     await transaction.commit();
 
@@ -108,22 +268,40 @@ export const createReservation = async (
         {
           model: Event,
           as: "event",
-          attributes: ["id", "name", "eventDate", "location", "onlineLink"],
+          attributes: [
+            "id",
+            "name",
+            "eventDate",
+            "endDate",
+            "timeZone",
+            "location",
+            "onlineLink",
+          ],
         },
         {
           model: User,
           as: "user",
           attributes: ["id", "email", "firstName", "lastName"],
         },
+        {
+          model: TicketType,
+          as: "ticketType",
+          attributes: ["id", "name", "price"],
+        },
       ],
     });
 
     // Invalidate related caches after successful reservation
     await clearEventCaches(Number(eventId));
 
+    // Push the new availability to clients watching this event
+    await broadcastEventAvailability(Number(eventId));
+
     res.status(201).json({
       message: "Reservation created successfully",
-      reservation: createdReservation,
+      reservation: createdReservation
+        ? withTicketToken(createdReservation)
+        : null,
     });
   } catch (error) {
     await transaction.rollback();
@@ -145,6 +323,7 @@ export const cancelReservation = async (
     }
 
     const { id: reservationId } = req.params;
+    const { quantity }: CancelReservationRequest = req.body ?? {};
 
     const reservation = await Reservation.findByPk(Number(reservationId), {
       transaction,
@@ -156,10 +335,14 @@ export const cancelReservation = async (
       return;
     }
 
-    // Check if user owns the reservation or is admin
+    const event = await Event.findByPk(reservation.eventId, { transaction });
+
+    // Attendees cancel their own bookings; organizers, co-organizers and
+    // admins manage the bookings of events they can manage
+    const isOwnReservation = req.user.id === Number(reservation.userId);
     if (
-      req.user.role !== "admin" &&
-      req.user.id !== Number(reservation.userId)
+      !isOwnReservation &&
+      !(event && (await hasEventAccess(req.user, event, "cancel_reservations")))
     ) {
       await transaction.rollback();
       res
@@ -175,24 +358,118 @@ export const cancelReservation = async (
       return;
     }
 
-    // Cancel reservation and increment available spots
-    await reservation.update(
-      { status: ReservationStatus.CANCELED },
-      { transaction }
+    // Attendance has already been recorded for this booking
+    if (!reservation.isActive()) {
+      await transaction.rollback();
+      res.status(400).json({
+        error:
+          "Reservations that have been checked in or marked as no-show cannot be canceled",
+      });
+      return;
+    }
+
+    if (quantity !== undefined && quantity > reservation.quantity) {
+      await transaction.rollback();
+      res.status(400).json({
+        error: `This reservation only holds ${reservation.quantity} spot(s)`,
+      });
+      return;
+    }
+
+    // Release only some seats when asked to, otherwise cancel the whole booking
+    const releasedSpots = quantity ?? reservation.quantity;
+    const isPartialCancel = releasedSpots < reservation.quantity;
+    const reservationBefore = snapshot(reservation);
+
+    if (isPartialCancel) {
+      await reservation.update(
+        { quantity: reservation.quantity - releasedSpots },
+        { transaction }
+      );
+    } else {
+      await reservation.update(
+        { status: ReservationStatus.CANCELED },
+        { transaction }
+      );
+      await releaseSessionRegistrations(
+        reservation.eventId,
+        reservation.userId,
+        transaction
+      );
+    }
+
+    // Cancelling on someone else's behalf is logged as its own action
+    await recordAudit(
+      req,
+      {
+        action: isOwnReservation
+          ? "reservation.cancel"
+          : "reservation.cancel_on_behalf",
+        entityType: "reservation",
+        entityId: reservation.id,
+        before: reservationBefore,
+        after: snapshot(reservation),
+      },
+      transaction
     );
 
-    // Get the event and increment available spots
-    const event = await Event.findByPk(reservation.eventId, { transaction });
+    // Increment available spots
     if (event) {
-      await event.increment("availableSpots", { by: 1, transaction });
+      await event.increment("availableSpots", {
+        by: releasedSpots,
+        transaction,
+      });
+    }
+
+    // Return the seats to the reservation's ticket tier as well
+    if (reservation.ticketTypeId) {
+      await TicketType.increment("availableSpots", {
+        by: releasedSpots,
+        where: { id: reservation.ticketTypeId },
+        transaction,
+      });
+    }
+
+    // Let the attendee know when someone else canceled their booking
+    if (!isOwnReservation) {
+      const canceledBy = (await hasPermission(req.user, "events:manage_any"))
+        ? "an administrator"
+        : "the event organizer";
+      await notifyUser(
+        reservation.userId,
+        {
+          type: NotificationType.RESERVATION_CANCELED,
+          title: "Reservation canceled",
+          message: isPartialCancel
+            ? `${releasedSpots} spot(s) of your reservation for "${event?.name}" were canceled by ${canceledBy}.`
+            : `Your reservation for "${event?.name}" was canceled by ${canceledBy}.`,
+          eventId: reservation.eventId,
+        },
+        transaction
+      );
     }
 
+    // Hand the freed spot to the first user on the waitlist
+    const promoted = await promoteFromWaitlist(
+      reservation.eventId,
+      transaction
+    );
+
     await transaction.commit();
 
     // Invalidate related caches after successful cancellation
     await clearEventCaches(reservation.eventId);
 
-    res.json({ message: "Reservation canceled successfully" });
+    // Push the new availability to clients watching this event
+    await broadcastEventAvailability(reservation.eventId);
+
+    res.json({
+      message: isPartialCancel
+        ? `${releasedSpots} spot(s) canceled successfully`
+        : "Reservation canceled successfully",
+      reservation,
+      promotedReservations: promoted.length,
+    });
   } catch (error) {
     await transaction.rollback();
     console.error("Cancel reservation error:", error);
@@ -214,7 +491,10 @@ export const getMyReservations = async (
     const offset = (Number(page) - 1) * Number(limit);
 
     const whereConditions: any = { userId: req.user.id };
-    if (status && (status === "confirmed" || status === "canceled")) {
+    if (
+      status &&
+      Object.values(ReservationStatus).includes(status as ReservationStatus)
+    ) {
       whereConditions.status = status;
     }
 
@@ -229,10 +509,14 @@ export const getMyReservations = async (
             "name",
             "description",
             "eventDate",
+            "endDate",
+            "timeZone",
             "location",
             "onlineLink",
             "maxCapacity",
             "availableSpots",
+            "canceledAt",
+            "cancellationReason",
           ],
           include: [
             {
@@ -242,6 +526,11 @@ export const getMyReservations = async (
             },
           ],
         },
+        {
+          model: TicketType,
+          as: "ticketType",
+          attributes: ["id", "name", "price"],
+        },
       ],
       limit: Number(limit),
       offset,
@@ -249,7 +538,7 @@ export const getMyReservations = async (
     });
 
     res.json({
-      reservations,
+      reservations: reservations.map(withTicketToken),
       pagination: {
         total: count,
         page: Number(page),
@@ -279,8 +568,18 @@ export const getEventReservations = async (
       return;
     }
 
+    if (!(await hasEventAccess(req.user, event, "view_reservations"))) {
+      res.status(403).json({
+        error: "You don't have permission to view this event's reservations",
+      });
+      return;
+    }
+
     const whereConditions: any = { eventId };
-    if (status && (status === "confirmed" || status === "canceled")) {
+    if (
+      status &&
+      Object.values(ReservationStatus).includes(status as ReservationStatus)
+    ) {
       whereConditions.status = status;
     }
 
@@ -295,7 +594,20 @@ export const getEventReservations = async (
         {
           model: Event,
           as: "event",
-          attributes: ["id", "name", "eventDate", "location", "onlineLink"],
+          attributes: [
+            "id",
+            "name",
+            "eventDate",
+            "endDate",
+            "timeZone",
+            "location",
+            "onlineLink",
+          ],
+        },
+        {
+          model: TicketType,
+          as: "ticketType",
+          attributes: ["id", "name", "price"],
         },
       ],
       limit: Number(limit),
@@ -329,7 +641,10 @@ export const getAllReservations = async (
     const whereConditions: any = {};
 
     // Filter by status if provided
-    if (status && (status === "confirmed" || status === "canceled")) {
+    if (
+      status &&
+      Object.values(ReservationStatus).includes(status as ReservationStatus)
+    ) {
       whereConditions.status = status;
     }
 
@@ -359,11 +674,15 @@ export const getAllReservations = async (
             "name",
             "description",
             "eventDate",
+            "endDate",
+            "timeZone",
             "location",
             "onlineLink",
             "maxCapacity",
             "availableSpots",
           ],
+          // Organizers only see bookings for their own events
+          where: await managedEventsWhere(req.user),
           include: [
             {
               model: User,
@@ -413,12 +732,12 @@ export const checkUserReservation = async (
       return;
     }
 
-    // Check if user has a confirmed reservation for this event
+    // Check if user has an active reservation for this event
     const reservation = await Reservation.findOne({
       where: {
         eventId: Number(eventId),
         userId,
-        status: ReservationStatus.CONFIRMED,
+        status: { [Op.in]: ACTIVE_RESERVATION_STATUSES },
       },
     });
 
@@ -431,3 +750,409 @@ export const checkUserReservation = async (
     res.status(500).json({ error: "Internal server error" });
   }
 };
+
+export const joinWaitlist = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  const transaction = await sequelize.transaction();
+
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: "Authentication required" });
+      return;
+    }
+
+    const { id: eventId } = req.params;
+    const { quantity = 1, ticketTypeId }: CreateReservationRequest = req.body;
+    const userId = req.user.id;
+
+    // Check if event exists
+    const event = await Event.findByPk(eventId, { transaction });
+    if (!event) {
+      await transaction.rollback();
+      res.status(404).json({ error: "Event not found" });
+      return;
+    }
+
+    if (event.isCanceled()) {
+      await transaction.rollback();
+      res.status(400).json({ error: "This event has been canceled" });
+      return;
+    }
+
+    // The waitlist closes once the event starts
+    if (event.eventDate <= new Date()) {
+      await transaction.rollback();
+      res.status(400).json({
+        error: event.isInProgress()
+          ? "This event has already started"
+          : "Cannot join the waitlist for past events",
+      });
+      return;
+    }
+
+    // The waitlist follows the registration window
+    const registrationError = getRegistrationError(event);
+    if (registrationError) {
+      await transaction.rollback();
+      res.status(400).json({ error: registrationError });
+      return;
+    }
+
+    // Check the party size against the event's per-booking limit
+    if (quantity > event.maxPerBooking) {
+      await transaction.rollback();
+      res.status(400).json({
+        error: `You can reserve at most ${event.maxPerBooking} spot(s) per booking for this event`,
+      });
+      return;
+    }
+
+    // Organizers can't queue for their own event
+    if (event.creatorId === userId) {
+      await transaction.rollback();
+      res
+        .status(400)
+        .json({ error: "You cannot join the waitlist for your own event" });
+      return;
+    }
+
+    // Check the requested ticket tier, if the event sells tiers
+    const { ticketType, error: ticketTypeError } = await resolveTicketType(
+      event.id,
+      ticketTypeId,
+      transaction
+    );
+
+    if (ticketTypeError) {
+      await transaction.rollback();
+      res
+        .status(ticketTypeError.status)
+        .json({ error: ticketTypeError.message });
+      return;
+    }
+
+    // Waitlist is only for events that can't seat the whole party
+    const spotsLeft = ticketType
+      ? Math.min(ticketType.availableSpots, event.availableSpots)
+      : event.availableSpots;
+
+    if (spotsLeft >= quantity) {
+      await transaction.rollback();
+      res.status(400).json({
+        error: "This event still has available spots, reserve one directly",
+      });
+      return;
+    }
+
+    // Check if user already has an active reservation for this event
+    const existingReservation = await Reservation.findOne({
+      where: {
+        eventId,
+        userId,
+        status: { [Op.in]: ACTIVE_RESERVATION_STATUSES },
+      },
+      transaction,
+    });
+
+    if (existingReservation) {
+      await transaction.rollback();
+      res
+        .status(409)
+        .json({ error: "You already have a reservation for this event" });
+      return;
+    }
+
+    // A user can't be at two events at once
+    const overlapping = await findOverlappingBooking(
+      userId,
+      event,
+      transaction
+    );
+    if (overlapping) {
+      await transaction.rollback();
+      res.status(409).json({ error: describeOverlap(overlapping) });
+      return;
+    }
+
+    // Check if user is already waiting for this event
+    const existingEntry = await WaitlistEntry.findOne({
+      where: { eventId, userId, status: WaitlistStatus.WAITING },
+      transaction,
+    });
+
+    if (existingEntry) {
+      await transaction.rollback();
+      res
+        .status(409)
+        .json({ error: "You are already on the waitlist for this event" });
+      return;
+    }
+
+    const entry = await WaitlistEntry.create(
+      {
+        eventId: Number(eventId),
+        userId,
+        ticketTypeId: ticketType?.id ?? null,
+        quantity,
+        status: WaitlistStatus.WAITING,
+      },
+      { transaction }
+    );
+
+    const position = await getWaitlistPosition(entry, transaction);
+
+    await transaction.commit();
+
+    res.status(201).json({
+      message: "Joined the waitlist successfully",
+      entry,
+      position,
+    });
+  } catch (error) {
+    await transaction.rollback();
+    console.error("Join waitlist error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const leaveWaitlist = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: "Authentication required" });
+      return;
+    }
+
+    const { id: eventId } = req.params;
+
+    const entry = await WaitlistEntry.findOne({
+      where: {
+        eventId: Number(eventId),
+        userId: req.user.id,
+        status: WaitlistStatus.WAITING,
+      },
+    });
+
+    if (!entry) {
+      res
+        .status(404)
+        .json({ error: "You are not on the waitlist for this event" });
+      return;
+    }
+
+    await entry.update({ status: WaitlistStatus.LEFT });
+
+    res.json({ message: "Left the waitlist successfully" });
+  } catch (error) {
+    console.error("Leave waitlist error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const getWaitlistStatus = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: "Authentication required" });
+      return;
+    }
+
+    const { id: eventId } = req.params;
+
+    // Check if event exists
+    const event = await Event.findByPk(eventId);
+    if (!event) {
+      res.status(404).json({ error: "Event not found" });
+      return;
+    }
+
+    const entry = await WaitlistEntry.findOne({
+      where: {
+        eventId: Number(eventId),
+        userId: req.user.id,
+        status: WaitlistStatus.WAITING,
+      },
+    });
+
+    res.json({
+      onWaitlist: !!entry,
+      position: entry ? await getWaitlistPosition(entry) : null,
+      waitlistSize: await getWaitlistSize(event.id),
+      entry: entry ? entry.toJSON() : null,
+    });
+  } catch (error) {
+    console.error("Get waitlist status error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const getMyWaitlist = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: "Authentication required" });
+      return;
+    }
+
+    const entries = await WaitlistEntry.findAll({
+      where: { userId: req.user.id, status: WaitlistStatus.WAITING },
+      include: [
+        {
+          model: Event,
+          as: "event",
+          attributes: [
+            "id",
+            "name",
+            "eventDate",
+            "endDate",
+            "timeZone",
+            "location",
+            "onlineLink",
+            "maxCapacity",
+            "availableSpots",
+          ],
+        },
+      ],
+      order: [["createdAt", "DESC"]],
+    });
+
+    const entriesWithPosition = await Promise.all(
+      entries.map(async (entry) => ({
+        ...entry.toJSON(),
+        position: await getWaitlistPosition(entry),
+      }))
+    );
+
+    res.json({ entries: entriesWithPosition });
+  } catch (error) {
+    console.error("Get my waitlist error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const checkInReservation = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  const transaction = await sequelize.transaction();
+
+  try {
+    const { id: eventId } = req.params;
+    const { ticketToken }: CheckInRequest = req.body;
+
+    let ticket;
+    try {
+      ticket = verifyTicketToken(ticketToken);
+    } catch (error) {
+      await transaction.rollback();
+      res.status(400).json({ error: "Invalid ticket" });
+      return;
+    }
+
+    // A ticket only admits its holder to the event it was issued for
+    if (ticket.eventId !== Number(eventId)) {
+      await transaction.rollback();
+      res.status(400).json({ error: "This ticket is for a different event" });
+      return;
+    }
+
+    const event = await Event.findByPk(ticket.eventId, { transaction });
+    if (!event || !(await hasEventAccess(req.user, event, "check_in"))) {
+      await transaction.rollback();
+      res
+        .status(403)
+        .json({ error: "You don't have permission to check in at this event" });
+      return;
+    }
+
+    const reservation = await Reservation.findOne({
+      where: {
+        id: ticket.reservationId,
+        eventId: ticket.eventId,
+        userId: ticket.userId,
+      },
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+
+    if (!reservation) {
+      await transaction.rollback();
+      res.status(404).json({ error: "Reservation not found" });
+      return;
+    }
+
+    // Each ticket can only be scanned once
+    if (reservation.isCheckedIn()) {
+      await transaction.rollback();
+      res.status(409).json({
+        error: "This ticket has already been used",
+        checkedInAt: reservation.checkedInAt,
+      });
+      return;
+    }
+
+    if (!reservation.isActive()) {
+      await transaction.rollback();
+      res.status(400).json({
+        error:
+          reservation.status === ReservationStatus.CANCELED
+            ? "This reservation has been canceled"
+            : "This reservation was marked as a no-show",
+      });
+      return;
+    }
+
+    const reservationBefore = snapshot(reservation);
+
+    await reservation.update(
+      { status: ReservationStatus.CHECKED_IN, checkedInAt: new Date() },
+      { transaction }
+    );
+
+    await recordAudit(
+      req,
+      {
+        action: "reservation.check_in",
+        entityType: "reservation",
+        entityId: reservation.id,
+        before: reservationBefore,
+        after: snapshot(reservation),
+      },
+      transaction
+    );
+
+    await transaction.commit();
+
+    const checkedInReservation = await Reservation.findByPk(reservation.id, {
+      include: [
+        {
+          model: User,
+          as: "user",
+          attributes: ["id", "email", "firstName", "lastName"],
+        },
+        {
+          model: TicketType,
+          as: "ticketType",
+          attributes: ["id", "name", "price"],
+        },
+      ],
+    });
+
+    res.json({
+      message: "Checked in successfully",
+      reservation: checkedInReservation,
+    });
+  } catch (error) {
+    await transaction.rollback();
+    console.error("Check-in error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
@@ -0,0 +1,159 @@
+import { Response } from "express";
+import { AuthenticatedRequest, PERMISSIONS } from "../types/index.js";
+import { Role, User } from "../models/index.js";
+import {
+  ADMIN_ROLE,
+  invalidateRolePermissions,
+} from "../services/permissionService.js";
+import { recordAudit, snapshot } from "../services/auditService.js";
+
+export const getRoles = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const roles = await Role.findAll({ order: [["name", "ASC"]] });
+
+    res.json({
+      roles,
+      availablePermissions: PERMISSIONS,
+    });
+  } catch (error) {
+    console.error("Get roles error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const createRole = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { name, description, permissions } = req.body;
+
+    const existingRole = await Role.findOne({ where: { name } });
+    if (existingRole) {
+      res.status(409).json({ error: "A role with this name already exists" });
+      return;
+    }
+
+    const role = await Role.create({
+      name,
+      description,
+      permissions: [...new Set<string>(permissions)] as Role["permissions"],
+    });
+
+    await recordAudit(req, {
+      action: "role.create",
+      entityType: "role",
+      entityId: role.id,
+      after: snapshot(role),
+    });
+
+    res.status(201).json({
+      message: "Role created successfully",
+      role,
+    });
+  } catch (error) {
+    console.error("Create role error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const updateRole = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { description, permissions } = req.body;
+
+    const role = await Role.findByPk(id);
+    if (!role) {
+      res.status(404).json({ error: "Role not found" });
+      return;
+    }
+
+    // The admin role always holds every permission
+    if (role.name === ADMIN_ROLE && permissions !== undefined) {
+      res
+        .status(400)
+        .json({ error: "The admin role's permissions cannot be changed" });
+      return;
+    }
+
+    const updateData: Partial<Pick<Role, "description" | "permissions">> = {};
+    if (description !== undefined) updateData.description = description;
+    if (permissions !== undefined) {
+      updateData.permissions = [
+        ...new Set<string>(permissions),
+      ] as Role["permissions"];
+    }
+
+    const roleBefore = snapshot(role);
+
+    await role.update(updateData);
+
+    await recordAudit(req, {
+      action: "role.update",
+      entityType: "role",
+      entityId: role.id,
+      before: roleBefore,
+      after: snapshot(role),
+    });
+
+    await invalidateRolePermissions(role.name);
+
+    res.json({
+      message: "Role updated successfully",
+      role,
+    });
+  } catch (error) {
+    console.error("Update role error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const deleteRole = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const role = await Role.findByPk(id);
+    if (!role) {
+      res.status(404).json({ error: "Role not found" });
+      return;
+    }
+
+    if (role.isSystem) {
+      res.status(400).json({ error: "Built-in roles cannot be deleted" });
+      return;
+    }
+
+    const assignedUsers = await User.count({ where: { role: role.name } });
+    if (assignedUsers > 0) {
+      res.status(409).json({
+        error: "Role is still assigned to users; reassign them first",
+      });
+      return;
+    }
+
+    await role.destroy();
+
+    await recordAudit(req, {
+      action: "role.delete",
+      entityType: "role",
+      entityId: role.id,
+      before: snapshot(role),
+    });
+
+    await invalidateRolePermissions(role.name);
+
+    res.json({ message: "Role deleted successfully" });
+  } catch (error) {
+    console.error("Delete role error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
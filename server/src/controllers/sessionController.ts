@@ -0,0 +1,608 @@
+import { Response } from "express";
+import { Op } from "sequelize";
+import {
+  AuthenticatedRequest,
+  NotificationType,
+  ReservationStatus,
+  SessionRequest,
+} from "../types/index.js";
+import {
+  Event,
+  Reservation,
+  Session,
+  SessionRegistration,
+} from "../models/index.js";
+import sequelize from "../config/database.js";
+import { canViewEvent, hasEventAccess } from "../utils/eventAccess.js";
+import { parseInTimeZone } from "../utils/timeZone.js";
+import { recordAudit, snapshot } from "../services/auditService.js";
+import { notifyUsers } from "../services/notificationService.js";
+import {
+  checkSessionSlot,
+  findEventSpeakers,
+  sessionSpeakersInclude,
+} from "../services/sessionService.js";
+
+const loadSession = (id: number) =>
+  Session.findByPk(id, { include: [sessionSpeakersInclude] });
+
+export const getEventSessions = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id: eventId } = req.params;
+
+    const event = await Event.findByPk(eventId);
+    if (!event || !(await canViewEvent(req.user, event))) {
+      res.status(404).json({ error: "Event not found" });
+      return;
+    }
+
+    const sessions = await Session.findAll({
+      where: { eventId: event.id },
+      include: [sessionSpeakersInclude],
+      order: [
+        ["startsAt", "ASC"],
+        ["room", "ASC"],
+        ["id", "ASC"],
+      ],
+    });
+
+    res.json({ sessions });
+  } catch (error) {
+    console.error("Get sessions error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// Sessions of the event the current user has a seat in
+export const getMySessionRegistrations = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: "Authentication required" });
+      return;
+    }
+
+    const { id: eventId } = req.params;
+
+    const registrations = await SessionRegistration.findAll({
+      where: { userId: req.user.id },
+      include: [
+        {
+          model: Session,
+          as: "session",
+          attributes: [],
+          where: { eventId: Number(eventId) },
+        },
+      ],
+      attributes: ["sessionId"],
+    });
+
+    res.json({
+      sessionIds: registrations.map((registration) => registration.sessionId),
+    });
+  } catch (error) {
+    console.error("Get session registrations error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const createSession = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  const transaction = await sequelize.transaction();
+
+  try {
+    const { id: eventId } = req.params;
+    const {
+      title,
+      description,
+      startsAt,
+      endsAt,
+      room,
+      capacity,
+      speakerIds = [],
+    }: SessionRequest = req.body;
+
+    const event = await Event.findByPk(eventId, { transaction });
+    if (!event) {
+      await transaction.rollback();
+      res.status(404).json({ error: "Event not found" });
+      return;
+    }
+
+    // Owners, admins and co-organizers may manage the agenda
+    if (!(await hasEventAccess(req.user, event, "edit"))) {
+      await transaction.rollback();
+      res.status(403).json({
+        error: "You don't have permission to manage this event's agenda",
+      });
+      return;
+    }
+
+    const slot = {
+      startsAt: parseInTimeZone(startsAt, event.timeZone),
+      endsAt: parseInTimeZone(endsAt, event.timeZone),
+      room: room || null,
+    };
+    const slotError = await checkSessionSlot(event, slot, transaction);
+    if (slotError) {
+      await transaction.rollback();
+      res.status(400).json({ error: slotError });
+      return;
+    }
+
+    const speakers = await findEventSpeakers(event.id, speakerIds, transaction);
+    if (!speakers) {
+      await transaction.rollback();
+      res.status(400).json({ error: "Speaker not found for this event" });
+      return;
+    }
+
+    const session = await Session.create(
+      {
+        eventId: event.id,
+        title,
+        description,
+        ...slot,
+        capacity: capacity ?? null,
+      },
+      { transaction }
+    );
+    await session.setSpeakers(speakers, { transaction });
+
+    await recordAudit(
+      req,
+      {
+        action: "session.create",
+        entityType: "session",
+        entityId: session.id,
+        after: {
+          ...snapshot(session),
+          speakerIds: speakers.map((speaker) => speaker.id),
+        },
+      },
+      transaction
+    );
+
+    await transaction.commit();
+
+    res.status(201).json({
+      message: "Session created successfully",
+      session: await loadSession(session.id),
+    });
+  } catch (error) {
+    await transaction.rollback();
+    console.error("Create session error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const updateSession = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  const transaction = await sequelize.transaction();
+
+  try {
+    const { id: eventId, sessionId } = req.params;
+    const {
+      title,
+      description,
+      startsAt,
+      endsAt,
+      room,
+      capacity,
+      speakerIds,
+    }: Partial<SessionRequest> = req.body;
+
+    const event = await Event.findByPk(eventId, { transaction });
+    if (!event) {
+      await transaction.rollback();
+      res.status(404).json({ error: "Event not found" });
+      return;
+    }
+
+    // Owners, admins and co-organizers may manage the agenda
+    if (!(await hasEventAccess(req.user, event, "edit"))) {
+      await transaction.rollback();
+      res.status(403).json({
+        error: "You don't have permission to manage this event's agenda",
+      });
+      return;
+    }
+
+    const session = await Session.findOne({
+      where: { id: Number(sessionId), eventId: event.id },
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+    if (!session) {
+      await transaction.rollback();
+      res.status(404).json({ error: "Session not found" });
+      return;
+    }
+
+    // Build update data
+    const updateData: any = {};
+    if (title) updateData.title = title;
+    if (description !== undefined) updateData.description = description;
+    if (startsAt)
+      updateData.startsAt = parseInTimeZone(startsAt, event.timeZone);
+    if (endsAt) updateData.endsAt = parseInTimeZone(endsAt, event.timeZone);
+    if (room !== undefined) updateData.room = room || null;
+
+    if (startsAt || endsAt || updateData.room) {
+      const slotError = await checkSessionSlot(
+        event,
+        {
+          startsAt: updateData.startsAt ?? session.startsAt,
+          endsAt: updateData.endsAt ?? session.endsAt,
+          room: room !== undefined ? updateData.room : session.room,
+          sessionId: session.id,
+        },
+        transaction
+      );
+      if (slotError) {
+        await transaction.rollback();
+        res.status(400).json({ error: slotError });
+        return;
+      }
+    }
+
+    // Handle capacity change; seats already taken can't be given back
+    if (capacity !== undefined && capacity !== session.capacity) {
+      const registered = await SessionRegistration.count({
+        where: { sessionId: session.id },
+        transaction,
+      });
+
+      if (capacity !== null && capacity < registered) {
+        await transaction.rollback();
+        res.status(400).json({
+          error: `Cannot reduce capacity below ${registered} (current registrations)`,
+        });
+        return;
+      }
+
+      updateData.capacity = capacity;
+      updateData.availableSpots =
+        capacity === null ? null : capacity - registered;
+    }
+
+    const speakers =
+      speakerIds !== undefined
+        ? await findEventSpeakers(event.id, speakerIds, transaction)
+        : undefined;
+    if (speakers === null) {
+      await transaction.rollback();
+      res.status(400).json({ error: "Speaker not found for this event" });
+      return;
+    }
+
+    const sessionBefore = snapshot(session);
+
+    await session.update(updateData, { transaction });
+    if (speakers) {
+      await session.setSpeakers(speakers, { transaction });
+    }
+
+    await recordAudit(
+      req,
+      {
+        action: "session.update",
+        entityType: "session",
+        entityId: session.id,
+        before: sessionBefore,
+        after: {
+          ...snapshot(session),
+          ...(speakers && {
+            speakerIds: speakers.map((speaker) => speaker.id),
+          }),
+        },
+      },
+      transaction
+    );
+
+    await transaction.commit();
+
+    res.json({
+      message: "Session updated successfully",
+      session: await loadSession(session.id),
+    });
+  } catch (error) {
+    await transaction.rollback();
+    console.error("Update session error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const deleteSession = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  const transaction = await sequelize.transaction();
+
+  try {
+    const { id: eventId, sessionId } = req.params;
+
+    const event = await Event.findByPk(eventId, { transaction });
+    if (!event) {
+      await transaction.rollback();
+      res.status(404).json({ error: "Event not found" });
+      return;
+    }
+
+    // Owners, admins and co-organizers may manage the agenda
+    if (!(await hasEventAccess(req.user, event, "edit"))) {
+      await transaction.rollback();
+      res.status(403).json({
+        error: "You don't have permission to manage this event's agenda",
+      });
+      return;
+    }
+
+    const session = await Session.findOne({
+      where: { id: Number(sessionId), eventId: event.id },
+      transaction,
+    });
+    if (!session) {
+      await transaction.rollback();
+      res.status(404).json({ error: "Session not found" });
+      return;
+    }
+
+    // Registrations go with the session; let their holders know
+    const registrations = await SessionRegistration.findAll({
+      where: { sessionId: session.id },
+      attributes: ["userId"],
+      transaction,
+    });
+
+    await session.destroy({ transaction });
+
+    await recordAudit(
+      req,
+      {
+        action: "session.delete",
+        entityType: "session",
+        entityId: session.id,
+        before: { ...snapshot(session), registrations: registrations.length },
+      },
+      transaction
+    );
+
+    await notifyUsers(
+      registrations.map((registration) => registration.userId),
+      {
+        type: NotificationType.EVENT_UPDATED,
+        title: "Session removed",
+        message: `"${session.title}" has been removed from the agenda of "${event.name}".`,
+        eventId: event.id,
+      },
+      transaction
+    );
+
+    await transaction.commit();
+
+    res.json({ message: "Session deleted successfully" });
+  } catch (error) {
+    await transaction.rollback();
+    console.error("Delete session error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const registerForSession = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  const transaction = await sequelize.transaction();
+
+  try {
+    if (!req.user) {
+      await transaction.rollback();
+      res.status(401).json({ error: "Authentication required" });
+      return;
+    }
+
+    const { id: eventId, sessionId } = req.params;
+    const userId = req.user.id;
+
+    const event = await Event.findByPk(eventId, { transaction });
+    if (!event) {
+      await transaction.rollback();
+      res.status(404).json({ error: "Event not found" });
+      return;
+    }
+
+    if (event.isCanceled()) {
+      await transaction.rollback();
+      res.status(400).json({ error: "This event has been canceled" });
+      return;
+    }
+
+    const session = await Session.findOne({
+      where: { id: Number(sessionId), eventId: event.id },
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+    if (!session) {
+      await transaction.rollback();
+      res.status(404).json({ error: "Session not found" });
+      return;
+    }
+
+    if (session.startsAt <= new Date()) {
+      await transaction.rollback();
+      res.status(400).json({ error: "This session has already started" });
+      return;
+    }
+
+    // Sessions are only open to people attending the event
+    const reservation = await Reservation.findOne({
+      where: {
+        eventId: event.id,
+        userId,
+        status: {
+          [Op.in]: [ReservationStatus.CONFIRMED, ReservationStatus.CHECKED_IN],
+        },
+      },
+      transaction,
+    });
+    if (!reservation) {
+      await transaction.rollback();
+      res.status(403).json({
+        error:
+          "You need a confirmed reservation for this event to register for its sessions",
+      });
+      return;
+    }
+
+    const existingRegistration = await SessionRegistration.findOne({
+      where: { sessionId: session.id, userId },
+      transaction,
+    });
+    if (existingRegistration) {
+      await transaction.rollback();
+      res
+        .status(409)
+        .json({ error: "You are already registered for this session" });
+      return;
+    }
+
+    // Parallel tracks: attendees pick one session per time slot
+    const overlapping = await SessionRegistration.findOne({
+      where: { userId },
+      include: [
+        {
+          model: Session,
+          as: "session",
+          attributes: ["title"],
+          where: {
+            eventId: event.id,
+            startsAt: { [Op.lt]: session.endsAt },
+            endsAt: { [Op.gt]: session.startsAt },
+          },
+        },
+      ],
+      transaction,
+    });
+    if (overlapping) {
+      await transaction.rollback();
+      res.status(409).json({
+        error: `You are already registered for "${
+          overlapping.session!.title
+        }" at the same time`,
+      });
+      return;
+    }
+
+    if (session.isFull()) {
+      await transaction.rollback();
+      res.status(400).json({ error: "This session is full" });
+      return;
+    }
+
+    const registration = await SessionRegistration.create(
+      { sessionId: session.id, userId },
+      { transaction }
+    );
+
+    if (session.capacity != null) {
+      await session.decrement("availableSpots", { transaction });
+    }
+
+    await recordAudit(
+      req,
+      {
+        action: "session_registration.create",
+        entityType: "session_registration",
+        entityId: registration.id,
+        after: snapshot(registration),
+      },
+      transaction
+    );
+
+    await transaction.commit();
+
+    res.status(201).json({
+      message: "Registered for session successfully",
+      registration,
+    });
+  } catch (error) {
+    await transaction.rollback();
+    console.error("Register for session error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const cancelSessionRegistration = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  const transaction = await sequelize.transaction();
+
+  try {
+    if (!req.user) {
+      await transaction.rollback();
+      res.status(401).json({ error: "Authentication required" });
+      return;
+    }
+
+    const { id: eventId, sessionId } = req.params;
+
+    const session = await Session.findOne({
+      where: { id: Number(sessionId), eventId: Number(eventId) },
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+    if (!session) {
+      await transaction.rollback();
+      res.status(404).json({ error: "Session not found" });
+      return;
+    }
+
+    const registration = await SessionRegistration.findOne({
+      where: { sessionId: session.id, userId: req.user.id },
+      transaction,
+    });
+    if (!registration) {
+      await transaction.rollback();
+      res
+        .status(404)
+        .json({ error: "You are not registered for this session" });
+      return;
+    }
+
+    await registration.destroy({ transaction });
+
+    if (session.capacity != null) {
+      await session.increment("availableSpots", { transaction });
+    }
+
+    await recordAudit(
+      req,
+      {
+        action: "session_registration.cancel",
+        entityType: "session_registration",
+        entityId: registration.id,
+        before: snapshot(registration),
+      },
+      transaction
+    );
+
+    await transaction.commit();
+
+    res.json({ message: "Session registration canceled successfully" });
+  } catch (error) {
+    await transaction.rollback();
+    console.error("Cancel session registration error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
@@ -0,0 +1,179 @@
+import { Response } from "express";
+import { AuthenticatedRequest, SpeakerRequest } from "../types/index.js";
+import { Event, Speaker } from "../models/index.js";
+import { canViewEvent, hasEventAccess } from "../utils/eventAccess.js";
+import { recordAudit, snapshot } from "../services/auditService.js";
+
+export const getEventSpeakers = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id: eventId } = req.params;
+
+    const event = await Event.findByPk(eventId);
+    if (!event || !(await canViewEvent(req.user, event))) {
+      res.status(404).json({ error: "Event not found" });
+      return;
+    }
+
+    const speakers = await Speaker.findAll({
+      where: { eventId: event.id },
+      order: [["name", "ASC"]],
+    });
+
+    res.json({ speakers });
+  } catch (error) {
+    console.error("Get speakers error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const createSpeaker = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id: eventId } = req.params;
+    const { name, headline, bio }: SpeakerRequest = req.body;
+
+    const event = await Event.findByPk(eventId);
+    if (!event) {
+      res.status(404).json({ error: "Event not found" });
+      return;
+    }
+
+    // Owners, admins and co-organizers may manage the lineup
+    if (!(await hasEventAccess(req.user, event, "edit"))) {
+      res.status(403).json({
+        error: "You don't have permission to manage this event's speakers",
+      });
+      return;
+    }
+
+    const speaker = await Speaker.create({
+      eventId: event.id,
+      name,
+      headline,
+      bio,
+    });
+
+    await recordAudit(req, {
+      action: "speaker.create",
+      entityType: "speaker",
+      entityId: speaker.id,
+      after: snapshot(speaker),
+    });
+
+    res.status(201).json({
+      message: "Speaker created successfully",
+      speaker,
+    });
+  } catch (error) {
+    console.error("Create speaker error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const updateSpeaker = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id: eventId, speakerId } = req.params;
+    const { name, headline, bio }: Partial<SpeakerRequest> = req.body;
+
+    const event = await Event.findByPk(eventId);
+    if (!event) {
+      res.status(404).json({ error: "Event not found" });
+      return;
+    }
+
+    // Owners, admins and co-organizers may manage the lineup
+    if (!(await hasEventAccess(req.user, event, "edit"))) {
+      res.status(403).json({
+        error: "You don't have permission to manage this event's speakers",
+      });
+      return;
+    }
+
+    const speaker = await Speaker.findOne({
+      where: { id: Number(speakerId), eventId: event.id },
+    });
+    if (!speaker) {
+      res.status(404).json({ error: "Speaker not found" });
+      return;
+    }
+
+    const updateData: Partial<SpeakerRequest> = {};
+    if (name) updateData.name = name;
+    if (headline !== undefined) updateData.headline = headline;
+    if (bio !== undefined) updateData.bio = bio;
+
+    const speakerBefore = snapshot(speaker);
+
+    await speaker.update(updateData);
+
+    await recordAudit(req, {
+      action: "speaker.update",
+      entityType: "speaker",
+      entityId: speaker.id,
+      before: speakerBefore,
+      after: snapshot(speaker),
+    });
+
+    res.json({
+      message: "Speaker updated successfully",
+      speaker,
+    });
+  } catch (error) {
+    console.error("Update speaker error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const deleteSpeaker = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id: eventId, speakerId } = req.params;
+
+    const event = await Event.findByPk(eventId);
+    if (!event) {
+      res.status(404).json({ error: "Event not found" });
+      return;
+    }
+
+    // Owners, admins and co-organizers may manage the lineup
+    if (!(await hasEventAccess(req.user, event, "edit"))) {
+      res.status(403).json({
+        error: "You don't have permission to manage this event's speakers",
+      });
+      return;
+    }
+
+    const speaker = await Speaker.findOne({
+      where: { id: Number(speakerId), eventId: event.id },
+    });
+    if (!speaker) {
+      res.status(404).json({ error: "Speaker not found" });
+      return;
+    }
+
+    // Their sessions stay on the agenda without them
+    await speaker.destroy();
+
+    await recordAudit(req, {
+      action: "speaker.delete",
+      entityType: "speaker",
+      entityId: speaker.id,
+      before: snapshot(speaker),
+    });
+
+    res.json({ message: "Speaker deleted successfully" });
+  } catch (error) {
+    console.error("Delete speaker error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
@@ -0,0 +1,317 @@
+import { Response } from "express";
+import { Op } from "sequelize";
+import {
+  AuthenticatedRequest,
+  CreateTicketTypeRequest,
+  ReservationStatus,
+  UpdateTicketTypeRequest,
+} from "../types/index.js";
+import { Event, Reservation, TicketType } from "../models/index.js";
+import sequelize from "../config/database.js";
+import { clearEventCaches } from "../utils/cache.js";
+import { canViewEvent, hasEventAccess } from "../utils/eventAccess.js";
+import { recordAudit, snapshot } from "../services/auditService.js";
+
+// Sum the capacity already allocated to an event's other ticket types
+const getAllocatedCapacity = async (
+  eventId: number,
+  excludeTicketTypeId?: number
+): Promise<number> => {
+  const whereConditions: any = { eventId };
+  if (excludeTicketTypeId) {
+    whereConditions.id = { [Op.ne]: excludeTicketTypeId };
+  }
+
+  const allocated = await TicketType.sum("capacity", {
+    where: whereConditions,
+  });
+  return Number(allocated) || 0;
+};
+
+export const getEventTicketTypes = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id: eventId } = req.params;
+
+    // Check if event exists
+    const event = await Event.findByPk(eventId);
+    if (!event || !(await canViewEvent(req.user, event))) {
+      res.status(404).json({ error: "Event not found" });
+      return;
+    }
+
+    const ticketTypes = await TicketType.findAll({
+      where: { eventId: event.id },
+      order: [
+        ["price", "ASC"],
+        ["id", "ASC"],
+      ],
+    });
+
+    res.json({
+      ticketTypes: ticketTypes.map((ticketType) => ({
+        ...ticketType.toJSON(),
+        salesStatus: ticketType.getSalesStatus(),
+      })),
+    });
+  } catch (error) {
+    console.error("Get ticket types error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const createTicketType = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id: eventId } = req.params;
+    const {
+      name,
+      description,
+      price,
+      capacity,
+      salesStartAt,
+      salesEndAt,
+    }: CreateTicketTypeRequest = req.body;
+
+    const event = await Event.findByPk(eventId);
+    if (!event) {
+      res.status(404).json({ error: "Event not found" });
+      return;
+    }
+
+    // Owners, admins and co-organizers may manage ticket types
+    if (!(await hasEventAccess(req.user, event, "edit"))) {
+      res.status(403).json({
+        error: "You don't have permission to manage tickets for this event",
+      });
+      return;
+    }
+
+    // Tiers share the event's seats, so together they can't exceed it
+    const allocated = await getAllocatedCapacity(event.id);
+    if (allocated + capacity > event.maxCapacity) {
+      res.status(400).json({
+        error: `Only ${
+          event.maxCapacity - allocated
+        } spot(s) of the event capacity are left to allocate`,
+      });
+      return;
+    }
+
+    const ticketType = await TicketType.create({
+      eventId: event.id,
+      name,
+      description,
+      price,
+      capacity,
+      availableSpots: capacity,
+      salesStartAt: salesStartAt ? new Date(salesStartAt) : null,
+      salesEndAt: salesEndAt ? new Date(salesEndAt) : null,
+    });
+
+    await recordAudit(req, {
+      action: "ticket_type.create",
+      entityType: "ticket_type",
+      entityId: ticketType.id,
+      after: snapshot(ticketType),
+    });
+
+    // Invalidate related caches
+    await clearEventCaches(event.id);
+
+    res.status(201).json({
+      message: "Ticket type created successfully",
+      ticketType: {
+        ...ticketType.toJSON(),
+        salesStatus: ticketType.getSalesStatus(),
+      },
+    });
+  } catch (error) {
+    console.error("Create ticket type error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const updateTicketType = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  const transaction = await sequelize.transaction();
+
+  try {
+    const { id: eventId, ticketTypeId } = req.params;
+    const {
+      name,
+      description,
+      price,
+      capacity,
+      salesStartAt,
+      salesEndAt,
+    }: UpdateTicketTypeRequest = req.body;
+
+    const event = await Event.findByPk(eventId, { transaction });
+    if (!event) {
+      await transaction.rollback();
+      res.status(404).json({ error: "Event not found" });
+      return;
+    }
+
+    // Owners, admins and co-organizers may manage ticket types
+    if (!(await hasEventAccess(req.user, event, "edit"))) {
+      await transaction.rollback();
+      res.status(403).json({
+        error: "You don't have permission to manage tickets for this event",
+      });
+      return;
+    }
+
+    const ticketType = await TicketType.findOne({
+      where: { id: Number(ticketTypeId), eventId: event.id },
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+    if (!ticketType) {
+      await transaction.rollback();
+      res.status(404).json({ error: "Ticket type not found" });
+      return;
+    }
+
+    // Build update data
+    const updateData: any = {};
+    if (name) updateData.name = name;
+    if (description !== undefined) updateData.description = description;
+    if (price !== undefined) updateData.price = price;
+    if (salesStartAt !== undefined)
+      updateData.salesStartAt = salesStartAt ? new Date(salesStartAt) : null;
+    if (salesEndAt !== undefined)
+      updateData.salesEndAt = salesEndAt ? new Date(salesEndAt) : null;
+
+    // Handle capacity change
+    if (capacity && capacity !== ticketType.capacity) {
+      const soldSpots = ticketType.capacity - ticketType.availableSpots;
+
+      if (capacity < soldSpots) {
+        await transaction.rollback();
+        res.status(400).json({
+          error: `Cannot reduce capacity below ${soldSpots} (current reservations)`,
+        });
+        return;
+      }
+
+      const allocated = await getAllocatedCapacity(event.id, ticketType.id);
+      if (allocated + capacity > event.maxCapacity) {
+        await transaction.rollback();
+        res.status(400).json({
+          error: `Only ${
+            event.maxCapacity - allocated
+          } spot(s) of the event capacity are left to allocate`,
+        });
+        return;
+      }
+
+      updateData.capacity = capacity;
+      updateData.availableSpots = capacity - soldSpots;
+    }
+
+    const ticketTypeBefore = snapshot(ticketType);
+
+    await ticketType.update(updateData, { transaction });
+
+    await recordAudit(
+      req,
+      {
+        action: "ticket_type.update",
+        entityType: "ticket_type",
+        entityId: ticketType.id,
+        before: ticketTypeBefore,
+        after: snapshot(ticketType),
+      },
+      transaction
+    );
+
+    await transaction.commit();
+
+    // Invalidate related caches
+    await clearEventCaches(event.id);
+
+    res.json({
+      message: "Ticket type updated successfully",
+      ticketType: {
+        ...ticketType.toJSON(),
+        salesStatus: ticketType.getSalesStatus(),
+      },
+    });
+  } catch (error) {
+    await transaction.rollback();
+    console.error("Update ticket type error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const deleteTicketType = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id: eventId, ticketTypeId } = req.params;
+
+    const event = await Event.findByPk(eventId);
+    if (!event) {
+      res.status(404).json({ error: "Event not found" });
+      return;
+    }
+
+    // Owners, admins and co-organizers may manage ticket types
+    if (!(await hasEventAccess(req.user, event, "edit"))) {
+      res.status(403).json({
+        error: "You don't have permission to manage tickets for this event",
+      });
+      return;
+    }
+
+    const ticketType = await TicketType.findOne({
+      where: { id: Number(ticketTypeId), eventId: event.id },
+    });
+    if (!ticketType) {
+      res.status(404).json({ error: "Ticket type not found" });
+      return;
+    }
+
+    // Sold tickets must be canceled before their tier can go away
+    const activeReservations = await Reservation.count({
+      where: {
+        ticketTypeId: ticketType.id,
+        status: {
+          [Op.in]: [ReservationStatus.CONFIRMED, ReservationStatus.CHECKED_IN],
+        },
+      },
+    });
+    if (activeReservations > 0) {
+      res.status(409).json({
+        error: "Cannot delete a ticket type that has active reservations",
+      });
+      return;
+    }
+
+    await ticketType.destroy();
+
+    await recordAudit(req, {
+      action: "ticket_type.delete",
+      entityType: "ticket_type",
+      entityId: ticketType.id,
+      before: snapshot(ticketType),
+    });
+
+    // Invalidate related caches
+    await clearEventCaches(event.id);
+
+    res.json({ message: "Ticket type deleted successfully" });
+  } catch (error) {
+    console.error("Delete ticket type error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
@@ -0,0 +1,208 @@
+import { Response } from "express";
+import {
+  AuthenticatedRequest,
+  DisableTwoFactorRequest,
+  TwoFactorCodeRequest,
+} from "../types/index.js";
+import { User } from "../models/index.js";
+import {
+  disableTwoFactor as turnOffTwoFactor,
+  enableTwoFactor as turnOnTwoFactor,
+  generateRecoveryCodes,
+  isTwoFactorMandatoryForAdmins,
+  startTwoFactorEnrollment,
+  verifySecondFactor,
+  verifyTotpCode,
+} from "../services/twoFactorService.js";
+import { issueTokenPair, revokeUserTokens } from "../services/tokenService.js";
+import { ADMIN_ROLE } from "../services/permissionService.js";
+import { cacheUtils, CACHE_KEYS } from "../config/redis.js";
+
+export const setupTwoFactor = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: "Authentication required" });
+      return;
+    }
+
+    const user = await User.findByPk(req.user.id);
+    if (!user) {
+      res.status(404).json({ error: "User not found" });
+      return;
+    }
+
+    if (user.isTwoFactorEnabled()) {
+      res
+        .status(409)
+        .json({ error: "Two-factor authentication is already enabled" });
+      return;
+    }
+
+    const { secret, otpauthUrl } = await startTwoFactorEnrollment(user);
+
+    res.json({
+      message: "Scan the QR code with your authenticator app",
+      secret,
+      otpauthUrl,
+    });
+  } catch (error) {
+    console.error("Setup two-factor error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const enableTwoFactor = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { code }: TwoFactorCodeRequest = req.body;
+
+    if (!req.user) {
+      res.status(401).json({ error: "Authentication required" });
+      return;
+    }
+
+    const user = await User.findByPk(req.user.id);
+    if (!user) {
+      res.status(404).json({ error: "User not found" });
+      return;
+    }
+
+    if (user.isTwoFactorEnabled()) {
+      res
+        .status(409)
+        .json({ error: "Two-factor authentication is already enabled" });
+      return;
+    }
+
+    if (!user.twoFactorSecret) {
+      res.status(400).json({ error: "Start two-factor setup first" });
+      return;
+    }
+
+    const recoveryCodes = await turnOnTwoFactor(user, code);
+    if (!recoveryCodes) {
+      res.status(400).json({ error: "Invalid authentication code" });
+      return;
+    }
+
+    // Sessions that started with just a password are ended; this one
+    // continues with fresh tokens
+    await revokeUserTokens(user.id);
+    const { token, refreshToken } = await issueTokenPair(user);
+    await cacheUtils.del(CACHE_KEYS.USER_PROFILE(user.id));
+
+    res.json({
+      message: "Two-factor authentication enabled",
+      user: user.toJSON(),
+      recoveryCodes,
+      token,
+      refreshToken,
+    });
+  } catch (error) {
+    console.error("Enable two-factor error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const disableTwoFactor = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { password, code, recoveryCode }: DisableTwoFactorRequest = req.body;
+
+    if (!req.user) {
+      res.status(401).json({ error: "Authentication required" });
+      return;
+    }
+
+    const user = await User.findByPk(req.user.id);
+    if (!user) {
+      res.status(404).json({ error: "User not found" });
+      return;
+    }
+
+    if (!user.isTwoFactorEnabled()) {
+      res
+        .status(400)
+        .json({ error: "Two-factor authentication is not enabled" });
+      return;
+    }
+
+    if (user.role === ADMIN_ROLE && isTwoFactorMandatoryForAdmins()) {
+      res.status(403).json({
+        error: "Two-factor authentication is mandatory for admin accounts",
+      });
+      return;
+    }
+
+    const isValidPassword = await user.validatePassword(password);
+    if (
+      !isValidPassword ||
+      !(await verifySecondFactor(user, { code, recoveryCode }))
+    ) {
+      res
+        .status(401)
+        .json({ error: "Invalid password or authentication code" });
+      return;
+    }
+
+    await turnOffTwoFactor(user);
+    await cacheUtils.del(CACHE_KEYS.USER_PROFILE(user.id));
+
+    res.json({
+      message: "Two-factor authentication disabled",
+      user: user.toJSON(),
+    });
+  } catch (error) {
+    console.error("Disable two-factor error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const regenerateRecoveryCodes = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { code }: TwoFactorCodeRequest = req.body;
+
+    if (!req.user) {
+      res.status(401).json({ error: "Authentication required" });
+      return;
+    }
+
+    const user = await User.findByPk(req.user.id);
+    if (!user) {
+      res.status(404).json({ error: "User not found" });
+      return;
+    }
+
+    if (!user.isTwoFactorEnabled()) {
+      res
+        .status(400)
+        .json({ error: "Two-factor authentication is not enabled" });
+      return;
+    }
+
+    if (!verifyTotpCode(user, code)) {
+      res.status(400).json({ error: "Invalid authentication code" });
+      return;
+    }
+
+    const recoveryCodes = await generateRecoveryCodes(user.id);
+
+    res.json({
+      message: "New recovery codes generated",
+      recoveryCodes,
+    });
+  } catch (error) {
+    console.error("Regenerate recovery codes error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
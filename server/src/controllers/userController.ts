@@ -1,8 +1,19 @@
 import { Response } from "express";
 import { AuthenticatedRequest, CreateUserRequest } from "../types/index.js";
-import { User } from "../models/index.js";
+import { Role, User } from "../models/index.js";
 import { Op } from "sequelize";
+import sequelize from "../config/database.js";
 import { cacheUtils, CACHE_KEYS } from "../config/redis.js";
+import { sendVerificationEmail } from "../services/emailVerificationService.js";
+import { recordAudit, snapshot } from "../services/auditService.js";
+import { releaseUserBookings } from "../services/trashService.js";
+import { revokeUserTokens } from "../services/tokenService.js";
+import { broadcastEventAvailability } from "../services/realtimeService.js";
+import { clearEventCaches } from "../utils/cache.js";
+import {
+  getAccountLockedUntil,
+  unlockAccount,
+} from "../services/loginThrottleService.js";
 
 export const getAllUsers = async (
   req: AuthenticatedRequest,
@@ -29,8 +40,16 @@ export const getAllUsers = async (
       order: [["createdAt", "DESC"]],
     });
 
+    // Lockouts live in Redis, so attach them to each user here
+    const lockedUntil = await Promise.all(
+      users.map((user) => getAccountLockedUntil(user.email))
+    );
+
     res.json({
-      users: users.map((user) => user.toJSON()),
+      users: users.map((user, index) => ({
+        ...user.toJSON(),
+        lockedUntil: lockedUntil[index],
+      })),
       pagination: {
         total: count,
         page: Number(page),
@@ -57,7 +76,12 @@ export const getUserById = async (
       return;
     }
 
-    res.json({ user: user.toJSON() });
+    res.json({
+      user: {
+        ...user.toJSON(),
+        lockedUntil: await getAccountLockedUntil(user.email),
+      },
+    });
   } catch (error) {
     console.error("Get user by ID error:", error);
     res.status(500).json({ error: "Internal server error" });
@@ -70,7 +94,7 @@ export const updateUser = async (
 ): Promise<void> => {
   try {
     const { id } = req.params;
-    const { email, firstName, lastName, role } = req.body;
+    const { email, firstName, lastName } = req.body;
 
     const user = await User.findByPk(id);
     if (!user) {
@@ -80,22 +104,45 @@ export const updateUser = async (
 
     // Check if email is already taken by another user
     if (email && email !== user.email) {
-      const existingUser = await User.findOne({ where: { email } });
+      const existingUser = await User.findOne({
+        where: { email },
+        paranoid: false,
+      });
       if (existingUser) {
         res.status(409).json({ error: "Email is already taken" });
         return;
       }
     }
 
+    const emailChanged = !!email && email !== user.email;
+
     // Update user fields
     const updateData: any = {};
     if (email) updateData.email = email;
     if (firstName !== undefined) updateData.firstName = firstName;
     if (lastName !== undefined) updateData.lastName = lastName;
-    if (role && req.user?.role === "admin") updateData.role = role;
+
+    const userBefore = snapshot(user);
 
     await user.update(updateData);
 
+    await recordAudit(req, {
+      action: "user.update",
+      entityType: "user",
+      entityId: user.id,
+      before: userBefore,
+      after: snapshot(user),
+    });
+
+    // Changing the address resets verification, so confirm the new one
+    if (emailChanged) {
+      try {
+        await sendVerificationEmail(user);
+      } catch (mailError) {
+        console.error("Verification email error:", mailError);
+      }
+    }
+
     // Invalidate user profile and session cache to ensure fresh data
     await Promise.all([
       cacheUtils.del(CACHE_KEYS.USER_PROFILE(user.id)),
@@ -112,7 +159,60 @@ export const updateUser = async (
   }
 };
 
-export const deleteUser = async (
+export const assignUserRole = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { role: roleName } = req.body;
+
+    const user = await User.findByPk(id);
+    if (!user) {
+      res.status(404).json({ error: "User not found" });
+      return;
+    }
+
+    // Keeps admins from locking themselves out of role management
+    if (req.user?.id === user.id) {
+      res.status(400).json({ error: "Cannot change your own role" });
+      return;
+    }
+
+    const role = await Role.findOne({ where: { name: roleName } });
+    if (!role) {
+      res.status(400).json({ error: "Role not found" });
+      return;
+    }
+
+    const previousRole = user.role;
+
+    await user.update({ role: role.name });
+
+    await recordAudit(req, {
+      action: "user.role_change",
+      entityType: "user",
+      entityId: user.id,
+      before: { role: previousRole },
+      after: { role: user.role },
+    });
+
+    await Promise.all([
+      cacheUtils.del(CACHE_KEYS.USER_PROFILE(user.id)),
+      cacheUtils.del(CACHE_KEYS.USER_SESSION(user.id)),
+    ]);
+
+    res.json({
+      message: "User role updated successfully",
+      user: user.toJSON(),
+    });
+  } catch (error) {
+    console.error("Assign user role error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const unlockUser = async (
   req: AuthenticatedRequest,
   res: Response
 ): Promise<void> => {
@@ -125,21 +225,154 @@ export const deleteUser = async (
       return;
     }
 
+    await unlockAccount(user.email);
+
+    await recordAudit(req, {
+      action: "user.unlock",
+      entityType: "user",
+      entityId: user.id,
+    });
+
+    res.json({
+      message: "User account unlocked successfully",
+      user: { ...user.toJSON(), lockedUntil: null },
+    });
+  } catch (error) {
+    console.error("Unlock user error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const deleteUser = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  const transaction = await sequelize.transaction();
+
+  try {
+    const { id } = req.params;
+
+    const user = await User.findByPk(id, { transaction });
+    if (!user) {
+      await transaction.rollback();
+      res.status(404).json({ error: "User not found" });
+      return;
+    }
+
     // Prevent admin from deleting themselves
     if (req.user?.id === user.id) {
+      await transaction.rollback();
       res.status(400).json({ error: "Cannot delete your own account" });
       return;
     }
 
-    await user.destroy();
+    // Give the user's upcoming seats back before the account goes away
+    const affectedEventIds = await releaseUserBookings(user.id, transaction);
+
+    // Soft delete; the account stays restorable until the trash is purged
+    await user.destroy({ transaction });
+
+    await recordAudit(
+      req,
+      {
+        action: "user.delete",
+        entityType: "user",
+        entityId: user.id,
+        before: snapshot(user),
+      },
+      transaction
+    );
+
+    await transaction.commit();
+
+    await revokeUserTokens(user.id);
+
+    for (const eventId of affectedEventIds) {
+      await clearEventCaches(eventId);
+      await broadcastEventAvailability(eventId);
+    }
 
     res.json({ message: "User deleted successfully" });
   } catch (error) {
+    await transaction.rollback();
     console.error("Delete user error:", error);
     res.status(500).json({ error: "Internal server error" });
   }
 };
 
+export const getDeletedUsers = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { page = 1, limit = 10, search } = req.query;
+    const offset = (Number(page) - 1) * Number(limit);
+
+    const searchCondition = search
+      ? {
+          [Op.or]: [
+            { email: { [Op.iLike]: `%${search}%` } },
+            { firstName: { [Op.iLike]: `%${search}%` } },
+            { lastName: { [Op.iLike]: `%${search}%` } },
+          ],
+        }
+      : {};
+
+    const { count, rows: users } = await User.findAndCountAll({
+      where: { ...searchCondition, deletedAt: { [Op.ne]: null } },
+      paranoid: false,
+      limit: Number(limit),
+      offset,
+      order: [["deletedAt", "DESC"]],
+    });
+
+    res.json({
+      users,
+      pagination: {
+        total: count,
+        page: Number(page),
+        limit: Number(limit),
+        totalPages: Math.ceil(count / Number(limit)),
+      },
+    });
+  } catch (error) {
+    console.error("Get deleted users error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const restoreUser = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const user = await User.findByPk(id, { paranoid: false });
+    if (!user || !user.deletedAt) {
+      res.status(404).json({ error: "Deleted user not found" });
+      return;
+    }
+
+    await user.restore();
+
+    await recordAudit(req, {
+      action: "user.restore",
+      entityType: "user",
+      entityId: user.id,
+      after: snapshot(user),
+    });
+
+    res.json({
+      message: "User restored successfully",
+      user,
+    });
+  } catch (error) {
+    console.error("Restore user error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
 export const updateProfile = async (
   req: AuthenticatedRequest,
   res: Response
@@ -160,13 +393,18 @@ export const updateProfile = async (
 
     // Check if email is already taken by another user
     if (email && email !== user.email) {
-      const existingUser = await User.findOne({ where: { email } });
+      const existingUser = await User.findOne({
+        where: { email },
+        paranoid: false,
+      });
       if (existingUser) {
         res.status(409).json({ error: "Email is already taken" });
         return;
       }
     }
 
+    const emailChanged = !!email && email !== user.email;
+
     // Update user fields
     const updateData: any = {};
     if (email) updateData.email = email;
@@ -175,6 +413,15 @@ export const updateProfile = async (
 
     await user.update(updateData);
 
+    // Changing the address resets verification, so confirm the new one
+    if (emailChanged) {
+      try {
+        await sendVerificationEmail(user);
+      } catch (mailError) {
+        console.error("Verification email error:", mailError);
+      }
+    }
+
     // Invalidate user profile and session cache to ensure fresh data
     await Promise.all([
       cacheUtils.del(CACHE_KEYS.USER_PROFILE(req.user.id)),
@@ -0,0 +1,189 @@
+import { Response } from "express";
+import { AuthenticatedRequest, VenueRequest } from "../types/index.js";
+import { Event, Venue } from "../models/index.js";
+import { clearEventCaches } from "../utils/cache.js";
+import { recordAudit, snapshot } from "../services/auditService.js";
+
+export const getVenues = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const venues = await Venue.findAll({ order: [["name", "ASC"]] });
+
+    res.json({ venues });
+  } catch (error) {
+    console.error("Get venues error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const getVenueById = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const venue = await Venue.findByPk(id);
+    if (!venue) {
+      res.status(404).json({ error: "Venue not found" });
+      return;
+    }
+
+    res.json({ venue });
+  } catch (error) {
+    console.error("Get venue error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const createVenue = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const {
+      name,
+      address,
+      latitude,
+      longitude,
+      capacity,
+      wheelchairAccessible,
+      accessibilityNotes,
+    }: VenueRequest = req.body;
+
+    const venue = await Venue.create({
+      name,
+      address,
+      latitude,
+      longitude,
+      capacity,
+      wheelchairAccessible,
+      accessibilityNotes,
+    });
+
+    await recordAudit(req, {
+      action: "venue.create",
+      entityType: "venue",
+      entityId: venue.id,
+      after: snapshot(venue),
+    });
+
+    res.status(201).json({
+      message: "Venue created successfully",
+      venue,
+    });
+  } catch (error) {
+    console.error("Create venue error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const updateVenue = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const {
+      name,
+      address,
+      latitude,
+      longitude,
+      capacity,
+      wheelchairAccessible,
+      accessibilityNotes,
+    }: Partial<VenueRequest> = req.body;
+
+    const venue = await Venue.findByPk(id);
+    if (!venue) {
+      res.status(404).json({ error: "Venue not found" });
+      return;
+    }
+
+    // Events already at the venue must still fit
+    if (capacity) {
+      const largestEvent = Number(
+        await Event.max("maxCapacity", { where: { venueId: venue.id } })
+      );
+      if (largestEvent > capacity) {
+        res.status(400).json({
+          error: `Capacity cannot be below ${largestEvent} (largest event at this venue)`,
+        });
+        return;
+      }
+    }
+
+    const updateData: Partial<VenueRequest> = {};
+    if (name !== undefined) updateData.name = name;
+    if (address !== undefined) updateData.address = address;
+    if (latitude !== undefined) updateData.latitude = latitude;
+    if (longitude !== undefined) updateData.longitude = longitude;
+    if (capacity !== undefined) updateData.capacity = capacity;
+    if (wheelchairAccessible !== undefined)
+      updateData.wheelchairAccessible = wheelchairAccessible;
+    if (accessibilityNotes !== undefined)
+      updateData.accessibilityNotes = accessibilityNotes;
+
+    const venueBefore = snapshot(venue);
+
+    await venue.update(updateData);
+
+    await recordAudit(req, {
+      action: "venue.update",
+      entityType: "venue",
+      entityId: venue.id,
+      before: venueBefore,
+      after: snapshot(venue),
+    });
+
+    // Cached lists embed the venue and its position
+    await clearEventCaches();
+
+    res.json({
+      message: "Venue updated successfully",
+      venue,
+    });
+  } catch (error) {
+    console.error("Update venue error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const deleteVenue = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const venue = await Venue.findByPk(id);
+    if (!venue) {
+      res.status(404).json({ error: "Venue not found" });
+      return;
+    }
+
+    // Events at the venue, trashed ones included, lose their venue
+    const eventCount = await Event.count({
+      where: { venueId: venue.id },
+      paranoid: false,
+    });
+
+    await venue.destroy();
+
+    await recordAudit(req, {
+      action: "venue.delete",
+      entityType: "venue",
+      entityId: venue.id,
+      before: { ...snapshot(venue), eventCount },
+    });
+
+    await clearEventCaches();
+
+    res.json({ message: "Venue deleted successfully" });
+  } catch (error) {
+    console.error("Delete venue error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
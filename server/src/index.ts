@@ -1,12 +1,14 @@
 import express from "express";
+import { createServer } from "http";
 import cors from "cors";
 import helmet from "helmet";
-import rateLimit from "express-rate-limit";
 import dotenv from "dotenv";
 
 // Import configurations
 import sequelize from "./config/database.js";
 import redis from "./config/redis.js";
+import { initSocket } from "./config/socket.js";
+import { apiRateLimiter } from "./middleware/rateLimit.js";
 
 // Import models to initialize associations
 import "./models/index.js";
@@ -16,35 +18,56 @@ import authRoutes from "./routes/authRoutes.js";
 import userRoutes from "./routes/userRoutes.js";
 import eventRoutes from "./routes/eventRoutes.js";
 import reservationRoutes from "./routes/reservationRoutes.js";
+import notificationRoutes from "./routes/notificationRoutes.js";
+import roleRoutes from "./routes/roleRoutes.js";
+import auditLogRoutes from "./routes/auditLogRoutes.js";
+import categoryRoutes from "./routes/categoryRoutes.js";
+import venueRoutes from "./routes/venueRoutes.js";
+
+// Import background jobs
+import { startNoShowSweep } from "./services/attendanceService.js";
+import { startTrashPurge } from "./services/trashService.js";
+import { startPublishSweep } from "./services/publishingService.js";
+import { ensureSystemRoles } from "./services/permissionService.js";
+import { ensureEventSearch } from "./services/searchService.js";
+import { ensureVenueGeo } from "./services/venueService.js";
+import {
+  upgradeSchemaBeforeSync,
+  upgradeSchemaAfterSync,
+} from "./services/schemaService.js";
 
 // Load environment variables
 dotenv.config();
 
 const app = express();
+const httpServer = createServer(app);
 const PORT = process.env.PORT || 4000;
 
+const allowedOrigins = [
+  process.env.CORS_ORIGIN || "http://localhost:3000",
+  "http://localhost:5173", // Vite development server
+  "http://127.0.0.1:5173", // Alternative localhost
+];
+
+// Real-time updates share the HTTP server with the REST API
+initSocket(httpServer, allowedOrigins);
+
 // Security middleware
 app.use(helmet());
 app.use(
   cors({
-    origin: [
-      process.env.CORS_ORIGIN || "http://localhost:3000",
-      "http://localhost:5173", // Vite development server
-      "http://127.0.0.1:5173", // Alternative localhost
-    ],
+    origin: allowedOrigins,
     credentials: true,
     methods: ["GET", "POST", "PUT", "DELETE", "PATCH", "OPTIONS"],
     allowedHeaders: ["Content-Type", "Authorization", "X-Requested-With"],
   })
 );
 
-// Rate limiting
-// const limiter = rateLimit({
-//   windowMs: 15 * 60 * 1000, // 15 minutes
-//   max: 100, // limit each IP to 100 requests per windowMs
-//   message: "Too many requests from this IP, please try again later.",
-// });
-// app.use(limiter);
+// Number of reverse proxies in front of the app, so req.ip is the client's
+app.set("trust proxy", Number(process.env.TRUST_PROXY || 0));
+
+// Rate limiting (shared across instances through Redis)
+app.use("/api", apiRateLimiter);
 
 // Body parsing middleware
 app.use(express.json({ limit: "10mb" }));
@@ -64,6 +87,11 @@ app.use("/api/auth", authRoutes);
 app.use("/api/users", userRoutes);
 app.use("/api/events", eventRoutes);
 app.use("/api/reservations", reservationRoutes);
+app.use("/api/notifications", notificationRoutes);
+app.use("/api/roles", roleRoutes);
+app.use("/api/audit-logs", auditLogRoutes);
+app.use("/api/categories", categoryRoutes);
+app.use("/api/venues", venueRoutes);
 
 // 404 handler
 app.use("*", (req, res) => {
@@ -113,7 +141,7 @@ app.use(
 const startServer = async () => {
   try {
     // Start the server first
-    app.listen(PORT, () => {
+    httpServer.listen(PORT, () => {
       console.log(`🚀 Server running on http://localhost:${PORT}`);
       console.log(
         `📖 Health check available at http://localhost:${PORT}/health`
@@ -126,9 +154,21 @@ const startServer = async () => {
       await sequelize.authenticate();
       console.log("✅ Database connected successfully");
 
+      // Bring tables created by earlier versions up to date
+      await upgradeSchemaBeforeSync();
+
       // Sync database models without forcing recreation
       await sequelize.sync({ force: false });
       console.log("✅ Database synced successfully");
+
+      await ensureSystemRoles();
+      await upgradeSchemaAfterSync();
+      await ensureEventSearch();
+      await ensureVenueGeo();
+
+      startNoShowSweep();
+      startTrashPurge();
+      startPublishSweep();
     } catch (error) {
       console.log(
         "⚠️  Database connection failed - some features may not work:",
@@ -1,6 +1,12 @@
 import { Response, NextFunction } from "express";
-import { AuthenticatedRequest } from "../types/index.js";
+import { AuthenticatedRequest, Permission } from "../types/index.js";
 import { verifyToken, extractTokenFromHeader } from "../utils/jwt.js";
+import { User } from "../models/index.js";
+import {
+  getRolePermissions,
+  needsTwoFactorSetup,
+} from "../services/permissionService.js";
+import { EventCapability, hasStaffCapability } from "../utils/eventAccess.js";
 
 export const authenticate = (
   req: AuthenticatedRequest,
@@ -23,28 +29,138 @@ export const authenticate = (
   }
 };
 
-export const requireRole = (role: "user" | "admin") => {
-  return (
+// For public routes that show more to signed-in users: a valid token sets
+// req.user, a missing or invalid one leaves the request anonymous
+export const optionalAuthenticate = (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): void => {
+  try {
+    const token = extractTokenFromHeader(req.headers.authorization);
+    if (token) {
+      req.user = verifyToken(token);
+    }
+  } catch (error) {
+    req.user = undefined;
+  }
+  next();
+};
+
+// Reload the user's role so changes apply without a new token, and hold
+// admins to mandatory 2FA (ADMIN_2FA_REQUIRED=true). Sends the error response
+// and returns null when the request may not go on.
+const loadCurrentUser = async (
+  req: AuthenticatedRequest,
+  res: Response
+): Promise<User | null> => {
+  const user = await User.findByPk(req.user!.id, {
+    attributes: ["id", "role", "twoFactorEnabledAt"],
+  });
+
+  if (!user) {
+    res.status(401).json({ error: "Authentication required" });
+    return null;
+  }
+
+  if (needsTwoFactorSetup(user)) {
+    res.status(403).json({
+      error:
+        "Two-factor authentication must be enabled to access admin features",
+      code: "TWO_FACTOR_SETUP_REQUIRED",
+    });
+    return null;
+  }
+
+  req.user!.role = user.role;
+  return user;
+};
+
+const hasRolePermissions = async (
+  user: User,
+  permissions: Permission[]
+): Promise<boolean> => {
+  const granted = await getRolePermissions(user.role);
+  return permissions.every((permission) => granted.includes(permission));
+};
+
+// Allow the request only if the user's role grants every listed permission
+export const requirePermission = (...permissions: Permission[]) => {
+  return async (
     req: AuthenticatedRequest,
     res: Response,
     next: NextFunction
-  ): void => {
+  ): Promise<void> => {
     if (!req.user) {
       res.status(401).json({ error: "Authentication required" });
       return;
     }
 
-    if (req.user.role !== role && req.user.role !== "admin") {
-      res.status(403).json({ error: "Insufficient permissions" });
+    try {
+      const user = await loadCurrentUser(req, res);
+      if (!user) {
+        return;
+      }
+
+      if (!(await hasRolePermissions(user, permissions))) {
+        res.status(403).json({ error: "Insufficient permissions" });
+        return;
+      }
+
+      next();
+    } catch (error) {
+      console.error("Permission check error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  };
+};
+
+// Event-scoped routes: staff assigned to the :id event pass when their
+// assignment grants the capability; everyone else needs the permission.
+// The controller still checks access to the specific event.
+export const requirePermissionOrEventStaff = (
+  permission: Permission,
+  capability: EventCapability
+) => {
+  return async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({ error: "Authentication required" });
       return;
     }
 
-    next();
+    try {
+      // Staff go through the same role refresh and 2FA check as everyone
+      const user = await loadCurrentUser(req, res);
+      if (!user) {
+        return;
+      }
+
+      const eventId = Number(req.params.id);
+      if (
+        Number.isInteger(eventId) &&
+        (await hasStaffCapability(user.id, eventId, capability))
+      ) {
+        next();
+        return;
+      }
+
+      if (!(await hasRolePermissions(user, [permission]))) {
+        res.status(403).json({ error: "Insufficient permissions" });
+        return;
+      }
+
+      next();
+    } catch (error) {
+      console.error("Permission check error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
   };
 };
 
-export const requireAdmin = requireRole("admin");
-
 export const requireUser = (
   req: AuthenticatedRequest,
   res: Response,
@@ -56,3 +172,33 @@ export const requireUser = (
   }
   next();
 };
+
+// Only users who confirmed their email address may book seats
+export const requireVerifiedEmail = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  if (!req.user) {
+    res.status(401).json({ error: "Authentication required" });
+    return;
+  }
+
+  try {
+    const user = await User.findByPk(req.user.id, {
+      attributes: ["id", "emailVerifiedAt"],
+    });
+
+    if (!user?.isEmailVerified()) {
+      res.status(403).json({
+        error: "Please verify your email address before making a reservation",
+      });
+      return;
+    }
+
+    next();
+  } catch (error) {
+    console.error("Email verification check error:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
@@ -0,0 +1,52 @@
+import rateLimit, {
+  IncrementResponse,
+  Options,
+  Store,
+} from "express-rate-limit";
+import redis, { CACHE_KEYS, CACHE_EXPIRY } from "../config/redis.js";
+
+// Keeps rate limit counters in Redis so every server instance shares them
+class RedisRateLimitStore implements Store {
+  private windowMs = CACHE_EXPIRY.API_RATE_LIMIT * 1000;
+
+  init(options: Options): void {
+    this.windowMs = options.windowMs;
+  }
+
+  async increment(key: string): Promise<IncrementResponse> {
+    const redisKey = CACHE_KEYS.API_RATE_LIMIT(key);
+    const totalHits = await redis.incr(redisKey);
+
+    // Start the window on the first hit (or if a previous expire was lost)
+    let ttl = await redis.pttl(redisKey);
+    if (totalHits === 1 || ttl < 0) {
+      await redis.pexpire(redisKey, this.windowMs);
+      ttl = this.windowMs;
+    }
+
+    return {
+      totalHits,
+      resetTime: new Date(Date.now() + ttl),
+    };
+  }
+
+  async decrement(key: string): Promise<void> {
+    await redis.decr(CACHE_KEYS.API_RATE_LIMIT(key));
+  }
+
+  async resetKey(key: string): Promise<void> {
+    await redis.del(CACHE_KEYS.API_RATE_LIMIT(key));
+  }
+}
+
+// Global per-IP limit for the API
+export const apiRateLimiter = rateLimit({
+  windowMs: CACHE_EXPIRY.API_RATE_LIMIT * 1000,
+  limit: Number(process.env.RATE_LIMIT_MAX || 100),
+  standardHeaders: "draft-7",
+  legacyHeaders: false,
+  store: new RedisRateLimitStore(),
+  // Keep serving requests if Redis is down rather than failing them
+  passOnStoreError: true,
+  message: { error: "Too many requests from this IP, please try again later." },
+});
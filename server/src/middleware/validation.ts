@@ -1,5 +1,18 @@
 import { body, query, param, validationResult } from "express-validator";
 import { Request, Response, NextFunction } from "express";
+import {
+  EVENT_EDIT_SCOPES,
+  EVENT_SORTS,
+  EVENT_STAFF_ROLES,
+  EVENT_STATUSES,
+  PERMISSIONS,
+} from "../types/index.js";
+import {
+  DEFAULT_TIME_ZONE,
+  isValidTimeZone,
+  parseInTimeZone,
+} from "../utils/timeZone.js";
+import { MAX_EVENT_DURATION_DAYS } from "../utils/eventSchedule.js";
 
 export const handleValidationErrors = (
   req: Request,
@@ -48,7 +61,139 @@ export const validateUserLogin = [
   handleValidationErrors,
 ];
 
+export const validateRefreshToken = [
+  body("refreshToken")
+    .isString()
+    .notEmpty()
+    .withMessage("Refresh token is required"),
+  handleValidationErrors,
+];
+
+export const validateForgotPassword = [
+  body("email")
+    .isEmail()
+    .normalizeEmail()
+    .withMessage("Valid email is required"),
+  handleValidationErrors,
+];
+
+export const validateResetPassword = [
+  body("token").isString().notEmpty().withMessage("Reset token is required"),
+  body("password")
+    .isLength({ min: 6 })
+    .withMessage("Password must be at least 6 characters long"),
+  handleValidationErrors,
+];
+
+export const validateVerifyEmail = [
+  body("token")
+    .isString()
+    .notEmpty()
+    .withMessage("Verification token is required"),
+  handleValidationErrors,
+];
+
+const twoFactorCodeRule = (optional: boolean) => {
+  const rule = body("code");
+  return (optional ? rule.optional() : rule)
+    .isString()
+    .trim()
+    .matches(/^\d{6}$/)
+    .withMessage("Authentication code must be 6 digits");
+};
+
+// Either a TOTP code or a recovery code must be given
+const secondFactorRules = [
+  twoFactorCodeRule(true),
+  body("recoveryCode")
+    .optional()
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage("Recovery code cannot be empty"),
+  body().custom((value) => {
+    if (!value?.code && !value?.recoveryCode) {
+      throw new Error("An authentication code or recovery code is required");
+    }
+    return true;
+  }),
+];
+
+export const validateTwoFactorCode = [
+  twoFactorCodeRule(false),
+  handleValidationErrors,
+];
+
+export const validateTwoFactorLogin = [
+  body("twoFactorToken")
+    .isString()
+    .notEmpty()
+    .withMessage("Two-factor token is required"),
+  ...secondFactorRules,
+  handleValidationErrors,
+];
+
+export const validateDisableTwoFactor = [
+  body("password").notEmpty().withMessage("Password is required"),
+  ...secondFactorRules,
+  handleValidationErrors,
+];
+
 // Event validation rules
+// Category, tags and venue, shared by event creation and updates
+const eventClassificationRules = [
+  body("categoryId")
+    .optional({ values: "null" })
+    .isInt({ min: 1 })
+    .withMessage("Category must be a valid id")
+    .toInt(),
+  body("venueId")
+    .optional({ values: "null" })
+    .isInt({ min: 1 })
+    .withMessage("Venue must be a valid id")
+    .toInt(),
+  body("tags")
+    .optional()
+    .isArray({ max: 10 })
+    .withMessage("Tags must be a list of at most 10 tags"),
+  body("tags.*")
+    .isString()
+    .trim()
+    .toLowerCase()
+    .isLength({ min: 1, max: 50 })
+    .withMessage("Each tag must be between 1-50 characters"),
+];
+
+const isTimeZone = (value: unknown) =>
+  typeof value === "string" && isValidTimeZone(value);
+
+// Dates without an offset are wall-clock times in the event's zone
+const parseInEventZone = (value: string, { req }: { req: any }) =>
+  parseInTimeZone(
+    value,
+    isTimeZone(req.body.timeZone) ? req.body.timeZone : DEFAULT_TIME_ZONE
+  );
+
+const eventTimeZoneRule = body("timeZone")
+  .optional()
+  .custom(isTimeZone)
+  .withMessage("Time zone must be an IANA name like Europe/Berlin");
+
+// An event's length is given either as an end time or as a duration
+const eventDurationRule = body("durationMinutes")
+  .optional()
+  .isInt({ min: 1, max: MAX_EVENT_DURATION_DAYS * 1440 })
+  .withMessage(
+    `Duration must be between 1 minute and ${MAX_EVENT_DURATION_DAYS} days`
+  )
+  .toInt()
+  .custom((value, { req }) => {
+    if (req.body.endDate !== undefined) {
+      throw new Error("Give either an end date or a duration, not both");
+    }
+    return true;
+  });
+
 export const validateEventCreation = [
   body("name")
     .trim()
@@ -56,15 +201,22 @@ export const validateEventCreation = [
     .isLength({ min: 1, max: 255 })
     .withMessage("Event name is required and must be between 1-255 characters"),
   body("description").optional().trim(),
+  eventTimeZoneRule,
   body("eventDate")
     .isISO8601()
-    .toDate()
+    .customSanitizer(parseInEventZone)
     .custom((value: Date) => {
       if (value <= new Date()) {
         throw new Error("Event date must be in the future");
       }
       return true;
     }),
+  body("endDate")
+    .optional()
+    .isISO8601()
+    .withMessage("End date must be a valid date")
+    .customSanitizer(parseInEventZone),
+  eventDurationRule,
   body("location")
     .optional()
     .trim()
@@ -77,6 +229,40 @@ export const validateEventCreation = [
   body("maxCapacity")
     .isInt({ min: 1 })
     .withMessage("Max capacity must be a positive integer"),
+  body("maxPerBooking")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Max per booking must be a positive integer")
+    .toInt(),
+  ...eventClassificationRules,
+  body("status")
+    .optional()
+    .isIn(["draft", "published"])
+    .withMessage("Status must be draft or published"),
+  body("publishAt")
+    .optional()
+    .isISO8601()
+    .withMessage("Publish time must be a valid date")
+    .customSanitizer(parseInEventZone)
+    .custom((value: Date, { req }) => {
+      if (value <= new Date()) {
+        throw new Error("Publish time must be in the future");
+      }
+      if (req.body.status === "published") {
+        throw new Error("Leave out the publish time to publish right away");
+      }
+      return true;
+    }),
+  body("registrationOpensAt")
+    .optional()
+    .isISO8601()
+    .withMessage("Registration opening must be a valid date")
+    .customSanitizer(parseInEventZone),
+  body("registrationClosesAt")
+    .optional()
+    .isISO8601()
+    .withMessage("Registration closing must be a valid date")
+    .customSanitizer(parseInEventZone),
   handleValidationErrors,
 ];
 
@@ -88,16 +274,15 @@ export const validateEventUpdate = [
     .isLength({ min: 1, max: 255 })
     .withMessage("Event name must be between 1-255 characters"),
   body("description").optional().trim(),
-  body("eventDate")
+  eventTimeZoneRule,
+  // Left as a string: without an offset it is read in the event's zone,
+  // which may not be part of the update
+  body("eventDate").optional().isISO8601(),
+  body("endDate")
     .optional()
     .isISO8601()
-    .toDate()
-    .custom((value: Date) => {
-      if (value <= new Date()) {
-        throw new Error("Event date must be in the future");
-      }
-      return true;
-    }),
+    .withMessage("End date must be a valid date"),
+  eventDurationRule,
   body("location")
     .optional()
     .trim()
@@ -111,11 +296,296 @@ export const validateEventUpdate = [
     .optional()
     .isInt({ min: 1 })
     .withMessage("Max capacity must be a positive integer"),
+  body("maxPerBooking")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Max per booking must be a positive integer")
+    .toInt(),
+  ...eventClassificationRules,
+  body("registrationOpensAt")
+    .optional({ values: "null" })
+    .isISO8601()
+    .withMessage("Registration opening must be a valid date"),
+  body("registrationClosesAt")
+    .optional({ values: "null" })
+    .isISO8601()
+    .withMessage("Registration closing must be a valid date"),
+  body("scope")
+    .optional()
+    .isIn(EVENT_EDIT_SCOPES)
+    .withMessage(`Scope must be one of: ${EVENT_EDIT_SCOPES.join(", ")}`),
+  handleValidationErrors,
+];
+
+// A series takes the event fields plus the recurrence of its occurrences
+export const validateEventSeriesCreation = [
+  ...validateEventCreation.slice(0, -1),
+  body("recurrence.rrule")
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 500 })
+    .withMessage("A recurrence rule is required"),
+  body("recurrence.exceptions")
+    .optional()
+    .isArray()
+    .withMessage("Exceptions must be a list of dates"),
+  body("recurrence.exceptions.*")
+    .isISO8601()
+    .withMessage("Exceptions must be dates like 2026-01-31"),
+  handleValidationErrors,
+];
+
+// Ticket type validation rules
+export const validateTicketTypeCreation = [
+  body("name")
+    .trim()
+    .notEmpty()
+    .isLength({ min: 1, max: 100 })
+    .withMessage(
+      "Ticket type name is required and must be between 1-100 characters"
+    ),
+  body("description").optional().trim(),
+  body("price")
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage("Price must be zero or a positive number")
+    .toFloat(),
+  body("capacity")
+    .isInt({ min: 1 })
+    .withMessage("Capacity must be a positive integer")
+    .toInt(),
+  body("salesStartAt")
+    .optional({ values: "null" })
+    .isISO8601()
+    .withMessage("Sales start must be a valid date"),
+  body("salesEndAt")
+    .optional({ values: "null" })
+    .isISO8601()
+    .withMessage("Sales end must be a valid date")
+    .custom((value, { req }) => {
+      if (
+        req.body.salesStartAt &&
+        new Date(value) <= new Date(req.body.salesStartAt)
+      ) {
+        throw new Error("Sales end must be after sales start");
+      }
+      return true;
+    }),
+  handleValidationErrors,
+];
+
+export const validateTicketTypeUpdate = [
+  body("name")
+    .optional()
+    .trim()
+    .notEmpty()
+    .isLength({ min: 1, max: 100 })
+    .withMessage("Ticket type name must be between 1-100 characters"),
+  body("description").optional().trim(),
+  body("price")
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage("Price must be zero or a positive number")
+    .toFloat(),
+  body("capacity")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Capacity must be a positive integer")
+    .toInt(),
+  body("salesStartAt")
+    .optional({ values: "null" })
+    .isISO8601()
+    .withMessage("Sales start must be a valid date"),
+  body("salesEndAt")
+    .optional({ values: "null" })
+    .isISO8601()
+    .withMessage("Sales end must be a valid date"),
+  handleValidationErrors,
+];
+
+// Session validation rules; times stay strings until the event's zone is
+// known
+const sessionRules = (optional: boolean) => {
+  const rule = (field: string) =>
+    optional ? body(field).optional() : body(field);
+  return [
+    rule("title")
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: 200 })
+      .withMessage("Session title must be between 1-200 characters"),
+    body("description").optional({ values: "null" }).trim(),
+    rule("startsAt")
+      .isISO8601()
+      .withMessage("Session start must be a valid date"),
+    rule("endsAt").isISO8601().withMessage("Session end must be a valid date"),
+    body("room")
+      .optional({ values: "null" })
+      .trim()
+      .isLength({ max: 100 })
+      .withMessage("Room must be at most 100 characters"),
+    body("capacity")
+      .optional({ values: "null" })
+      .isInt({ min: 1 })
+      .withMessage("Capacity must be a positive integer")
+      .toInt(),
+    body("speakerIds")
+      .optional()
+      .isArray({ max: 20 })
+      .withMessage("Speakers must be a list of at most 20 ids"),
+    body("speakerIds.*")
+      .isInt({ min: 1 })
+      .withMessage("Each speaker must be a valid id")
+      .toInt(),
+  ];
+};
+
+export const validateSessionCreation = [
+  ...sessionRules(false),
+  handleValidationErrors,
+];
+
+export const validateSessionUpdate = [
+  ...sessionRules(true),
+  handleValidationErrors,
+];
+
+// Speaker validation rules
+const speakerRules = (optional: boolean) => [
+  (optional ? body("name").optional() : body("name"))
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage("Speaker name must be between 1-100 characters"),
+  body("headline")
+    .optional({ values: "null" })
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage("Headline must be at most 200 characters"),
+  body("bio")
+    .optional({ values: "null" })
+    .trim()
+    .isLength({ max: 2000 })
+    .withMessage("Bio must be at most 2000 characters"),
+];
+
+export const validateSpeakerCreation = [
+  ...speakerRules(false),
+  handleValidationErrors,
+];
+
+export const validateSpeakerUpdate = [
+  ...speakerRules(true),
+  handleValidationErrors,
+];
+
+// Event staff validation rules
+const eventStaffRoleRule = () =>
+  body("role")
+    .isIn(EVENT_STAFF_ROLES)
+    .withMessage(`Role must be one of: ${EVENT_STAFF_ROLES.join(", ")}`);
+
+export const validateEventStaffAssignment = [
+  body("email")
+    .isEmail()
+    .normalizeEmail()
+    .withMessage("Valid email is required"),
+  eventStaffRoleRule(),
+  handleValidationErrors,
+];
+
+export const validateEventStaffUpdate = [
+  eventStaffRoleRule(),
+  handleValidationErrors,
+];
+
+// Reservation validation rules
+export const validateReservationQuantity = [
+  body("quantity")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Quantity must be a positive integer")
+    .toInt(),
+  body("ticketTypeId")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Ticket type ID must be a positive integer")
+    .toInt(),
+  handleValidationErrors,
+];
+
+export const validateCheckIn = [
+  body("ticketToken")
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage("Ticket token is required"),
   handleValidationErrors,
 ];
 
 // Query validation rules
+export const validateNotificationFilters = [
+  query("unread")
+    .optional()
+    .isIn(["true", "false"])
+    .withMessage("Unread must be either 'true' or 'false'"),
+  query("page")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Page must be a positive integer"),
+  query("limit")
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage("Limit must be between 1 and 100"),
+  handleValidationErrors,
+];
+
+// The time stays a string until the event's zone is known
+export const validateEventStatus = [
+  body("status")
+    .isIn(EVENT_STATUSES)
+    .withMessage(`Status must be one of: ${EVENT_STATUSES.join(", ")}`),
+  body("publishAt")
+    .if(body("status").equals("scheduled"))
+    .isISO8601()
+    .withMessage("Scheduling needs a valid publish time"),
+  body("publishAt")
+    .if(body("status").not().equals("scheduled"))
+    .isEmpty()
+    .withMessage("A publish time can only be given when scheduling"),
+  handleValidationErrors,
+];
+
+export const validateEventCancellation = [
+  body("reason")
+    .trim()
+    .isLength({ min: 1, max: 500 })
+    .withMessage("Cancellation reason is required (max 500 characters)"),
+  handleValidationErrors,
+];
+
+// List filters accept "a,b" as well as repeated query parameters
+const toList = (value: unknown): string[] =>
+  (Array.isArray(value) ? value : [value])
+    .flatMap((item) => String(item).split(","))
+    .map((item) => item.trim())
+    .filter(Boolean);
+
 export const validateEventFilters = [
+  query("q")
+    .optional()
+    .customSanitizer((value) => {
+      // Convert empty string to undefined for optional fields
+      return value === "" ? undefined : value;
+    })
+    .isString()
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage("Search query must be at most 200 characters"),
+  query("timeZone")
+    .optional()
+    .custom(isTimeZone)
+    .withMessage("Time zone must be an IANA name like Europe/Berlin"),
   query("date")
     .optional()
     .custom((value) => {
@@ -149,6 +619,47 @@ export const validateEventFilters = [
     .trim()
     .isLength({ min: 1 })
     .withMessage("Location filter cannot be empty"),
+  query("categories")
+    .optional()
+    .customSanitizer((value) => toList(value).map(Number))
+    .custom((ids: number[]) =>
+      ids.every((id) => Number.isInteger(id) && id > 0)
+    )
+    .withMessage("Categories must be a comma-separated list of ids"),
+  query("tags")
+    .optional()
+    .customSanitizer((value) => [
+      ...new Set(toList(value).map((tag) => tag.toLowerCase())),
+    ])
+    .custom(
+      (tags: string[]) =>
+        tags.length <= 10 && tags.every((tag) => tag.length <= 50)
+    )
+    .withMessage("Filter by at most 10 tags of up to 50 characters"),
+  query("near")
+    .optional()
+    .customSanitizer((value) => {
+      const [latitude, longitude] = toList(value).map(Number);
+      return { latitude, longitude };
+    })
+    .custom(
+      ({ latitude, longitude }) =>
+        Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180
+    )
+    .withMessage("Near must be a latitude,longitude pair"),
+  query("radiusKm")
+    .optional()
+    .isFloat({ min: 0.1, max: 500 })
+    .withMessage("Radius must be between 0.1 and 500 km")
+    .toFloat(),
+  query("status")
+    .optional()
+    .isIn(EVENT_STATUSES)
+    .withMessage(`Status must be one of: ${EVENT_STATUSES.join(", ")}`),
+  query("sort")
+    .optional()
+    .isIn(EVENT_SORTS)
+    .withMessage(`Sort must be one of: ${EVENT_SORTS.join(", ")}`),
   query("page")
     .optional()
     .isInt({ min: 1 })
@@ -181,6 +692,145 @@ export const validateUserFilters = [
   handleValidationErrors,
 ];
 
+export const validateUserUpdate = [
+  body("email")
+    .optional()
+    .isEmail()
+    .normalizeEmail()
+    .withMessage("Valid email is required"),
+  handleValidationErrors,
+];
+
+export const validateRoleAssignment = [
+  body("role").isString().trim().notEmpty().withMessage("Role is required"),
+  handleValidationErrors,
+];
+
+// Role validation rules
+const rolePermissionsRule = (optional: boolean) => {
+  const rule = body("permissions");
+  return (optional ? rule.optional() : rule)
+    .isArray()
+    .withMessage("Permissions must be an array")
+    .custom((value: unknown[]) => {
+      const unknown = value.filter(
+        (permission) => !PERMISSIONS.includes(permission as never)
+      );
+      if (unknown.length > 0) {
+        throw new Error(`Unknown permissions: ${unknown.join(", ")}`);
+      }
+      return true;
+    });
+};
+
+export const validateRoleCreation = [
+  body("name")
+    .isString()
+    .trim()
+    .toLowerCase()
+    .matches(/^[a-z][a-z0-9_-]{1,49}$/)
+    .withMessage(
+      "Role name must be 2-50 characters: lowercase letters, digits, '-' or '_'"
+    ),
+  body("description")
+    .optional()
+    .trim()
+    .isLength({ max: 255 })
+    .withMessage("Description must be at most 255 characters"),
+  rolePermissionsRule(false),
+  handleValidationErrors,
+];
+
+export const validateRoleUpdate = [
+  body("description")
+    .optional({ values: "null" })
+    .trim()
+    .isLength({ max: 255 })
+    .withMessage("Description must be at most 255 characters"),
+  rolePermissionsRule(true),
+  handleValidationErrors,
+];
+
+export const validateCategoryCreation = [
+  body("name")
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage("Category name must be between 1-100 characters"),
+  body("description")
+    .optional({ values: "null" })
+    .trim()
+    .isLength({ max: 255 })
+    .withMessage("Description must be at most 255 characters"),
+  handleValidationErrors,
+];
+
+export const validateCategoryUpdate = [
+  body("name")
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage("Category name must be between 1-100 characters"),
+  body("description")
+    .optional({ values: "null" })
+    .trim()
+    .isLength({ max: 255 })
+    .withMessage("Description must be at most 255 characters"),
+  handleValidationErrors,
+];
+
+// Venue validation rules
+const venueRules = (optional: boolean) => {
+  const rule = (field: string) =>
+    optional ? body(field).optional() : body(field);
+  return [
+    rule("name")
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: 255 })
+      .withMessage("Venue name must be between 1-255 characters"),
+    rule("address")
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: 500 })
+      .withMessage("Address must be between 1-500 characters"),
+    rule("latitude")
+      .isFloat({ min: -90, max: 90 })
+      .withMessage("Latitude must be between -90 and 90")
+      .toFloat(),
+    rule("longitude")
+      .isFloat({ min: -180, max: 180 })
+      .withMessage("Longitude must be between -180 and 180")
+      .toFloat(),
+    body("capacity")
+      .optional({ values: "null" })
+      .isInt({ min: 1 })
+      .withMessage("Capacity must be a positive integer")
+      .toInt(),
+    body("wheelchairAccessible")
+      .optional()
+      .isBoolean()
+      .withMessage("Wheelchair accessible must be true or false")
+      .toBoolean(),
+    body("accessibilityNotes")
+      .optional({ values: "null" })
+      .trim()
+      .isLength({ max: 2000 })
+      .withMessage("Accessibility notes must be at most 2000 characters"),
+  ];
+};
+
+export const validateVenueCreation = [
+  ...venueRules(false),
+  handleValidationErrors,
+];
+
+export const validateVenueUpdate = [
+  ...venueRules(true),
+  handleValidationErrors,
+];
+
 export const validateReservationFilters = [
   query("status")
     .optional()
@@ -188,8 +838,10 @@ export const validateReservationFilters = [
       // Convert empty string to undefined for optional fields
       return value === "" ? undefined : value;
     })
-    .isIn(["confirmed", "canceled"])
-    .withMessage("Status must be either 'confirmed' or 'canceled'"),
+    .isIn(["confirmed", "canceled", "checked_in", "no_show"])
+    .withMessage(
+      "Status must be one of 'confirmed', 'canceled', 'checked_in' or 'no_show'"
+    ),
   query("eventId")
     .optional()
     .customSanitizer((value) => {
@@ -217,8 +869,72 @@ export const validateReservationFilters = [
   handleValidationErrors,
 ];
 
+export const validateAuditLogFilters = [
+  query("actorId")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Actor ID must be a positive integer"),
+  query("action")
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage("Action filter must be between 1-100 characters"),
+  query("entityType")
+    .optional()
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage("Entity type filter must be between 1-50 characters"),
+  query("entityId")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Entity ID must be a positive integer"),
+  query("from").optional().isISO8601().withMessage("From must be a valid date"),
+  query("to").optional().isISO8601().withMessage("To must be a valid date"),
+  query("page")
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage("Page must be a positive integer"),
+  query("limit")
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage("Limit must be between 1 and 100"),
+  handleValidationErrors,
+];
+
 // Param validation rules
 export const validateIdParam = [
   param("id").isInt({ min: 1 }).withMessage("ID must be a positive integer"),
   handleValidationErrors,
 ];
+
+export const validateTicketTypeParams = [
+  param("id").isInt({ min: 1 }).withMessage("ID must be a positive integer"),
+  param("ticketTypeId")
+    .isInt({ min: 1 })
+    .withMessage("Ticket type ID must be a positive integer"),
+  handleValidationErrors,
+];
+
+export const validateSessionParams = [
+  param("id").isInt({ min: 1 }).withMessage("ID must be a positive integer"),
+  param("sessionId")
+    .isInt({ min: 1 })
+    .withMessage("Session ID must be a positive integer"),
+  handleValidationErrors,
+];
+
+export const validateSpeakerParams = [
+  param("id").isInt({ min: 1 }).withMessage("ID must be a positive integer"),
+  param("speakerId")
+    .isInt({ min: 1 })
+    .withMessage("Speaker ID must be a positive integer"),
+  handleValidationErrors,
+];
+
+export const validateEventStaffParams = [
+  param("id").isInt({ min: 1 }).withMessage("ID must be a positive integer"),
+  param("staffId")
+    .isInt({ min: 1 })
+    .withMessage("Staff ID must be a positive integer"),
+  handleValidationErrors,
+];
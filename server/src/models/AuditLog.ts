@@ -0,0 +1,107 @@
+import { DataTypes, Model, Optional } from "sequelize";
+import sequelize from "../config/database.js";
+
+interface AuditLogAttributes {
+  id: number;
+  actorId?: number | null;
+  action: string;
+  entityType: string;
+  entityId?: number | null;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+  ipAddress?: string | null;
+  createdAt?: Date;
+}
+
+interface AuditLogCreationAttributes
+  extends Optional<
+    AuditLogAttributes,
+    | "id"
+    | "actorId"
+    | "entityId"
+    | "before"
+    | "after"
+    | "ipAddress"
+    | "createdAt"
+  > {}
+
+const rejectChange = () => {
+  throw new Error("Audit log entries cannot be modified or deleted");
+};
+
+class AuditLog
+  extends Model<AuditLogAttributes, AuditLogCreationAttributes>
+  implements AuditLogAttributes
+{
+  // Declare properties for TypeScript but don't use public class fields
+  declare id: number;
+  declare actorId?: number | null;
+  declare action: string;
+  declare entityType: string;
+  declare entityId?: number | null;
+  declare before?: Record<string, unknown> | null;
+  declare after?: Record<string, unknown> | null;
+  declare ipAddress?: string | null;
+  declare readonly createdAt: Date;
+}
+
+AuditLog.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    // Kept as a plain id so entries outlive the user who made them
+    actorId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    // Dotted "<entity>.<verb>", e.g. "event.delete"
+    action: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+    },
+    entityType: {
+      type: DataTypes.STRING(50),
+      allowNull: false,
+    },
+    entityId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    // Only the fields that changed (the full record on create/delete)
+    before: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+    },
+    after: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+    },
+    ipAddress: {
+      type: DataTypes.STRING(45),
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: "audit_logs",
+    timestamps: true,
+    updatedAt: false,
+    indexes: [
+      { fields: ["entityType", "entityId"] },
+      { fields: ["actorId"] },
+      { fields: ["createdAt"] },
+    ],
+    // Append-only: entries are never changed once written
+    hooks: {
+      beforeUpdate: rejectChange,
+      beforeBulkUpdate: rejectChange,
+      beforeDestroy: rejectChange,
+      beforeBulkDestroy: rejectChange,
+    },
+  }
+);
+
+export default AuditLog;
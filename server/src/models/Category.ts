@@ -0,0 +1,54 @@
+import { DataTypes, Model, Optional } from "sequelize";
+import sequelize from "../config/database.js";
+
+interface CategoryAttributes {
+  id: number;
+  name: string;
+  description?: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface CategoryCreationAttributes
+  extends Optional<
+    CategoryAttributes,
+    "id" | "description" | "createdAt" | "updatedAt"
+  > {}
+
+class Category
+  extends Model<CategoryAttributes, CategoryCreationAttributes>
+  implements CategoryAttributes
+{
+  // Declare properties for TypeScript but don't use public class fields
+  declare id: number;
+  declare name: string;
+  declare description?: string | null;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+}
+
+Category.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    name: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+      unique: true,
+    },
+    description: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: "categories",
+    timestamps: true,
+  }
+);
+
+export default Category;
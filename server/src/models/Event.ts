@@ -1,24 +1,64 @@
 import { DataTypes, Model, Optional } from "sequelize";
 import sequelize from "../config/database.js";
+import { EVENT_STATUSES, EventStatus } from "../types/index.js";
+import { isEventPublished } from "../utils/eventLifecycle.js";
+import {
+  DEFAULT_TIME_ZONE,
+  formatInTimeZone,
+  isValidTimeZone,
+} from "../utils/timeZone.js";
+
+// Start and end times in UTC and in the event's own zone
+export interface EventTimes {
+  timeZone: string;
+  startUtc: string;
+  startLocal: string;
+  endUtc: string;
+  endLocal: string;
+  durationMinutes: number;
+}
 
 interface EventAttributes {
   id: number;
   name: string;
   description?: string;
   eventDate: Date;
+  endDate: Date;
+  timeZone: string;
+  times?: EventTimes;
   location?: string;
   onlineLink?: string;
   maxCapacity: number;
   availableSpots: number;
+  maxPerBooking: number;
   creatorId: number;
+  seriesId?: number | null;
+  categoryId?: number | null;
+  tags: string[];
+  venueId?: number | null;
+  status: EventStatus;
+  publishAt?: Date | null;
+  registrationOpensAt?: Date | null;
+  registrationClosesAt?: Date | null;
+  canceledAt?: Date | null;
+  cancellationReason?: string | null;
   createdAt?: Date;
   updatedAt?: Date;
+  deletedAt?: Date | null;
 }
 
 interface EventCreationAttributes
   extends Optional<
     EventAttributes,
-    "id" | "availableSpots" | "createdAt" | "updatedAt"
+    | "id"
+    | "timeZone"
+    | "availableSpots"
+    | "maxPerBooking"
+    | "tags"
+    | "status"
+    | "createdAt"
+    | "updatedAt"
+    | "deletedAt"
   > {}
 
 class Event
@@ -30,35 +70,86 @@ class Event
   declare name: string;
   declare description?: string;
   declare eventDate: Date;
+  declare endDate: Date;
+  declare timeZone: string;
+  declare readonly times?: EventTimes;
   declare location?: string;
   declare onlineLink?: string;
   declare maxCapacity: number;
   declare availableSpots: number;
+  declare maxPerBooking: number;
   declare creatorId: number;
+  declare seriesId?: number | null;
+  declare categoryId?: number | null;
+  declare tags: string[];
+  declare venueId?: number | null;
+  declare status: EventStatus;
+  declare publishAt?: Date | null;
+  declare registrationOpensAt?: Date | null;
+  declare registrationClosesAt?: Date | null;
+  declare canceledAt?: Date | null;
+  declare cancellationReason?: string | null;
   declare readonly createdAt: Date;
   declare readonly updatedAt: Date;
+  // Set while the row is in the trash; cleared again by restore()
+  declare readonly deletedAt?: Date | null;
+
+  // Instance method to check if the event has started but not yet ended
+  public isInProgress(now: Date = new Date()): boolean {
+    return this.eventDate <= now && now < this.endDate;
+  }
+
+  // Instance method to check if the event is visible to the public
+  public isPublished(now: Date = new Date()): boolean {
+    return isEventPublished(this, now);
+  }
+
+  // Instance method to describe whether reservations are being taken
+  public getRegistrationStatus(
+    now: Date = new Date()
+  ): "unpublished" | "not-open" | "open" | "closed" {
+    if (this.status === "closed") {
+      return "closed";
+    }
+    if (!this.isPublished(now)) {
+      return "unpublished";
+    }
+    if (this.registrationOpensAt && now < this.registrationOpensAt) {
+      return "not-open";
+    }
+    if (this.registrationClosesAt && now >= this.registrationClosesAt) {
+      return "closed";
+    }
+    return "open";
+  }
+
+  // Instance method to check if the organizer has called the event off
+  public isCanceled(): boolean {
+    return !!this.canceledAt;
+  }
 
   // Instance method to check if event has available spots
-  public hasAvailableSpots(): boolean {
-    return this.availableSpots > 0;
+  public hasAvailableSpots(quantity: number = 1): boolean {
+    return this.availableSpots >= quantity;
   }
 
-  // Instance method to reserve a spot
-  public async reserveSpot(): Promise<boolean> {
-    if (this.availableSpots > 0) {
-      this.availableSpots -= 1;
+  // Instance method to reserve one or more spots
+  public async reserveSpot(quantity: number = 1): Promise<boolean> {
+    if (this.availableSpots >= quantity) {
+      this.availableSpots -= quantity;
       await this.save();
       return true;
     }
     return false;
   }
 
-  // Instance method to cancel a spot
-  public async cancelSpot(): Promise<void> {
-    if (this.availableSpots < this.maxCapacity) {
-      this.availableSpots += 1;
-      await this.save();
-    }
+  // Instance method to cancel one or more spots
+  public async cancelSpot(quantity: number = 1): Promise<void> {
+    this.availableSpots = Math.min(
+      this.availableSpots + quantity,
+      this.maxCapacity
+    );
+    await this.save();
   }
 }
 
@@ -89,6 +180,51 @@ Event.init(
         isAfter: new Date().toISOString(),
       },
     },
+    // When the event ends; multi-day events span several calendar days
+    endDate: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      validate: {
+        isDate: true,
+      },
+    },
+    // IANA zone the event takes place in; both dates are stored in UTC
+    timeZone: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      defaultValue: DEFAULT_TIME_ZONE,
+      validate: {
+        isTimeZone(value: string) {
+          if (!isValidTimeZone(value)) {
+            throw new Error("Unknown time zone");
+          }
+        },
+      },
+    },
+    // Returned with every event so clients don't need zone data of their own
+    times: {
+      type: DataTypes.VIRTUAL,
+      get(this: Event) {
+        const eventDate = this.getDataValue("eventDate");
+        const endDate = this.getDataValue("endDate");
+        if (!eventDate || !endDate) {
+          return undefined;
+        }
+        const timeZone = this.getDataValue("timeZone") || DEFAULT_TIME_ZONE;
+        const startsAt = new Date(eventDate);
+        const endsAt = new Date(endDate);
+        return {
+          timeZone,
+          startUtc: startsAt.toISOString(),
+          startLocal: formatInTimeZone(startsAt, timeZone),
+          endUtc: endsAt.toISOString(),
+          endLocal: formatInTimeZone(endsAt, timeZone),
+          durationMinutes: Math.round(
+            (endsAt.getTime() - startsAt.getTime()) / 60000
+          ),
+        };
+      },
+    },
     location: {
       type: DataTypes.STRING,
       allowNull: true,
@@ -112,6 +248,14 @@ Event.init(
       allowNull: false,
       defaultValue: 0,
     },
+    maxPerBooking: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 1,
+      validate: {
+        min: 1,
+      },
+    },
     creatorId: {
       type: DataTypes.INTEGER,
       allowNull: false,
@@ -120,11 +264,90 @@ Event.init(
         key: "id",
       },
     },
+    // Occurrences of a recurring event share a series
+    seriesId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: "event_series",
+        key: "id",
+      },
+      onDelete: "SET NULL",
+    },
+    categoryId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: "categories",
+        key: "id",
+      },
+      onDelete: "SET NULL",
+    },
+    // Free-form labels, stored lowercase so filters match regardless of case
+    tags: {
+      type: DataTypes.ARRAY(DataTypes.STRING(50)),
+      allowNull: false,
+      defaultValue: [],
+    },
+    // Where the event takes place; location stays as a free-text fallback
+    venueId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: "venues",
+        key: "id",
+      },
+      onDelete: "SET NULL",
+    },
+    // Drafts are only seen by the people managing the event; scheduled ones
+    // are published by a sweep once publishAt passes
+    status: {
+      type: DataTypes.ENUM(...EVENT_STATUSES),
+      allowNull: false,
+      defaultValue: "draft",
+    },
+    // When the event went, or is scheduled to go, public
+    publishAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    // Reservations are only taken between these; either may be left open
+    registrationOpensAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    registrationClosesAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    // Set when the event is called off; it stays listed as cancelled
+    canceledAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    cancellationReason: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
   },
   {
     sequelize,
     tableName: "events",
     timestamps: true,
+    paranoid: true,
+    indexes: [
+      { fields: ["categoryId"] },
+      { fields: ["venueId"] },
+      { fields: ["tags"], using: "gin" },
+      { fields: ["status", "publishAt"] },
+    ],
+    validate: {
+      endsAfterStart(this: Event) {
+        if (this.endDate <= this.eventDate) {
+          throw new Error("Event must end after it starts");
+        }
+      },
+    },
     hooks: {
       beforeCreate: (event: Event) => {
         // Set availableSpots to maxCapacity when creating
@@ -0,0 +1,77 @@
+import { DataTypes, Model, Optional } from "sequelize";
+import sequelize from "../config/database.js";
+import type Event from "./Event.js";
+
+interface EventSeriesAttributes {
+  id: number;
+  creatorId: number;
+  rrule: string;
+  startsAt: Date;
+  exceptions: string[];
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface EventSeriesCreationAttributes
+  extends Optional<
+    EventSeriesAttributes,
+    "id" | "exceptions" | "createdAt" | "updatedAt"
+  > {}
+
+class EventSeries
+  extends Model<EventSeriesAttributes, EventSeriesCreationAttributes>
+  implements EventSeriesAttributes
+{
+  // Declare properties for TypeScript but don't use public class fields
+  declare id: number;
+  declare creatorId: number;
+  declare rrule: string;
+  declare startsAt: Date;
+  declare exceptions: string[];
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+
+  // Loaded when the "occurrences" association is included
+  declare occurrences?: Event[];
+}
+
+EventSeries.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    creatorId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: "users",
+        key: "id",
+      },
+    },
+    // RFC 5545 RRULE subset, e.g. FREQ=WEEKLY;BYDAY=TU;COUNT=10
+    rrule: {
+      type: DataTypes.STRING(500),
+      allowNull: false,
+    },
+    // Start of the first occurrence; later ones keep its time of day
+    startsAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    // Dates (YYYY-MM-DD) the rule would produce but that were skipped
+    exceptions: {
+      type: DataTypes.ARRAY(DataTypes.DATEONLY),
+      allowNull: false,
+      defaultValue: [],
+    },
+  },
+  {
+    sequelize,
+    tableName: "event_series",
+    timestamps: true,
+  }
+);
+
+export default EventSeries;
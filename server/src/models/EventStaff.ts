@@ -0,0 +1,89 @@
+import { DataTypes, Model, Optional } from "sequelize";
+import sequelize from "../config/database.js";
+import { EVENT_STAFF_ROLES, EventStaffRole } from "../types/index.js";
+
+interface EventStaffAttributes {
+  id: number;
+  eventId: number;
+  userId: number;
+  role: EventStaffRole;
+  assignedById?: number | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface EventStaffCreationAttributes
+  extends Optional<
+    EventStaffAttributes,
+    "id" | "assignedById" | "createdAt" | "updatedAt"
+  > {}
+
+class EventStaff
+  extends Model<EventStaffAttributes, EventStaffCreationAttributes>
+  implements EventStaffAttributes
+{
+  // Declare properties for TypeScript but don't use public class fields
+  declare id: number;
+  declare eventId: number;
+  declare userId: number;
+  declare role: EventStaffRole;
+  declare assignedById?: number | null;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+}
+
+EventStaff.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    eventId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: "events",
+        key: "id",
+      },
+      onDelete: "CASCADE",
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: "users",
+        key: "id",
+      },
+      onDelete: "CASCADE",
+    },
+    role: {
+      type: DataTypes.ENUM(...EVENT_STAFF_ROLES),
+      allowNull: false,
+    },
+    // Who made the assignment; kept for reference if they're removed
+    assignedById: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: "users",
+        key: "id",
+      },
+      onDelete: "SET NULL",
+    },
+  },
+  {
+    sequelize,
+    tableName: "event_staff",
+    timestamps: true,
+    indexes: [
+      {
+        unique: true,
+        fields: ["eventId", "userId"],
+        name: "event_staff_event_user",
+      },
+    ],
+  }
+);
+
+export default EventStaff;
@@ -0,0 +1,107 @@
+import { DataTypes, Model, Optional } from "sequelize";
+import sequelize from "../config/database.js";
+import { NotificationType } from "../types/index.js";
+
+interface NotificationAttributes {
+  id: number;
+  userId: number;
+  eventId?: number | null;
+  type: NotificationType;
+  title: string;
+  message: string;
+  readAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface NotificationCreationAttributes
+  extends Optional<
+    NotificationAttributes,
+    "id" | "eventId" | "readAt" | "createdAt" | "updatedAt"
+  > {}
+
+class Notification
+  extends Model<NotificationAttributes, NotificationCreationAttributes>
+  implements NotificationAttributes
+{
+  // Declare properties for TypeScript but don't use public class fields
+  declare id: number;
+  declare userId: number;
+  declare eventId?: number | null;
+  declare type: NotificationType;
+  declare title: string;
+  declare message: string;
+  declare readAt?: Date | null;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+
+  // Instance method to check if the notification has been read
+  public isRead(): boolean {
+    return !!this.readAt;
+  }
+}
+
+Notification.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: "users",
+        key: "id",
+      },
+      onDelete: "CASCADE",
+    },
+    eventId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: "events",
+        key: "id",
+      },
+      // Keep the notification around when its event is deleted
+      onDelete: "SET NULL",
+    },
+    type: {
+      type: DataTypes.ENUM(
+        "reservation_confirmed",
+        "reservation_canceled",
+        "event_updated",
+        "event_deleted",
+        "event_canceled",
+        "event_staff_assigned"
+      ),
+      allowNull: false,
+    },
+    title: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    message: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+    },
+    readAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: "notifications",
+    timestamps: true,
+    indexes: [
+      {
+        fields: ["userId", "readAt"],
+        name: "notifications_user_unread",
+      },
+    ],
+  }
+);
+
+export default Notification;
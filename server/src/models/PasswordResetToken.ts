@@ -0,0 +1,80 @@
+import { DataTypes, Model, Optional } from "sequelize";
+import sequelize from "../config/database.js";
+
+interface PasswordResetTokenAttributes {
+  id: number;
+  userId: number;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface PasswordResetTokenCreationAttributes
+  extends Optional<
+    PasswordResetTokenAttributes,
+    "id" | "usedAt" | "createdAt" | "updatedAt"
+  > {}
+
+class PasswordResetToken
+  extends Model<
+    PasswordResetTokenAttributes,
+    PasswordResetTokenCreationAttributes
+  >
+  implements PasswordResetTokenAttributes
+{
+  // Declare properties for TypeScript but don't use public class fields
+  declare id: number;
+  declare userId: number;
+  declare tokenHash: string;
+  declare expiresAt: Date;
+  declare usedAt?: Date | null;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+
+  // Instance method to check if the token can still be redeemed
+  public isUsable(now: Date = new Date()): boolean {
+    return !this.usedAt && this.expiresAt > now;
+  }
+}
+
+PasswordResetToken.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: "users",
+        key: "id",
+      },
+      onDelete: "CASCADE",
+    },
+    // Only a SHA-256 hash of the token is stored
+    tokenHash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      unique: true,
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    usedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: "password_reset_tokens",
+    timestamps: true,
+  }
+);
+
+export default PasswordResetToken;
@@ -0,0 +1,96 @@
+import { DataTypes, Model, Optional } from "sequelize";
+import sequelize from "../config/database.js";
+
+interface RefreshTokenAttributes {
+  id: number;
+  userId: number;
+  tokenHash: string;
+  familyId: string;
+  expiresAt: Date;
+  revokedAt?: Date | null;
+  replacedById?: number | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface RefreshTokenCreationAttributes
+  extends Optional<
+    RefreshTokenAttributes,
+    "id" | "revokedAt" | "replacedById" | "createdAt" | "updatedAt"
+  > {}
+
+class RefreshToken
+  extends Model<RefreshTokenAttributes, RefreshTokenCreationAttributes>
+  implements RefreshTokenAttributes
+{
+  // Declare properties for TypeScript but don't use public class fields
+  declare id: number;
+  declare userId: number;
+  declare tokenHash: string;
+  declare familyId: string;
+  declare expiresAt: Date;
+  declare revokedAt?: Date | null;
+  declare replacedById?: number | null;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+
+  // Instance method to check if the token can still be exchanged
+  public isActive(now: Date = new Date()): boolean {
+    return !this.revokedAt && this.expiresAt > now;
+  }
+}
+
+RefreshToken.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: "users",
+        key: "id",
+      },
+      onDelete: "CASCADE",
+    },
+    // Only a SHA-256 hash of the token is stored
+    tokenHash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      unique: true,
+    },
+    // All tokens rotated from the same login share a family
+    familyId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    revokedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    replacedById: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: "refresh_tokens",
+    timestamps: true,
+    indexes: [
+      {
+        fields: ["familyId"],
+        name: "refresh_tokens_family",
+      },
+    ],
+  }
+);
+
+export default RefreshToken;
@@ -6,8 +6,11 @@ interface ReservationAttributes {
   id: number;
   eventId: number;
   userId: number;
+  ticketTypeId?: number | null;
+  quantity: number;
   reservationDate: Date;
   status: ReservationStatus;
+  checkedInAt?: Date | null;
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -15,7 +18,14 @@ interface ReservationAttributes {
 interface ReservationCreationAttributes
   extends Optional<
     ReservationAttributes,
-    "id" | "reservationDate" | "status" | "createdAt" | "updatedAt"
+    | "id"
+    | "ticketTypeId"
+    | "quantity"
+    | "reservationDate"
+    | "status"
+    | "checkedInAt"
+    | "createdAt"
+    | "updatedAt"
   > {}
 
 class Reservation
@@ -26,8 +36,11 @@ class Reservation
   declare id: number;
   declare eventId: number;
   declare userId: number;
+  declare ticketTypeId?: number | null;
+  declare quantity: number;
   declare reservationDate: Date;
   declare status: ReservationStatus;
+  declare checkedInAt?: Date | null;
   declare readonly createdAt: Date;
   declare readonly updatedAt: Date;
 
@@ -47,6 +60,11 @@ class Reservation
   public isActive(): boolean {
     return this.status === ReservationStatus.CONFIRMED;
   }
+
+  // Instance method to check if the ticket has already been scanned
+  public isCheckedIn(): boolean {
+    return this.status === ReservationStatus.CHECKED_IN;
+  }
 }
 
 Reservation.init(
@@ -72,16 +90,37 @@ Reservation.init(
         key: "id",
       },
     },
+    ticketTypeId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: "ticket_types",
+        key: "id",
+      },
+      onDelete: "SET NULL",
+    },
+    quantity: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 1,
+      validate: {
+        min: 1,
+      },
+    },
     reservationDate: {
       type: DataTypes.DATE,
       allowNull: false,
       defaultValue: DataTypes.NOW,
     },
     status: {
-      type: DataTypes.ENUM("confirmed", "canceled"),
+      type: DataTypes.ENUM("confirmed", "canceled", "checked_in", "no_show"),
       allowNull: false,
       defaultValue: ReservationStatus.CONFIRMED,
     },
+    checkedInAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
   },
   {
     sequelize,
@@ -92,7 +131,7 @@ Reservation.init(
         unique: true,
         fields: ["eventId", "userId"],
         where: {
-          status: "confirmed",
+          status: ["confirmed", "checked_in"],
         },
         name: "unique_active_reservation_per_user_per_event",
       },
@@ -0,0 +1,81 @@
+import { DataTypes, Model, Optional } from "sequelize";
+import sequelize from "../config/database.js";
+import { PERMISSIONS, Permission } from "../types/index.js";
+
+interface RoleAttributes {
+  id: number;
+  name: string;
+  description?: string | null;
+  permissions: Permission[];
+  isSystem: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface RoleCreationAttributes
+  extends Optional<
+    RoleAttributes,
+    "id" | "description" | "isSystem" | "createdAt" | "updatedAt"
+  > {}
+
+class Role
+  extends Model<RoleAttributes, RoleCreationAttributes>
+  implements RoleAttributes
+{
+  // Declare properties for TypeScript but don't use public class fields
+  declare id: number;
+  declare name: string;
+  declare description?: string | null;
+  declare permissions: Permission[];
+  declare isSystem: boolean;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+}
+
+Role.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    // Referenced by users.role, so it can't change once created
+    name: {
+      type: DataTypes.STRING(50),
+      allowNull: false,
+      unique: true,
+    },
+    description: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+    permissions: {
+      type: DataTypes.ARRAY(DataTypes.STRING),
+      allowNull: false,
+      defaultValue: [],
+      validate: {
+        isKnownPermission(value: string[]) {
+          const unknown = value.filter(
+            (permission) => !PERMISSIONS.includes(permission as Permission)
+          );
+          if (unknown.length > 0) {
+            throw new Error(`Unknown permissions: ${unknown.join(", ")}`);
+          }
+        },
+      },
+    },
+    // Built-in roles (user, organizer, admin) can't be deleted
+    isSystem: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false,
+    },
+  },
+  {
+    sequelize,
+    tableName: "roles",
+    timestamps: true,
+  }
+);
+
+export default Role;
@@ -0,0 +1,139 @@
+import {
+  BelongsToManySetAssociationsMixin,
+  DataTypes,
+  Model,
+  Optional,
+} from "sequelize";
+import sequelize from "../config/database.js";
+import type Speaker from "./Speaker.js";
+
+interface SessionAttributes {
+  id: number;
+  eventId: number;
+  title: string;
+  description?: string | null;
+  startsAt: Date;
+  endsAt: Date;
+  room?: string | null;
+  capacity?: number | null;
+  availableSpots?: number | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface SessionCreationAttributes
+  extends Optional<
+    SessionAttributes,
+    | "id"
+    | "description"
+    | "room"
+    | "capacity"
+    | "availableSpots"
+    | "createdAt"
+    | "updatedAt"
+  > {}
+
+class Session
+  extends Model<SessionAttributes, SessionCreationAttributes>
+  implements SessionAttributes
+{
+  // Declare properties for TypeScript but don't use public class fields
+  declare id: number;
+  declare eventId: number;
+  declare title: string;
+  declare description?: string | null;
+  declare startsAt: Date;
+  declare endsAt: Date;
+  declare room?: string | null;
+  declare capacity?: number | null;
+  declare availableSpots?: number | null;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+
+  // Loaded when the "speakers" association is included
+  declare speakers?: Speaker[];
+  declare setSpeakers: BelongsToManySetAssociationsMixin<Speaker, number>;
+
+  // Instance method to check if a capped session has no seats left
+  public isFull(): boolean {
+    return this.capacity != null && (this.availableSpots ?? 0) <= 0;
+  }
+}
+
+Session.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    eventId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: "events",
+        key: "id",
+      },
+      onDelete: "CASCADE",
+    },
+    title: {
+      type: DataTypes.STRING(200),
+      allowNull: false,
+      validate: {
+        notEmpty: true,
+        len: [1, 200],
+      },
+    },
+    description: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    startsAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    endsAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    room: {
+      type: DataTypes.STRING(100),
+      allowNull: true,
+    },
+    // No capacity means anyone attending the event can join
+    capacity: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      validate: {
+        min: 1,
+      },
+    },
+    availableSpots: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: "sessions",
+    timestamps: true,
+    indexes: [{ fields: ["eventId", "startsAt"] }],
+    validate: {
+      endsAfterStart(this: Session) {
+        if (this.endsAt <= this.startsAt) {
+          throw new Error("Session must end after it starts");
+        }
+      },
+    },
+    hooks: {
+      beforeCreate: (session: Session) => {
+        // Set availableSpots to capacity when creating
+        if (session.capacity != null && session.availableSpots == null) {
+          session.availableSpots = session.capacity;
+        }
+      },
+    },
+  }
+);
+
+export default Session;
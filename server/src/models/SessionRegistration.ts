@@ -0,0 +1,78 @@
+import { DataTypes, Model, Optional } from "sequelize";
+import sequelize from "../config/database.js";
+import type Session from "./Session.js";
+
+interface SessionRegistrationAttributes {
+  id: number;
+  sessionId: number;
+  userId: number;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface SessionRegistrationCreationAttributes
+  extends Optional<
+    SessionRegistrationAttributes,
+    "id" | "createdAt" | "updatedAt"
+  > {}
+
+class SessionRegistration
+  extends Model<
+    SessionRegistrationAttributes,
+    SessionRegistrationCreationAttributes
+  >
+  implements SessionRegistrationAttributes
+{
+  // Declare properties for TypeScript but don't use public class fields
+  declare id: number;
+  declare sessionId: number;
+  declare userId: number;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+
+  // Loaded when the "session" association is included
+  declare session?: Session;
+}
+
+SessionRegistration.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    sessionId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: "sessions",
+        key: "id",
+      },
+      onDelete: "CASCADE",
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: "users",
+        key: "id",
+      },
+      onDelete: "CASCADE",
+    },
+  },
+  {
+    sequelize,
+    tableName: "session_registrations",
+    timestamps: true,
+    indexes: [
+      {
+        unique: true,
+        fields: ["sessionId", "userId"],
+        name: "unique_session_registration",
+      },
+      { fields: ["userId"] },
+    ],
+  }
+);
+
+export default SessionRegistration;
@@ -0,0 +1,77 @@
+import { DataTypes, Model, Optional } from "sequelize";
+import sequelize from "../config/database.js";
+
+interface SpeakerAttributes {
+  id: number;
+  eventId: number;
+  name: string;
+  headline?: string | null;
+  bio?: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface SpeakerCreationAttributes
+  extends Optional<
+    SpeakerAttributes,
+    "id" | "headline" | "bio" | "createdAt" | "updatedAt"
+  > {}
+
+class Speaker
+  extends Model<SpeakerAttributes, SpeakerCreationAttributes>
+  implements SpeakerAttributes
+{
+  // Declare properties for TypeScript but don't use public class fields
+  declare id: number;
+  declare eventId: number;
+  declare name: string;
+  declare headline?: string | null;
+  declare bio?: string | null;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+}
+
+Speaker.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    // Speakers belong to one event's lineup
+    eventId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: "events",
+        key: "id",
+      },
+      onDelete: "CASCADE",
+    },
+    name: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+      validate: {
+        notEmpty: true,
+        len: [1, 100],
+      },
+    },
+    // Role and affiliation, e.g. "CTO, Example Corp"
+    headline: {
+      type: DataTypes.STRING(200),
+      allowNull: true,
+    },
+    bio: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: "speakers",
+    timestamps: true,
+    indexes: [{ fields: ["eventId"] }],
+  }
+);
+
+export default Speaker;
@@ -0,0 +1,160 @@
+import { DataTypes, Model, Optional } from "sequelize";
+import sequelize from "../config/database.js";
+
+interface TicketTypeAttributes {
+  id: number;
+  eventId: number;
+  name: string;
+  description?: string;
+  price: number;
+  capacity: number;
+  availableSpots: number;
+  salesStartAt?: Date | null;
+  salesEndAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface TicketTypeCreationAttributes
+  extends Optional<
+    TicketTypeAttributes,
+    | "id"
+    | "description"
+    | "price"
+    | "availableSpots"
+    | "salesStartAt"
+    | "salesEndAt"
+    | "createdAt"
+    | "updatedAt"
+  > {}
+
+class TicketType
+  extends Model<TicketTypeAttributes, TicketTypeCreationAttributes>
+  implements TicketTypeAttributes
+{
+  // Declare properties for TypeScript but don't use public class fields
+  declare id: number;
+  declare eventId: number;
+  declare name: string;
+  declare description?: string;
+  declare price: number;
+  declare capacity: number;
+  declare availableSpots: number;
+  declare salesStartAt?: Date | null;
+  declare salesEndAt?: Date | null;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+
+  // Instance method to check if the tier is inside its sales window
+  public isOnSale(now: Date = new Date()): boolean {
+    if (this.salesStartAt && now < this.salesStartAt) {
+      return false;
+    }
+    if (this.salesEndAt && now > this.salesEndAt) {
+      return false;
+    }
+    return true;
+  }
+
+  // Instance method to describe the tier's current availability
+  public getSalesStatus(
+    now: Date = new Date()
+  ): "upcoming" | "on-sale" | "ended" | "sold-out" {
+    if (this.salesStartAt && now < this.salesStartAt) {
+      return "upcoming";
+    }
+    if (this.salesEndAt && now > this.salesEndAt) {
+      return "ended";
+    }
+    if (this.availableSpots <= 0) {
+      return "sold-out";
+    }
+    return "on-sale";
+  }
+}
+
+TicketType.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    eventId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: "events",
+        key: "id",
+      },
+      onDelete: "CASCADE",
+    },
+    name: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      validate: {
+        notEmpty: true,
+        len: [1, 100],
+      },
+    },
+    description: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    price: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: false,
+      defaultValue: 0,
+      validate: {
+        min: 0,
+      },
+      get() {
+        // DECIMAL columns come back from pg as strings
+        const value = this.getDataValue("price");
+        return value === null ? null : Number(value);
+      },
+    },
+    capacity: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      validate: {
+        min: 1,
+      },
+    },
+    availableSpots: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    salesStartAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    salesEndAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: "ticket_types",
+    timestamps: true,
+    indexes: [
+      {
+        unique: true,
+        fields: ["eventId", "name"],
+        name: "unique_ticket_type_name_per_event",
+      },
+    ],
+    hooks: {
+      beforeCreate: (ticketType: TicketType) => {
+        // Set availableSpots to capacity when creating
+        if (!ticketType.availableSpots) {
+          ticketType.availableSpots = ticketType.capacity;
+        }
+      },
+    },
+  }
+);
+
+export default TicketType;
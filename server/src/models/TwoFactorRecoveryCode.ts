@@ -0,0 +1,75 @@
+import { DataTypes, Model, Optional } from "sequelize";
+import sequelize from "../config/database.js";
+
+interface TwoFactorRecoveryCodeAttributes {
+  id: number;
+  userId: number;
+  codeHash: string;
+  usedAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface TwoFactorRecoveryCodeCreationAttributes
+  extends Optional<
+    TwoFactorRecoveryCodeAttributes,
+    "id" | "usedAt" | "createdAt" | "updatedAt"
+  > {}
+
+class TwoFactorRecoveryCode
+  extends Model<
+    TwoFactorRecoveryCodeAttributes,
+    TwoFactorRecoveryCodeCreationAttributes
+  >
+  implements TwoFactorRecoveryCodeAttributes
+{
+  // Declare properties for TypeScript but don't use public class fields
+  declare id: number;
+  declare userId: number;
+  declare codeHash: string;
+  declare usedAt?: Date | null;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+}
+
+TwoFactorRecoveryCode.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: "users",
+        key: "id",
+      },
+      onDelete: "CASCADE",
+    },
+    // Only a SHA-256 hash of the code is stored
+    codeHash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+    },
+    usedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: "two_factor_recovery_codes",
+    timestamps: true,
+    indexes: [
+      {
+        unique: true,
+        fields: ["userId", "codeHash"],
+        name: "two_factor_recovery_codes_user_code",
+      },
+    ],
+  }
+);
+
+export default TwoFactorRecoveryCode;
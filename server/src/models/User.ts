@@ -8,13 +8,20 @@ interface UserAttributes {
   password: string;
   firstName?: string;
   lastName?: string;
-  role: "user" | "admin";
+  role: string;
+  emailVerifiedAt?: Date | null;
+  twoFactorSecret?: string | null;
+  twoFactorEnabledAt?: Date | null;
   createdAt?: Date;
   updatedAt?: Date;
+  deletedAt?: Date | null;
 }
 
 interface UserCreationAttributes
-  extends Optional<UserAttributes, "id" | "createdAt" | "updatedAt"> {}
+  extends Optional<
+    UserAttributes,
+    "id" | "createdAt" | "updatedAt" | "deletedAt"
+  > {}
 
 class User
   extends Model<UserAttributes, UserCreationAttributes>
@@ -26,19 +33,35 @@ class User
   declare password: string;
   declare firstName?: string;
   declare lastName?: string;
-  declare role: "user" | "admin";
+  declare role: string;
+  declare emailVerifiedAt?: Date | null;
+  declare twoFactorSecret?: string | null;
+  declare twoFactorEnabledAt?: Date | null;
   declare readonly createdAt: Date;
   declare readonly updatedAt: Date;
+  // Set while the row is in the trash; cleared again by restore()
+  declare readonly deletedAt?: Date | null;
 
   // Instance method to check password
   public async validatePassword(password: string): Promise<boolean> {
     return bcrypt.compare(password, this.password);
   }
 
-  // Instance method to get user without password
-  public toJSON(): Omit<UserAttributes, "password"> {
+  // Instance method to check if the email address has been confirmed
+  public isEmailVerified(): boolean {
+    return !!this.emailVerifiedAt;
+  }
+
+  // Instance method to check if logins need a second factor
+  public isTwoFactorEnabled(): boolean {
+    return !!this.twoFactorEnabledAt;
+  }
+
+  // Instance method to get user without password or 2FA secret
+  public toJSON(): Omit<UserAttributes, "password" | "twoFactorSecret"> {
     const values = { ...this.get() } as any;
     delete values.password;
+    delete values.twoFactorSecret;
     return values;
   }
 }
@@ -73,16 +96,35 @@ User.init(
       type: DataTypes.STRING,
       allowNull: true,
     },
+    // Name of a row in the roles table
     role: {
-      type: DataTypes.ENUM("user", "admin"),
+      type: DataTypes.STRING(50),
       allowNull: false,
       defaultValue: "user",
+      references: {
+        model: "roles",
+        key: "name",
+      },
+    },
+    emailVerifiedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    // Base32 TOTP secret; set during enrollment, active once enabled
+    twoFactorSecret: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    twoFactorEnabledAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
     },
   },
   {
     sequelize,
     tableName: "users",
     timestamps: true,
+    paranoid: true,
     hooks: {
       beforeCreate: async (user: User) => {
         if (user.password) {
@@ -95,6 +137,10 @@ User.init(
           const salt = await bcrypt.genSalt(10);
           user.password = await bcrypt.hash(user.password, salt);
         }
+        // A new address has to be confirmed again
+        if (user.changed("email") && !user.changed("emailVerifiedAt")) {
+          user.emailVerifiedAt = null;
+        }
       },
     },
   }
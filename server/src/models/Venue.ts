@@ -0,0 +1,103 @@
+import { DataTypes, Model, Optional } from "sequelize";
+import sequelize from "../config/database.js";
+
+interface VenueAttributes {
+  id: number;
+  name: string;
+  address: string;
+  latitude: number;
+  longitude: number;
+  capacity?: number | null;
+  wheelchairAccessible: boolean;
+  accessibilityNotes?: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface VenueCreationAttributes
+  extends Optional<
+    VenueAttributes,
+    | "id"
+    | "capacity"
+    | "wheelchairAccessible"
+    | "accessibilityNotes"
+    | "createdAt"
+    | "updatedAt"
+  > {}
+
+class Venue
+  extends Model<VenueAttributes, VenueCreationAttributes>
+  implements VenueAttributes
+{
+  // Declare properties for TypeScript but don't use public class fields
+  declare id: number;
+  declare name: string;
+  declare address: string;
+  declare latitude: number;
+  declare longitude: number;
+  declare capacity?: number | null;
+  declare wheelchairAccessible: boolean;
+  declare accessibilityNotes?: string | null;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+}
+
+Venue.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    name: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+    },
+    address: {
+      type: DataTypes.STRING(500),
+      allowNull: false,
+    },
+    // WGS 84 coordinates in degrees
+    latitude: {
+      type: DataTypes.DOUBLE,
+      allowNull: false,
+      validate: {
+        min: -90,
+        max: 90,
+      },
+    },
+    longitude: {
+      type: DataTypes.DOUBLE,
+      allowNull: false,
+      validate: {
+        min: -180,
+        max: 180,
+      },
+    },
+    // Most people the venue holds; events can't be larger
+    capacity: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      validate: {
+        min: 1,
+      },
+    },
+    wheelchairAccessible: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false,
+    },
+    accessibilityNotes: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: "venues",
+    timestamps: true,
+    indexes: [{ fields: ["latitude", "longitude"] }],
+  }
+);
+
+export default Venue;
@@ -0,0 +1,121 @@
+import { DataTypes, Model, Optional } from "sequelize";
+import sequelize from "../config/database.js";
+import { WaitlistStatus } from "../types/index.js";
+
+interface WaitlistEntryAttributes {
+  id: number;
+  eventId: number;
+  userId: number;
+  ticketTypeId?: number | null;
+  quantity: number;
+  status: WaitlistStatus;
+  promotedAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface WaitlistEntryCreationAttributes
+  extends Optional<
+    WaitlistEntryAttributes,
+    | "id"
+    | "ticketTypeId"
+    | "quantity"
+    | "status"
+    | "promotedAt"
+    | "createdAt"
+    | "updatedAt"
+  > {}
+
+class WaitlistEntry
+  extends Model<WaitlistEntryAttributes, WaitlistEntryCreationAttributes>
+  implements WaitlistEntryAttributes
+{
+  // Declare properties for TypeScript but don't use public class fields
+  declare id: number;
+  declare eventId: number;
+  declare userId: number;
+  declare ticketTypeId?: number | null;
+  declare quantity: number;
+  declare status: WaitlistStatus;
+  declare promotedAt?: Date | null;
+  declare readonly createdAt: Date;
+  declare readonly updatedAt: Date;
+
+  // Instance method to check if the entry is still waiting for a spot
+  public isWaiting(): boolean {
+    return this.status === WaitlistStatus.WAITING;
+  }
+}
+
+WaitlistEntry.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    eventId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: "events",
+        key: "id",
+      },
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: "users",
+        key: "id",
+      },
+    },
+    ticketTypeId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: "ticket_types",
+        key: "id",
+      },
+      onDelete: "SET NULL",
+    },
+    quantity: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 1,
+      validate: {
+        min: 1,
+      },
+    },
+    status: {
+      type: DataTypes.ENUM("waiting", "promoted", "left"),
+      allowNull: false,
+      defaultValue: WaitlistStatus.WAITING,
+    },
+    promotedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: "waitlist_entries",
+    timestamps: true,
+    indexes: [
+      {
+        unique: true,
+        fields: ["eventId", "userId"],
+        where: {
+          status: "waiting",
+        },
+        name: "unique_waiting_entry_per_user_per_event",
+      },
+      {
+        fields: ["eventId", "status", "id"],
+        name: "waitlist_entries_queue_order",
+      },
+    ],
+  }
+);
+
+export default WaitlistEntry;
@@ -1,8 +1,29 @@
 import User from "./User.js";
+import Role from "./Role.js";
 import Event from "./Event.js";
 import Reservation from "./Reservation.js";
+import WaitlistEntry from "./WaitlistEntry.js";
+import TicketType from "./TicketType.js";
+import Notification from "./Notification.js";
+import RefreshToken from "./RefreshToken.js";
+import PasswordResetToken from "./PasswordResetToken.js";
+import TwoFactorRecoveryCode from "./TwoFactorRecoveryCode.js";
+import EventStaff from "./EventStaff.js";
+import AuditLog from "./AuditLog.js";
+import EventSeries from "./EventSeries.js";
+import Category from "./Category.js";
+import Venue from "./Venue.js";
+import Session from "./Session.js";
+import Speaker from "./Speaker.js";
+import SessionRegistration from "./SessionRegistration.js";
 
 // Define associations
+Role.hasMany(User, {
+  foreignKey: "role",
+  sourceKey: "name",
+  as: "users",
+});
+
 User.hasMany(Event, {
   foreignKey: "creatorId",
   as: "createdEvents",
@@ -33,4 +54,234 @@ Reservation.belongsTo(Event, {
   as: "event",
 });
 
-export { User, Event, Reservation };
+User.hasMany(WaitlistEntry, {
+  foreignKey: "userId",
+  as: "waitlistEntries",
+});
+
+WaitlistEntry.belongsTo(User, {
+  foreignKey: "userId",
+  as: "user",
+});
+
+Event.hasMany(WaitlistEntry, {
+  foreignKey: "eventId",
+  as: "waitlistEntries",
+});
+
+WaitlistEntry.belongsTo(Event, {
+  foreignKey: "eventId",
+  as: "event",
+});
+
+Event.hasMany(TicketType, {
+  foreignKey: "eventId",
+  as: "ticketTypes",
+});
+
+TicketType.belongsTo(Event, {
+  foreignKey: "eventId",
+  as: "event",
+});
+
+TicketType.hasMany(Reservation, {
+  foreignKey: "ticketTypeId",
+  as: "reservations",
+});
+
+Reservation.belongsTo(TicketType, {
+  foreignKey: "ticketTypeId",
+  as: "ticketType",
+});
+
+WaitlistEntry.belongsTo(TicketType, {
+  foreignKey: "ticketTypeId",
+  as: "ticketType",
+});
+
+User.hasMany(Notification, {
+  foreignKey: "userId",
+  as: "notifications",
+});
+
+Notification.belongsTo(User, {
+  foreignKey: "userId",
+  as: "user",
+});
+
+Notification.belongsTo(Event, {
+  foreignKey: "eventId",
+  as: "event",
+});
+
+User.hasMany(RefreshToken, {
+  foreignKey: "userId",
+  as: "refreshTokens",
+});
+
+RefreshToken.belongsTo(User, {
+  foreignKey: "userId",
+  as: "user",
+});
+
+User.hasMany(PasswordResetToken, {
+  foreignKey: "userId",
+  as: "passwordResetTokens",
+});
+
+PasswordResetToken.belongsTo(User, {
+  foreignKey: "userId",
+  as: "user",
+});
+
+User.hasMany(TwoFactorRecoveryCode, {
+  foreignKey: "userId",
+  as: "twoFactorRecoveryCodes",
+});
+
+TwoFactorRecoveryCode.belongsTo(User, {
+  foreignKey: "userId",
+  as: "user",
+});
+
+Event.hasMany(EventStaff, {
+  foreignKey: "eventId",
+  as: "staff",
+});
+
+EventStaff.belongsTo(Event, {
+  foreignKey: "eventId",
+  as: "event",
+});
+
+User.hasMany(EventStaff, {
+  foreignKey: "userId",
+  as: "staffAssignments",
+});
+
+EventStaff.belongsTo(User, {
+  foreignKey: "userId",
+  as: "user",
+});
+
+User.hasMany(EventSeries, {
+  foreignKey: "creatorId",
+  as: "createdSeries",
+});
+
+EventSeries.belongsTo(User, {
+  foreignKey: "creatorId",
+  as: "creator",
+});
+
+EventSeries.hasMany(Event, {
+  foreignKey: "seriesId",
+  as: "occurrences",
+});
+
+Event.belongsTo(EventSeries, {
+  foreignKey: "seriesId",
+  as: "series",
+});
+
+Category.hasMany(Event, {
+  foreignKey: "categoryId",
+  as: "events",
+});
+
+Event.belongsTo(Category, {
+  foreignKey: "categoryId",
+  as: "category",
+});
+
+Venue.hasMany(Event, {
+  foreignKey: "venueId",
+  as: "events",
+});
+
+Event.belongsTo(Venue, {
+  foreignKey: "venueId",
+  as: "venue",
+});
+
+Event.hasMany(Session, {
+  foreignKey: "eventId",
+  as: "sessions",
+});
+
+Session.belongsTo(Event, {
+  foreignKey: "eventId",
+  as: "event",
+});
+
+Event.hasMany(Speaker, {
+  foreignKey: "eventId",
+  as: "speakers",
+});
+
+Speaker.belongsTo(Event, {
+  foreignKey: "eventId",
+  as: "event",
+});
+
+// A session can have several speakers and a speaker several sessions
+Session.belongsToMany(Speaker, {
+  through: "session_speakers",
+  foreignKey: "sessionId",
+  otherKey: "speakerId",
+  as: "speakers",
+});
+
+Speaker.belongsToMany(Session, {
+  through: "session_speakers",
+  foreignKey: "speakerId",
+  otherKey: "sessionId",
+  as: "sessions",
+});
+
+Session.hasMany(SessionRegistration, {
+  foreignKey: "sessionId",
+  as: "registrations",
+});
+
+SessionRegistration.belongsTo(Session, {
+  foreignKey: "sessionId",
+  as: "session",
+});
+
+User.hasMany(SessionRegistration, {
+  foreignKey: "userId",
+  as: "sessionRegistrations",
+});
+
+SessionRegistration.belongsTo(User, {
+  foreignKey: "userId",
+  as: "user",
+});
+
+AuditLog.belongsTo(User, {
+  foreignKey: "actorId",
+  as: "actor",
+  constraints: false,
+});
+
+export {
+  User,
+  Role,
+  Event,
+  Reservation,
+  WaitlistEntry,
+  TicketType,
+  Notification,
+  RefreshToken,
+  PasswordResetToken,
+  TwoFactorRecoveryCode,
+  EventStaff,
+  AuditLog,
+  EventSeries,
+  Category,
+  Venue,
+  Session,
+  Speaker,
+  SessionRegistration,
+};
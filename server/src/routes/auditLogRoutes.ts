@@ -0,0 +1,17 @@
+import { Router } from "express";
+import { getAuditLogs } from "../controllers/auditLogController.js";
+import { authenticate, requirePermission } from "../middleware/auth.js";
+import { validateAuditLogFilters } from "../middleware/validation.js";
+
+const router = Router();
+
+// Admin routes
+router.get(
+  "/",
+  authenticate,
+  requirePermission("audit:view"),
+  validateAuditLogFilters,
+  getAuditLogs
+);
+
+export default router;
@@ -3,12 +3,31 @@ import {
   register,
   login,
   logout,
+  refresh,
+  forgotPassword,
+  resetPassword,
+  verifyEmail,
+  resendVerificationEmail,
+  verifyTwoFactorLogin,
   getProfile,
 } from "../controllers/authController.js";
+import {
+  setupTwoFactor,
+  enableTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+} from "../controllers/twoFactorController.js";
 import { authenticate } from "../middleware/auth.js";
 import {
   validateUserRegistration,
   validateUserLogin,
+  validateRefreshToken,
+  validateForgotPassword,
+  validateResetPassword,
+  validateVerifyEmail,
+  validateTwoFactorCode,
+  validateTwoFactorLogin,
+  validateDisableTwoFactor,
 } from "../middleware/validation.js";
 
 const router = Router();
@@ -16,9 +35,36 @@ const router = Router();
 // Public routes
 router.post("/register", validateUserRegistration, register);
 router.post("/login", validateUserLogin, login);
+router.post("/login/2fa", validateTwoFactorLogin, verifyTwoFactorLogin);
+router.post("/refresh", validateRefreshToken, refresh);
+router.post("/forgot-password", validateForgotPassword, forgotPassword);
+router.post("/reset-password", validateResetPassword, resetPassword);
+router.post("/verify-email", validateVerifyEmail, verifyEmail);
 
 // Protected routes
 router.post("/logout", authenticate, logout);
 router.get("/profile", authenticate, getProfile);
+router.post("/resend-verification", authenticate, resendVerificationEmail);
+
+// Two-factor authentication
+router.post("/2fa/setup", authenticate, setupTwoFactor);
+router.post(
+  "/2fa/enable",
+  authenticate,
+  validateTwoFactorCode,
+  enableTwoFactor
+);
+router.post(
+  "/2fa/disable",
+  authenticate,
+  validateDisableTwoFactor,
+  disableTwoFactor
+);
+router.post(
+  "/2fa/recovery-codes",
+  authenticate,
+  validateTwoFactorCode,
+  regenerateRecoveryCodes
+);
 
 export default router;
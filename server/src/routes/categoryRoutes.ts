@@ -0,0 +1,44 @@
+import { Router } from "express";
+import {
+  getCategories,
+  createCategory,
+  updateCategory,
+  deleteCategory,
+} from "../controllers/categoryController.js";
+import { authenticate, requirePermission } from "../middleware/auth.js";
+import {
+  validateIdParam,
+  validateCategoryCreation,
+  validateCategoryUpdate,
+} from "../middleware/validation.js";
+
+const router = Router();
+
+// Public so the event filters can list categories
+router.get("/", getCategories);
+
+// Category management routes
+router.post(
+  "/",
+  authenticate,
+  requirePermission("categories:manage"),
+  validateCategoryCreation,
+  createCategory
+);
+router.put(
+  "/:id",
+  authenticate,
+  requirePermission("categories:manage"),
+  validateIdParam,
+  validateCategoryUpdate,
+  updateCategory
+);
+router.delete(
+  "/:id",
+  authenticate,
+  requirePermission("categories:manage"),
+  validateIdParam,
+  deleteCategory
+);
+
+export default router;
@@ -5,15 +5,72 @@ import {
   createEvent,
   updateEvent,
   deleteEvent,
+  cancelEvent,
+  updateEventStatus,
   getPopularEvents,
   getDashboardStats,
+  getManagedEvents,
+  getDeletedEvents,
+  restoreEvent,
 } from "../controllers/eventController.js";
-import { authenticate, requireAdmin } from "../middleware/auth.js";
+import {
+  createEventSeries,
+  getEventSeries,
+} from "../controllers/eventSeriesController.js";
+import {
+  getEventTicketTypes,
+  createTicketType,
+  updateTicketType,
+  deleteTicketType,
+} from "../controllers/ticketTypeController.js";
+import {
+  getEventSessions,
+  getMySessionRegistrations,
+  createSession,
+  updateSession,
+  deleteSession,
+  registerForSession,
+  cancelSessionRegistration,
+} from "../controllers/sessionController.js";
+import {
+  getEventSpeakers,
+  createSpeaker,
+  updateSpeaker,
+  deleteSpeaker,
+} from "../controllers/speakerController.js";
+import {
+  getEventStaff,
+  assignEventStaff,
+  updateEventStaff,
+  removeEventStaff,
+} from "../controllers/eventStaffController.js";
+import {
+  authenticate,
+  optionalAuthenticate,
+  requirePermission,
+  requirePermissionOrEventStaff,
+  requireUser,
+} from "../middleware/auth.js";
 import {
   validateEventCreation,
+  validateEventSeriesCreation,
   validateEventUpdate,
+  validateEventCancellation,
+  validateEventStatus,
   validateEventFilters,
   validateIdParam,
+  validateTicketTypeCreation,
+  validateTicketTypeUpdate,
+  validateTicketTypeParams,
+  validateSessionCreation,
+  validateSessionUpdate,
+  validateSessionParams,
+  validateSpeakerCreation,
+  validateSpeakerUpdate,
+  validateSpeakerParams,
+  validateEventStaffAssignment,
+  validateEventStaffUpdate,
+  validateEventStaffParams,
 } from "../middleware/validation.js";
 
 const router = Router();
@@ -21,25 +78,230 @@ const router = Router();
 // Public routes
 router.get("/", validateEventFilters, getAllEvents);
 router.get("/popular", getPopularEvents);
-router.get("/:id", validateIdParam, getEventById);
+// Events the user manages; registered before /:id so "manage" isn't an id
+router.get(
+  "/manage",
+  authenticate,
+  requirePermission("events:manage"),
+  validateEventFilters,
+  getManagedEvents
+);
+// Trash listing for admins; also registered before /:id
+router.get(
+  "/trash",
+  authenticate,
+  requirePermission("events:manage_any"),
+  validateEventFilters,
+  getDeletedEvents
+);
+router.get("/series/:id", validateIdParam, getEventSeries);
+// Unpublished events are only shown to the people managing them
+router.get("/:id", optionalAuthenticate, validateIdParam, getEventById);
+router.get(
+  "/:id/ticket-types",
+  optionalAuthenticate,
+  validateIdParam,
+  getEventTicketTypes
+);
+router.get(
+  "/:id/sessions",
+  optionalAuthenticate,
+  validateIdParam,
+  getEventSessions
+);
+router.get(
+  "/:id/speakers",
+  optionalAuthenticate,
+  validateIdParam,
+  getEventSpeakers
+);
 
-// Admin routes
+// Event management routes; ownership is checked per event in the controllers
 router.post(
   "/",
   authenticate,
-  requireAdmin,
+  requirePermission("events:create"),
   validateEventCreation,
   createEvent
 );
+router.post(
+  "/series",
+  authenticate,
+  requirePermission("events:create"),
+  validateEventSeriesCreation,
+  createEventSeries
+);
 router.put(
   "/:id",
   authenticate,
-  requireAdmin,
+  requirePermissionOrEventStaff("events:manage", "edit"),
   validateIdParam,
   validateEventUpdate,
   updateEvent
 );
-router.delete("/:id", authenticate, requireAdmin, validateIdParam, deleteEvent);
-router.get("/dashboard/stats", authenticate, requireAdmin, getDashboardStats);
+router.delete(
+  "/:id",
+  authenticate,
+  requirePermission("events:manage"),
+  validateIdParam,
+  deleteEvent
+);
+router.put(
+  "/:id/status",
+  authenticate,
+  requirePermissionOrEventStaff("events:manage", "edit"),
+  validateIdParam,
+  validateEventStatus,
+  updateEventStatus
+);
+router.post(
+  "/:id/cancel",
+  authenticate,
+  requirePermission("events:manage"),
+  validateIdParam,
+  validateEventCancellation,
+  cancelEvent
+);
+router.post(
+  "/:id/restore",
+  authenticate,
+  requirePermission("events:manage_any"),
+  validateIdParam,
+  restoreEvent
+);
+router.get(
+  "/dashboard/stats",
+  authenticate,
+  requirePermission("events:manage"),
+  getDashboardStats
+);
+
+// Ticket type routes
+router.post(
+  "/:id/ticket-types",
+  authenticate,
+  requirePermissionOrEventStaff("events:manage", "edit"),
+  validateIdParam,
+  validateTicketTypeCreation,
+  createTicketType
+);
+router.put(
+  "/:id/ticket-types/:ticketTypeId",
+  authenticate,
+  requirePermissionOrEventStaff("events:manage", "edit"),
+  validateTicketTypeParams,
+  validateTicketTypeUpdate,
+  updateTicketType
+);
+router.delete(
+  "/:id/ticket-types/:ticketTypeId",
+  authenticate,
+  requirePermissionOrEventStaff("events:manage", "edit"),
+  validateTicketTypeParams,
+  deleteTicketType
+);
+
+// Agenda routes; organizers manage sessions and speakers
+router.post(
+  "/:id/sessions",
+  authenticate,
+  requirePermissionOrEventStaff("events:manage", "edit"),
+  validateIdParam,
+  validateSessionCreation,
+  createSession
+);
+router.put(
+  "/:id/sessions/:sessionId",
+  authenticate,
+  requirePermissionOrEventStaff("events:manage", "edit"),
+  validateSessionParams,
+  validateSessionUpdate,
+  updateSession
+);
+router.delete(
+  "/:id/sessions/:sessionId",
+  authenticate,
+  requirePermissionOrEventStaff("events:manage", "edit"),
+  validateSessionParams,
+  deleteSession
+);
+router.post(
+  "/:id/speakers",
+  authenticate,
+  requirePermissionOrEventStaff("events:manage", "edit"),
+  validateIdParam,
+  validateSpeakerCreation,
+  createSpeaker
+);
+router.put(
+  "/:id/speakers/:speakerId",
+  authenticate,
+  requirePermissionOrEventStaff("events:manage", "edit"),
+  validateSpeakerParams,
+  validateSpeakerUpdate,
+  updateSpeaker
+);
+router.delete(
+  "/:id/speakers/:speakerId",
+  authenticate,
+  requirePermissionOrEventStaff("events:manage", "edit"),
+  validateSpeakerParams,
+  deleteSpeaker
+);
+
+// Session registration routes; attendees with a reservation pick sessions
+router.get(
+  "/:id/sessions/registrations",
+  authenticate,
+  requireUser,
+  validateIdParam,
+  getMySessionRegistrations
+);
+router.post(
+  "/:id/sessions/:sessionId/registration",
+  authenticate,
+  requirePermission("reservations:create"),
+  validateSessionParams,
+  registerForSession
+);
+router.delete(
+  "/:id/sessions/:sessionId/registration",
+  authenticate,
+  requireUser,
+  validateSessionParams,
+  cancelSessionRegistration
+);
+
+// Event staff routes (owners assign; co-organizers can see the team)
+router.get(
+  "/:id/staff",
+  authenticate,
+  requirePermissionOrEventStaff("events:manage", "edit"),
+  validateIdParam,
+  getEventStaff
+);
+router.post(
+  "/:id/staff",
+  authenticate,
+  requirePermission("events:manage"),
+  validateIdParam,
+  validateEventStaffAssignment,
+  assignEventStaff
+);
+router.put(
+  "/:id/staff/:staffId",
+  authenticate,
+  requirePermission("events:manage"),
+  validateEventStaffParams,
+  validateEventStaffUpdate,
+  updateEventStaff
+);
+router.delete(
+  "/:id/staff/:staffId",
+  authenticate,
+  requirePermission("events:manage"),
+  validateEventStaffParams,
+  removeEventStaff
+);
 
 export default router;
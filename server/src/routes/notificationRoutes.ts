@@ -0,0 +1,32 @@
+import { Router } from "express";
+import {
+  getMyNotifications,
+  markNotificationRead,
+  markAllNotificationsRead,
+} from "../controllers/notificationController.js";
+import { authenticate, requireUser } from "../middleware/auth.js";
+import {
+  validateIdParam,
+  validateNotificationFilters,
+} from "../middleware/validation.js";
+
+const router = Router();
+
+// User routes
+router.get(
+  "/",
+  authenticate,
+  requireUser,
+  validateNotificationFilters,
+  getMyNotifications
+);
+router.patch("/read-all", authenticate, requireUser, markAllNotificationsRead);
+router.patch(
+  "/:id/read",
+  authenticate,
+  requireUser,
+  validateIdParam,
+  markNotificationRead
+);
+
+export default router;
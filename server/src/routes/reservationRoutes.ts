@@ -6,11 +6,24 @@ import {
   getEventReservations,
   getAllReservations,
   checkUserReservation,
+  joinWaitlist,
+  leaveWaitlist,
+  getWaitlistStatus,
+  getMyWaitlist,
+  checkInReservation,
 } from "../controllers/reservationController.js";
-import { authenticate, requireAdmin, requireUser } from "../middleware/auth.js";
+import {
+  authenticate,
+  requirePermission,
+  requirePermissionOrEventStaff,
+  requireUser,
+  requireVerifiedEmail,
+} from "../middleware/auth.js";
 import {
   validateIdParam,
   validateReservationFilters,
+  validateReservationQuantity,
+  validateCheckIn,
 } from "../middleware/validation.js";
 
 const router = Router();
@@ -19,8 +32,10 @@ const router = Router();
 router.post(
   "/events/:id/reserve",
   authenticate,
-  requireUser,
+  requirePermission("reservations:create"),
+  requireVerifiedEmail,
   validateIdParam,
+  validateReservationQuantity,
   createReservation
 );
 router.delete(
@@ -28,6 +43,7 @@ router.delete(
   authenticate,
   requireUser,
   validateIdParam,
+  validateReservationQuantity,
   cancelReservation
 );
 router.get(
@@ -45,19 +61,53 @@ router.get(
   checkUserReservation
 );
 
-// Admin routes
+// Waitlist routes
+router.post(
+  "/events/:id/waitlist",
+  authenticate,
+  requirePermission("reservations:create"),
+  requireVerifiedEmail,
+  validateIdParam,
+  validateReservationQuantity,
+  joinWaitlist
+);
+router.delete(
+  "/events/:id/waitlist",
+  authenticate,
+  requireUser,
+  validateIdParam,
+  leaveWaitlist
+);
+router.get(
+  "/events/:id/waitlist",
+  authenticate,
+  requireUser,
+  validateIdParam,
+  getWaitlistStatus
+);
+router.get("/my-waitlist", authenticate, requireUser, getMyWaitlist);
+
+// Event staff routes (scoped to the events the user manages)
 router.get(
   "/events/:id/reservations",
   authenticate,
-  requireAdmin,
+  requirePermissionOrEventStaff("reservations:view", "view_reservations"),
   validateIdParam,
   validateReservationFilters,
   getEventReservations
 );
+router.post(
+  "/events/:id/check-in",
+  authenticate,
+  requirePermissionOrEventStaff("reservations:checkin", "check_in"),
+  validateIdParam,
+  validateCheckIn,
+  checkInReservation
+);
 router.get(
   "/",
   authenticate,
-  requireAdmin,
+  requirePermission("reservations:view"),
   validateReservationFilters,
   getAllReservations
 );
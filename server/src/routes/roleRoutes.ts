@@ -0,0 +1,42 @@
+import { Router } from "express";
+import {
+  getRoles,
+  createRole,
+  updateRole,
+  deleteRole,
+} from "../controllers/roleController.js";
+import { authenticate, requirePermission } from "../middleware/auth.js";
+import {
+  validateIdParam,
+  validateRoleCreation,
+  validateRoleUpdate,
+} from "../middleware/validation.js";
+
+const router = Router();
+
+// Role management routes
+router.get("/", authenticate, requirePermission("roles:manage"), getRoles);
+router.post(
+  "/",
+  authenticate,
+  requirePermission("roles:manage"),
+  validateRoleCreation,
+  createRole
+);
+router.put(
+  "/:id",
+  authenticate,
+  requirePermission("roles:manage"),
+  validateIdParam,
+  validateRoleUpdate,
+  updateRole
+);
+router.delete(
+  "/:id",
+  authenticate,
+  requirePermission("roles:manage"),
+  validateIdParam,
+  deleteRole
+);
+
+export default router;
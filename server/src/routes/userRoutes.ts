@@ -4,21 +4,86 @@ import {
   getUserById,
   updateUser,
   deleteUser,
+  getDeletedUsers,
+  restoreUser,
+  unlockUser,
+  assignUserRole,
   updateProfile,
 } from "../controllers/userController.js";
-import { authenticate, requireAdmin, requireUser } from "../middleware/auth.js";
+import {
+  authenticate,
+  requirePermission,
+  requireUser,
+} from "../middleware/auth.js";
 import {
   validateIdParam,
   validateUserFilters,
+  validateUserUpdate,
+  validateRoleAssignment,
 } from "../middleware/validation.js";
 
 const router = Router();
 
-// Admin only routes
-router.get("/", authenticate, requireAdmin, validateUserFilters, getAllUsers);
-router.get("/:id", authenticate, requireAdmin, validateIdParam, getUserById);
-router.put("/:id", authenticate, requireAdmin, validateIdParam, updateUser);
-router.delete("/:id", authenticate, requireAdmin, validateIdParam, deleteUser);
+// User management routes
+router.get(
+  "/",
+  authenticate,
+  requirePermission("users:manage"),
+  validateUserFilters,
+  getAllUsers
+);
+// Trash listing; registered before /:id so "trash" isn't an id
+router.get(
+  "/trash",
+  authenticate,
+  requirePermission("users:manage"),
+  validateUserFilters,
+  getDeletedUsers
+);
+router.get(
+  "/:id",
+  authenticate,
+  requirePermission("users:manage"),
+  validateIdParam,
+  getUserById
+);
+router.put(
+  "/:id",
+  authenticate,
+  requirePermission("users:manage"),
+  validateIdParam,
+  validateUserUpdate,
+  updateUser
+);
+router.delete(
+  "/:id",
+  authenticate,
+  requirePermission("users:manage"),
+  validateIdParam,
+  deleteUser
+);
+router.post(
+  "/:id/restore",
+  authenticate,
+  requirePermission("users:manage"),
+  validateIdParam,
+  restoreUser
+);
+router.post(
+  "/:id/unlock",
+  authenticate,
+  requirePermission("users:manage"),
+  validateIdParam,
+  unlockUser
+);
+router.put(
+  "/:id/role",
+  authenticate,
+  requirePermission("roles:manage"),
+  validateIdParam,
+  validateRoleAssignment,
+  assignUserRole
+);
 
 // User profile routes
 router.put("/profile/me", authenticate, requireUser, updateProfile);
@@ -0,0 +1,46 @@
+import { Router } from "express";
+import {
+  getVenues,
+  getVenueById,
+  createVenue,
+  updateVenue,
+  deleteVenue,
+} from "../controllers/venueController.js";
+import { authenticate, requirePermission } from "../middleware/auth.js";
+import {
+  validateIdParam,
+  validateVenueCreation,
+  validateVenueUpdate,
+} from "../middleware/validation.js";
+
+const router = Router();
+
+// Public so event pages can show where events take place
+router.get("/", getVenues);
+router.get("/:id", validateIdParam, getVenueById);
+
+// Venue management routes
+router.post(
+  "/",
+  authenticate,
+  requirePermission("venues:manage"),
+  validateVenueCreation,
+  createVenue
+);
+router.put(
+  "/:id",
+  authenticate,
+  requirePermission("venues:manage"),
+  validateIdParam,
+  validateVenueUpdate,
+  updateVenue
+);
+router.delete(
+  "/:id",
+  authenticate,
+  requirePermission("venues:manage"),
+  validateIdParam,
+  deleteVenue
+);
+
+export default router;
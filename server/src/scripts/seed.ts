@@ -1,6 +1,7 @@
 import dotenv from "dotenv";
 import sequelize from "../config/database.js";
 import { User } from "../models/index.js";
+import { ensureSystemRoles } from "../services/permissionService.js";
 
 dotenv.config();
 
@@ -16,6 +17,10 @@ const seedDatabase = async () => {
     await sequelize.sync({ force: false });
     console.log("✅ Database synced");
 
+    // Users reference roles, so the built-in ones must exist first
+    await ensureSystemRoles();
+    console.log("✅ Roles ready");
+
     // Check if admin user already exists
     const existingAdmin = await User.findOne({
       where: { email: "admin@example.com" },
@@ -33,6 +38,7 @@ const seedDatabase = async () => {
       firstName: "Admin",
       lastName: "User",
       role: "admin",
+      emailVerifiedAt: new Date(),
     });
 
     console.log("✅ Admin user created successfully");
@@ -52,6 +58,7 @@ const seedDatabase = async () => {
         firstName: "Test",
         lastName: "User",
         role: "user",
+        emailVerifiedAt: new Date(),
       });
 
       console.log("✅ Test user created successfully");
@@ -0,0 +1,52 @@
+import { Op } from "sequelize";
+import { Event, Reservation } from "../models/index.js";
+import { ReservationStatus } from "../types/index.js";
+
+// Attendance stays open for a while after an event ends for late check-ins
+const NO_SHOW_GRACE_PERIOD_MS =
+  Number(process.env.NO_SHOW_GRACE_PERIOD_HOURS || 1) * 60 * 60 * 1000;
+const NO_SHOW_SWEEP_INTERVAL_MS = 15 * 60 * 1000;
+
+// Record every confirmed reservation of a finished event that was never
+// checked in as a no-show. Returns the number of reservations updated.
+export const markNoShows = async (now: Date = new Date()): Promise<number> => {
+  const finishedEvents = await Event.findAll({
+    attributes: ["id"],
+    where: {
+      endDate: {
+        [Op.lt]: new Date(now.getTime() - NO_SHOW_GRACE_PERIOD_MS),
+      },
+    },
+  });
+
+  if (finishedEvents.length === 0) {
+    return 0;
+  }
+
+  const [updatedCount] = await Reservation.update(
+    { status: ReservationStatus.NO_SHOW },
+    {
+      where: {
+        eventId: { [Op.in]: finishedEvents.map((event) => event.id) },
+        status: ReservationStatus.CONFIRMED,
+      },
+    }
+  );
+
+  if (updatedCount > 0) {
+    console.log(`Marked ${updatedCount} reservation(s) as no-show`);
+  }
+
+  return updatedCount;
+};
+
+// Periodically close attendance for events that have ended
+export const startNoShowSweep = (): NodeJS.Timeout => {
+  const sweep = () =>
+    markNoShows().catch((error) =>
+      console.error("No-show sweep error:", error)
+    );
+
+  sweep();
+  return setInterval(sweep, NO_SHOW_SWEEP_INTERVAL_MS);
+};
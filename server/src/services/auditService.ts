@@ -0,0 +1,85 @@
+import { Transaction } from "sequelize";
+import { AuditLog } from "../models/index.js";
+import { AuthenticatedRequest } from "../types/index.js";
+
+type Snapshot = Record<string, unknown>;
+
+interface AuditEntry {
+  action: string;
+  entityType: string;
+  entityId?: number | null;
+  before?: Snapshot | null;
+  after?: Snapshot | null;
+}
+
+// Bookkeeping columns that would show up in every diff, and the event
+// times derived from eventDate
+const IGNORED_FIELDS = ["createdAt", "updatedAt", "times"];
+
+const isSameValue = (a: unknown, b: unknown) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+// Reduce two snapshots to just the fields that differ
+const diffSnapshots = (
+  before: Snapshot,
+  after: Snapshot
+): { before: Snapshot; after: Snapshot } => {
+  const changedBefore: Snapshot = {};
+  const changedAfter: Snapshot = {};
+
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  fields.forEach((field) => {
+    if (IGNORED_FIELDS.includes(field)) {
+      return;
+    }
+    if (!isSameValue(before[field], after[field])) {
+      changedBefore[field] = before[field];
+      changedAfter[field] = after[field];
+    }
+  });
+
+  return { before: changedBefore, after: changedAfter };
+};
+
+// Take a JSON-safe copy of a model (or plain object) for the log. Models go
+// through toJSON() so hidden fields like password hashes are left out.
+export const snapshot = (
+  record: { toJSON(): object } | Snapshot | null | undefined
+): Snapshot | null => {
+  if (!record) {
+    return null;
+  }
+  const plain =
+    typeof record.toJSON === "function"
+      ? (record as { toJSON(): object }).toJSON()
+      : record;
+  return JSON.parse(JSON.stringify(plain));
+};
+
+// Append an entry for an action taken by the request's user. Pass the
+// transaction that made the change so the entry commits (or not) with it.
+export const recordAudit = async (
+  req: AuthenticatedRequest,
+  entry: AuditEntry,
+  transaction?: Transaction
+): Promise<AuditLog> => {
+  let before = entry.before ?? null;
+  let after = entry.after ?? null;
+
+  if (before && after) {
+    ({ before, after } = diffSnapshots(before, after));
+  }
+
+  return AuditLog.create(
+    {
+      actorId: req.user?.id ?? null,
+      action: entry.action,
+      entityType: entry.entityType,
+      entityId: entry.entityId ?? null,
+      before,
+      after,
+      ipAddress: req.ip ?? null,
+    },
+    { transaction }
+  );
+};
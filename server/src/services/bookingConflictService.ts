@@ -0,0 +1,41 @@
+import { Op, Transaction } from "sequelize";
+import { Event, Reservation } from "../models/index.js";
+import { ReservationStatus } from "../types/index.js";
+
+// Find another event the user holds an active reservation for whose time
+// overlaps the given event. Events that meet end to start don't overlap.
+export const findOverlappingBooking = async (
+  userId: number,
+  event: Event,
+  transaction?: Transaction
+): Promise<Event | null> =>
+  Event.findOne({
+    where: {
+      id: { [Op.ne]: event.id },
+      canceledAt: null,
+      eventDate: { [Op.lt]: event.endDate },
+      endDate: { [Op.gt]: event.eventDate },
+    },
+    include: [
+      {
+        model: Reservation,
+        as: "reservations",
+        attributes: [],
+        required: true,
+        where: {
+          userId,
+          status: {
+            [Op.in]: [
+              ReservationStatus.CONFIRMED,
+              ReservationStatus.CHECKED_IN,
+            ],
+          },
+        },
+      },
+    ],
+    order: [["eventDate", "ASC"]],
+    transaction,
+  });
+
+export const describeOverlap = (overlapping: Event): string =>
+  `You already have a reservation for "${overlapping.name}", which overlaps this event`;
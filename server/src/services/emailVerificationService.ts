@@ -0,0 +1,50 @@
+import { User } from "../models/index.js";
+import { escapeHtml, sendMail } from "./mailService.js";
+import {
+  generateEmailVerificationToken,
+  verifyEmailVerificationToken,
+} from "../utils/jwt.js";
+
+const CLIENT_URL = process.env.CLIENT_URL || "http://localhost:5173";
+
+// Email a link that confirms the user owns their address
+export const sendVerificationEmail = async (user: User): Promise<void> => {
+  const token = generateEmailVerificationToken({
+    userId: user.id,
+    email: user.email,
+  });
+  const verifyUrl = `${CLIENT_URL}/verify-email?token=${token}`;
+
+  await sendMail({
+    to: user.email,
+    subject: "Confirm your EventHub email address",
+    text: `Hi ${
+      user.firstName || user.email
+    },\n\nPlease confirm your email address so you can start reserving spots:\n\n${verifyUrl}\n\nIf you didn't create an account, you can ignore this email.`,
+    html: `<p>Hi ${escapeHtml(
+      user.firstName || user.email
+    )},</p><p>Please confirm your email address so you can start reserving spots.</p><p><a href="${verifyUrl}">Verify email</a></p><p>If you didn't create an account, you can ignore this email.</p>`,
+  });
+};
+
+// Mark the user behind a verification link as verified. Returns null when the
+// link is invalid, expired or was issued for an address the user no longer has.
+export const verifyEmail = async (rawToken: string): Promise<User | null> => {
+  let payload;
+  try {
+    payload = verifyEmailVerificationToken(rawToken);
+  } catch (error) {
+    return null;
+  }
+
+  const user = await User.findByPk(payload.userId);
+  if (!user || user.email !== payload.email) {
+    return null;
+  }
+
+  if (!user.isEmailVerified()) {
+    await user.update({ emailVerifiedAt: new Date() });
+  }
+
+  return user;
+};
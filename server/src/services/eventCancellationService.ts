@@ -0,0 +1,96 @@
+import { Op, Transaction } from "sequelize";
+import {
+  Event,
+  Reservation,
+  TicketType,
+  WaitlistEntry,
+} from "../models/index.js";
+import { ReservationStatus, WaitlistStatus } from "../types/index.js";
+import { releaseSessionRegistrations } from "./sessionService.js";
+
+interface CanceledBookings {
+  canceledReservations: number;
+  // Reservation holders and waitlisted users, each listed once
+  affectedUserIds: number[];
+}
+
+// Cancel every confirmed reservation for an event in one go, hand the seats
+// back to the event, its ticket tiers and its sessions, and close the
+// waitlist. Run inside the transaction that cancels or deletes the event.
+export const cancelEventBookings = async (
+  eventId: number,
+  transaction: Transaction
+): Promise<CanceledBookings> => {
+  const reservations = await Reservation.findAll({
+    attributes: ["id", "userId", "quantity", "ticketTypeId"],
+    where: { eventId, status: ReservationStatus.CONFIRMED },
+    transaction,
+  });
+  const waitlistEntries = await WaitlistEntry.findAll({
+    attributes: ["userId"],
+    where: { eventId, status: WaitlistStatus.WAITING },
+    transaction,
+  });
+
+  if (reservations.length > 0) {
+    await Reservation.update(
+      { status: ReservationStatus.CANCELED },
+      {
+        where: {
+          id: { [Op.in]: reservations.map((reservation) => reservation.id) },
+        },
+        transaction,
+      }
+    );
+
+    const releasedSeats = reservations.reduce(
+      (total, reservation) => total + reservation.quantity,
+      0
+    );
+    await Event.increment("availableSpots", {
+      by: releasedSeats,
+      where: { id: eventId },
+      transaction,
+    });
+
+    const seatsByTier = new Map<number, number>();
+    reservations.forEach((reservation) => {
+      if (reservation.ticketTypeId) {
+        seatsByTier.set(
+          reservation.ticketTypeId,
+          (seatsByTier.get(reservation.ticketTypeId) || 0) +
+            reservation.quantity
+        );
+      }
+    });
+    for (const [ticketTypeId, seats] of seatsByTier) {
+      await TicketType.increment("availableSpots", {
+        by: seats,
+        where: { id: ticketTypeId },
+        transaction,
+      });
+    }
+
+    const holderIds = new Set(
+      reservations.map((reservation) => reservation.userId)
+    );
+    for (const userId of holderIds) {
+      await releaseSessionRegistrations(eventId, userId, transaction);
+    }
+  }
+
+  await WaitlistEntry.update(
+    { status: WaitlistStatus.LEFT },
+    { where: { eventId, status: WaitlistStatus.WAITING }, transaction }
+  );
+
+  return {
+    canceledReservations: reservations.length,
+    affectedUserIds: [
+      ...new Set([
+        ...reservations.map((reservation) => reservation.userId),
+        ...waitlistEntries.map((entry) => entry.userId),
+      ]),
+    ],
+  };
+};
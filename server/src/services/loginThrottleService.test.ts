@@ -0,0 +1,184 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+// In-memory stand-in for the few Redis commands the cache helpers use, with
+// expiry driven by the (fake) clock
+const store = vi.hoisted(
+  () => new Map<string, { value: string; expiresAt?: number }>()
+);
+
+vi.mock("ioredis", () => {
+  const read = (key: string) => {
+    const entry = store.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      store.delete(key);
+      return undefined;
+    }
+    return entry;
+  };
+
+  class FakeRedis {
+    on() {
+      return this;
+    }
+    async get(key: string) {
+      return read(key)?.value ?? null;
+    }
+    async set(key: string, value: string) {
+      store.set(key, { value });
+      return "OK";
+    }
+    async setex(key: string, seconds: number, value: string) {
+      store.set(key, { value, expiresAt: Date.now() + seconds * 1000 });
+      return "OK";
+    }
+    async del(...keys: string[]) {
+      keys.forEach((key) => store.delete(key));
+      return keys.length;
+    }
+    async incr(key: string) {
+      const entry = read(key);
+      const value = String(Number(entry?.value || 0) + 1);
+      store.set(key, { ...entry, value });
+      return Number(value);
+    }
+    async expire(key: string, seconds: number) {
+      const entry = read(key);
+      if (entry) {
+        entry.expiresAt = Date.now() + seconds * 1000;
+      }
+      return entry ? 1 : 0;
+    }
+    async ttl(key: string) {
+      const entry = read(key);
+      if (!entry) {
+        return -2;
+      }
+      if (entry.expiresAt === undefined) {
+        return -1;
+      }
+      return Math.ceil((entry.expiresAt - Date.now()) / 1000);
+    }
+  }
+
+  return { default: FakeRedis };
+});
+
+// The limits below are what the tests expect, whatever a local .env says
+process.env.LOGIN_MAX_ATTEMPTS = "5";
+process.env.LOGIN_MAX_ATTEMPTS_PER_IP = "20";
+process.env.LOGIN_LOCKOUT_MINUTES = "15";
+
+const {
+  checkLoginThrottle,
+  clearLoginFailures,
+  getAccountLockedUntil,
+  recordLoginFailure,
+  unlockAccount,
+} = await import("./loginThrottleService.js");
+
+const IP = "203.0.113.7";
+
+const failTimes = async (times: number, email: string, ip = IP) => {
+  for (let i = 0; i < times; i++) {
+    await recordLoginFailure(email, ip);
+  }
+};
+
+describe("login throttling", () => {
+  beforeEach(() => {
+    store.clear();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-06-01T12:00:00Z"));
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("lets the first retry through straight away", async () => {
+    await failTimes(1, "ada@example.com");
+
+    expect(await checkLoginThrottle("ada@example.com", IP)).toBeNull();
+  });
+
+  it("delays retries with a doubling wait", async () => {
+    await failTimes(2, "ada@example.com");
+    expect(await checkLoginThrottle("ada@example.com", IP)).toEqual({
+      code: "LOGIN_THROTTLED",
+      retryAfterSeconds: 1,
+    });
+
+    await failTimes(2, "ada@example.com");
+    expect(await checkLoginThrottle("ada@example.com", IP)).toEqual({
+      code: "LOGIN_THROTTLED",
+      retryAfterSeconds: 4,
+    });
+
+    vi.advanceTimersByTime(4000);
+    expect(await checkLoginThrottle("ada@example.com", IP)).toBeNull();
+  });
+
+  it("tracks accounts regardless of case and whitespace", async () => {
+    await failTimes(2, " Ada@Example.com ");
+
+    expect(await checkLoginThrottle("ada@example.com", IP)).toMatchObject({
+      code: "LOGIN_THROTTLED",
+    });
+  });
+
+  it("locks the account after too many failures", async () => {
+    await failTimes(5, "ada@example.com");
+
+    expect(await checkLoginThrottle("ada@example.com", IP)).toEqual({
+      code: "ACCOUNT_LOCKED",
+      retryAfterSeconds: 15 * 60,
+    });
+    expect(await getAccountLockedUntil("ada@example.com")).toBe(
+      "2026-06-01T12:15:00.000Z"
+    );
+    // Other accounts from the same address are unaffected
+    expect(await checkLoginThrottle("grace@example.com", IP)).toBeNull();
+  });
+
+  it("lifts the lockout once it expires", async () => {
+    await failTimes(5, "ada@example.com");
+
+    vi.advanceTimersByTime(15 * 60 * 1000);
+
+    expect(await checkLoginThrottle("ada@example.com", IP)).toBeNull();
+    expect(await getAccountLockedUntil("ada@example.com")).toBeNull();
+  });
+
+  it("lets an admin unlock the account early", async () => {
+    await failTimes(5, "ada@example.com");
+
+    await unlockAccount("ada@example.com");
+
+    expect(await checkLoginThrottle("ada@example.com", IP)).toBeNull();
+  });
+
+  it("forgets an account's failures after a successful login", async () => {
+    await failTimes(4, "ada@example.com");
+
+    await clearLoginFailures("ada@example.com");
+    await failTimes(1, "ada@example.com");
+
+    expect(await checkLoginThrottle("ada@example.com", IP)).toBeNull();
+  });
+
+  it("blocks an address guessing across many accounts", async () => {
+    for (let i = 0; i < 20; i++) {
+      await recordLoginFailure(`user${i}@example.com`, IP);
+    }
+
+    expect(await checkLoginThrottle("new@example.com", IP)).toEqual({
+      code: "TOO_MANY_ATTEMPTS",
+      retryAfterSeconds: 15 * 60,
+    });
+    expect(
+      await checkLoginThrottle("new@example.com", "198.51.100.1")
+    ).toBeNull();
+  });
+});
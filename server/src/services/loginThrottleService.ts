@@ -0,0 +1,123 @@
+import { cacheUtils, CACHE_KEYS, CACHE_EXPIRY } from "../config/redis.js";
+
+const MAX_ACCOUNT_FAILURES = Number(process.env.LOGIN_MAX_ATTEMPTS || 5);
+const MAX_IP_FAILURES = Number(process.env.LOGIN_MAX_ATTEMPTS_PER_IP || 20);
+const LOCKOUT_SECONDS = Number(process.env.LOGIN_LOCKOUT_MINUTES || 15) * 60;
+const MAX_DELAY_SECONDS = 30;
+
+export type LoginThrottleCode =
+  | "ACCOUNT_LOCKED"
+  | "LOGIN_THROTTLED"
+  | "TOO_MANY_ATTEMPTS";
+
+export interface LoginThrottle {
+  code: LoginThrottleCode;
+  retryAfterSeconds: number;
+}
+
+// Accounts are tracked by email so unknown addresses are throttled the same
+// way as real ones and don't reveal which accounts exist
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+// Wait time before the next attempt: none after the first failure, then
+// doubling from 1s up to MAX_DELAY_SECONDS
+const delayAfterFailures = (failures: number) =>
+  failures < 2 ? 0 : Math.min(2 ** (failures - 2), MAX_DELAY_SECONDS);
+
+// Check whether a login attempt may go ahead. Returns null when allowed.
+export const checkLoginThrottle = async (
+  email: string,
+  ip: string
+): Promise<LoginThrottle | null> => {
+  const account = normalizeEmail(email);
+
+  const lockoutSeconds = await cacheUtils.ttl(
+    CACHE_KEYS.ACCOUNT_LOCKOUT(account)
+  );
+  if (lockoutSeconds > 0) {
+    return { code: "ACCOUNT_LOCKED", retryAfterSeconds: lockoutSeconds };
+  }
+
+  const ipKey = CACHE_KEYS.LOGIN_FAILURES_IP(ip);
+  const ipFailures = Number(await cacheUtils.get(ipKey)) || 0;
+  if (ipFailures >= MAX_IP_FAILURES) {
+    return {
+      code: "TOO_MANY_ATTEMPTS",
+      retryAfterSeconds: await cacheUtils.ttl(ipKey),
+    };
+  }
+
+  const delaySeconds = await cacheUtils.ttl(CACHE_KEYS.LOGIN_DELAY(account));
+  if (delaySeconds > 0) {
+    return { code: "LOGIN_THROTTLED", retryAfterSeconds: delaySeconds };
+  }
+
+  return null;
+};
+
+// Count a failed attempt against the account and the IP. Locks the account
+// once it reaches MAX_ACCOUNT_FAILURES within the failure window.
+export const recordLoginFailure = async (
+  email: string,
+  ip: string
+): Promise<void> => {
+  const account = normalizeEmail(email);
+
+  const [accountFailures] = await Promise.all([
+    cacheUtils.increment(
+      CACHE_KEYS.LOGIN_FAILURES_ACCOUNT(account),
+      CACHE_EXPIRY.LOGIN_FAILURE_WINDOW
+    ),
+    cacheUtils.increment(
+      CACHE_KEYS.LOGIN_FAILURES_IP(ip),
+      CACHE_EXPIRY.LOGIN_FAILURE_WINDOW
+    ),
+  ]);
+
+  if (accountFailures >= MAX_ACCOUNT_FAILURES) {
+    const lockedUntil = new Date(Date.now() + LOCKOUT_SECONDS * 1000);
+    await Promise.all([
+      cacheUtils.set(
+        CACHE_KEYS.ACCOUNT_LOCKOUT(account),
+        lockedUntil.toISOString(),
+        LOCKOUT_SECONDS
+      ),
+      cacheUtils.del(CACHE_KEYS.LOGIN_FAILURES_ACCOUNT(account)),
+      cacheUtils.del(CACHE_KEYS.LOGIN_DELAY(account)),
+    ]);
+    console.warn(`🔒 Locked account ${account} after repeated failed logins`);
+    return;
+  }
+
+  const delaySeconds = delayAfterFailures(accountFailures);
+  if (delaySeconds > 0) {
+    await cacheUtils.set(CACHE_KEYS.LOGIN_DELAY(account), true, delaySeconds);
+  }
+};
+
+// Forget an account's failures after a successful login. The IP counter is
+// kept so a valid login can't be used to reset guessing on other accounts.
+export const clearLoginFailures = async (email: string): Promise<void> => {
+  const account = normalizeEmail(email);
+  await Promise.all([
+    cacheUtils.del(CACHE_KEYS.LOGIN_FAILURES_ACCOUNT(account)),
+    cacheUtils.del(CACHE_KEYS.LOGIN_DELAY(account)),
+  ]);
+};
+
+// When the account is locked, the time the lock expires
+export const getAccountLockedUntil = async (
+  email: string
+): Promise<string | null> => {
+  return cacheUtils.get(CACHE_KEYS.ACCOUNT_LOCKOUT(normalizeEmail(email)));
+};
+
+// Lift a lockout and reset the account's failure count (admin action)
+export const unlockAccount = async (email: string): Promise<void> => {
+  const account = normalizeEmail(email);
+  await Promise.all([
+    cacheUtils.del(CACHE_KEYS.ACCOUNT_LOCKOUT(account)),
+    cacheUtils.del(CACHE_KEYS.LOGIN_FAILURES_ACCOUNT(account)),
+    cacheUtils.del(CACHE_KEYS.LOGIN_DELAY(account)),
+  ]);
+};
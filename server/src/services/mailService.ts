@@ -0,0 +1,85 @@
+import fs from "fs/promises";
+import path from "path";
+import nodemailer from "nodemailer";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+// A way of delivering mail. SMTP is used in production; the file and
+// console transports let the app run locally without a mail server.
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+class SmtpTransport implements MailTransport {
+  private transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: parseInt(process.env.SMTP_PORT || "587"),
+    secure: process.env.SMTP_SECURE === "true",
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+      : undefined,
+  });
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
+
+class FileTransport implements MailTransport {
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const fileName = `${Date.now()}-${message.to.replace(
+      /[^a-z0-9@.]/gi,
+      "_"
+    )}.json`;
+    await fs.writeFile(
+      path.join(this.directory, fileName),
+      JSON.stringify({ ...message, sentAt: new Date() }, null, 2)
+    );
+  }
+}
+
+class ConsoleTransport implements MailTransport {
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    console.log(
+      `📧 Mail to ${message.to}: ${message.subject}\n${message.text}`
+    );
+  }
+}
+
+const createTransport = (): MailTransport => {
+  switch (process.env.MAIL_TRANSPORT) {
+    case "smtp":
+      return new SmtpTransport();
+    case "file":
+      return new FileTransport(process.env.MAIL_FILE_DIR || "./mail");
+    default:
+      return new ConsoleTransport();
+  }
+};
+
+const transport = createTransport();
+const MAIL_FROM = process.env.MAIL_FROM || "EventHub <no-reply@eventhub.local>";
+
+export const sendMail = async (message: MailMessage): Promise<void> => {
+  await transport.send({ ...message, from: MAIL_FROM });
+};
+
+const HTML_ENTITIES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+// For user-supplied values placed in an html body
+export const escapeHtml = (value: string): string =>
+  value.replace(/[&<>"']/g, (char) => HTML_ENTITIES[char]);
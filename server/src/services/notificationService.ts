@@ -0,0 +1,61 @@
+import { Transaction } from "sequelize";
+import { Notification } from "../models/index.js";
+import { NotificationType } from "../types/index.js";
+import { getIO, userRoom } from "../config/socket.js";
+
+interface NotificationContent {
+  type: NotificationType;
+  title: string;
+  message: string;
+  eventId?: number | null;
+}
+
+// Push freshly stored notifications to their recipients' open connections
+const pushNotifications = (notifications: Notification[]) => {
+  const io = getIO();
+  if (!io) {
+    return;
+  }
+
+  notifications.forEach((notification) => {
+    io.to(userRoom(notification.userId)).emit(
+      "notification:new",
+      notification.toJSON()
+    );
+  });
+};
+
+// Store the same notification for every given user. When called inside a
+// transaction, recipients are only pushed to once it commits.
+export const notifyUsers = async (
+  userIds: number[],
+  content: NotificationContent,
+  transaction?: Transaction
+): Promise<Notification[]> => {
+  const recipients = [...new Set(userIds)];
+  if (recipients.length === 0) {
+    return [];
+  }
+
+  const notifications = await Notification.bulkCreate(
+    recipients.map((userId) => ({ ...content, userId })),
+    { transaction }
+  );
+
+  if (transaction) {
+    transaction.afterCommit(() => pushNotifications(notifications));
+  } else {
+    pushNotifications(notifications);
+  }
+
+  return notifications;
+};
+
+export const notifyUser = async (
+  userId: number,
+  content: NotificationContent,
+  transaction?: Transaction
+): Promise<Notification | undefined> => {
+  const [notification] = await notifyUsers([userId], content, transaction);
+  return notification;
+};
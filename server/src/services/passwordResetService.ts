@@ -0,0 +1,89 @@
+import crypto from "crypto";
+import sequelize from "../config/database.js";
+import { PasswordResetToken, User } from "../models/index.js";
+import { escapeHtml, sendMail } from "./mailService.js";
+import { hashToken, revokeUserTokens } from "./tokenService.js";
+
+const RESET_TOKEN_TTL_MS =
+  Number(process.env.PASSWORD_RESET_EXPIRES_MINUTES || 60) * 60 * 1000;
+const CLIENT_URL = process.env.CLIENT_URL || "http://localhost:5173";
+
+// Email a single-use reset link. Unknown addresses and delivery failures are
+// only logged, so the endpoint can't be used to find out who has an account.
+export const requestPasswordReset = async (email: string): Promise<void> => {
+  const user = await User.findOne({ where: { email } });
+  if (!user) {
+    return;
+  }
+
+  // Only the most recent link stays valid
+  await PasswordResetToken.update(
+    { usedAt: new Date() },
+    { where: { userId: user.id, usedAt: null } }
+  );
+
+  const rawToken = crypto.randomBytes(32).toString("hex");
+  await PasswordResetToken.create({
+    userId: user.id,
+    tokenHash: hashToken(rawToken),
+    expiresAt: new Date(Date.now() + RESET_TOKEN_TTL_MS),
+  });
+
+  const resetUrl = `${CLIENT_URL}/reset-password?token=${rawToken}`;
+  const expiresInMinutes = Math.round(RESET_TOKEN_TTL_MS / 60000);
+
+  try {
+    await sendMail({
+      to: user.email,
+      subject: "Reset your EventHub password",
+      text: `Hi ${
+        user.firstName || user.email
+      },\n\nUse the link below to choose a new password. It expires in ${expiresInMinutes} minutes and can only be used once.\n\n${resetUrl}\n\nIf you didn't ask for this, you can ignore this email.`,
+      html: `<p>Hi ${escapeHtml(
+        user.firstName || user.email
+      )},</p><p>Use the link below to choose a new password. It expires in ${expiresInMinutes} minutes and can only be used once.</p><p><a href="${resetUrl}">Reset password</a></p><p>If you didn't ask for this, you can ignore this email.</p>`,
+    });
+  } catch (error) {
+    console.error("Password reset email error:", error);
+  }
+};
+
+// Redeem a reset token. Returns false when the token is unknown, expired or
+// already used.
+export const resetPassword = async (
+  rawToken: string,
+  newPassword: string
+): Promise<boolean> => {
+  const transaction = await sequelize.transaction();
+  let user: User | null;
+
+  try {
+    const resetToken = await PasswordResetToken.findOne({
+      where: { tokenHash: hashToken(rawToken) },
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+
+    user = resetToken
+      ? await User.findByPk(resetToken.userId, { transaction })
+      : null;
+
+    if (!resetToken || !resetToken.isUsable() || !user) {
+      await transaction.rollback();
+      return false;
+    }
+
+    await user.update({ password: newPassword }, { transaction });
+    await resetToken.update({ usedAt: new Date() }, { transaction });
+
+    await transaction.commit();
+  } catch (error) {
+    await transaction.rollback();
+    throw error;
+  }
+
+  // Sign out everywhere in case the old password was compromised
+  await revokeUserTokens(user.id);
+
+  return true;
+};
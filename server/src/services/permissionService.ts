@@ -0,0 +1,107 @@
+import { Role, User } from "../models/index.js";
+import { cacheUtils, CACHE_KEYS, CACHE_EXPIRY } from "../config/redis.js";
+import {
+  AuthenticatedRequest,
+  Permission,
+  PERMISSIONS,
+} from "../types/index.js";
+import { isTwoFactorMandatoryForAdmins } from "./twoFactorService.js";
+
+export const ADMIN_ROLE = "admin";
+
+// Built-in roles, created on startup if missing
+const SYSTEM_ROLES: {
+  name: string;
+  description: string;
+  permissions: Permission[];
+}[] = [
+  {
+    name: "user",
+    description: "Can reserve spots and join waitlists",
+    permissions: ["reservations:create"],
+  },
+  {
+    name: "organizer",
+    description: "Can create events and manage their own events",
+    permissions: [
+      "reservations:create",
+      "events:create",
+      "events:manage",
+      "reservations:view",
+      "reservations:checkin",
+    ],
+  },
+  {
+    name: ADMIN_ROLE,
+    description: "Full access to every event, user and role",
+    permissions: [...PERMISSIONS],
+  },
+];
+
+// Create missing built-in roles. The admin role is also topped up with any
+// permission added since it was created, so admins never lose access.
+export const ensureSystemRoles = async (): Promise<void> => {
+  for (const definition of SYSTEM_ROLES) {
+    const [role, created] = await Role.findOrCreate({
+      where: { name: definition.name },
+      defaults: { ...definition, isSystem: true },
+    });
+
+    if (
+      !created &&
+      definition.name === ADMIN_ROLE &&
+      PERMISSIONS.some((permission) => !role.permissions.includes(permission))
+    ) {
+      await role.update({ permissions: [...PERMISSIONS] });
+      await invalidateRolePermissions(role.name);
+    }
+  }
+};
+
+export const getRolePermissions = async (
+  roleName: string
+): Promise<Permission[]> => {
+  const cacheKey = CACHE_KEYS.ROLE_PERMISSIONS(roleName);
+  const cached = await cacheUtils.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const role = await Role.findOne({ where: { name: roleName } });
+  const permissions = role?.permissions ?? [];
+
+  await cacheUtils.set(cacheKey, permissions, CACHE_EXPIRY.ROLE_PERMISSIONS);
+  return permissions;
+};
+
+export const invalidateRolePermissions = async (
+  roleName: string
+): Promise<void> => {
+  await cacheUtils.del(CACHE_KEYS.ROLE_PERMISSIONS(roleName));
+};
+
+// Admins get none of their permissions while they owe the mandatory second
+// factor (ADMIN_2FA_REQUIRED=true)
+export const needsTwoFactorSetup = (user: User): boolean =>
+  user.role === ADMIN_ROLE &&
+  isTwoFactorMandatoryForAdmins() &&
+  !user.isTwoFactorEnabled();
+
+// The role comes from the database rather than the token, so a demoted user
+// loses access straight away
+export const hasPermission = async (
+  user: AuthenticatedRequest["user"],
+  permission: Permission
+): Promise<boolean> => {
+  if (!user) {
+    return false;
+  }
+  const current = await User.findByPk(user.id, {
+    attributes: ["role", "twoFactorEnabledAt"],
+  });
+  if (!current || needsTwoFactorSetup(current)) {
+    return false;
+  }
+  const permissions = await getRolePermissions(current.role);
+  return permissions.includes(permission);
+};
@@ -0,0 +1,45 @@
+import { Op } from "sequelize";
+import { Event } from "../models/index.js";
+import { clearEventCaches } from "../utils/cache.js";
+
+const PUBLISH_SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Publish every scheduled event whose publish time has come. Returns the
+// number of events published.
+export const publishScheduledEvents = async (
+  now: Date = new Date()
+): Promise<number> => {
+  const dueEvents = await Event.findAll({
+    attributes: ["id"],
+    where: { status: "scheduled", publishAt: { [Op.lte]: now } },
+  });
+
+  if (dueEvents.length === 0) {
+    return 0;
+  }
+
+  const eventIds = dueEvents.map((event) => event.id);
+  await Event.update(
+    { status: "published" },
+    { where: { id: { [Op.in]: eventIds }, status: "scheduled" } }
+  );
+
+  for (const eventId of eventIds) {
+    await clearEventCaches(eventId);
+  }
+
+  console.log(`Published ${eventIds.length} scheduled event(s)`);
+
+  return eventIds.length;
+};
+
+// Periodically publish scheduled events
+export const startPublishSweep = (): NodeJS.Timeout => {
+  const sweep = () =>
+    publishScheduledEvents().catch((error) =>
+      console.error("Publish sweep error:", error)
+    );
+
+  sweep();
+  return setInterval(sweep, PUBLISH_SWEEP_INTERVAL_MS);
+};
@@ -0,0 +1,50 @@
+import { Event } from "../models/index.js";
+import { eventRoom, getIO } from "../config/socket.js";
+import { calculateSpotStatus } from "../utils/spotStatus.js";
+
+export interface EventAvailabilityUpdate {
+  eventId: number;
+  availableSpots: number;
+  maxCapacity: number;
+  spotStatus: string;
+}
+
+// Push an event's current seat availability to everyone watching it
+export const broadcastEventAvailability = async (
+  eventId: number
+): Promise<void> => {
+  const io = getIO();
+  if (!io) {
+    return;
+  }
+
+  try {
+    const event = await Event.findByPk(eventId, {
+      attributes: [
+        "id",
+        "eventDate",
+        "endDate",
+        "availableSpots",
+        "maxCapacity",
+        "canceledAt",
+        "status",
+        "registrationOpensAt",
+        "registrationClosesAt",
+      ],
+    });
+    if (!event) {
+      return;
+    }
+
+    const update: EventAvailabilityUpdate = {
+      eventId: event.id,
+      availableSpots: event.availableSpots,
+      maxCapacity: event.maxCapacity,
+      spotStatus: calculateSpotStatus(event),
+    };
+
+    io.to(eventRoom(event.id)).emit("event:availability", update);
+  } catch (error) {
+    console.error("Broadcast event availability error:", error);
+  }
+};
@@ -0,0 +1,265 @@
+import sequelize from "../config/database.js";
+import { EVENT_STATUSES } from "../types/index.js";
+import { DEFAULT_EVENT_DURATION_MINUTES } from "../utils/eventSchedule.js";
+
+// sync() only creates missing tables, so columns added to a model later never
+// reach a database created before them. The steps below bring such a database
+// up to date. Each one checks before it changes anything, so they are safe to
+// run on every start and do nothing on a fresh database.
+
+const tableExists = async (table: string): Promise<boolean> => {
+  const [rows] = await sequelize.query(
+    "SELECT 1 FROM information_schema.tables WHERE table_schema = current_schema() AND table_name = :table",
+    { replacements: { table } }
+  );
+  return rows.length > 0;
+};
+
+const columnExists = async (
+  table: string,
+  column: string
+): Promise<boolean> => {
+  const [rows] = await sequelize.query(
+    "SELECT 1 FROM information_schema.columns WHERE table_schema = current_schema() AND table_name = :table AND column_name = :column",
+    { replacements: { table, column } }
+  );
+  return rows.length > 0;
+};
+
+// Add a column to an existing table. Returns true only when the column was
+// added, so one-off backfills run just once.
+const addColumn = async (
+  table: string,
+  column: string,
+  definition: string
+): Promise<boolean> => {
+  if (!(await tableExists(table)) || (await columnExists(table, column))) {
+    return false;
+  }
+
+  await sequelize.query(
+    `ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS "${column}" ${definition}`
+  );
+  console.log(`🛠️  Added ${table}.${column}`);
+  return true;
+};
+
+// Add values to an existing enum type. sync() creates the type itself on a
+// fresh database.
+const addEnumValues = async (type: string, values: string[]): Promise<void> => {
+  const [rows] = await sequelize.query(
+    "SELECT 1 FROM pg_type WHERE typname = :type",
+    { replacements: { type } }
+  );
+  if (rows.length === 0) {
+    return;
+  }
+
+  for (const value of values) {
+    await sequelize.query(
+      `ALTER TYPE "${type}" ADD VALUE IF NOT EXISTS ${sequelize.escape(value)}`
+    );
+  }
+};
+
+// Create an enum type for a column that has to be added before sync() runs.
+// Values added to the model later are picked up by sync() itself.
+const createEnumType = async (
+  type: string,
+  values: readonly string[]
+): Promise<void> => {
+  const [rows] = await sequelize.query(
+    "SELECT 1 FROM pg_type WHERE typname = :type",
+    { replacements: { type } }
+  );
+  if (rows.length > 0) {
+    return;
+  }
+
+  await sequelize.query(
+    `CREATE TYPE "${type}" AS ENUM (${values
+      .map((value) => sequelize.escape(value))
+      .join(", ")})`
+  );
+};
+
+// Drop an index whose definition is out of date, so sync() creates it again
+// from the model
+const dropStaleIndex = async (
+  index: string,
+  expected: string
+): Promise<void> => {
+  const [rows] = await sequelize.query(
+    "SELECT indexdef FROM pg_indexes WHERE schemaname = current_schema() AND indexname = :index",
+    { replacements: { index } }
+  );
+  const definition = (rows as { indexdef: string }[])[0]?.indexdef;
+  if (definition && !definition.includes(expected)) {
+    await sequelize.query(`DROP INDEX "${index}"`);
+    console.log(`🛠️  Dropped outdated index ${index}`);
+  }
+};
+
+// Foreign keys to tables that sync() creates can only be added after it. The
+// constraint gets the name Postgres gives it on a fresh database.
+const addForeignKey = async (
+  table: string,
+  column: string,
+  target: string,
+  targetColumn: string,
+  onDelete: string
+): Promise<void> => {
+  const constraint = `${table}_${column}_fkey`;
+  const [rows] = await sequelize.query(
+    "SELECT 1 FROM pg_constraint WHERE conname = :constraint",
+    { replacements: { constraint } }
+  );
+  if (rows.length > 0) {
+    return;
+  }
+
+  await sequelize.query(
+    `ALTER TABLE ${table} ADD CONSTRAINT "${constraint}" FOREIGN KEY ("${column}") REFERENCES ${target} ("${targetColumn}") ON DELETE ${onDelete} ON UPDATE CASCADE`
+  );
+  console.log(`🛠️  Added foreign key ${constraint}`);
+};
+
+// Runs before sync(), which would otherwise fail creating model indexes on
+// columns that don't exist yet
+export const upgradeSchemaBeforeSync = async (): Promise<void> => {
+  // Multi-seat reservations; existing bookings were for a single seat
+  await addColumn("events", "maxPerBooking", "INTEGER NOT NULL DEFAULT 1");
+  await addColumn("reservations", "quantity", "INTEGER NOT NULL DEFAULT 1");
+  await addColumn("waitlist_entries", "quantity", "INTEGER NOT NULL DEFAULT 1");
+
+  // Ticket types
+  await addColumn("reservations", "ticketTypeId", "INTEGER");
+  await addColumn("waitlist_entries", "ticketTypeId", "INTEGER");
+
+  // Check-in; checked-in reservations still count as active bookings
+  await addColumn("reservations", "checkedInAt", "TIMESTAMP WITH TIME ZONE");
+  await addEnumValues("enum_reservations_status", ["checked_in", "no_show"]);
+  await dropStaleIndex(
+    "unique_active_reservation_per_user_per_event",
+    "checked_in"
+  );
+
+  // Email verification; accounts from before it was required stay usable
+  if (await addColumn("users", "emailVerifiedAt", "TIMESTAMP WITH TIME ZONE")) {
+    await sequelize.query(
+      'UPDATE users SET "emailVerifiedAt" = "createdAt" WHERE "emailVerifiedAt" IS NULL'
+    );
+  }
+
+  // Two-factor authentication
+  await addColumn("users", "twoFactorSecret", "VARCHAR(255)");
+  await addColumn("users", "twoFactorEnabledAt", "TIMESTAMP WITH TIME ZONE");
+
+  // Roles moved from a fixed enum to the roles table
+  const [roleColumn] = await sequelize.query(
+    "SELECT 1 FROM information_schema.columns WHERE table_schema = current_schema() AND table_name = 'users' AND column_name = 'role' AND data_type = 'USER-DEFINED'"
+  );
+  if (roleColumn.length > 0) {
+    await sequelize.query("ALTER TABLE users ALTER COLUMN role DROP DEFAULT");
+    await sequelize.query(
+      "ALTER TABLE users ALTER COLUMN role TYPE VARCHAR(50) USING role::text"
+    );
+    await sequelize.query(
+      "ALTER TABLE users ALTER COLUMN role SET DEFAULT 'user'"
+    );
+    await sequelize.query('DROP TYPE IF EXISTS "enum_users_role"');
+    console.log("🛠️  Converted users.role to a role name");
+  }
+
+  // Event staff assignments
+  await addEnumValues("enum_notifications_type", ["event_staff_assigned"]);
+
+  // Soft deletes
+  await addColumn("events", "deletedAt", "TIMESTAMP WITH TIME ZONE");
+  await addColumn("users", "deletedAt", "TIMESTAMP WITH TIME ZONE");
+
+  // Event cancellation
+  await addColumn("events", "canceledAt", "TIMESTAMP WITH TIME ZONE");
+  await addColumn("events", "cancellationReason", "TEXT");
+  await addEnumValues("enum_notifications_type", ["event_canceled"]);
+
+  // Recurring event series
+  await addColumn("events", "seriesId", "INTEGER");
+
+  // Categories and tags
+  await addColumn("events", "categoryId", "INTEGER");
+  await addColumn(
+    "events",
+    "tags",
+    "VARCHAR(50)[] NOT NULL DEFAULT ARRAY[]::VARCHAR(50)[]"
+  );
+
+  // Venues
+  await addColumn("events", "venueId", "INTEGER");
+
+  // Per-event time zones; earlier events were entered in UTC
+  await addColumn("events", "timeZone", "VARCHAR(64) NOT NULL DEFAULT 'UTC'");
+
+  // End times; earlier events get the default duration
+  if (await addColumn("events", "endDate", "TIMESTAMP WITH TIME ZONE")) {
+    await sequelize.query(
+      `UPDATE events SET "endDate" = "eventDate" + interval '${DEFAULT_EVENT_DURATION_MINUTES} minutes' WHERE "endDate" IS NULL`
+    );
+    await sequelize.query(
+      'ALTER TABLE events ALTER COLUMN "endDate" SET NOT NULL'
+    );
+  }
+
+  // Publishing and registration windows. Events from before drafts existed
+  // were already public, so they stay published rather than turning into
+  // drafts and vanishing from the catalogue.
+  await addColumn("events", "publishAt", "TIMESTAMP WITH TIME ZONE");
+  await addColumn("events", "registrationOpensAt", "TIMESTAMP WITH TIME ZONE");
+  await addColumn("events", "registrationClosesAt", "TIMESTAMP WITH TIME ZONE");
+  await createEnumType("enum_events_status", EVENT_STATUSES);
+  if (
+    await addColumn(
+      "events",
+      "status",
+      `"enum_events_status" NOT NULL DEFAULT 'published'`
+    )
+  ) {
+    await sequelize.query(
+      "ALTER TABLE events ALTER COLUMN status SET DEFAULT 'draft'"
+    );
+    await sequelize.query(
+      'UPDATE events SET "publishAt" = "createdAt" WHERE "publishAt" IS NULL'
+    );
+  }
+};
+
+// Runs after sync() and once the system roles exist
+export const upgradeSchemaAfterSync = async (): Promise<void> => {
+  // Ticket types
+  await addForeignKey(
+    "reservations",
+    "ticketTypeId",
+    "ticket_types",
+    "id",
+    "SET NULL"
+  );
+  await addForeignKey(
+    "waitlist_entries",
+    "ticketTypeId",
+    "ticket_types",
+    "id",
+    "SET NULL"
+  );
+
+  // Every role name in use is a system role, so the rows exist by now
+  await addForeignKey("users", "role", "roles", "name", "NO ACTION");
+
+  // Recurring event series
+  await addForeignKey("events", "seriesId", "event_series", "id", "SET NULL");
+
+  // Categories
+  await addForeignKey("events", "categoryId", "categories", "id", "SET NULL");
+
+  // Venues
+  await addForeignKey("events", "venueId", "venues", "id", "SET NULL");
+};
@@ -0,0 +1,85 @@
+import { literal } from "sequelize";
+import sequelize from "../config/database.js";
+
+// Text search configuration used for both the index and the queries
+const SEARCH_CONFIG = "english";
+
+// ts_headline options; matches are wrapped in <mark> tags. Names are
+// highlighted whole, descriptions cut down to the matching fragments.
+const HEADLINE_OPTIONS = {
+  name: "StartSel=<mark>, StopSel=</mark>, HighlightAll=true",
+  description:
+    "StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=20, MinWords=8",
+};
+
+// Keep the weighted search vector on events up to date. The column and its
+// trigger live outside the model so the vector is never loaded with an
+// event, and a trigger covers every write path (including bulk inserts).
+// Name ranks highest, then tags, location and description.
+export const ensureEventSearch = async (): Promise<void> => {
+  await sequelize.query(
+    'ALTER TABLE events ADD COLUMN IF NOT EXISTS "searchVector" tsvector'
+  );
+
+  await sequelize.query(`
+    CREATE OR REPLACE FUNCTION events_search_vector_update() RETURNS trigger AS $$
+    BEGIN
+      NEW."searchVector" :=
+        setweight(to_tsvector('${SEARCH_CONFIG}', coalesce(NEW.name, '')), 'A') ||
+        setweight(to_tsvector('${SEARCH_CONFIG}', array_to_string(coalesce(NEW.tags, '{}'), ' ')), 'B') ||
+        setweight(to_tsvector('${SEARCH_CONFIG}', coalesce(NEW.location, '')), 'C') ||
+        setweight(to_tsvector('${SEARCH_CONFIG}', coalesce(NEW.description, '')), 'D');
+      RETURN NEW;
+    END
+    $$ LANGUAGE plpgsql
+  `);
+
+  await sequelize.query(
+    "DROP TRIGGER IF EXISTS events_search_vector_trigger ON events"
+  );
+  await sequelize.query(`
+    CREATE TRIGGER events_search_vector_trigger
+    BEFORE INSERT OR UPDATE OF name, description, location, tags ON events
+    FOR EACH ROW EXECUTE FUNCTION events_search_vector_update()
+  `);
+
+  await sequelize.query(
+    'CREATE INDEX IF NOT EXISTS events_search_vector_idx ON events USING GIN ("searchVector")'
+  );
+
+  // Rows written before the trigger existed; touching name fires it
+  await sequelize.query(
+    'UPDATE events SET name = name WHERE "searchVector" IS NULL'
+  );
+};
+
+// Turn free text into a tsquery where every word must match as a prefix,
+// so "conf berl" finds "Conference in Berlin". Returns null when the text
+// has nothing searchable.
+export const buildSearchQuery = (text: string): string | null => {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu);
+  if (!words) {
+    return null;
+  }
+  return words.map((word) => `${word}:*`).join(" & ");
+};
+
+const tsQuery = (query: string) =>
+  `to_tsquery('${SEARCH_CONFIG}', ${sequelize.escape(query)})`;
+
+// Conditions and attributes for events matching a query built above
+export const eventSearchMatch = (query: string) =>
+  literal(`"Event"."searchVector" @@ ${tsQuery(query)}`);
+
+export const eventSearchRank = (query: string) =>
+  literal(`ts_rank_cd("Event"."searchVector", ${tsQuery(query)})`);
+
+export const eventSearchHeadline = (
+  query: string,
+  column: "name" | "description"
+) =>
+  literal(
+    `ts_headline('${SEARCH_CONFIG}', coalesce("Event"."${column}", ''), ${tsQuery(
+      query
+    )}, '${HEADLINE_OPTIONS[column]}')`
+  );
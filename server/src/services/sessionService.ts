@@ -0,0 +1,144 @@
+import { Op, Transaction } from "sequelize";
+import {
+  Event,
+  Session,
+  SessionRegistration,
+  Speaker,
+} from "../models/index.js";
+
+export const sessionSpeakersInclude = {
+  model: Speaker,
+  as: "speakers",
+  attributes: ["id", "name", "headline"],
+  through: { attributes: [] },
+};
+
+// Returns an error message when a session's slot can't be part of the event
+// or clashes with another session in the same room
+export const checkSessionSlot = async (
+  event: Event,
+  {
+    startsAt,
+    endsAt,
+    room,
+    sessionId,
+  }: { startsAt: Date; endsAt: Date; room?: string | null; sessionId?: number },
+  transaction?: Transaction
+): Promise<string | null> => {
+  if (endsAt <= startsAt) {
+    return "Session must end after it starts";
+  }
+  if (startsAt < event.eventDate || endsAt > event.endDate) {
+    return "Sessions must take place while the event runs";
+  }
+  if (!room) {
+    return null;
+  }
+
+  const clash = await Session.findOne({
+    where: {
+      eventId: event.id,
+      room,
+      startsAt: { [Op.lt]: endsAt },
+      endsAt: { [Op.gt]: startsAt },
+      ...(sessionId && { id: { [Op.ne]: sessionId } }),
+    },
+    transaction,
+  });
+  return clash ? `${room} is already booked for "${clash.title}"` : null;
+};
+
+// Resolve speaker ids, which must all belong to the event's lineup
+export const findEventSpeakers = async (
+  eventId: number,
+  speakerIds: number[],
+  transaction?: Transaction
+): Promise<Speaker[] | null> => {
+  const ids = [...new Set(speakerIds)];
+  const speakers = await Speaker.findAll({
+    where: { eventId, id: { [Op.in]: ids } },
+    transaction,
+  });
+  return speakers.length === ids.length ? speakers : null;
+};
+
+// Before an event moves or changes length: check its agenda still fits once
+// every session moves along with the start. Returns an error message if not.
+export const checkAgendaFits = async (
+  event: Event,
+  startsAt: Date,
+  endsAt: Date,
+  transaction: Transaction
+): Promise<string | null> => {
+  const shift = startsAt.getTime() - event.eventDate.getTime();
+  const [first, last] = await Promise.all([
+    Session.min<Date, Session>("startsAt", {
+      where: { eventId: event.id },
+      transaction,
+    }),
+    Session.max<Date, Session>("endsAt", {
+      where: { eventId: event.id },
+      transaction,
+    }),
+  ]);
+  if (!first || !last) {
+    return null;
+  }
+  if (
+    new Date(first).getTime() + shift < startsAt.getTime() ||
+    new Date(last).getTime() + shift > endsAt.getTime()
+  ) {
+    return "The event's sessions would no longer fit between its start and end";
+  }
+  return null;
+};
+
+// Move every session of an event by the given number of milliseconds
+export const shiftEventSessions = async (
+  eventId: number,
+  shiftMs: number,
+  transaction: Transaction
+): Promise<void> => {
+  const sessions = await Session.findAll({
+    where: { eventId },
+    transaction,
+  });
+  for (const session of sessions) {
+    await session.update(
+      {
+        startsAt: new Date(session.startsAt.getTime() + shiftMs),
+        endsAt: new Date(session.endsAt.getTime() + shiftMs),
+      },
+      { transaction }
+    );
+  }
+};
+
+// Drop a user's session seats once they no longer hold a reservation for
+// the event, giving the seats back to capped sessions
+export const releaseSessionRegistrations = async (
+  eventId: number,
+  userId: number,
+  transaction: Transaction
+): Promise<void> => {
+  const registrations = await SessionRegistration.findAll({
+    where: { userId },
+    include: [
+      {
+        model: Session,
+        as: "session",
+        attributes: ["id", "capacity"],
+        where: { eventId },
+      },
+    ],
+    transaction,
+  });
+
+  for (const registration of registrations) {
+    const session = registration.session!;
+    await registration.destroy({ transaction });
+    if (session.capacity != null) {
+      await session.increment("availableSpots", { transaction });
+    }
+  }
+};
@@ -0,0 +1,66 @@
+import { Transaction } from "sequelize";
+import { TicketType } from "../models/index.js";
+
+interface TicketTypeSelection {
+  ticketType: TicketType | null;
+  error?: { status: number; message: string };
+}
+
+// Resolve the ticket tier a booking is made against. Events without tiers
+// book straight from the event pool; events with tiers require one that is
+// currently on sale.
+export const resolveTicketType = async (
+  eventId: number,
+  ticketTypeId: number | undefined,
+  transaction: Transaction
+): Promise<TicketTypeSelection> => {
+  const tierCount = await TicketType.count({
+    where: { eventId },
+    transaction,
+  });
+
+  if (tierCount === 0) {
+    if (ticketTypeId) {
+      return {
+        ticketType: null,
+        error: { status: 404, message: "Ticket type not found" },
+      };
+    }
+    return { ticketType: null };
+  }
+
+  if (!ticketTypeId) {
+    return {
+      ticketType: null,
+      error: {
+        status: 400,
+        message: "Please choose a ticket type for this event",
+      },
+    };
+  }
+
+  const ticketType = await TicketType.findOne({
+    where: { id: ticketTypeId, eventId },
+    transaction,
+    lock: transaction.LOCK.UPDATE,
+  });
+
+  if (!ticketType) {
+    return {
+      ticketType: null,
+      error: { status: 404, message: "Ticket type not found" },
+    };
+  }
+
+  if (!ticketType.isOnSale()) {
+    return {
+      ticketType,
+      error: {
+        status: 400,
+        message: `"${ticketType.name}" tickets are not on sale right now`,
+      },
+    };
+  }
+
+  return { ticketType };
+};
@@ -0,0 +1,114 @@
+import crypto from "crypto";
+import { RefreshToken, User } from "../models/index.js";
+import { generateToken } from "../utils/jwt.js";
+
+const REFRESH_TOKEN_TTL_MS =
+  Number(process.env.REFRESH_TOKEN_EXPIRES_DAYS || 30) * 24 * 60 * 60 * 1000;
+
+export interface TokenPair {
+  token: string;
+  refreshToken: string;
+}
+
+export const hashToken = (token: string) =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+// Store a new opaque refresh token and return its raw value
+const createRefreshToken = async (userId: number, familyId: string) => {
+  const rawToken = crypto.randomBytes(48).toString("hex");
+  const refreshToken = await RefreshToken.create({
+    userId,
+    tokenHash: hashToken(rawToken),
+    familyId,
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+  });
+  return { rawToken, refreshToken };
+};
+
+const generateAccessToken = (user: User) =>
+  generateToken({ id: user.id, email: user.email, role: user.role });
+
+// Issue an access token and start a new refresh token family (login)
+export const issueTokenPair = async (user: User): Promise<TokenPair> => {
+  const { rawToken } = await createRefreshToken(user.id, crypto.randomUUID());
+  return { token: generateAccessToken(user), refreshToken: rawToken };
+};
+
+// Revoke every token that descends from the same login
+export const revokeTokenFamily = async (familyId: string): Promise<void> => {
+  await RefreshToken.update(
+    { revokedAt: new Date() },
+    { where: { familyId, revokedAt: null } }
+  );
+};
+
+// Exchange a refresh token for a new pair. Each refresh token can be used
+// once; presenting one that was already rotated means it leaked, so the
+// whole family is revoked and the user has to log in again.
+export const rotateRefreshToken = async (
+  rawToken: string
+): Promise<(TokenPair & { user: User }) | null> => {
+  const stored = await RefreshToken.findOne({
+    where: { tokenHash: hashToken(rawToken) },
+  });
+
+  if (!stored) {
+    return null;
+  }
+
+  if (stored.revokedAt) {
+    await revokeTokenFamily(stored.familyId);
+    console.warn(
+      `⚠️ Refresh token reuse detected for user ${stored.userId}, revoked token family`
+    );
+    return null;
+  }
+
+  if (!stored.isActive()) {
+    return null;
+  }
+
+  const user = await User.findByPk(stored.userId);
+  if (!user) {
+    return null;
+  }
+
+  const { rawToken: nextRawToken, refreshToken: next } =
+    await createRefreshToken(user.id, stored.familyId);
+
+  // Only the first request to rotate this token wins
+  const [rotated] = await RefreshToken.update(
+    { revokedAt: new Date(), replacedById: next.id },
+    { where: { id: stored.id, revokedAt: null } }
+  );
+
+  if (rotated === 0) {
+    await revokeTokenFamily(stored.familyId);
+    return null;
+  }
+
+  return {
+    user,
+    token: generateAccessToken(user),
+    refreshToken: nextRawToken,
+  };
+};
+
+// Revoke every refresh token a user holds, ending all of their sessions
+export const revokeUserTokens = async (userId: number): Promise<void> => {
+  await RefreshToken.update(
+    { revokedAt: new Date() },
+    { where: { userId, revokedAt: null } }
+  );
+};
+
+// Revoke the family of the given refresh token (logout)
+export const revokeRefreshToken = async (rawToken: string): Promise<void> => {
+  const stored = await RefreshToken.findOne({
+    where: { tokenHash: hashToken(rawToken) },
+  });
+
+  if (stored) {
+    await revokeTokenFamily(stored.familyId);
+  }
+};
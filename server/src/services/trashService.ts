@@ -0,0 +1,178 @@
+import { Op, Transaction } from "sequelize";
+import sequelize from "../config/database.js";
+import {
+  Event,
+  EventSeries,
+  Reservation,
+  TicketType,
+  User,
+  WaitlistEntry,
+} from "../models/index.js";
+import { ReservationStatus, WaitlistStatus } from "../types/index.js";
+import { promoteFromWaitlist } from "./waitlistService.js";
+import { releaseSessionRegistrations } from "./sessionService.js";
+
+// How long soft-deleted events and users stay restorable
+const TRASH_RETENTION_MS =
+  Number(process.env.TRASH_RETENTION_DAYS || 30) * 24 * 60 * 60 * 1000;
+const TRASH_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Cancel the given confirmed reservations and hand their seats back to the
+// event and ticket tier pools
+const releaseReservations = async (
+  reservations: Reservation[],
+  transaction: Transaction
+): Promise<void> => {
+  for (const reservation of reservations) {
+    await reservation.update(
+      { status: ReservationStatus.CANCELED },
+      { transaction }
+    );
+    await releaseSessionRegistrations(
+      reservation.eventId,
+      reservation.userId,
+      transaction
+    );
+
+    await Event.increment("availableSpots", {
+      by: reservation.quantity,
+      where: { id: reservation.eventId },
+      transaction,
+    });
+
+    if (reservation.ticketTypeId) {
+      await TicketType.increment("availableSpots", {
+        by: reservation.quantity,
+        where: { id: reservation.ticketTypeId },
+        transaction,
+      });
+    }
+  }
+};
+
+// Cancel a deleted user's upcoming reservations and waitlist places, then
+// offer the freed seats to the waitlist. Returns the affected event IDs.
+export const releaseUserBookings = async (
+  userId: number,
+  transaction: Transaction
+): Promise<number[]> => {
+  const reservations = await Reservation.findAll({
+    where: { userId, status: ReservationStatus.CONFIRMED },
+    include: [
+      {
+        model: Event,
+        as: "event",
+        attributes: ["id"],
+        where: { eventDate: { [Op.gt]: new Date() } },
+      },
+    ],
+    transaction,
+  });
+  await releaseReservations(reservations, transaction);
+
+  await WaitlistEntry.update(
+    { status: WaitlistStatus.LEFT },
+    { where: { userId, status: WaitlistStatus.WAITING }, transaction }
+  );
+
+  const eventIds = [
+    ...new Set(reservations.map((reservation) => reservation.eventId)),
+  ];
+  for (const eventId of eventIds) {
+    await promoteFromWaitlist(eventId, transaction);
+  }
+
+  return eventIds;
+};
+
+// Permanently remove events and users that have been in the trash longer
+// than the retention period. Users who still own events or event series are
+// kept until those are gone. Returns the number of rows purged.
+export const purgeExpiredTrash = async (
+  now: Date = new Date()
+): Promise<{ events: number; users: number }> => {
+  const cutoff = new Date(now.getTime() - TRASH_RETENTION_MS);
+
+  const expiredEvents = await Event.findAll({
+    attributes: ["id"],
+    where: { deletedAt: { [Op.lt]: cutoff } },
+    paranoid: false,
+  });
+  const eventIds = expiredEvents.map((event) => event.id);
+
+  const expiredUsers = await User.findAll({
+    attributes: ["id"],
+    where: { deletedAt: { [Op.lt]: cutoff } },
+    paranoid: false,
+  });
+  // Deleting a user would cascade to any events or series they still own
+  const expiredUserIds = expiredUsers.map((user) => user.id);
+  const ownedEvents = await Event.findAll({
+    attributes: ["creatorId"],
+    where: {
+      creatorId: { [Op.in]: expiredUserIds },
+      ...(eventIds.length > 0 && { id: { [Op.notIn]: eventIds } }),
+    },
+    paranoid: false,
+  });
+  const ownedSeries = await EventSeries.findAll({
+    attributes: ["creatorId"],
+    where: { creatorId: { [Op.in]: expiredUserIds } },
+  });
+  const ownerIds = new Set([
+    ...ownedEvents.map((event) => event.creatorId),
+    ...ownedSeries.map((series) => series.creatorId),
+  ]);
+  const userIds = expiredUserIds.filter((id) => !ownerIds.has(id));
+
+  if (eventIds.length === 0 && userIds.length === 0) {
+    return { events: 0, users: 0 };
+  }
+
+  // Ticket types, staff, tokens and notifications go with their parent rows
+  const transaction = await sequelize.transaction();
+
+  try {
+    const bookingWhere = {
+      [Op.or]: [
+        { eventId: { [Op.in]: eventIds } },
+        { userId: { [Op.in]: userIds } },
+      ],
+    };
+    await Reservation.destroy({ where: bookingWhere, transaction });
+    await WaitlistEntry.destroy({ where: bookingWhere, transaction });
+
+    await Event.destroy({
+      where: { id: { [Op.in]: eventIds } },
+      force: true,
+      transaction,
+    });
+    await User.destroy({
+      where: { id: { [Op.in]: userIds } },
+      force: true,
+      transaction,
+    });
+
+    await transaction.commit();
+  } catch (error) {
+    await transaction.rollback();
+    throw error;
+  }
+
+  console.log(
+    `Purged ${eventIds.length} event(s) and ${userIds.length} user(s) from the trash`
+  );
+
+  return { events: eventIds.length, users: userIds.length };
+};
+
+// Periodically empty the trash of rows past their retention period
+export const startTrashPurge = (): NodeJS.Timeout => {
+  const purge = () =>
+    purgeExpiredTrash().catch((error) =>
+      console.error("Trash purge error:", error)
+    );
+
+  purge();
+  return setInterval(purge, TRASH_PURGE_INTERVAL_MS);
+};
@@ -0,0 +1,149 @@
+import crypto from "crypto";
+import { Transaction } from "sequelize";
+import { authenticator } from "otplib";
+import sequelize from "../config/database.js";
+import { TwoFactorRecoveryCode, User } from "../models/index.js";
+import { TwoFactorCredentials } from "../types/index.js";
+import { hashToken } from "./tokenService.js";
+
+const TWO_FACTOR_ISSUER = process.env.TWO_FACTOR_ISSUER || "EventHub";
+const RECOVERY_CODE_COUNT = 10;
+
+// Accept the previous and next 30s step to allow for clock drift
+authenticator.options = { window: 1 };
+
+// When enabled, admins must turn on 2FA before they can use admin routes
+export const isTwoFactorMandatoryForAdmins = (): boolean =>
+  process.env.ADMIN_2FA_REQUIRED === "true";
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUrl: string;
+}
+
+// Recovery codes are compared case-insensitively and without the dash
+const normalizeRecoveryCode = (code: string) =>
+  code.replace(/[\s-]/g, "").toLowerCase();
+
+// Start (or restart) enrollment with a fresh secret. The secret only takes
+// effect once the user proves they can generate codes with it.
+export const startTwoFactorEnrollment = async (
+  user: User
+): Promise<TwoFactorEnrollment> => {
+  const secret = authenticator.generateSecret();
+  await user.update({ twoFactorSecret: secret });
+
+  return {
+    secret,
+    otpauthUrl: authenticator.keyuri(user.email, TWO_FACTOR_ISSUER, secret),
+  };
+};
+
+export const verifyTotpCode = (user: User, code: string): boolean => {
+  if (!user.twoFactorSecret) {
+    return false;
+  }
+  return authenticator.check(code.trim(), user.twoFactorSecret);
+};
+
+// Replace the user's recovery codes and return the new raw codes. They are
+// only ever shown once.
+export const generateRecoveryCodes = async (
+  userId: number,
+  transaction?: Transaction
+): Promise<string[]> => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString("hex");
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+  await TwoFactorRecoveryCode.destroy({ where: { userId }, transaction });
+  await TwoFactorRecoveryCode.bulkCreate(
+    codes.map((code) => ({
+      userId,
+      codeHash: hashToken(normalizeRecoveryCode(code)),
+    })),
+    { transaction }
+  );
+
+  return codes;
+};
+
+// Burn a recovery code. Returns false when it is unknown or already used.
+const redeemRecoveryCode = async (
+  userId: number,
+  code: string
+): Promise<boolean> => {
+  const [redeemed] = await TwoFactorRecoveryCode.update(
+    { usedAt: new Date() },
+    {
+      where: {
+        userId,
+        codeHash: hashToken(normalizeRecoveryCode(code)),
+        usedAt: null,
+      },
+    }
+  );
+  return redeemed > 0;
+};
+
+// Check a TOTP code or recovery code for a user who has 2FA enabled
+export const verifySecondFactor = async (
+  user: User,
+  { code, recoveryCode }: TwoFactorCredentials
+): Promise<boolean> => {
+  if (!user.isTwoFactorEnabled()) {
+    return false;
+  }
+  if (code) {
+    return verifyTotpCode(user, code);
+  }
+  if (recoveryCode) {
+    return redeemRecoveryCode(user.id, recoveryCode);
+  }
+  return false;
+};
+
+// Finish enrollment. Returns the recovery codes, or null when the code
+// doesn't match the pending secret.
+export const enableTwoFactor = async (
+  user: User,
+  code: string
+): Promise<string[] | null> => {
+  if (!verifyTotpCode(user, code)) {
+    return null;
+  }
+
+  const transaction = await sequelize.transaction();
+
+  try {
+    await user.update({ twoFactorEnabledAt: new Date() }, { transaction });
+    const recoveryCodes = await generateRecoveryCodes(user.id, transaction);
+
+    await transaction.commit();
+    return recoveryCodes;
+  } catch (error) {
+    await transaction.rollback();
+    throw error;
+  }
+};
+
+export const disableTwoFactor = async (user: User): Promise<void> => {
+  const transaction = await sequelize.transaction();
+
+  try {
+    await user.update(
+      { twoFactorSecret: null, twoFactorEnabledAt: null },
+      { transaction }
+    );
+    await TwoFactorRecoveryCode.destroy({
+      where: { userId: user.id },
+      transaction,
+    });
+
+    await transaction.commit();
+  } catch (error) {
+    await transaction.rollback();
+    throw error;
+  }
+};
@@ -0,0 +1,119 @@
+import { Transaction } from "sequelize";
+import sequelize from "../config/database.js";
+import { Venue } from "../models/index.js";
+
+const EARTH_RADIUS_KM = 6371;
+// Length of one degree of latitude
+const KM_PER_DEGREE = 111.045;
+
+// Set on startup; radius queries use PostGIS when the extension is installed
+// and fall back to the haversine formula on plain PostgreSQL
+let postgisEnabled = false;
+
+export const ensureVenueGeo = async (): Promise<void> => {
+  const [extensions] = await sequelize.query(
+    "SELECT 1 FROM pg_extension WHERE extname = 'postgis'"
+  );
+  postgisEnabled = extensions.length > 0;
+
+  if (postgisEnabled) {
+    await sequelize.query(
+      `CREATE INDEX IF NOT EXISTS venues_geography_idx ON venues USING GIST ((${venuePoint(
+        "venues"
+      )}))`
+    );
+  }
+
+  console.log(
+    postgisEnabled
+      ? "🌍 PostGIS found, using it for radius searches"
+      : "🌍 PostGIS not installed, radius searches use the haversine formula"
+  );
+};
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+const venuePoint = (table: string) =>
+  `ST_SetSRID(ST_MakePoint(${table}."longitude", ${table}."latitude"), 4326)::geography`;
+
+const centerPoint = ({ latitude, longitude }: GeoPoint) =>
+  `ST_SetSRID(ST_MakePoint(${Number(longitude)}, ${Number(
+    latitude
+  )}), 4326)::geography`;
+
+// SQL for the distance in kilometers between a venue row and the center.
+// `table` is the venues table or its alias in the query.
+export const venueDistanceSql = (table: string, center: GeoPoint): string => {
+  if (postgisEnabled) {
+    return `(ST_Distance(${venuePoint(table)}, ${centerPoint(center)}) / 1000)`;
+  }
+
+  const latitude = Number(center.latitude);
+  const longitude = Number(center.longitude);
+  return `(${EARTH_RADIUS_KM} * 2 * asin(sqrt(
+    power(sin(radians(${table}."latitude" - ${latitude}) / 2), 2) +
+    cos(radians(${latitude})) * cos(radians(${table}."latitude")) *
+    power(sin(radians(${table}."longitude" - ${longitude}) / 2), 2)
+  )))`;
+};
+
+// SQL condition for venues within the radius of the center
+export const venueWithinSql = (
+  table: string,
+  center: GeoPoint,
+  radiusKm: number
+): string => {
+  if (postgisEnabled) {
+    return `ST_DWithin(${venuePoint(table)}, ${centerPoint(center)}, ${
+      Number(radiusKm) * 1000
+    })`;
+  }
+
+  // A bounding box first, so the (latitude, longitude) index narrows the
+  // rows before the exact distance is computed
+  const latitude = Number(center.latitude);
+  const longitude = Number(center.longitude);
+  const latitudeDelta = radiusKm / KM_PER_DEGREE;
+  const longitudeDelta =
+    radiusKm /
+    (KM_PER_DEGREE * Math.max(Math.cos((latitude * Math.PI) / 180), 0.01));
+
+  const conditions = [
+    `${table}."latitude" BETWEEN ${latitude - latitudeDelta} AND ${
+      latitude + latitudeDelta
+    }`,
+    `${venueDistanceSql(table, center)} <= ${Number(radiusKm)}`,
+  ];
+  // Boxes crossing the antimeridian would wrap around, so skip that bound
+  if (longitude - longitudeDelta >= -180 && longitude + longitudeDelta <= 180) {
+    conditions.splice(
+      1,
+      0,
+      `${table}."longitude" BETWEEN ${longitude - longitudeDelta} AND ${
+        longitude + longitudeDelta
+      }`
+    );
+  }
+
+  return `(${conditions.join(" AND ")})`;
+};
+
+// Check an event's venue exists and can hold the event. Returns an error
+// message, or null when the venue fits.
+export const checkEventVenue = async (
+  venueId: number,
+  maxCapacity: number,
+  transaction?: Transaction
+): Promise<string | null> => {
+  const venue = await Venue.findByPk(venueId, { transaction });
+  if (!venue) {
+    return "Venue not found";
+  }
+  if (venue.capacity && maxCapacity > venue.capacity) {
+    return `Max capacity cannot exceed the venue capacity of ${venue.capacity}`;
+  }
+  return null;
+};
@@ -0,0 +1,158 @@
+import { Op, Transaction } from "sequelize";
+import {
+  Event,
+  Reservation,
+  TicketType,
+  WaitlistEntry,
+} from "../models/index.js";
+import {
+  NotificationType,
+  ReservationStatus,
+  WaitlistStatus,
+} from "../types/index.js";
+import { notifyUser } from "./notificationService.js";
+import { findOverlappingBooking } from "./bookingConflictService.js";
+
+// Get the 1-based position of a waiting entry in its event's queue
+export const getWaitlistPosition = async (
+  entry: WaitlistEntry,
+  transaction?: Transaction
+): Promise<number> => {
+  return WaitlistEntry.count({
+    where: {
+      eventId: entry.eventId,
+      status: WaitlistStatus.WAITING,
+      id: { [Op.lte]: entry.id },
+    },
+    transaction,
+  });
+};
+
+// Get the number of users currently waiting for an event
+export const getWaitlistSize = async (
+  eventId: number,
+  transaction?: Transaction
+): Promise<number> => {
+  return WaitlistEntry.count({
+    where: { eventId, status: WaitlistStatus.WAITING },
+    transaction,
+  });
+};
+
+// Promote waiting users to confirmed reservations while the event has free
+// spots. Must run inside the transaction that freed the spots so the queue
+// is served before anyone can book directly. The queue is strictly ordered:
+// if the party at the head doesn't fit yet, nobody behind it is promoted.
+export const promoteFromWaitlist = async (
+  eventId: number,
+  transaction: Transaction
+): Promise<Reservation[]> => {
+  const event = await Event.findByPk(eventId, {
+    transaction,
+    lock: transaction.LOCK.UPDATE,
+  });
+
+  if (!event || event.isCanceled() || event.eventDate <= new Date()) {
+    return [];
+  }
+
+  const promoted: Reservation[] = [];
+  let remainingSpots = event.availableSpots;
+  let promotedSeats = 0;
+
+  while (remainingSpots > 0) {
+    const entry = await WaitlistEntry.findOne({
+      where: { eventId, status: WaitlistStatus.WAITING },
+      order: [["id", "ASC"]],
+      transaction,
+      lock: transaction.LOCK.UPDATE,
+    });
+
+    if (!entry || entry.quantity > remainingSpots) {
+      break;
+    }
+
+    // Tiered entries also need room in the tier they queued for
+    const ticketType = entry.ticketTypeId
+      ? await TicketType.findByPk(entry.ticketTypeId, {
+          transaction,
+          lock: transaction.LOCK.UPDATE,
+        })
+      : null;
+
+    if (ticketType && ticketType.availableSpots < entry.quantity) {
+      break;
+    }
+
+    // Skip users who already got a seat some other way, or who have since
+    // booked another event at the same time
+    const existingReservation = await Reservation.findOne({
+      where: {
+        eventId,
+        userId: entry.userId,
+        status: {
+          [Op.in]: [ReservationStatus.CONFIRMED, ReservationStatus.CHECKED_IN],
+        },
+      },
+      transaction,
+    });
+
+    if (
+      existingReservation ||
+      (await findOverlappingBooking(entry.userId, event, transaction))
+    ) {
+      await entry.update({ status: WaitlistStatus.LEFT }, { transaction });
+      continue;
+    }
+
+    const reservation = await Reservation.create(
+      {
+        eventId,
+        userId: entry.userId,
+        ticketTypeId: ticketType?.id ?? null,
+        quantity: entry.quantity,
+        status: ReservationStatus.CONFIRMED,
+      },
+      { transaction }
+    );
+
+    if (ticketType) {
+      await ticketType.decrement("availableSpots", {
+        by: entry.quantity,
+        transaction,
+      });
+    }
+
+    await entry.update(
+      { status: WaitlistStatus.PROMOTED, promotedAt: new Date() },
+      { transaction }
+    );
+
+    await notifyUser(
+      entry.userId,
+      {
+        type: NotificationType.RESERVATION_CONFIRMED,
+        title: "You're off the waitlist",
+        message: `A spot opened up and your reservation for "${event.name}" is now confirmed (${entry.quantity} spot(s)).`,
+        eventId,
+      },
+      transaction
+    );
+
+    promoted.push(reservation);
+    remainingSpots -= entry.quantity;
+    promotedSeats += entry.quantity;
+  }
+
+  if (promoted.length > 0) {
+    await event.decrement("availableSpots", {
+      by: promotedSeats,
+      transaction,
+    });
+    console.log(
+      `🎟️ Promoted ${promoted.length} user(s) from the waitlist for event ${eventId}`
+    );
+  }
+
+  return promoted;
+};
@@ -1,10 +1,28 @@
 import { Request } from "express";
 
+// Named capabilities; roles stored in the database grant a set of these.
+// "events:manage" covers the user's own events; "events:manage_any" widens it
+// to every event.
+export const PERMISSIONS = [
+  "events:create",
+  "events:manage",
+  "events:manage_any",
+  "reservations:create",
+  "reservations:view",
+  "reservations:checkin",
+  "users:manage",
+  "roles:manage",
+  "audit:view",
+  "categories:manage",
+  "venues:manage",
+] as const;
+export type Permission = (typeof PERMISSIONS)[number];
+
 export interface AuthenticatedRequest extends Request {
   user?: {
     id: number;
     email: string;
-    role: "user" | "admin";
+    role: string;
   };
 }
 
@@ -20,28 +38,207 @@ export interface LoginRequest {
   password: string;
 }
 
+export interface ForgotPasswordRequest {
+  email: string;
+}
+
+export interface ResetPasswordRequest {
+  token: string;
+  password: string;
+}
+
+export interface VerifyEmailRequest {
+  token: string;
+}
+
+// A second factor is either a current TOTP code or an unused recovery code
+export interface TwoFactorCredentials {
+  code?: string;
+  recoveryCode?: string;
+}
+
+export interface TwoFactorLoginRequest extends TwoFactorCredentials {
+  twoFactorToken: string;
+}
+
+export interface TwoFactorCodeRequest {
+  code: string;
+}
+
+export interface DisableTwoFactorRequest extends TwoFactorCredentials {
+  password: string;
+}
+
+export interface RefreshTokenRequest {
+  refreshToken: string;
+}
+
 export interface CreateEventRequest {
   name: string;
   description?: string;
+  // Without an offset, read as a wall-clock time in timeZone
   eventDate: string;
+  // IANA zone, e.g. "Europe/Berlin"; UTC when left out
+  timeZone?: string;
+  // Read like eventDate; when neither this nor durationMinutes is given the
+  // event gets the default length
+  endDate?: string;
+  durationMinutes?: number;
   location?: string;
   onlineLink?: string;
   maxCapacity: number;
+  maxPerBooking?: number;
+  categoryId?: number | null;
+  tags?: string[];
+  venueId?: number | null;
+  // New events start as drafts; a future publishAt schedules them instead
+  status?: "draft" | "published";
+  publishAt?: string;
+  // Reservations are only taken inside the window; either end may be open
+  registrationOpensAt?: string;
+  registrationClosesAt?: string;
 }
 
+// Drafts and scheduled events are only visible to the people managing them
+export const EVENT_STATUSES = [
+  "draft",
+  "scheduled",
+  "published",
+  "closed",
+] as const;
+export type EventStatus = (typeof EVENT_STATUSES)[number];
+
+// Which occurrences of a recurring event an edit applies to
+export const EVENT_EDIT_SCOPES = ["this", "following", "all"] as const;
+export type EventEditScope = (typeof EVENT_EDIT_SCOPES)[number];
+
 export interface UpdateEventRequest {
   name?: string;
   description?: string;
   eventDate?: string;
+  timeZone?: string;
+  endDate?: string;
+  durationMinutes?: number;
   location?: string;
   onlineLink?: string;
   maxCapacity?: number;
+  maxPerBooking?: number;
+  categoryId?: number | null;
+  tags?: string[];
+  venueId?: number | null;
+  // Null removes that end of the window
+  registrationOpensAt?: string | null;
+  registrationClosesAt?: string | null;
+  scope?: EventEditScope;
+}
+
+export interface VenueRequest {
+  name: string;
+  address: string;
+  latitude: number;
+  longitude: number;
+  capacity?: number | null;
+  wheelchairAccessible?: boolean;
+  accessibilityNotes?: string | null;
+}
+
+export interface CategoryRequest {
+  name: string;
+  description?: string | null;
+}
+
+export interface CreateEventSeriesRequest extends CreateEventRequest {
+  recurrence: {
+    rrule: string;
+    exceptions?: string[];
+  };
+}
+
+export interface EventStatusRequest {
+  status: EventStatus;
+  // Required for "scheduled": when the event goes public
+  publishAt?: string;
+}
+
+export interface CancelEventRequest {
+  reason: string;
 }
 
+export interface AssignEventStaffRequest {
+  email: string;
+  role: EventStaffRole;
+}
+
+export interface CreateTicketTypeRequest {
+  name: string;
+  description?: string;
+  price?: number;
+  capacity: number;
+  salesStartAt?: string;
+  salesEndAt?: string;
+}
+
+export interface UpdateTicketTypeRequest {
+  name?: string;
+  description?: string;
+  price?: number;
+  capacity?: number;
+  salesStartAt?: string | null;
+  salesEndAt?: string | null;
+}
+
+export interface SessionRequest {
+  title: string;
+  description?: string | null;
+  // Without an offset, read as wall-clock times in the event's zone
+  startsAt: string;
+  endsAt: string;
+  room?: string | null;
+  // Leave out or null for sessions open to every attendee
+  capacity?: number | null;
+  speakerIds?: number[];
+}
+
+export interface SpeakerRequest {
+  name: string;
+  headline?: string | null;
+  bio?: string | null;
+}
+
+export interface CreateReservationRequest {
+  quantity?: number;
+  ticketTypeId?: number;
+}
+
+export interface CancelReservationRequest {
+  quantity?: number;
+}
+
+export interface CheckInRequest {
+  ticketToken: string;
+}
+
+// "relevance" needs a search query and "distance" a location to search near
+export const EVENT_SORTS = ["date", "relevance", "distance"] as const;
+export type EventSort = (typeof EVENT_SORTS)[number];
+
 export interface EventFilters {
+  // Full-text search over name, description, location and tags
+  q?: string;
+  // A calendar day, in timeZone or else in each event's own zone
   date?: string;
+  timeZone?: string;
   name?: string;
   location?: string;
+  // Match events in any of the categories or with any of the tags
+  categories?: number[];
+  tags?: string[];
+  // Events at venues within radiusKm of a point
+  near?: { latitude: number; longitude: number };
+  radiusKm?: number;
+  sort?: EventSort;
+  // Only used when listing managed events
+  status?: EventStatus;
   page?: number;
   limit?: number;
 }
@@ -49,10 +246,46 @@ export interface EventFilters {
 export enum ReservationStatus {
   CONFIRMED = "confirmed",
   CANCELED = "canceled",
+  CHECKED_IN = "checked_in",
+  NO_SHOW = "no_show",
+}
+
+export enum WaitlistStatus {
+  WAITING = "waiting",
+  PROMOTED = "promoted",
+  LEFT = "left",
+}
+
+export enum NotificationType {
+  RESERVATION_CONFIRMED = "reservation_confirmed",
+  RESERVATION_CANCELED = "reservation_canceled",
+  EVENT_UPDATED = "event_updated",
+  EVENT_DELETED = "event_deleted",
+  EVENT_CANCELED = "event_canceled",
+  EVENT_STAFF_ASSIGNED = "event_staff_assigned",
 }
 
+// Per-event assignments that grant limited rights on someone else's event
+export const EVENT_STAFF_ROLES = ["co_organizer", "checkin_staff"] as const;
+export type EventStaffRole = (typeof EVENT_STAFF_ROLES)[number];
+
 export interface JWTPayload {
   id: number;
   email: string;
-  role: "user" | "admin";
+  role: string;
+}
+
+export interface TicketTokenPayload {
+  reservationId: number;
+  eventId: number;
+  userId: number;
+}
+
+export interface TwoFactorChallengePayload {
+  userId: number;
+}
+
+export interface EmailVerificationTokenPayload {
+  userId: number;
+  email: string;
 }
@@ -0,0 +1,27 @@
+import { cacheUtils, CACHE_KEYS } from "../config/redis.js";
+
+// Helper function to clear all event-related caches. Without an eventId
+// only the shared list caches are cleared.
+export const clearEventCaches = async (eventId?: number) => {
+  try {
+    // Clear popular events cache
+    await cacheUtils.del(CACHE_KEYS.POPULAR_EVENTS);
+
+    // Clear specific event details cache
+    if (eventId !== undefined) {
+      await cacheUtils.del(CACHE_KEYS.EVENT_DETAILS(eventId));
+    }
+
+    // Clear all event list caches using pattern matching
+    // This will clear all cache keys that start with "events:page:" regardless of filters
+    await cacheUtils.delPattern("events:page:*");
+
+    console.log(
+      eventId !== undefined
+        ? `🗑️ Cleared event caches for event ${eventId}`
+        : "🗑️ Cleared event list caches"
+    );
+  } catch (error) {
+    console.error("Error clearing event caches:", error);
+  }
+};
@@ -0,0 +1,100 @@
+import { Op, WhereOptions } from "sequelize";
+import { AuthenticatedRequest, EventStaffRole } from "../types/index.js";
+import { EventStaff } from "../models/index.js";
+import { hasPermission } from "../services/permissionService.js";
+import { EventLifecycle, isEventPublic } from "./eventLifecycle.js";
+
+// What a staff assignment lets someone do on an event they don't own
+export type EventCapability =
+  | "edit"
+  | "view_reservations"
+  | "cancel_reservations"
+  | "check_in";
+
+const STAFF_CAPABILITIES: Record<EventStaffRole, EventCapability[]> = {
+  co_organizer: [
+    "edit",
+    "view_reservations",
+    "cancel_reservations",
+    "check_in",
+  ],
+  checkin_staff: ["view_reservations", "check_in"],
+};
+
+// "events:manage_any" covers every event; "events:manage" only the user's own
+export const canManageEvent = async (
+  user: AuthenticatedRequest["user"],
+  event: { creatorId: number }
+): Promise<boolean> => {
+  if (!user) {
+    return false;
+  }
+  if (await hasPermission(user, "events:manage_any")) {
+    return true;
+  }
+  return (
+    user.id === event.creatorId && (await hasPermission(user, "events:manage"))
+  );
+};
+
+export const hasStaffCapability = async (
+  userId: number,
+  eventId: number,
+  capability: EventCapability
+): Promise<boolean> => {
+  const assignment = await EventStaff.findOne({
+    where: { eventId, userId },
+    attributes: ["role"],
+  });
+  return (
+    !!assignment && STAFF_CAPABILITIES[assignment.role].includes(capability)
+  );
+};
+
+// Event managers can do everything; staff only what their assignment allows
+export const hasEventAccess = async (
+  user: AuthenticatedRequest["user"],
+  event: { id: number; creatorId: number },
+  capability: EventCapability
+): Promise<boolean> => {
+  if (!user) {
+    return false;
+  }
+  return (
+    (await canManageEvent(user, event)) ||
+    (await hasStaffCapability(user.id, event.id, capability))
+  );
+};
+
+// Unpublished events look missing to anyone but their managers and staff
+export const canViewEvent = async (
+  user: AuthenticatedRequest["user"],
+  event: EventLifecycle & { id: number; creatorId: number }
+): Promise<boolean> =>
+  isEventPublic(event) ||
+  (await hasEventAccess(user, event, "view_reservations"));
+
+// Where-clause restricting event queries to what the user may manage,
+// including events they're assigned to as staff
+export const managedEventsWhere = async (
+  user: AuthenticatedRequest["user"]
+): Promise<WhereOptions> => {
+  if (await hasPermission(user, "events:manage_any")) {
+    return {};
+  }
+  if (!user) {
+    return { id: -1 };
+  }
+
+  const assignments = await EventStaff.findAll({
+    where: { userId: user.id },
+    attributes: ["eventId"],
+  });
+
+  return {
+    [Op.or]: [
+      { creatorId: user.id },
+      { id: assignments.map((assignment) => assignment.eventId) },
+    ],
+  };
+};
@@ -0,0 +1,32 @@
+import { Op } from "sequelize";
+import { EventStatus } from "../types/index.js";
+
+export interface EventLifecycle {
+  status: EventStatus;
+  publishAt?: Date | string | null;
+}
+
+// Scheduled events count as published from publishAt on, even before the
+// publishing sweep has caught up with them
+export const isEventPublished = (
+  event: EventLifecycle,
+  now: Date = new Date()
+): boolean =>
+  event.status === "published" ||
+  (event.status === "scheduled" &&
+    !!event.publishAt &&
+    new Date(event.publishAt) <= now);
+
+// Closed events drop out of listings but stay reachable for their attendees
+export const isEventPublic = (
+  event: EventLifecycle,
+  now: Date = new Date()
+): boolean => event.status === "closed" || isEventPublished(event, now);
+
+// Where condition matching isEventPublished
+export const publishedEventsWhere = (now: Date = new Date()) => ({
+  [Op.or]: [
+    { status: "published" },
+    { status: "scheduled", publishAt: { [Op.lte]: now } },
+  ],
+});
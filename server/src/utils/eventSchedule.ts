@@ -0,0 +1,50 @@
+// Length of events created without an end time
+export const DEFAULT_EVENT_DURATION_MINUTES = 120;
+// Longest an event may run, multi-day events included
+export const MAX_EVENT_DURATION_DAYS = 31;
+
+const MINUTE_MS = 60 * 1000;
+
+// End time from an explicit end, a duration, or else the default length
+export const getEventEnd = (
+  start: Date,
+  { endDate, durationMinutes }: { endDate?: Date; durationMinutes?: number }
+): Date =>
+  endDate ||
+  new Date(
+    start.getTime() +
+      (durationMinutes || DEFAULT_EVENT_DURATION_MINUTES) * MINUTE_MS
+  );
+
+// Returns an error message when the times can't belong to one event
+export const checkEventSchedule = (start: Date, end: Date): string | null => {
+  if (end <= start) {
+    return "Event must end after it starts";
+  }
+  if (
+    end.getTime() - start.getTime() >
+    MAX_EVENT_DURATION_DAYS * 1440 * MINUTE_MS
+  ) {
+    return `Events can last at most ${MAX_EVENT_DURATION_DAYS} days`;
+  }
+  return null;
+};
+
+// Returns an error message when the registration window doesn't fit the
+// event; bookings stop at the start anyway, so the window has to end by then
+export const checkRegistrationWindow = (
+  start: Date,
+  opensAt?: Date | null,
+  closesAt?: Date | null
+): string | null => {
+  if (opensAt && closesAt && closesAt <= opensAt) {
+    return "Registration must close after it opens";
+  }
+  if (opensAt && opensAt >= start) {
+    return "Registration must open before the event starts";
+  }
+  if (closesAt && closesAt > start) {
+    return "Registration must close by the time the event starts";
+  }
+  return null;
+};
@@ -1,10 +1,28 @@
 import jwt from "jsonwebtoken";
-import { JWTPayload } from "../types/index.js";
+import {
+  EmailVerificationTokenPayload,
+  JWTPayload,
+  TicketTokenPayload,
+  TwoFactorChallengePayload,
+} from "../types/index.js";
 
 const JWT_SECRET = process.env.JWT_SECRET || "super-secret-jwt-key";
+// Access tokens are short-lived; sessions are kept alive with refresh tokens
+const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || "15m";
+// Tickets are signed with their own secret so they can never pass as auth tokens
+const TICKET_SECRET =
+  process.env.TICKET_SECRET || `${JWT_SECRET}-event-tickets`;
+const EMAIL_VERIFICATION_SECRET =
+  process.env.EMAIL_VERIFICATION_SECRET || `${JWT_SECRET}-email-verification`;
+const EMAIL_VERIFICATION_EXPIRES_IN =
+  process.env.EMAIL_VERIFICATION_EXPIRES_IN || "24h";
+// Bridges the password and second-factor login steps; never grants access
+const TWO_FACTOR_CHALLENGE_SECRET =
+  process.env.TWO_FACTOR_CHALLENGE_SECRET || `${JWT_SECRET}-two-factor`;
+const TWO_FACTOR_CHALLENGE_EXPIRES_IN = "5m";
 
 export const generateToken = (payload: JWTPayload): string => {
-  return jwt.sign(payload, JWT_SECRET, { expiresIn: "7d" });
+  return jwt.sign(payload, JWT_SECRET, { expiresIn: JWT_EXPIRES_IN });
 };
 
 export const verifyToken = (token: string): JWTPayload => {
@@ -15,6 +33,62 @@ export const verifyToken = (token: string): JWTPayload => {
   }
 };
 
+export const generateTicketToken = (payload: TicketTokenPayload): string => {
+  return jwt.sign(payload, TICKET_SECRET);
+};
+
+export const verifyTicketToken = (token: string): TicketTokenPayload => {
+  try {
+    return jwt.verify(token, TICKET_SECRET) as TicketTokenPayload;
+  } catch (error) {
+    throw new Error("Invalid ticket");
+  }
+};
+
+// Verification links carry the address they were sent to, so a link stops
+// working once the user changes their email
+export const generateEmailVerificationToken = (
+  payload: EmailVerificationTokenPayload
+): string => {
+  return jwt.sign(payload, EMAIL_VERIFICATION_SECRET, {
+    expiresIn: EMAIL_VERIFICATION_EXPIRES_IN,
+  });
+};
+
+export const verifyEmailVerificationToken = (
+  token: string
+): EmailVerificationTokenPayload => {
+  try {
+    return jwt.verify(
+      token,
+      EMAIL_VERIFICATION_SECRET
+    ) as EmailVerificationTokenPayload;
+  } catch (error) {
+    throw new Error("Invalid verification token");
+  }
+};
+
+export const generateTwoFactorChallengeToken = (
+  payload: TwoFactorChallengePayload
+): string => {
+  return jwt.sign(payload, TWO_FACTOR_CHALLENGE_SECRET, {
+    expiresIn: TWO_FACTOR_CHALLENGE_EXPIRES_IN,
+  });
+};
+
+export const verifyTwoFactorChallengeToken = (
+  token: string
+): TwoFactorChallengePayload => {
+  try {
+    return jwt.verify(
+      token,
+      TWO_FACTOR_CHALLENGE_SECRET
+    ) as TwoFactorChallengePayload;
+  } catch (error) {
+    throw new Error("Invalid two-factor challenge");
+  }
+};
+
 export const extractTokenFromHeader = (
   authHeader: string | undefined
 ): string | null => {
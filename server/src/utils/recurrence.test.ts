@@ -0,0 +1,176 @@
+import { describe, expect, it } from "vitest";
+import { expandRecurrence, parseRecurrenceRule } from "./recurrence.js";
+import { formatInTimeZone } from "./timeZone.js";
+
+const expand = (
+  rrule: string,
+  start: string,
+  timeZone = "UTC",
+  exceptions: string[] = []
+) => {
+  const { rule, error } = parseRecurrenceRule(rrule);
+  if (!rule) {
+    throw new Error(error);
+  }
+  return expandRecurrence(rule, new Date(start), exceptions, timeZone);
+};
+
+const local = (dates: Date[] = [], timeZone: string) =>
+  dates.map((date) => formatInTimeZone(date, timeZone));
+
+describe("parseRecurrenceRule", () => {
+  it("parses a weekly rule with days and a count", () => {
+    expect(
+      parseRecurrenceRule("RRULE:FREQ=WEEKLY;BYDAY=FR,MO;COUNT=4")
+    ).toEqual({
+      rule: { freq: "WEEKLY", interval: 1, count: 4, byDay: [0, 4] },
+    });
+  });
+
+  it("keeps a bare UNTIL date as a local date", () => {
+    expect(parseRecurrenceRule("FREQ=DAILY;UNTIL=20260131").rule).toEqual({
+      freq: "DAILY",
+      interval: 1,
+      untilDate: "2026-01-31",
+    });
+  });
+
+  it("reads an UNTIL date-time as UTC", () => {
+    expect(
+      parseRecurrenceRule("FREQ=DAILY;UNTIL=20260131T180000Z").rule?.until
+    ).toEqual(new Date("2026-01-31T18:00:00Z"));
+  });
+
+  it.each([
+    ["FREQ=YEARLY;COUNT=2", "FREQ must be DAILY, WEEKLY or MONTHLY"],
+    ["FREQ=DAILY", "Recurrence rules need a COUNT or UNTIL"],
+    [
+      "FREQ=DAILY;COUNT=2;UNTIL=20260131",
+      "Recurrence rules can't have both COUNT and UNTIL",
+    ],
+    ["FREQ=DAILY;BYDAY=MO;COUNT=2", "BYDAY is only supported for weekly rules"],
+    [
+      "FREQ=MONTHLY;BYMONTHDAY=32;COUNT=2",
+      "BYMONTHDAY must list days between 1 and 31",
+    ],
+  ])("rejects %s", (rrule, error) => {
+    expect(parseRecurrenceRule(rrule)).toEqual({ error });
+  });
+});
+
+describe("expandRecurrence", () => {
+  it("keeps the local start time across a daylight saving change", () => {
+    // Berlin moves to summer time on 2026-03-29
+    const { occurrences } = expand(
+      "FREQ=WEEKLY;COUNT=3",
+      "2026-03-20T18:00:00Z",
+      "Europe/Berlin"
+    );
+
+    expect(local(occurrences, "Europe/Berlin")).toEqual([
+      "2026-03-20T19:00:00+01:00",
+      "2026-03-27T19:00:00+01:00",
+      "2026-04-03T19:00:00+02:00",
+    ]);
+    expect(occurrences?.[2].toISOString()).toBe("2026-04-03T17:00:00.000Z");
+  });
+
+  it("keeps the local start time when daylight saving ends", () => {
+    // New York returns to standard time on 2026-11-01
+    const { occurrences } = expand(
+      "FREQ=DAILY;COUNT=3",
+      "2026-10-31T13:30:00Z",
+      "America/New_York"
+    );
+
+    expect(local(occurrences, "America/New_York")).toEqual([
+      "2026-10-31T09:30:00-04:00",
+      "2026-11-01T09:30:00-05:00",
+      "2026-11-02T09:30:00-05:00",
+    ]);
+  });
+
+  it("skips months too short for BYMONTHDAY", () => {
+    const { occurrences } = expand(
+      "FREQ=MONTHLY;BYMONTHDAY=31;COUNT=4",
+      "2026-01-31T10:00:00Z"
+    );
+
+    expect(occurrences?.map((date) => date.toISOString())).toEqual([
+      "2026-01-31T10:00:00.000Z",
+      "2026-03-31T10:00:00.000Z",
+      "2026-05-31T10:00:00.000Z",
+      "2026-07-31T10:00:00.000Z",
+    ]);
+  });
+
+  it("counts February 29 only in leap years", () => {
+    const { occurrences } = expand(
+      "FREQ=MONTHLY;INTERVAL=12;BYMONTHDAY=29;COUNT=2",
+      "2027-02-01T12:00:00Z"
+    );
+
+    expect(occurrences?.map((date) => date.toISOString())).toEqual([
+      "2028-02-29T12:00:00.000Z",
+      "2032-02-29T12:00:00.000Z",
+    ]);
+  });
+
+  it("leaves out a start that BYDAY doesn't match", () => {
+    // 2026-03-03 is a Tuesday
+    const { occurrences } = expand(
+      "FREQ=WEEKLY;BYDAY=MO,WE;COUNT=3",
+      "2026-03-03T09:00:00Z"
+    );
+
+    expect(occurrences?.map((date) => date.toISOString())).toEqual([
+      "2026-03-04T09:00:00.000Z",
+      "2026-03-09T09:00:00.000Z",
+      "2026-03-11T09:00:00.000Z",
+    ]);
+  });
+
+  it("ends a bare UNTIL date with that day in the series' zone", () => {
+    // 20:00 in New York is already the next day in UTC
+    const { occurrences } = expand(
+      "FREQ=DAILY;UNTIL=20260107",
+      "2026-01-06T01:00:00Z",
+      "America/New_York"
+    );
+
+    expect(local(occurrences, "America/New_York")).toEqual([
+      "2026-01-05T20:00:00-05:00",
+      "2026-01-06T20:00:00-05:00",
+      "2026-01-07T20:00:00-05:00",
+    ]);
+  });
+
+  it("applies COUNT before removing exceptions", () => {
+    const { occurrences } = expand(
+      "FREQ=DAILY;COUNT=3",
+      "2026-05-01T08:00:00Z",
+      "UTC",
+      ["2026-05-02"]
+    );
+
+    expect(occurrences?.map((date) => date.toISOString())).toEqual([
+      "2026-05-01T08:00:00.000Z",
+      "2026-05-03T08:00:00.000Z",
+    ]);
+  });
+
+  it("rejects rules with too many occurrences", () => {
+    expect(expand("FREQ=DAILY;COUNT=101", "2026-01-01T00:00:00Z")).toEqual({
+      error: "A series can have at most 100 occurrences",
+    });
+  });
+
+  it("rejects rules that never match", () => {
+    expect(
+      expand(
+        "FREQ=MONTHLY;INTERVAL=12;BYMONTHDAY=30;COUNT=1",
+        "2026-02-01T00:00:00Z"
+      )
+    ).toEqual({ error: "The recurrence rule produces no occurrences" });
+  });
+});
@@ -0,0 +1,238 @@
+// Subset of RFC 5545 recurrence rules used for event series:
+// FREQ=DAILY|WEEKLY|MONTHLY with INTERVAL, COUNT or UNTIL, BYDAY (weekly)
+// and BYMONTHDAY (monthly). Dates are expanded on the wall clock of the
+// event's time zone, so occurrences keep their local time across daylight
+// saving changes.
+
+import {
+  DEFAULT_TIME_ZONE,
+  formatInTimeZone,
+  fromZonedWallClock,
+  getZonedDayRange,
+  toZonedWallClock,
+} from "./timeZone.js";
+
+export const MAX_SERIES_OCCURRENCES = 100;
+const MAX_SERIES_PERIODS = 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Index 0 is Monday, the RFC 5545 default week start
+const WEEKDAYS = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"];
+
+export interface RecurrenceRule {
+  freq: "DAILY" | "WEEKLY" | "MONTHLY";
+  interval: number;
+  count?: number;
+  // UNTIL as a UTC date-time, or as a local date (YYYY-MM-DD) that covers
+  // the whole day in the series' time zone
+  until?: Date;
+  untilDate?: string;
+  byDay?: number[];
+  byMonthDay?: number[];
+}
+
+interface ParsedRule {
+  rule?: RecurrenceRule;
+  error?: string;
+}
+
+// UNTIL is either a date (20260131) or a UTC date-time (20260131T180000Z)
+const parseUntil = (
+  value: string
+): Pick<RecurrenceRule, "until" | "untilDate"> | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z)?$/.exec(
+    value
+  );
+  if (!match) {
+    return null;
+  }
+  const [, year, month, day, hour, minute, second] = match;
+  if (!hour) {
+    return { untilDate: `${year}-${month}-${day}` };
+  }
+  return {
+    until: new Date(
+      Date.UTC(
+        Number(year),
+        Number(month) - 1,
+        Number(day),
+        Number(hour),
+        Number(minute),
+        Number(second)
+      )
+    ),
+  };
+};
+
+export const parseRecurrenceRule = (rrule: string): ParsedRule => {
+  const parts = new Map<string, string>();
+  for (const part of rrule.replace(/^RRULE:/i, "").split(";")) {
+    const [key, value] = part.split("=");
+    if (!key || !value) {
+      return { error: `Invalid recurrence rule part "${part}"` };
+    }
+    parts.set(key.toUpperCase(), value.toUpperCase());
+  }
+
+  const freq = parts.get("FREQ");
+  if (freq !== "DAILY" && freq !== "WEEKLY" && freq !== "MONTHLY") {
+    return { error: "FREQ must be DAILY, WEEKLY or MONTHLY" };
+  }
+  const rule: RecurrenceRule = { freq, interval: 1 };
+
+  for (const [key, value] of parts) {
+    switch (key) {
+      case "FREQ":
+        break;
+      case "INTERVAL":
+        rule.interval = Number(value);
+        if (!Number.isInteger(rule.interval) || rule.interval < 1) {
+          return { error: "INTERVAL must be a positive integer" };
+        }
+        break;
+      case "COUNT":
+        rule.count = Number(value);
+        if (!Number.isInteger(rule.count) || rule.count < 1) {
+          return { error: "COUNT must be a positive integer" };
+        }
+        break;
+      case "UNTIL": {
+        const until = parseUntil(value);
+        if (!until) {
+          return { error: "UNTIL must be a date like 20260131" };
+        }
+        Object.assign(rule, until);
+        break;
+      }
+      case "BYDAY": {
+        if (freq !== "WEEKLY") {
+          return { error: "BYDAY is only supported for weekly rules" };
+        }
+        const days = value.split(",").map((day) => WEEKDAYS.indexOf(day));
+        if (days.includes(-1)) {
+          return { error: "BYDAY must list days like MO,WE,FR" };
+        }
+        rule.byDay = [...new Set(days)].sort((a, b) => a - b);
+        break;
+      }
+      case "BYMONTHDAY": {
+        if (freq !== "MONTHLY") {
+          return { error: "BYMONTHDAY is only supported for monthly rules" };
+        }
+        const days = value.split(",").map(Number);
+        if (days.some((day) => !Number.isInteger(day) || day < 1 || day > 31)) {
+          return { error: "BYMONTHDAY must list days between 1 and 31" };
+        }
+        rule.byMonthDay = [...new Set(days)].sort((a, b) => a - b);
+        break;
+      }
+      default:
+        return { error: `${key} is not supported in recurrence rules` };
+    }
+  }
+
+  const hasUntil = rule.until !== undefined || rule.untilDate !== undefined;
+  if (rule.count === undefined && !hasUntil) {
+    return { error: "Recurrence rules need a COUNT or UNTIL" };
+  }
+  if (rule.count !== undefined && hasUntil) {
+    return { error: "Recurrence rules can't have both COUNT and UNTIL" };
+  }
+
+  return { rule };
+};
+
+// Candidate wall-clock start times for the n-th period of the rule, in order
+const periodCandidates = (
+  rule: RecurrenceRule,
+  start: Date,
+  period: number
+): Date[] => {
+  const timeOfDay = start.getTime() % DAY_MS;
+  const startDay = start.getTime() - timeOfDay;
+
+  if (rule.freq === "DAILY") {
+    return [new Date(start.getTime() + period * rule.interval * DAY_MS)];
+  }
+
+  if (rule.freq === "WEEKLY") {
+    const startWeekday = (start.getUTCDay() + 6) % 7;
+    const weekStart =
+      startDay - startWeekday * DAY_MS + period * rule.interval * 7 * DAY_MS;
+    return (rule.byDay || [startWeekday]).map(
+      (weekday) => new Date(weekStart + weekday * DAY_MS + timeOfDay)
+    );
+  }
+
+  const year = start.getUTCFullYear();
+  const month = start.getUTCMonth() + period * rule.interval;
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return (
+    (rule.byMonthDay || [start.getUTCDate()])
+      // Months too short for the day are skipped, as RFC 5545 does
+      .filter((day) => day <= daysInMonth)
+      .map((day) => new Date(Date.UTC(year, month, day) + timeOfDay))
+  );
+};
+
+// Expand a rule into occurrence start times, none earlier than the series
+// start. The start itself only counts when it matches the rule, so a BYDAY
+// or BYMONTHDAY that leaves out its day skips it. Exceptions are local dates
+// (YYYY-MM-DD) to skip; as in RFC 5545, COUNT is applied before they are
+// removed.
+export const expandRecurrence = (
+  rule: RecurrenceRule,
+  start: Date,
+  exceptions: string[] = [],
+  timeZone: string = DEFAULT_TIME_ZONE
+): { occurrences?: Date[]; error?: string } => {
+  const skipped = new Set(exceptions.map((date) => date.slice(0, 10)));
+  const wallClockStart = new Date(toZonedWallClock(start, timeZone));
+  // Latest allowed start; a bare UNTIL date ends with its day in the zone
+  const until = rule.untilDate
+    ? new Date(getZonedDayRange(rule.untilDate, timeZone).end.getTime() - 1)
+    : rule.until;
+  const dates: Date[] = [];
+
+  // Rules like "the 30th of every 12th month" starting in February never
+  // match, so the number of periods looked at is bounded as well
+  for (
+    let period = 0;
+    period < MAX_SERIES_PERIODS && dates.length <= MAX_SERIES_OCCURRENCES;
+    period++
+  ) {
+    const candidates = periodCandidates(rule, wallClockStart, period)
+      .map((candidate) => fromZonedWallClock(candidate.getTime(), timeZone))
+      .filter((candidate) => candidate >= start);
+
+    const pastUntil = candidates.some(
+      (candidate) => until && candidate > until
+    );
+    dates.push(
+      ...candidates.filter((candidate) => !until || candidate <= until)
+    );
+
+    if (pastUntil || (rule.count !== undefined && dates.length >= rule.count)) {
+      break;
+    }
+  }
+
+  if (rule.count !== undefined) {
+    dates.splice(rule.count);
+  }
+  if (dates.length > MAX_SERIES_OCCURRENCES) {
+    return {
+      error: `A series can have at most ${MAX_SERIES_OCCURRENCES} occurrences`,
+    };
+  }
+
+  const occurrences = dates.filter(
+    (date) => !skipped.has(formatInTimeZone(date, timeZone).slice(0, 10))
+  );
+  if (occurrences.length === 0) {
+    return { error: "The recurrence rule produces no occurrences" };
+  }
+
+  return { occurrences };
+};
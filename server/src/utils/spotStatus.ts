@@ -0,0 +1,45 @@
+// Helper function to calculate spot status
+export const calculateSpotStatus = (event: any) => {
+  const now = new Date();
+  const eventDate = new Date(event.eventDate);
+  const endDate = new Date(event.endDate);
+
+  // A cancelled event stays listed but can no longer be booked
+  if (event.canceledAt) {
+    return "cancelled";
+  }
+
+  // Check if event has ended
+  if (endDate <= now) {
+    return "past-event";
+  }
+
+  // Started events can't be booked any more but are still running
+  if (eventDate <= now) {
+    return "in-progress";
+  }
+
+  // Outside the registration window nobody can book, whatever is left
+  if (
+    event.status === "closed" ||
+    (event.registrationClosesAt && new Date(event.registrationClosesAt) <= now)
+  ) {
+    return "registration-closed";
+  }
+  if (event.registrationOpensAt && new Date(event.registrationOpensAt) > now) {
+    return "registration-not-open";
+  }
+
+  // Check if fully booked
+  if (event.availableSpots === 0) {
+    return "fully-booked";
+  }
+
+  // Check if limited spots (5 or fewer)
+  if (event.availableSpots <= 5) {
+    return "limited";
+  }
+
+  // Otherwise available
+  return "available";
+};
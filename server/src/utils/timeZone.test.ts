@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatInTimeZone,
+  fromZonedWallClock,
+  getTimeZoneOffset,
+  getZonedDayRange,
+  isValidTimeZone,
+  parseInTimeZone,
+} from "./timeZone.js";
+
+describe("isValidTimeZone", () => {
+  it("accepts IANA zones and rejects unknown names", () => {
+    expect(isValidTimeZone("Europe/Berlin")).toBe(true);
+    expect(isValidTimeZone("UTC")).toBe(true);
+    expect(isValidTimeZone("Mars/Olympus_Mons")).toBe(false);
+  });
+});
+
+describe("getTimeZoneOffset", () => {
+  it("follows daylight saving time", () => {
+    expect(
+      getTimeZoneOffset(new Date("2026-01-15T12:00:00Z"), "Europe/Berlin")
+    ).toBe(60);
+    expect(
+      getTimeZoneOffset(new Date("2026-07-15T12:00:00Z"), "Europe/Berlin")
+    ).toBe(120);
+    expect(
+      getTimeZoneOffset(new Date("2026-07-15T12:00:00Z"), "Asia/Kolkata")
+    ).toBe(330);
+  });
+});
+
+describe("getZonedDayRange", () => {
+  it("covers a whole local day", () => {
+    expect(getZonedDayRange("2026-01-15", "America/New_York")).toEqual({
+      start: new Date("2026-01-15T05:00:00Z"),
+      end: new Date("2026-01-16T05:00:00Z"),
+    });
+  });
+
+  it("is 23 hours long when clocks go forward", () => {
+    const { start, end } = getZonedDayRange("2026-03-29", "Europe/Berlin");
+
+    expect(start).toEqual(new Date("2026-03-28T23:00:00Z"));
+    expect(end).toEqual(new Date("2026-03-29T22:00:00Z"));
+  });
+
+  it("is 25 hours long when clocks go back", () => {
+    const { start, end } = getZonedDayRange("2026-10-25", "Europe/Berlin");
+
+    expect(start).toEqual(new Date("2026-10-24T22:00:00Z"));
+    expect(end).toEqual(new Date("2026-10-25T23:00:00Z"));
+  });
+
+  it("handles the last day of the year", () => {
+    expect(getZonedDayRange("2026-12-31", "Pacific/Auckland")).toEqual({
+      start: new Date("2026-12-30T11:00:00Z"),
+      end: new Date("2026-12-31T11:00:00Z"),
+    });
+  });
+});
+
+describe("fromZonedWallClock", () => {
+  it("moves a time skipped by daylight saving to the next hour", () => {
+    // 02:30 doesn't exist in Berlin on 2026-03-29
+    const instant = fromZonedWallClock(
+      Date.UTC(2026, 2, 29, 2, 30),
+      "Europe/Berlin"
+    );
+
+    expect(formatInTimeZone(instant, "Europe/Berlin")).toBe(
+      "2026-03-29T03:30:00+02:00"
+    );
+  });
+});
+
+describe("parseInTimeZone", () => {
+  it("reads date-times without an offset in the zone", () => {
+    expect(parseInTimeZone("2026-03-01T19:00", "Europe/Berlin")).toEqual(
+      new Date("2026-03-01T18:00:00Z")
+    );
+  });
+
+  it("leaves date-times with an offset alone", () => {
+    expect(parseInTimeZone("2026-03-01T19:00:00Z", "Europe/Berlin")).toEqual(
+      new Date("2026-03-01T19:00:00Z")
+    );
+    expect(
+      parseInTimeZone("2026-03-01T19:00:00-05:00", "Europe/Berlin")
+    ).toEqual(new Date("2026-03-02T00:00:00Z"));
+  });
+});
+
+describe("formatInTimeZone", () => {
+  it("writes the wall-clock time with the zone's offset", () => {
+    const date = new Date("2026-03-01T18:00:00Z");
+
+    expect(formatInTimeZone(date, "Europe/Berlin")).toBe(
+      "2026-03-01T19:00:00+01:00"
+    );
+    expect(formatInTimeZone(date, "America/New_York")).toBe(
+      "2026-03-01T13:00:00-05:00"
+    );
+    expect(formatInTimeZone(date, "UTC")).toBe("2026-03-01T18:00:00+00:00");
+  });
+});
@@ -0,0 +1,122 @@
+// Helpers for IANA time zones ("Europe/Berlin"). Instants are stored in UTC;
+// a zone only changes how they are read and written as wall-clock times.
+
+export const DEFAULT_TIME_ZONE = "UTC";
+
+const MINUTE_MS = 60 * 1000;
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Minutes the zone is ahead of UTC at the given instant
+export const getTimeZoneOffset = (date: Date, timeZone: string): number => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    })
+      .formatToParts(date)
+      .map(({ type, value }) => [type, Number(value)])
+  );
+  const wallClock = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+  return Math.round(
+    (wallClock - (date.getTime() - date.getUTCMilliseconds())) / MINUTE_MS
+  );
+};
+
+// The wall-clock time in the zone, as a timestamp that reads the same in UTC
+export const toZonedWallClock = (date: Date, timeZone: string): number =>
+  date.getTime() + getTimeZoneOffset(date, timeZone) * MINUTE_MS;
+
+// The instant a wall-clock time (given as a UTC timestamp) happens in the
+// zone. Times skipped by a daylight saving change resolve to the next hour.
+export const fromZonedWallClock = (
+  wallClock: number,
+  timeZone: string
+): Date => {
+  const guess =
+    wallClock - getTimeZoneOffset(new Date(wallClock), timeZone) * MINUTE_MS;
+  // The offset can differ at the actual instant when a change falls between
+  return new Date(
+    wallClock - getTimeZoneOffset(new Date(guess), timeZone) * MINUTE_MS
+  );
+};
+
+// ISO 8601 with the zone's offset, e.g. 2026-03-01T19:00:00+01:00
+export const formatInTimeZone = (date: Date, timeZone: string): string => {
+  const offset = getTimeZoneOffset(date, timeZone);
+  const hours = String(Math.floor(Math.abs(offset) / 60)).padStart(2, "0");
+  const minutes = String(Math.abs(offset) % 60).padStart(2, "0");
+  return `${new Date(date.getTime() + offset * MINUTE_MS)
+    .toISOString()
+    .slice(0, 19)}${offset < 0 ? "-" : "+"}${hours}:${minutes}`;
+};
+
+// Date-times without an offset ("2026-03-01T19:00") are wall-clock times in
+// the zone; anything with "Z" or an offset is already an instant
+const LOCAL_DATE_TIME =
+  /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?$/;
+
+export const parseInTimeZone = (value: string, timeZone: string): Date => {
+  const match = LOCAL_DATE_TIME.exec(value);
+  if (!match) {
+    return new Date(value);
+  }
+  const [, year, month, day, hour, minute, second = "0"] = match;
+  return fromZonedWallClock(
+    Date.UTC(
+      Number(year),
+      Number(month) - 1,
+      Number(day),
+      Number(hour),
+      Number(minute),
+      Number(second)
+    ),
+    timeZone
+  );
+};
+
+// UTC bounds of a calendar day (YYYY-MM-DD) in the zone; the end is the
+// start of the next day, which DST changes can make 23 or 25 hours later
+export const getZonedDayRange = (
+  date: string,
+  timeZone: string
+): { start: Date; end: Date } => {
+  const [year, month, day] = date.split("-").map(Number);
+  return {
+    start: fromZonedWallClock(Date.UTC(year, month - 1, day), timeZone),
+    end: fromZonedWallClock(Date.UTC(year, month - 1, day + 1), timeZone),
+  };
+};
+
+// Human-readable time for notifications, e.g. "Sun, Mar 1, 2026, 7:00 PM CET"
+export const describeInTimeZone = (date: Date, timeZone: string): string =>
+  date.toLocaleString("en-US", {
+    timeZone,
+    weekday: "short",
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZoneName: "short",
+  });